@@ -1,5 +1,6 @@
 import { db, users, authTokens } from './src/models/database';
 import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
+import { sql } from 'drizzle-orm';
 
 console.log('Creating database tables...');
 
@@ -12,6 +13,9 @@ CREATE TABLE IF NOT EXISTS users (
   password TEXT NOT NULL,
   role TEXT NOT NULL DEFAULT 'user',
   is_active INTEGER NOT NULL DEFAULT 1,
+  email_verified INTEGER NOT NULL DEFAULT 0,
+  last_login_at TEXT,
+  login_count INTEGER DEFAULT 0,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL
 );
@@ -21,16 +25,250 @@ const createAuthTokensTable = `
 CREATE TABLE IF NOT EXISTS auth_tokens (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL,
+  family_id TEXT NOT NULL,
   refresh_token TEXT UNIQUE NOT NULL,
+  device_info TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
   expires_at TEXT NOT NULL,
+  last_used_at TEXT,
+  revoked_at TEXT,
+  replaced_by TEXT,
   created_at TEXT NOT NULL,
   FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
 );
 `;
 
+const createPasswordResetTokensTable = `
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createEmailVerificationTokensTable = `
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createUserSessionsTable = `
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  session_token TEXT UNIQUE NOT NULL,
+  device_info TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  is_active INTEGER DEFAULT 1,
+  expires_at TEXT NOT NULL,
+  last_activity_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createApiKeysTable = `
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,
+  user_id TEXT,
+  permissions TEXT DEFAULT '[]',
+  is_active INTEGER DEFAULT 1,
+  expires_at TEXT,
+  last_used_at TEXT,
+  usage_count INTEGER DEFAULT 0,
+  metadata TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createRolesTable = `
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT,
+  permissions TEXT DEFAULT '[]',
+  is_active INTEGER DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+`;
+
+const createUserRolesTable = `
+CREATE TABLE IF NOT EXISTS user_roles (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  role_id TEXT NOT NULL,
+  assigned_by TEXT,
+  assigned_at TEXT NOT NULL,
+  UNIQUE (user_id, role_id),
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  FOREIGN KEY (role_id) REFERENCES roles (id) ON DELETE CASCADE,
+  FOREIGN KEY (assigned_by) REFERENCES users (id)
+);
+`;
+
+const createUserMfaTable = `
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id TEXT PRIMARY KEY,
+  secret TEXT NOT NULL,
+  enabled_at TEXT,
+  last_used_step INTEGER,
+  recovery_codes TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createAuthSettingsTable = `
+CREATE TABLE IF NOT EXISTS auth_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_by TEXT,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (updated_by) REFERENCES users (id) ON DELETE SET NULL
+);
+`;
+
+const createSigningKeysTable = `
+CREATE TABLE IF NOT EXISTS signing_keys (
+  id TEXT PRIMARY KEY,
+  algorithm TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  private_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at TEXT NOT NULL,
+  retired_at TEXT
+);
+`;
+
+const createOAuthClientsTable = `
+CREATE TABLE IF NOT EXISTS oauth_clients (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  secret_hash TEXT,
+  redirect_uris TEXT NOT NULL DEFAULT '[]',
+  grant_types TEXT NOT NULL DEFAULT '[]',
+  scopes TEXT NOT NULL DEFAULT '[]',
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+);
+`;
+
+const createOAuthAuthorizationCodesTable = `
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+  code TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  redirect_uri TEXT NOT NULL,
+  scopes TEXT NOT NULL DEFAULT '[]',
+  code_challenge TEXT,
+  nonce TEXT,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients (id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+`;
+
+const createOAuthConsentsTable = `
+CREATE TABLE IF NOT EXISTS oauth_consents (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  scopes TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (user_id, client_id),
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients (id) ON DELETE CASCADE
+);
+`;
+
+const createOutboxTable = `
+CREATE TABLE IF NOT EXISTS outbox (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  data TEXT NOT NULL,
+  version TEXT,
+  correlation_id TEXT,
+  created_at TEXT NOT NULL,
+  published_at TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT
+);
+`;
+
+// Columns added to tables after their first release. CREATE TABLE IF NOT EXISTS
+// leaves existing tables alone, so databases created before a column was added
+// get it here. Added NOT NULL columns need a default, and a backfill where the
+// default is not a real value.
+const addedColumns: { table: string; column: string; definition: string; backfill?: string }[] = [
+  { table: 'users', column: 'email_verified', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'users', column: 'last_login_at', definition: 'TEXT' },
+  { table: 'users', column: 'login_count', definition: 'INTEGER DEFAULT 0' },
+  {
+    table: 'auth_tokens',
+    column: 'family_id',
+    definition: "TEXT NOT NULL DEFAULT ''",
+    backfill: "UPDATE auth_tokens SET family_id = id WHERE family_id = ''",
+  },
+  { table: 'auth_tokens', column: 'device_info', definition: 'TEXT' },
+  { table: 'auth_tokens', column: 'ip_address', definition: 'TEXT' },
+  { table: 'auth_tokens', column: 'user_agent', definition: 'TEXT' },
+  { table: 'auth_tokens', column: 'last_used_at', definition: 'TEXT' },
+  { table: 'auth_tokens', column: 'revoked_at', definition: 'TEXT' },
+  { table: 'auth_tokens', column: 'replaced_by', definition: 'TEXT' },
+];
+
+const addMissingColumns = () => {
+  for (const { table, column, definition, backfill } of addedColumns) {
+    const columns = db.all<{ name: string }>(sql.raw(`PRAGMA table_info(${table})`));
+    if (columns.some(existing => existing.name === column)) continue;
+
+    db.run(sql.raw(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`));
+    if (backfill) db.run(sql.raw(backfill));
+    console.log(`Added ${table}.${column}`);
+  }
+};
+
 try {
-  await db.run(createUserTable);
-  await db.run(createAuthTokensTable);
+  db.run(sql.raw(createUserTable));
+  db.run(sql.raw(createAuthTokensTable));
+  db.run(sql.raw(createPasswordResetTokensTable));
+  db.run(sql.raw(createEmailVerificationTokensTable));
+  db.run(sql.raw(createUserSessionsTable));
+  db.run(sql.raw(createApiKeysTable));
+  db.run(sql.raw(createRolesTable));
+  db.run(sql.raw(createUserRolesTable));
+  db.run(sql.raw(createUserMfaTable));
+  db.run(sql.raw(createAuthSettingsTable));
+  db.run(sql.raw(createSigningKeysTable));
+  db.run(sql.raw(createOAuthClientsTable));
+  db.run(sql.raw(createOAuthAuthorizationCodesTable));
+  db.run(sql.raw(createOAuthConsentsTable));
+  db.run(sql.raw(createOutboxTable));
+  addMissingColumns();
   console.log('Database tables created successfully!');
 } catch (error) {
   console.error('Error creating tables:', error);
@@ -1,3 +1,5 @@
+import type { SignOptions } from 'jsonwebtoken';
+
 // Local type definitions to avoid import issues
 interface ServiceConfig {
   name: string;
@@ -14,6 +16,16 @@ interface ServiceConfig {
     password?: string;
     db: number;
   };
+  events: {
+    enabled: boolean;
+    mode: 'pubsub' | 'streams';
+    redisDb: number;
+    outboxIntervalMs: number;
+  };
+  audit: {
+    enabled: boolean;
+    redisDb: number;
+  };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     pretty: boolean;
@@ -39,6 +51,16 @@ const config: ServiceConfig = {
     password: process.env.REDIS_PASSWORD,
     db: parseInt(process.env.REDIS_DB || '0', 10),
   },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    mode: (process.env.EVENTS_MODE as any) || 'streams', // Durable delivery via consumer groups
+    redisDb: parseInt(process.env.EVENTS_REDIS_DB || '0', 10), // Shared by all services
+    outboxIntervalMs: parseInt(process.env.EVENTS_OUTBOX_INTERVAL_MS || '1000', 10),
+  },
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    redisDb: parseInt(process.env.AUDIT_REDIS_DB || process.env.EVENTS_REDIS_DB || '0', 10), // One log for all services
+  },
   logging: {
     level: (process.env.LOG_LEVEL as any) || 'info',
     pretty: process.env.NODE_ENV !== 'production',
@@ -49,10 +71,70 @@ const config: ServiceConfig = {
   },
 };
 
+// Token lifetimes, e.g. '1h' or '7d'
+type TokenExpiry = NonNullable<SignOptions['expiresIn']>;
+
 export const jwtConfig = {
-  secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production',
-  accessTokenExpiry: process.env.JWT_ACCESS_EXPIRY || '1h',
-  refreshTokenExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
+  // Access tokens are signed with managed key pairs so other services can verify
+  // them from the JWKS without being able to mint them
+  algorithm: (process.env.JWT_ALGORITHM as 'RS256' | 'ES256') || 'RS256',
+  keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30', 10),
+  // How long a rotated key stays published; must exceed the access token expiry
+  keyRetentionHours: parseInt(process.env.JWT_KEY_RETENTION_HOURS || '24', 10),
+  // Refresh tokens are only ever verified here, so they keep a symmetric secret
+  refreshSecret:
+    process.env.JWT_REFRESH_SECRET || 'your-super-secret-refresh-key-change-this-in-production',
+  accessTokenExpiry: (process.env.JWT_ACCESS_EXPIRY || '1h') as TokenExpiry,
+  refreshTokenExpiry: (process.env.JWT_REFRESH_EXPIRY || '7d') as TokenExpiry,
+};
+
+export const mfaConfig = {
+  issuer: process.env.MFA_ISSUER || 'Bun Redis Starter', // Shown in authenticator apps
+  // MFA challenge tokens prove the password step of a login and use their own secret
+  challengeSecret:
+    process.env.MFA_CHALLENGE_SECRET || 'your-super-secret-mfa-key-change-this-in-production',
+  challengeExpiry: (process.env.MFA_CHALLENGE_EXPIRY || '5m') as TokenExpiry,
+  recoveryCodeCount: 10,
+};
+
+// OAuth2 / OpenID Connect provider. The issuer is the public URL of this service;
+// the consent page is the app page that signs the user in and asks them to approve
+// a client, and receives the authorization request as its query string.
+export const oauthConfig = {
+  issuer: process.env.OAUTH_ISSUER || `http://localhost:${config.port}`,
+  consentUrl: process.env.OAUTH_CONSENT_URL || 'http://localhost:3000/oauth/consent',
+  authorizationCodeExpirySeconds: 300,
+  accessTokenExpirySeconds: parseInt(process.env.OAUTH_ACCESS_TOKEN_EXPIRY_SECONDS || '3600', 10),
+};
+
+// Failed logins are counted in Redis per account (email) and per IP. Past the
+// free failures each further one adds an exponentially growing delay before the
+// next attempt; maxAccountFailures locks the account and maxIpFailures blocks the IP
+// for the rest of the window.
+export const loginProtection = {
+  failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15', 10),
+  maxAccountFailures: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5', 10),
+  maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '50', 10),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '30', 10),
+  accountFreeFailures: 2,
+  ipFreeFailures: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Service URLs for inter-service communication
+export const serviceUrls = {
+  notification: process.env.NOTIFICATION_SERVICE_URL || 'http://localhost:3005',
+};
+
+// API key this service presents to other services (X-API-Key)
+export const serviceApiKey = process.env.SERVICE_API_KEY;
+
+// Pages that receive the tokens mailed to users, as a `token` query parameter
+export const emailLinks = {
+  passwordReset: process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password',
+  emailVerification: process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email',
+  accountUnlock: process.env.ACCOUNT_UNLOCK_URL || 'http://localhost:3000/unlock-account',
 };
 
-export default config;
\ No newline at end of file
+export default config;
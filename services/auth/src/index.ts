@@ -1,10 +1,21 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import pino from 'pino';
+import { auditTrail } from 'shared-middleware';
 import config, { jwtConfig } from './config';
 import authRoutes from './routes/auth';
+import apiKeyRoutes from './routes/apiKeys';
+import roleRoutes from './routes/roles';
+import keyRoutes from './routes/keys';
+import mfaRoutes from './routes/mfa';
+import oauthRoutes from './routes/oauth';
+import auditRoutes from './routes/audit';
 import healthRoutes from './routes/health';
 import metricsRoutes from './routes/metrics';
 import { metricsMiddleware } from 'shared-monitoring';
+import { connectEventBus, disconnectEventBus } from './events';
+import { auditLog, connectAuditLog, disconnectAuditLog } from './audit';
+import { startOutboxRelay, stopOutboxRelay } from './events/outbox';
 
 // Initialize logger
 const logger = pino({
@@ -29,18 +40,18 @@ const app = new Hono();
 app.use('*', metricsMiddleware());
 
 // Basic middleware
-app.use('*', async (c, next) => {
+app.use('*', async (c: Context, next) => {
   const start = Date.now();
   const method = c.req.method;
   const url = c.req.url;
-  
+
   // Store logger reference for access in routes
-  (c as any).logger = logger;
+  c.set('logger', logger);
 
   logger.info({ method, url }, 'Request started');
-  
+
   await next();
-  
+
   const duration = Date.now() - start;
   const status = c.res.status;
   logger.info({ method, url, status, duration }, 'Request completed');
@@ -52,11 +63,14 @@ app.use('*', async (c, next) => {
     await next();
   } catch (error) {
     logger.error(error, 'Request error');
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
@@ -66,18 +80,21 @@ app.use('*', async (c, next) => {
   if (origin && config.cors.origin.includes(origin)) {
     c.res.headers.set('Access-Control-Allow-Origin', origin);
   }
-  
+
   if (config.cors.credentials) {
     c.res.headers.set('Access-Control-Allow-Credentials', 'true');
   }
-  
+
   c.res.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-  c.res.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  
+  c.res.headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-Requested-With'
+  );
+
   if (c.req.method === 'OPTIONS') {
     return c.text('', 204);
   }
-  
+
   await next();
 });
 
@@ -89,22 +106,37 @@ app.use('*', async (c, next) => {
   c.res.headers.set('X-XSS-Protection', '1; mode=block');
   c.res.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
   c.res.headers.set('Permissions-Policy', 'geolocation=(), microphone=(), camera=()');
-  
+
   // HSTS in production
   if (process.env.NODE_ENV === 'production') {
     c.res.headers.set('Strict-Transport-Security', 'max-age=31536000; includeSubDomains; preload');
   }
-  
+
   await next();
 });
 
+// Record mutating requests in the audit log
+app.use(
+  '*',
+  auditTrail(auditLog, {
+    // Checked by other services on every API key and access token request
+    skip: ['/auth/api-keys/validate', '/auth/sessions/status'],
+  })
+);
+
 // Routes
 app.route('/health', healthRoutes);
 app.route('/metrics', metricsRoutes);
+app.route('/', keyRoutes); // /.well-known/jwks.json and /auth/keys
+app.route('/', oauthRoutes); // /.well-known/openid-configuration and /oauth/*
+app.route('/auth/api-keys', apiKeyRoutes);
+app.route('/auth/audit', auditRoutes);
+app.route('/auth', roleRoutes);
+app.route('/auth', mfaRoutes);
 app.route('/auth', authRoutes);
 
 // Root endpoint
-app.get('/', (c) => {
+app.get('/', c => {
   return c.json({
     service: config.name,
     version: config.version,
@@ -120,23 +152,37 @@ const server = Bun.serve({
   fetch: app.fetch,
 });
 
-logger.info({
-  port: config.port,
-  host: config.host,
-  pid: process.pid,
-}, `🚀 ${config.name} v${config.version} is running!`);
+logger.info(
+  {
+    port: config.port,
+    host: config.host,
+    pid: process.pid,
+  },
+  `🚀 ${config.name} v${config.version} is running!`
+);
+
+// Connect to the domain event bus
+await connectEventBus(logger);
+await connectAuditLog(logger);
+startOutboxRelay(logger);
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
   server.stop();
+  await stopOutboxRelay();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
   server.stop();
+  await stopOutboxRelay();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-export default app;
\ No newline at end of file
+export default app;
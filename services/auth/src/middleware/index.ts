@@ -0,0 +1,38 @@
+import type { Context, Next } from 'hono';
+import { createErrorResponse, getTokenPermissions } from 'shared-utils';
+import { AuthService } from '../services/authService';
+import { KeyService } from '../services/keyService';
+
+const authService = new AuthService();
+const keyService = new KeyService();
+
+// Other services verify access tokens against the JWKS (see shared-middleware's
+// jwtAuth); auth-service checks them with its own keys and sessions table.
+// Stores the caller's permissions for shared-middleware's requirePermission.
+export const jwtAuth = () => {
+  return async (c: Context, next: Next) => {
+    const authorization = c.req.header('authorization');
+
+    if (!authorization) {
+      return c.json(createErrorResponse('Authorization header required'), 401);
+    }
+
+    const token = authorization.replace('Bearer ', '');
+
+    let payload: any;
+    try {
+      payload = keyService.verifyAccessToken(token);
+    } catch (error) {
+      return c.json(createErrorResponse('Invalid token'), 401);
+    }
+
+    // Access tokens stop working as soon as their session is revoked
+    if (payload.sid && !(await authService.isSessionActive(payload.sid))) {
+      return c.json(createErrorResponse('Session revoked'), 401);
+    }
+
+    c.set('user', payload);
+    c.set('permissions', getTokenPermissions(payload));
+    await next();
+  };
+};
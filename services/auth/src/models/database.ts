@@ -2,58 +2,91 @@ import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { Database } from 'bun:sqlite';
 import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import { createOutboxTable } from 'shared-utils';
+import type { JsonWebKey } from 'crypto';
 
 // User table schema
 export const users = sqliteTable('users', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
   email: text('email').notNull().unique(),
   name: text('name').notNull(),
   password: text('password').notNull(),
-  role: text('role', { enum: ['user', 'admin'] }).notNull().default('user'),
+  role: text('role', { enum: ['user', 'admin'] })
+    .notNull()
+    .default('user'),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   emailVerified: integer('email_verified', { mode: 'boolean' }).notNull().default(false),
   lastLoginAt: text('last_login_at'),
   loginCount: integer('login_count').default(0),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
-  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
-// Auth tokens table for refresh tokens
+// Auth tokens table for refresh tokens; every rotation adds a row to the login's token family
 export const authTokens = sqliteTable('auth_tokens', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  refreshToken: text('refresh_token').notNull().unique(),
-  deviceInfo: text('device_info'),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  familyId: text('family_id').notNull(),
+  refreshToken: text('refresh_token').notNull().unique(), // SHA-256 hash
+  deviceInfo: text('device_info'), // JSON string
   ipAddress: text('ip_address'),
   userAgent: text('user_agent'),
   expiresAt: text('expires_at').notNull(),
   lastUsedAt: text('last_used_at'),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  revokedAt: text('revoked_at'),
+  replacedBy: text('replaced_by'), // Token issued when this one was rotated
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // Password reset tokens
 export const passwordResetTokens = sqliteTable('password_reset_tokens', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').notNull().unique(),
   expiresAt: text('expires_at').notNull(),
   used: integer('used', { mode: 'boolean' }).default(false),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // Email verification tokens
 export const emailVerificationTokens = sqliteTable('email_verification_tokens', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
   token: text('token').notNull().unique(),
   expiresAt: text('expires_at').notNull(),
   used: integer('used', { mode: 'boolean' }).default(false),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // API Keys for service-to-service authentication
 export const apiKeys = sqliteTable('api_keys', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
   name: text('name').notNull(),
   keyHash: text('key_hash').notNull().unique(),
   userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
@@ -63,14 +96,22 @@ export const apiKeys = sqliteTable('api_keys', {
   lastUsedAt: text('last_used_at'),
   usageCount: integer('usage_count').default(0),
   metadata: text('metadata', { mode: 'json' }).$type<Record<string, any>>(),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
-  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // User sessions for concurrent login management
 export const userSessions = sqliteTable('user_sessions', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
   sessionToken: text('session_token').notNull().unique(),
   deviceInfo: text('device_info'),
   ipAddress: text('ip_address'),
@@ -78,29 +119,157 @@ export const userSessions = sqliteTable('user_sessions', {
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   expiresAt: text('expires_at').notNull(),
   lastActivityAt: text('last_activity_at').notNull(),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // Role-based permissions
 export const roles = sqliteTable('roles', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
   name: text('name').notNull().unique(),
   description: text('description'),
   permissions: text('permissions', { mode: 'json' }).$type<string[]>().default([]),
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
-  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
 // User role assignments (many-to-many)
 export const userRoles = sqliteTable('user_roles', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  roleId: text('role_id').notNull().references(() => roles.id, { onDelete: 'cascade' }),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  roleId: text('role_id')
+    .notNull()
+    .references(() => roles.id, { onDelete: 'cascade' }),
   assignedBy: text('assigned_by').references(() => users.id),
-  assignedAt: text('assigned_at').notNull().$defaultFn(() => new Date().toISOString()),
+  assignedAt: text('assigned_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+// TOTP second factor. The secret is stored on setup and only used for logins
+// once enabledAt is set; recovery codes are stored as SHA-256 hashes.
+export const userMfa = sqliteTable('user_mfa', {
+  userId: text('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(), // Base32
+  enabledAt: text('enabled_at'),
+  lastUsedStep: integer('last_used_step'), // Codes of this time step or earlier are rejected
+  recoveryCodes: text('recovery_codes', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+// Settings changed at runtime by admins, one JSON value per key
+export const authSettings = sqliteTable('auth_settings', {
+  key: text('key').primaryKey(),
+  value: text('value', { mode: 'json' }).notNull(),
+  updatedBy: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
 });
 
+// Keys signing access tokens. The active key signs; retired keys stay published
+// in the JWKS until the tokens they signed have expired.
+export const signingKeys = sqliteTable('signing_keys', {
+  id: text('id').primaryKey(), // Published as the `kid`
+  algorithm: text('algorithm', { enum: ['RS256', 'ES256'] }).notNull(),
+  publicKey: text('public_key', { mode: 'json' }).$type<JsonWebKey>().notNull(),
+  privateKey: text('private_key').notNull(), // PKCS#8 PEM
+  status: text('status', { enum: ['active', 'retired'] })
+    .notNull()
+    .default('active'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  retiredAt: text('retired_at'),
+});
+
+// Applications that sign users in through the OAuth2 / OpenID Connect provider.
+// Public clients have no secret and can only use the authorization code flow with PKCE.
+export const oauthClients = sqliteTable('oauth_clients', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()), // The client_id
+  name: text('name').notNull(),
+  secretHash: text('secret_hash'), // bcrypt; null for public clients
+  redirectUris: text('redirect_uris', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  grantTypes: text('grant_types', { mode: 'json' })
+    .$type<('authorization_code' | 'client_credentials')[]>()
+    .notNull()
+    .default([]),
+  scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull().default([]), // Scopes the client may request
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+// Authorization codes, exchanged once for tokens at the token endpoint
+export const oauthAuthorizationCodes = sqliteTable('oauth_authorization_codes', {
+  code: text('code').primaryKey(), // SHA-256 hash
+  clientId: text('client_id')
+    .notNull()
+    .references(() => oauthClients.id, { onDelete: 'cascade' }),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  redirectUri: text('redirect_uri').notNull(),
+  scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  codeChallenge: text('code_challenge'), // PKCE, S256
+  nonce: text('nonce'), // Echoed in the ID token
+  expiresAt: text('expires_at').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+// Scopes a user has approved for a client; one row per user and client
+export const oauthConsents = sqliteTable('oauth_consents', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  clientId: text('client_id')
+    .notNull()
+    .references(() => oauthClients.id, { onDelete: 'cascade' }),
+  scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+// Transactional outbox: events written in the same transaction as the change
+// they describe and relayed to the event bus after commit
+export const outbox = createOutboxTable();
+
 // Database setup
 const sqlite = new Database('./data/auth.db');
 export const db = drizzle(sqlite);
@@ -128,4 +297,18 @@ export type NewUserSession = typeof userSessions.$inferInsert;
 export type Role = typeof roles.$inferSelect;
 export type NewRole = typeof roles.$inferInsert;
 export type UserRole = typeof userRoles.$inferSelect;
-export type NewUserRole = typeof userRoles.$inferInsert;
\ No newline at end of file
+export type NewUserRole = typeof userRoles.$inferInsert;
+export type UserMfa = typeof userMfa.$inferSelect;
+export type NewUserMfa = typeof userMfa.$inferInsert;
+export type AuthSetting = typeof authSettings.$inferSelect;
+export type NewAuthSetting = typeof authSettings.$inferInsert;
+export type SigningKey = typeof signingKeys.$inferSelect;
+export type NewSigningKey = typeof signingKeys.$inferInsert;
+export type OAuthClient = typeof oauthClients.$inferSelect;
+export type NewOAuthClient = typeof oauthClients.$inferInsert;
+export type OAuthAuthorizationCode = typeof oauthAuthorizationCodes.$inferSelect;
+export type NewOAuthAuthorizationCode = typeof oauthAuthorizationCodes.$inferInsert;
+export type OAuthConsent = typeof oauthConsents.$inferSelect;
+export type NewOAuthConsent = typeof oauthConsents.$inferInsert;
+export type OutboxEvent = typeof outbox.$inferSelect;
+export type NewOutboxEvent = typeof outbox.$inferInsert;
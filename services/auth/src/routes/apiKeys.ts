@@ -0,0 +1,293 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import {
+  Permissions,
+  PERMISSION_PATTERN,
+  hasPermission,
+  getTokenPermissions,
+  createErrorResponse,
+  createSuccessResponse,
+} from 'shared-utils';
+import { setAuditDetails, requirePermission, validateBody } from 'shared-middleware';
+import type { ApiKey } from '../models/database';
+import { ApiKeyService } from '../services/apiKeyService';
+import { jwtAuth } from '../middleware';
+
+const apiKeyRoutes = new Hono();
+const apiKeyService = new ApiKeyService();
+
+const PermissionSchema = z.string().regex(PERMISSION_PATTERN, 'Invalid permission');
+
+// Validation schemas
+const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  permissions: z.array(PermissionSchema).default([]),
+  userId: z.string().optional(), // Owner; defaults to the user creating the key
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+const UpdateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  permissions: z.array(PermissionSchema).optional(),
+  isActive: z.boolean().optional(),
+  expiresAt: z.string().datetime().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+const ValidateApiKeySchema = z.object({
+  apiKey: z.string().min(1),
+});
+
+// Never return the key hash
+const toApiKeyResponse = ({ keyHash: _, ...key }: ApiKey) => key;
+
+// Key managers see every key; other users only see and revoke keys they own
+const ownerScope = (c: Context): string | undefined => {
+  const user = c.get('user');
+  return hasPermission(getTokenPermissions(user), Permissions.API_KEYS_MANAGE)
+    ? undefined
+    : user.userId;
+};
+
+// Keys can only carry permissions their creator holds
+const findUngrantable = (c: Context, permissions: string[] = []): string[] => {
+  const granted = getTokenPermissions(c.get('user'));
+  return permissions.filter(permission => !hasPermission(granted, permission));
+};
+
+// Validate a key for another service; unauthenticated, since the caller proves it holds the key
+apiKeyRoutes.post('/validate', validateBody(ValidateApiKeySchema), async (c: Context) => {
+  const { apiKey } = c.get('validatedBody');
+
+  try {
+    const result = await apiKeyService.validateApiKey(apiKey);
+    if (!result.valid || !result.keyData) {
+      return c.json(createErrorResponse(result.error || 'Invalid API key'), 401);
+    }
+
+    return c.json(
+      createSuccessResponse({
+        keyId: result.keyData.id,
+        userId: result.userId,
+        permissions: result.permissions,
+      })
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Validate API key error');
+    return c.json(createErrorResponse('Failed to validate API key'), 500);
+  }
+});
+
+apiKeyRoutes.use('*', jwtAuth());
+
+// Create an API key; the key itself is only returned here
+apiKeyRoutes.post(
+  '/',
+  requirePermission(Permissions.API_KEYS_MANAGE),
+  validateBody(CreateApiKeySchema),
+  async (c: Context) => {
+    const { userId, ...keyData } = c.get('validatedBody');
+    const user = c.get('user');
+    setAuditDetails(c, { action: 'api_key.create', resource: { type: 'api_key' } });
+
+    const ungrantable = findUngrantable(c, keyData.permissions);
+    if (ungrantable.length > 0) {
+      return c.json(
+        createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+        403
+      );
+    }
+
+    try {
+      const result = await apiKeyService.createApiKey({
+        ...keyData,
+        userId: userId || user.userId,
+      });
+      if (!result.success || !result.keyData) {
+        const status = result.error === 'User not found' ? 404 : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to create API key'), status);
+      }
+
+      setAuditDetails(c, {
+        resource: { type: 'api_key', id: result.keyData.id },
+        after: toApiKeyResponse(result.keyData),
+      });
+
+      return c.json(
+        createSuccessResponse(
+          {
+            apiKey: result.apiKey,
+            key: toApiKeyResponse(result.keyData),
+          },
+          'API key created successfully; store it now, it cannot be shown again'
+        ),
+        201
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Create API key error');
+      return c.json(createErrorResponse('Failed to create API key'), 500);
+    }
+  }
+);
+
+// List API keys: all of them for key managers, your own otherwise
+apiKeyRoutes.get('/', async (c: Context) => {
+  try {
+    const userId = ownerScope(c);
+    const keys = userId
+      ? await apiKeyService.listUserApiKeys(userId)
+      : await apiKeyService.listAllApiKeys();
+
+    return c.json(createSuccessResponse(keys.map(toApiKeyResponse)));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List API keys error');
+    return c.json(createErrorResponse('Failed to list API keys'), 500);
+  }
+});
+
+// Delete expired API keys
+apiKeyRoutes.post(
+  '/cleanup',
+  requirePermission(Permissions.API_KEYS_MANAGE),
+  async (c: Context) => {
+    try {
+      const deleted = await apiKeyService.cleanupExpiredKeys();
+      return c.json(createSuccessResponse({ deleted }, `Deleted ${deleted} expired API key(s)`));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Cleanup API keys error');
+      return c.json(createErrorResponse('Failed to clean up API keys'), 500);
+    }
+  }
+);
+
+// Get an API key
+apiKeyRoutes.get('/:id', async (c: Context) => {
+  try {
+    const key = await apiKeyService.getApiKey(c.req.param('id'), ownerScope(c));
+    if (!key) {
+      return c.json(createErrorResponse('API key not found'), 404);
+    }
+
+    return c.json(createSuccessResponse(toApiKeyResponse(key)));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get API key error');
+    return c.json(createErrorResponse('Failed to get API key'), 500);
+  }
+});
+
+// Get usage statistics of an API key
+apiKeyRoutes.get('/:id/usage', async (c: Context) => {
+  try {
+    const result = await apiKeyService.getUsageStats(c.req.param('id'), ownerScope(c));
+    if (result.error) {
+      const status = result.error === 'API key not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error), status);
+    }
+
+    return c.json(createSuccessResponse({ keyId: result.keyData!.id, ...result.stats }));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get API key usage error');
+    return c.json(createErrorResponse('Failed to get API key usage'), 500);
+  }
+});
+
+// Update an API key
+apiKeyRoutes.put(
+  '/:id',
+  requirePermission(Permissions.API_KEYS_MANAGE),
+  validateBody(UpdateApiKeySchema),
+  async (c: Context) => {
+    const updates = c.get('validatedBody');
+    setAuditDetails(c, {
+      action: 'api_key.update',
+      resource: { type: 'api_key', id: c.req.param('id') },
+    });
+
+    const ungrantable = findUngrantable(c, updates.permissions);
+    if (ungrantable.length > 0) {
+      return c.json(
+        createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+        403
+      );
+    }
+
+    try {
+      const previous = await apiKeyService.getApiKey(c.req.param('id'));
+      const result = await apiKeyService.updateApiKey(c.req.param('id'), updates);
+      if (!result.success || !result.keyData) {
+        const status = result.error === 'API key not found' ? 404 : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to update API key'), status);
+      }
+
+      setAuditDetails(c, {
+        before: previous && toApiKeyResponse(previous),
+        after: toApiKeyResponse(result.keyData),
+      });
+
+      return c.json(
+        createSuccessResponse(toApiKeyResponse(result.keyData), 'API key updated successfully')
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Update API key error');
+      return c.json(createErrorResponse('Failed to update API key'), 500);
+    }
+  }
+);
+
+// Revoke an API key; it stays listed with its usage history
+apiKeyRoutes.post('/:id/revoke', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'api_key.revoke',
+    resource: { type: 'api_key', id: c.req.param('id') },
+  });
+
+  try {
+    const result = await apiKeyService.revokeApiKey(c.req.param('id'), ownerScope(c));
+    if (!result.success) {
+      const status = result.error === 'API key not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to revoke API key'), status);
+    }
+
+    return c.json(createSuccessResponse(null, 'API key revoked successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Revoke API key error');
+    return c.json(createErrorResponse('Failed to revoke API key'), 500);
+  }
+});
+
+// Delete an API key
+apiKeyRoutes.delete('/:id', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'api_key.delete',
+    resource: { type: 'api_key', id: c.req.param('id') },
+  });
+
+  try {
+    const previous = await apiKeyService.getApiKey(c.req.param('id'), ownerScope(c));
+    const result = await apiKeyService.deleteApiKey(c.req.param('id'), ownerScope(c));
+    if (!result.success) {
+      const status = result.error === 'API key not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to delete API key'), status);
+    }
+
+    setAuditDetails(c, { before: previous && toApiKeyResponse(previous) });
+
+    return c.json(createSuccessResponse(null, 'API key deleted successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Delete API key error');
+    return c.json(createErrorResponse('Failed to delete API key'), 500);
+  }
+});
+
+export default apiKeyRoutes;
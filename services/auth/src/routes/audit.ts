@@ -0,0 +1,76 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { Permissions, createErrorResponse, createSuccessResponse } from 'shared-utils';
+import { requirePermission, validateQuery } from 'shared-middleware';
+import { auditLog } from '../audit';
+import { jwtAuth } from '../middleware';
+
+const auditRoutes = new Hono();
+
+// Validation schemas
+const QueryAuditSchema = z.object({
+  actorId: z.string().optional(),
+  actorType: z.enum(['user', 'api_key', 'client', 'anonymous']).optional(),
+  action: z.string().optional(),
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  service: z.string().optional(),
+  outcome: z.enum(['success', 'failure']).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  cursor: z
+    .string()
+    .regex(/^\d+-\d+$/, 'Invalid cursor')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const VerifyAuditSchema = z.object({
+  fromId: z
+    .string()
+    .regex(/^\d+-\d+$/, 'Invalid entry ID')
+    .optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+auditRoutes.use('*', jwtAuth(), requirePermission(Permissions.AUDIT_READ));
+
+// Audit entries of all services, newest first; pass nextCursor as cursor for the next page
+auditRoutes.get('/', validateQuery(QueryAuditSchema), async (c: Context) => {
+  if (!auditLog.isConnected()) {
+    return c.json(createErrorResponse('Audit log unavailable'), 503);
+  }
+
+  try {
+    const result = await auditLog.query(c.get('validatedQuery'));
+    return c.json(createSuccessResponse(result));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Query audit log error');
+    return c.json(createErrorResponse('Failed to query audit log'), 500);
+  }
+});
+
+// Check the hash chain; brokenAt is the first entry that was altered, removed or inserted
+auditRoutes.get('/verify', validateQuery(VerifyAuditSchema), async (c: Context) => {
+  if (!auditLog.isConnected()) {
+    return c.json(createErrorResponse('Audit log unavailable'), 503);
+  }
+
+  try {
+    const result = await auditLog.verify(c.get('validatedQuery'));
+    return c.json(
+      createSuccessResponse(
+        result,
+        result.valid ? 'Audit log intact' : 'Audit log has been tampered with'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Verify audit log error');
+    return c.json(createErrorResponse('Failed to verify audit log'), 500);
+  }
+});
+
+export default auditRoutes;
@@ -1,99 +1,278 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, sql } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
-import { db, users, authTokens, type User, type NewUser } from '../models/database';
-import { jwtConfig } from '../config';
+import {
+  Permissions,
+  DEFAULT_ROLE_PERMISSIONS,
+  hasPermission,
+  getTokenPermissions,
+  createErrorResponse,
+} from 'shared-utils';
+import {
+  setAuditDetails,
+  getClientIp,
+  requirePermission,
+  validateBody,
+  validateQuery,
+} from 'shared-middleware';
+import { db, users, type User, type NewUser, type UserSession } from '../models/database';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import { TokenService } from '../services/tokenService';
+import { AuthService, type DeviceInfo } from '../services/authService';
+import { NotificationClient } from '../services/notificationClient';
+import { RoleService } from '../services/roleService';
+import { MfaService } from '../services/mfaService';
+import { LoginAttemptService } from '../services/loginAttemptService';
+import { UserService } from '../services/userService';
+import { jwtAuth } from '../middleware';
 
 const auth = new Hono();
+const authService = new AuthService();
+const tokenService = new TokenService();
+const notificationClient = new NotificationClient();
+const mfaService = new MfaService();
+const roleService = new RoleService();
+const loginAttempts = new LoginAttemptService();
+const userService = new UserService();
 
 // Validation schemas
+// Everyone registers with the default role; only users:manage can change roles
 const CreateUserSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
   name: z.string().min(2),
-  role: z.enum(['user', 'admin']).default('user'),
 });
 
 const LoginSchema = z.object({
   email: z.string().email(),
   password: z.string(),
+  deviceInfo: z
+    .object({
+      deviceType: z.string().optional(),
+      platform: z.string().optional(),
+    })
+    .optional(),
 });
 
+const MfaLoginSchema = z
+  .object({
+    mfaToken: z.string().min(1),
+    code: z
+      .string()
+      .regex(/^\d{6}$/, 'MFA codes are 6 digits')
+      .optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine(factor => factor.code || factor.recoveryCode, 'MFA code or recovery code required');
+
+const MfaChallengeSchema = z.object({
+  mfaToken: z.string().min(1),
+});
+
+const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+const VerifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const UnlockAccountSchema = z.object({
+  token: z.string().min(1),
+});
+
+const SessionStatusSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+// Roles are not self-service
 const UpdateUserSchema = CreateUserSchema.partial().omit({ password: true });
 
+const AdminUpdateUserSchema = UpdateUserSchema.extend({
+  role: z.enum(['user', 'admin']).optional(),
+});
+
+const BooleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const QueryUsersSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().min(1).optional(),
+  email: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  role: z.enum(['user', 'admin']).optional(),
+  isActive: BooleanQuerySchema.optional(),
+  emailVerified: BooleanQuerySchema.optional(),
+  lastLoginAfter: z.string().datetime().optional(),
+  lastLoginBefore: z.string().datetime().optional(),
+  neverLoggedIn: BooleanQuerySchema.optional(),
+  sortBy: z.enum(['createdAt', 'email', 'name', 'lastLoginAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
 // Utility functions
-const createSuccessResponse = <T>(data: T, message?: string) => ({
+const createSuccessResponse = <T>(data: T, message?: string, pagination?: any) => ({
   success: true,
   data,
   message,
+  pagination,
   timestamp: new Date().toISOString(),
 });
 
-const createErrorResponse = (error: string, message?: string) => ({
-  success: false,
-  error,
-  message,
-  timestamp: new Date().toISOString(),
+const getRequestDeviceInfo = (c: Context): DeviceInfo => ({
+  ipAddress: getClientIp(c),
+  userAgent: c.req.header('user-agent'),
 });
 
-const validateBody = (schema: z.ZodSchema) => {
-  return async (c: Context, next: any) => {
-    try {
-      const body = await c.req.json();
-      const validatedBody = schema.parse(body);
-      (c as any).validatedBody = validatedBody;
-      await next();
-    } catch (error) {
-      const logger = (c as any).logger;
-      logger.error(error, 'Request validation error');
-      return c.json(createErrorResponse('Validation error', error instanceof Error ? error.message : 'Invalid request body'), 400);
-    }
-  };
+// Never return the password hash
+const toUserResponse = ({ password: _, ...user }: User) => user;
+
+// Attempts are counted per client address
+const getAttemptIp = (c: Context): string => getClientIp(c) || 'unknown';
+
+// Refuse the attempt while the account is locked or the client has to back off
+const rejectLoginAttempt = async (c: Context, email: string) => {
+  const check = await loginAttempts.check(email, getAttemptIp(c));
+  if (check.allowed) {
+    return null;
+  }
+
+  c.header('Retry-After', String(check.retryAfterSeconds));
+  return check.reason === 'locked'
+    ? c.json(
+        createErrorResponse(
+          'Account temporarily locked',
+          'Too many failed login attempts; try again later or use the unlock link sent by email'
+        ),
+        423
+      )
+    : c.json(createErrorResponse('Too many login attempts', 'Wait before trying again'), 429);
 };
 
-const jwtAuth = (secret: string) => {
-  return async (c: Context, next: any) => {
-    const authorization = c.req.header('authorization');
-    
-    if (!authorization) {
-      return c.json(createErrorResponse('Authorization header required'), 401);
-    }
+// Count a failed login and report it; the failure that locks an account also
+// emails its owner a link to unlock it
+const recordLoginFailure = async (
+  c: Context,
+  email: string,
+  user: User | undefined,
+  reason: 'unknown_user' | 'invalid_password' | 'invalid_mfa_code'
+) => {
+  const correlationId = c.req.header('x-correlation-id');
+  const { ipAddress, userAgent } = getRequestDeviceInfo(c);
+  const result = await loginAttempts.recordFailure(email, getAttemptIp(c));
 
-    const token = authorization.replace('Bearer ', '');
-    
-    try {
-      const payload = jwt.verify(token, secret);
-      (c as any).user = payload;
-      await next();
-    } catch (error) {
-      return c.json(createErrorResponse('Invalid token'), 401);
+  enqueueEvent(
+    db,
+    EventTypes.USER_LOGIN_FAILED,
+    {
+      email,
+      userId: user?.id,
+      reason,
+      failures: result.failures,
+      ipAddress,
+      userAgent,
+    },
+    correlationId
+  );
+
+  if (!user || !result.locked || !result.unlockToken || !result.lockedUntil) {
+    return;
+  }
+
+  enqueueEvent(
+    db,
+    EventTypes.USER_LOCKED,
+    {
+      userId: user.id,
+      email: user.email,
+      lockedUntil: result.lockedUntil,
+      ipAddress,
+    },
+    correlationId
+  );
+
+  const logger = c.get('logger');
+  notificationClient.sendAccountLockedEmail(user, result.unlockToken, correlationId).then(sent => {
+    if (!sent.success) {
+      logger.warn({ userId: user.id, error: sent.error }, 'Failed to send account locked email');
     }
-  };
+  });
 };
 
-const requireRole = (roles: string[]) => {
-  return async (c: Context, next: any) => {
-    const user = (c as any).user;
-    
-    if (!user) {
-      return c.json(createErrorResponse('Authentication required'), 401);
-    }
+// Create a verification token and mail it; the result says whether the email went out
+const sendVerificationEmail = async (
+  user: Pick<User, 'id' | 'email' | 'name'>,
+  correlationId?: string
+): Promise<{ success: boolean; error?: string }> => {
+  const result = await authService.createEmailVerificationToken(user.id);
+  if (!result.success || !result.token) {
+    return { success: false, error: result.error };
+  }
 
-    if (!roles.includes(user.role)) {
-      return c.json(createErrorResponse('Insufficient permissions'), 403);
-    }
+  return notificationClient.sendVerificationEmail(user, result.token, correlationId);
+};
+
+// Sessions are listed without their token, which is the ID of their refresh token family
+const toSessionResponse = (session: UserSession, currentSessionId?: string) => ({
+  id: session.id,
+  deviceInfo: session.deviceInfo ? JSON.parse(session.deviceInfo) : {},
+  ipAddress: session.ipAddress,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt,
+  lastActivityAt: session.lastActivityAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId,
+});
+
+// Start a session for a user who passed every login step
+const completeLogin = (c: Context, user: User, deviceInfo: DeviceInfo, mfa: boolean) => {
+  // Each login starts a new session with its own refresh token family
+  const tokens = db.transaction(tx => {
+    const issued = tokenService.startSession(tx, user, deviceInfo);
 
-    await next();
-  };
+    // Not a profile change, so updatedAt is left alone
+    tx.update(users)
+      .set({ lastLoginAt: new Date().toISOString(), loginCount: sql`${users.loginCount} + 1` })
+      .where(eq(users.id, user.id))
+      .run();
+
+    enqueueEvent(
+      tx,
+      EventTypes.USER_LOGIN,
+      {
+        userId: user.id,
+        email: user.email,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        mfa,
+      },
+      c.req.header('x-correlation-id')
+    );
+
+    return issued;
+  });
+
+  const userResponse = toUserResponse(user);
+
+  return { user: userResponse, tokens };
 };
 
 // Register new user
 auth.post('/register', validateBody(CreateUserSchema), async (c: Context) => {
-  const userData = (c as any).validatedBody;
-  
+  const userData = c.get('validatedBody');
+
   try {
     // Check if user already exists
     const existingUser = await db.select().from(users).where(eq(users.email, userData.email));
@@ -109,17 +288,51 @@ auth.post('/register', validateBody(CreateUserSchema), async (c: Context) => {
       email: userData.email,
       name: userData.name,
       password: hashedPassword,
-      role: userData.role || 'user',
+      role: 'user',
     };
 
-    const [createdUser] = await db.insert(users).values(newUser).returning();
-    
-    // Remove password from response
-    const { password: _, ...userResponse } = createdUser;
+    // The user and its event are committed together
+    const createdUser = db.transaction(tx => {
+      const [user] = tx.insert(users).values(newUser).returning().all();
+
+      enqueueEvent(
+        tx,
+        EventTypes.USER_REGISTERED,
+        {
+          userId: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        c.req.header('x-correlation-id')
+      );
+
+      return user;
+    });
+
+    // Registration succeeds even if the email fails; it can be resent
+    const logger = c.get('logger');
+    sendVerificationEmail(createdUser, c.req.header('x-correlation-id')).then(result => {
+      if (!result.success) {
+        logger.warn(
+          { userId: createdUser.id, error: result.error },
+          'Failed to send verification email'
+        );
+      }
+    });
+
+    const userResponse = toUserResponse(createdUser);
+
+    setAuditDetails(c, {
+      action: 'user.register',
+      actor: { type: 'user', id: createdUser.id, email: createdUser.email },
+      resource: { type: 'user', id: createdUser.id },
+      after: userResponse,
+    });
 
     return c.json(createSuccessResponse(userResponse, 'User registered successfully'), 201);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Registration error');
     return c.json(createErrorResponse('Registration failed'), 500);
   }
@@ -127,14 +340,27 @@ auth.post('/register', validateBody(CreateUserSchema), async (c: Context) => {
 
 // Login user
 auth.post('/login', validateBody(LoginSchema), async (c: Context) => {
-  const loginData = (c as any).validatedBody;
-  
+  const loginData = c.get('validatedBody');
+  setAuditDetails(c, {
+    action: 'user.login',
+    actor: { type: 'anonymous', email: loginData.email },
+    resource: { type: 'user' },
+  });
+
   try {
+    const rejected = await rejectLoginAttempt(c, loginData.email);
+    if (rejected) {
+      return rejected;
+    }
+
     // Find user by email
     const [user] = await db.select().from(users).where(eq(users.email, loginData.email));
     if (!user) {
+      // Unknown emails are counted like real ones so lockouts do not reveal which accounts exist
+      await recordLoginFailure(c, loginData.email, undefined, 'unknown_user');
       return c.json(createErrorResponse('Invalid credentials'), 401);
     }
+    setAuditDetails(c, { resource: { type: 'user', id: user.id } });
 
     // Check if user is active
     if (!user.isActive) {
@@ -144,115 +370,780 @@ auth.post('/login', validateBody(LoginSchema), async (c: Context) => {
     // Verify password
     const isValidPassword = await bcrypt.compare(loginData.password, user.password);
     if (!isValidPassword) {
+      await recordLoginFailure(c, loginData.email, user, 'invalid_password');
       return c.json(createErrorResponse('Invalid credentials'), 401);
     }
+    setAuditDetails(c, { actor: { type: 'user', id: user.id, email: user.email } });
 
-    // Generate tokens
-    const tokenPayload = { 
-      userId: user.id, 
-      email: user.email, 
-      role: user.role 
-    };
+    // With MFA the password only earns a challenge token for the second step
+    const mfaRequirement = await mfaService.getLoginRequirement(user);
+    if (mfaRequirement !== 'none') {
+      setAuditDetails(c, { metadata: { mfaRequired: true } });
+      const mfaToken = mfaService.createChallengeToken({
+        userId: user.id,
+        enroll: mfaRequirement === 'enroll',
+        deviceInfo: loginData.deviceInfo,
+      });
 
-    const accessToken = jwt.sign(tokenPayload, jwtConfig.secret, { expiresIn: jwtConfig.accessTokenExpiry } as any);
-    const refreshToken = jwt.sign(tokenPayload, jwtConfig.secret, { expiresIn: jwtConfig.refreshTokenExpiry } as any);
+      return c.json(
+        createSuccessResponse(
+          {
+            mfaRequired: true,
+            enrollmentRequired: mfaRequirement === 'enroll',
+            mfaToken,
+          },
+          mfaRequirement === 'enroll' ? 'MFA setup required' : 'MFA code required'
+        )
+      );
+    }
 
-    // Store refresh token
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
+    await loginAttempts.recordSuccess(user.email);
+    const deviceInfo = { ...loginData.deviceInfo, ...getRequestDeviceInfo(c) };
 
-    await db.insert(authTokens).values({
-      userId: user.id,
-      refreshToken,
-      expiresAt: expiresAt.toISOString(),
+    return c.json(
+      createSuccessResponse(completeLogin(c, user, deviceInfo, false), 'Login successful')
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Login error');
+    return c.json(createErrorResponse('Login failed'), 500);
+  }
+});
+
+// Set up MFA during a login that requires it; returns the secret to add to an authenticator app
+auth.post('/login/mfa/setup', validateBody(MfaChallengeSchema), async (c: Context) => {
+  const { mfaToken } = c.get('validatedBody');
+
+  try {
+    const challenge = mfaService.verifyChallengeToken(mfaToken);
+    if (!challenge || !challenge.enroll) {
+      return c.json(createErrorResponse('Invalid or expired MFA token'), 401);
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, challenge.userId));
+    if (!user || !user.isActive) {
+      return c.json(createErrorResponse('Invalid or expired MFA token'), 401);
+    }
+
+    const result = await mfaService.beginSetup(user);
+    if (!result.success) {
+      const status = result.error === 'MFA already enabled' ? 409 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to set up MFA'), status);
+    }
+
+    return c.json(
+      createSuccessResponse(
+        {
+          secret: result.secret,
+          otpauthUri: result.otpauthUri,
+        },
+        'Add the secret to your authenticator app, then log in with a code'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'MFA login setup error');
+    return c.json(createErrorResponse('Failed to set up MFA'), 500);
+  }
+});
+
+// Second login step: a TOTP or recovery code for the challenge token. When MFA was
+// being set up, the first code also enables it and the recovery codes are returned.
+auth.post('/login/mfa', validateBody(MfaLoginSchema), async (c: Context) => {
+  const { mfaToken, code, recoveryCode } = c.get('validatedBody');
+
+  try {
+    const challenge = mfaService.verifyChallengeToken(mfaToken);
+    if (!challenge) {
+      return c.json(createErrorResponse('Invalid or expired MFA token'), 401);
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, challenge.userId));
+    if (!user || !user.isActive) {
+      return c.json(createErrorResponse('Invalid or expired MFA token'), 401);
+    }
+    // Until the code checks out, the caller only holds a challenge token
+    setAuditDetails(c, {
+      action: 'user.login',
+      actor: { type: 'anonymous', email: user.email },
+      resource: { type: 'user', id: user.id },
+      metadata: { mfa: true },
     });
 
-    // Remove password from user response
-    const { password: _, ...userResponse } = user;
+    // Guessing codes counts towards the same lockout as guessing passwords
+    const rejected = await rejectLoginAttempt(c, user.email);
+    if (rejected) {
+      return rejected;
+    }
+
+    const status = await mfaService.getStatus(user);
+    let recoveryCodes: string[] | undefined;
 
-    return c.json(createSuccessResponse({
-      user: userResponse,
-      tokens: {
-        accessToken,
-        refreshToken,
-        expiresIn: 3600, // 1 hour in seconds
-        tokenType: 'Bearer' as const,
+    if (status.enabled) {
+      const verified = await mfaService.verify(user.id, { code, recoveryCode });
+      if (!verified.success) {
+        await recordLoginFailure(c, user.email, user, 'invalid_mfa_code');
+        return c.json(createErrorResponse(verified.error || 'Invalid MFA code'), 401);
       }
-    }, 'Login successful'));
+    } else {
+      // MFA was reset since the challenge was issued
+      if (!challenge.enroll) {
+        return c.json(createErrorResponse('Invalid or expired MFA token'), 401);
+      }
+      if (!code) {
+        return c.json(createErrorResponse('MFA code required to finish setup'), 400);
+      }
+
+      const enabled = await mfaService.enable(user.id, code, c.req.header('x-correlation-id'));
+      if (!enabled.success) {
+        if (enabled.error === 'Invalid MFA code') {
+          await recordLoginFailure(c, user.email, user, 'invalid_mfa_code');
+        }
+        return c.json(
+          createErrorResponse(enabled.error || 'Failed to enable MFA'),
+          enabled.error === 'Invalid MFA code' ? 401 : 400
+        );
+      }
+      recoveryCodes = enabled.recoveryCodes;
+    }
 
+    await loginAttempts.recordSuccess(user.email);
+    setAuditDetails(c, { actor: { type: 'user', id: user.id, email: user.email } });
+    const deviceInfo = { ...challenge.deviceInfo, ...getRequestDeviceInfo(c) };
+
+    return c.json(
+      createSuccessResponse(
+        {
+          ...completeLogin(c, user, deviceInfo, true),
+          ...(recoveryCodes && { recoveryCodes }),
+        },
+        'Login successful'
+      )
+    );
   } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Login error');
+    const logger = c.get('logger');
+    logger.error(error, 'MFA login error');
     return c.json(createErrorResponse('Login failed'), 500);
   }
 });
 
-// Get current user profile  
-auth.get('/me', jwtAuth(jwtConfig.secret), async (c: Context) => {
+// Rotate a refresh token
+auth.post('/refresh', validateBody(RefreshTokenSchema), async (c: Context) => {
+  const { refreshToken } = c.get('validatedBody');
+
+  try {
+    const result = await tokenService.rotateRefreshToken(
+      refreshToken,
+      getRequestDeviceInfo(c),
+      c.req.header('x-correlation-id')
+    );
+
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Invalid refresh token'), 401);
+    }
+
+    return c.json(
+      createSuccessResponse({ tokens: result.tokens }, 'Tokens refreshed successfully')
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Refresh token error');
+    return c.json(createErrorResponse('Failed to refresh tokens'), 500);
+  }
+});
+
+// Logout: revoke the refresh token family of the current device
+auth.post('/logout', validateBody(RefreshTokenSchema), async (c: Context) => {
+  const { refreshToken } = c.get('validatedBody');
+
+  try {
+    const result = await tokenService.logout(refreshToken, c.req.header('x-correlation-id'));
+
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Invalid refresh token'), 401);
+    }
+
+    return c.json(createSuccessResponse(null, 'Logged out successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Logout error');
+    return c.json(createErrorResponse('Logout failed'), 500);
+  }
+});
+
+// Request a password reset email; the response is the same whether or not the account exists
+auth.post('/password/forgot', validateBody(ForgotPasswordSchema), async (c: Context) => {
+  const { email } = c.get('validatedBody');
+  const logger = c.get('logger');
+
+  try {
+    const result = await authService.createPasswordResetToken(email);
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Failed to request password reset'), 500);
+    }
+
+    // Not awaited, so response times do not tell which accounts exist
+    if (result.token && result.user) {
+      const user = result.user;
+      notificationClient
+        .sendPasswordResetEmail(user, result.token, c.req.header('x-correlation-id'))
+        .then(sent => {
+          if (!sent.success) {
+            logger.warn(
+              { userId: user.id, error: sent.error },
+              'Failed to send password reset email'
+            );
+          }
+        });
+    }
+
+    return c.json(
+      createSuccessResponse(
+        null,
+        'If an account exists for this email, a password reset link has been sent'
+      )
+    );
+  } catch (error) {
+    logger.error(error, 'Forgot password error');
+    return c.json(createErrorResponse('Failed to request password reset'), 500);
+  }
+});
+
+// Set a new password with a reset token; signs the user out everywhere
+auth.post('/password/reset', validateBody(ResetPasswordSchema), async (c: Context) => {
+  const { token, password } = c.get('validatedBody');
+
+  try {
+    const result = await authService.resetPassword(token, password);
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Invalid or expired token'), 400);
+    }
+
+    return c.json(createSuccessResponse(null, 'Password reset successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Reset password error');
+    return c.json(createErrorResponse('Failed to reset password'), 500);
+  }
+});
+
+// Lift a lockout early with the token from the account locked email
+auth.post('/unlock', validateBody(UnlockAccountSchema), async (c: Context) => {
+  const { token } = c.get('validatedBody');
+
+  try {
+    const email = await loginAttempts.unlock(token);
+    if (!email) {
+      return c.json(createErrorResponse('Invalid or expired unlock token'), 400);
+    }
+
+    return c.json(createSuccessResponse(null, 'Account unlocked successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Unlock account error');
+    return c.json(createErrorResponse('Failed to unlock account'), 500);
+  }
+});
+
+// Verify an email address with the token from the verification email
+auth.post('/email/verify', validateBody(VerifyEmailSchema), async (c: Context) => {
+  const { token } = c.get('validatedBody');
+
+  try {
+    const result = await authService.verifyEmail(token);
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Invalid or expired token'), 400);
+    }
+
+    return c.json(createSuccessResponse({ userId: result.userId }, 'Email verified successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Verify email error');
+    return c.json(createErrorResponse('Failed to verify email'), 500);
+  }
+});
+
+// Resend the verification email to the current user; earlier links stop working
+auth.post('/email/verify/resend', jwtAuth(), async (c: Context) => {
+  try {
+    const user = c.get('user');
+
+    const [currentUser] = await db.select().from(users).where(eq(users.id, user.userId));
+    if (!currentUser) {
+      return c.json(createErrorResponse('User not found'), 404);
+    }
+
+    if (currentUser.emailVerified) {
+      return c.json(createErrorResponse('Email is already verified'), 409);
+    }
+
+    const result = await sendVerificationEmail(currentUser, c.req.header('x-correlation-id'));
+    if (!result.success) {
+      return c.json(createErrorResponse('Failed to send verification email', result.error), 502);
+    }
+
+    return c.json(createSuccessResponse(null, 'Verification email sent'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Resend verification email error');
+    return c.json(createErrorResponse('Failed to resend verification email'), 500);
+  }
+});
+
+// Whether an access token's session is still active, for other services
+// verifying tokens; unauthenticated, as session ids are only known to their holders
+auth.post('/sessions/status', validateBody(SessionStatusSchema), async (c: Context) => {
+  const { sessionId } = c.get('validatedBody');
+
+  try {
+    const active = await authService.isSessionActive(sessionId);
+    return c.json(createSuccessResponse({ active }));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Session status error');
+    return c.json(createErrorResponse('Failed to check session'), 500);
+  }
+});
+
+// List the current user's active sessions
+auth.get('/sessions', jwtAuth(), async (c: Context) => {
+  try {
+    const user = c.get('user');
+    const sessions = await authService.getUserSessions(user.userId);
+
+    return c.json(
+      createSuccessResponse(sessions.map(session => toSessionResponse(session, user.sid)))
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get sessions error');
+    return c.json(createErrorResponse('Failed to get sessions'), 500);
+  }
+});
+
+// Revoke all of the current user's sessions except the one making the request
+auth.delete('/sessions', jwtAuth(), async (c: Context) => {
+  try {
+    const user = c.get('user');
+    const result = await authService.revokeAllUserSessions(user.userId, {
+      exceptSessionId: user.sid,
+    });
+    if (!result.success) {
+      return c.json(createErrorResponse(result.error || 'Failed to revoke sessions'), 500);
+    }
+
+    return c.json(
+      createSuccessResponse({ revoked: result.revoked }, 'Other sessions revoked successfully')
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Revoke sessions error');
+    return c.json(createErrorResponse('Failed to revoke sessions'), 500);
+  }
+});
+
+// Revoke one of the current user's sessions
+auth.delete('/sessions/:id', jwtAuth(), async (c: Context) => {
   try {
-    const user = (c as any).user;
-    
+    const user = c.get('user');
+    const result = await authService.revokeUserSession(c.req.param('id'), user.userId);
+    if (!result.success) {
+      const status = result.error === 'Session not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to revoke session'), status);
+    }
+
+    return c.json(createSuccessResponse(null, 'Session revoked successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Revoke session error');
+    return c.json(createErrorResponse('Failed to revoke session'), 500);
+  }
+});
+
+// Get current user profile
+auth.get('/me', jwtAuth(), async (c: Context) => {
+  try {
+    const user = c.get('user');
+
     // Get fresh user data
     const [currentUser] = await db.select().from(users).where(eq(users.id, user.userId));
     if (!currentUser) {
       return c.json(createErrorResponse('User not found'), 404);
     }
 
-    // Remove password from response
-    const { password: _, ...userResponse } = currentUser;
+    const userResponse = toUserResponse(currentUser);
     return c.json(createSuccessResponse(userResponse));
-
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Get profile error');
     return c.json(createErrorResponse('Failed to get user profile'), 500);
   }
 });
 
+// Get the current user's effective permissions, including role changes made since the token was issued
+auth.get('/me/permissions', jwtAuth(), async (c: Context) => {
+  try {
+    const user = c.get('user');
+
+    const [currentUser] = await db.select().from(users).where(eq(users.id, user.userId));
+    if (!currentUser) {
+      return c.json(createErrorResponse('User not found'), 404);
+    }
+
+    const roles = await roleService.getUserRoles(currentUser.id);
+    const permissions = roleService.resolvePermissions(db, currentUser);
+
+    return c.json(
+      createSuccessResponse({
+        role: currentUser.role,
+        roles: roles.map(role => ({ id: role.id, name: role.name })),
+        permissions,
+      })
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get permissions error');
+    return c.json(createErrorResponse('Failed to get permissions'), 500);
+  }
+});
+
 // Update user profile
-auth.put('/me', jwtAuth(jwtConfig.secret), validateBody(UpdateUserSchema), async (c: Context) => {
+auth.put('/me', jwtAuth(), validateBody(UpdateUserSchema), async (c: Context) => {
   try {
-    const user = (c as any).user;
-    const updateData = (c as any).validatedBody;
+    const user = c.get('user');
+    const updateData = c.get('validatedBody');
 
     // Update user
-    const [updatedUser] = await db.update(users)
-      .set({
-        ...updateData,
-        updatedAt: new Date().toISOString(),
-      })
-      .where(eq(users.id, user.userId))
-      .returning();
+    const [previous] = await db.select().from(users).where(eq(users.id, user.userId));
+    const updatedUser = db.transaction(tx => {
+      const [updated] = tx
+        .update(users)
+        .set({
+          ...updateData,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(users.id, user.userId))
+        .returning()
+        .all();
+
+      if (updated) {
+        enqueueEvent(
+          tx,
+          EventTypes.USER_UPDATED,
+          {
+            userId: updated.id,
+            email: updated.email,
+            changes: Object.keys(updateData),
+          },
+          c.req.header('x-correlation-id')
+        );
+      }
+
+      return updated;
+    });
 
     if (!updatedUser) {
       return c.json(createErrorResponse('User not found'), 404);
     }
 
-    // Remove password from response
-    const { password: _, ...userResponse } = updatedUser;
-    return c.json(createSuccessResponse(userResponse, 'Profile updated successfully'));
+    const userResponse = toUserResponse(updatedUser);
+    const previousResponse = toUserResponse(previous);
+    setAuditDetails(c, {
+      action: 'user.update',
+      resource: { type: 'user', id: updatedUser.id },
+      before: previousResponse,
+      after: userResponse,
+    });
 
+    return c.json(createSuccessResponse(userResponse, 'Profile updated successfully'));
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Update profile error');
     return c.json(createErrorResponse('Failed to update profile'), 500);
   }
 });
 
-// Admin routes - Get all users
-auth.get('/users', jwtAuth(jwtConfig.secret), requireRole(['admin']), async (c: Context) => {
+// Admin routes - List users, filtered and paginated
+auth.get(
+  '/users',
+  jwtAuth(),
+  requirePermission(Permissions.USERS_READ),
+  validateQuery(QueryUsersSchema),
+  async (c: Context) => {
+    const query = c.get('validatedQuery');
+
+    try {
+      const result = await userService.listUsers(query);
+
+      const usersResponse = result.users.map(toUserResponse);
+
+      return c.json(
+        createSuccessResponse(usersResponse, undefined, {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / query.limit),
+        })
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get users error');
+      return c.json(createErrorResponse('Failed to get users'), 500);
+    }
+  }
+);
+
+auth.get('/users/:id', jwtAuth(), requirePermission(Permissions.USERS_READ), async (c: Context) => {
   try {
-    const allUsers = await db.select().from(users);
-    
-    // Remove passwords from response
-    const usersResponse = allUsers.map(({ password: _, ...user }) => user);
-    
-    return c.json(createSuccessResponse(usersResponse));
+    const user = await userService.getUser(c.req.param('id'));
+    if (!user) {
+      return c.json(createErrorResponse('User not found'), 404);
+    }
+
+    const userResponse = toUserResponse(user);
+    return c.json(createSuccessResponse(userResponse));
   } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Get users error');
-    return c.json(createErrorResponse('Failed to get users'), 500);
+    const logger = c.get('logger');
+    logger.error(error, 'Get user error');
+    return c.json(createErrorResponse('Failed to get user'), 500);
   }
 });
 
-export default auth;
\ No newline at end of file
+// Update another user's name, email or built-in role
+auth.put(
+  '/users/:id',
+  jwtAuth(),
+  requirePermission(Permissions.USERS_MANAGE),
+  validateBody(AdminUpdateUserSchema),
+  async (c: Context) => {
+    const updates = c.get('validatedBody');
+    const admin = c.get('user');
+    const userId = c.req.param('id');
+    setAuditDetails(c, {
+      action: updates.role ? 'user.role.update' : 'user.update',
+      resource: { type: 'user', id: userId },
+    });
+
+    if (updates.role) {
+      if (userId === admin.userId) {
+        return c.json(createErrorResponse('Cannot change your own role'), 400);
+      }
+
+      // A role can only be given by someone holding everything it grants
+      const granted = getTokenPermissions(admin);
+      if (
+        !(DEFAULT_ROLE_PERMISSIONS[updates.role] || []).every(permission =>
+          hasPermission(granted, permission)
+        )
+      ) {
+        return c.json(createErrorResponse('Cannot grant permissions you do not have'), 403);
+      }
+    }
+
+    try {
+      const result = await userService.updateUser(
+        userId,
+        updates,
+        admin.userId,
+        c.req.header('x-correlation-id')
+      );
+      if (!result.success || !result.user) {
+        const status =
+          result.error === 'User not found'
+            ? 404
+            : result.error === 'Email already in use'
+              ? 409
+              : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to update user'), status);
+      }
+
+      const userResponse = toUserResponse(result.user);
+      const previous = toUserResponse(result.previous!);
+      setAuditDetails(c, { before: previous, after: userResponse });
+
+      return c.json(createSuccessResponse(userResponse, 'User updated successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Update user error');
+      return c.json(createErrorResponse('Failed to update user'), 500);
+    }
+  }
+);
+
+// Deactivate a user; they are signed out everywhere and cannot log in until reactivated
+auth.post(
+  '/users/:id/deactivate',
+  jwtAuth(),
+  requirePermission(Permissions.USERS_MANAGE),
+  async (c: Context) => {
+    const admin = c.get('user');
+    const userId = c.req.param('id');
+    setAuditDetails(c, { action: 'user.deactivate', resource: { type: 'user', id: userId } });
+
+    if (userId === admin.userId) {
+      return c.json(createErrorResponse('Cannot deactivate your own account'), 400);
+    }
+
+    try {
+      const result = await userService.deactivateUser(
+        userId,
+        admin.userId,
+        c.req.header('x-correlation-id')
+      );
+      if (!result.success || !result.user) {
+        const status =
+          result.error === 'User not found'
+            ? 404
+            : result.error === 'User already deactivated'
+              ? 409
+              : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to deactivate user'), status);
+      }
+
+      setAuditDetails(c, {
+        before: { isActive: true },
+        after: { isActive: false },
+        metadata: { revokedSessions: result.revokedSessions },
+      });
+
+      const userResponse = toUserResponse(result.user);
+      return c.json(
+        createSuccessResponse(
+          { user: userResponse, revokedSessions: result.revokedSessions },
+          'User deactivated successfully'
+        )
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Deactivate user error');
+      return c.json(createErrorResponse('Failed to deactivate user'), 500);
+    }
+  }
+);
+
+auth.post(
+  '/users/:id/reactivate',
+  jwtAuth(),
+  requirePermission(Permissions.USERS_MANAGE),
+  async (c: Context) => {
+    const admin = c.get('user');
+    setAuditDetails(c, {
+      action: 'user.reactivate',
+      resource: { type: 'user', id: c.req.param('id') },
+    });
+
+    try {
+      const result = await userService.reactivateUser(
+        c.req.param('id'),
+        admin.userId,
+        c.req.header('x-correlation-id')
+      );
+      if (!result.success || !result.user) {
+        const status =
+          result.error === 'User not found'
+            ? 404
+            : result.error === 'User already active'
+              ? 409
+              : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to reactivate user'), status);
+      }
+
+      setAuditDetails(c, { before: { isActive: false }, after: { isActive: true } });
+
+      const userResponse = toUserResponse(result.user);
+      return c.json(createSuccessResponse(userResponse, 'User reactivated successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Reactivate user error');
+      return c.json(createErrorResponse('Failed to reactivate user'), 500);
+    }
+  }
+);
+
+// Delete a user and everything that belongs to them
+auth.delete(
+  '/users/:id',
+  jwtAuth(),
+  requirePermission(Permissions.USERS_MANAGE),
+  async (c: Context) => {
+    const admin = c.get('user');
+    const userId = c.req.param('id');
+    setAuditDetails(c, { action: 'user.delete', resource: { type: 'user', id: userId } });
+
+    if (userId === admin.userId) {
+      return c.json(createErrorResponse('Cannot delete your own account'), 400);
+    }
+
+    try {
+      const result = await userService.deleteUser(
+        userId,
+        admin.userId,
+        c.req.header('x-correlation-id')
+      );
+      if (!result.success || !result.user) {
+        const status = result.error === 'User not found' ? 404 : 500;
+        return c.json(createErrorResponse(result.error || 'Failed to delete user'), status);
+      }
+
+      const previous = toUserResponse(result.user);
+      setAuditDetails(c, { before: previous });
+
+      return c.json(createSuccessResponse(null, 'User deleted successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Delete user error');
+      return c.json(createErrorResponse('Failed to delete user'), 500);
+    }
+  }
+);
+
+// List a user's active sessions
+auth.get(
+  '/users/:id/sessions',
+  jwtAuth(),
+  requirePermission(Permissions.SESSIONS_MANAGE),
+  async (c: Context) => {
+    try {
+      const sessions = await authService.getUserSessions(c.req.param('id'));
+
+      return c.json(createSuccessResponse(sessions.map(session => toSessionResponse(session))));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get user sessions error');
+      return c.json(createErrorResponse('Failed to get user sessions'), 500);
+    }
+  }
+);
+
+// Force-logout a user from every device
+auth.delete(
+  '/users/:id/sessions',
+  jwtAuth(),
+  requirePermission(Permissions.SESSIONS_MANAGE),
+  async (c: Context) => {
+    try {
+      const admin = c.get('user');
+      const userId = c.req.param('id');
+
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        return c.json(createErrorResponse('User not found'), 404);
+      }
+
+      const result = await authService.revokeAllUserSessions(userId, { revokedBy: admin.userId });
+      if (!result.success) {
+        return c.json(createErrorResponse(result.error || 'Failed to revoke sessions'), 500);
+      }
+
+      return c.json(
+        createSuccessResponse({ revoked: result.revoked }, 'User logged out from all sessions')
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Force logout error');
+      return c.json(createErrorResponse('Failed to revoke user sessions'), 500);
+    }
+  }
+);
+
+export default auth;
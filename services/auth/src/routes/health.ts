@@ -10,7 +10,7 @@ health.get('/', async (c: Context) => {
   try {
     const uptime = Math.floor(process.uptime());
     const healthCheck = await performHealthCheck();
-    
+
     const response = {
       service: config.name,
       version: config.version,
@@ -24,16 +24,19 @@ health.get('/', async (c: Context) => {
     const statusCode = healthCheck.status === 'healthy' ? 200 : 503;
     return c.json(response, statusCode);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Health check error');
-    
-    return c.json({
-      service: config.name,
-      status: 'unhealthy',
-      timestamp: new Date().toISOString(),
-      error: 'Health check failed'
-    }, 503);
+
+    return c.json(
+      {
+        service: config.name,
+        status: 'unhealthy',
+        timestamp: new Date().toISOString(),
+        error: 'Health check failed',
+      },
+      503
+    );
   }
 });
 
-export default health;
\ No newline at end of file
+export default health;
@@ -0,0 +1,48 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { Permissions, createErrorResponse, createSuccessResponse } from 'shared-utils';
+import { requirePermission } from 'shared-middleware';
+import { KeyService } from '../services/keyService';
+import { jwtAuth } from '../middleware';
+
+const keyRoutes = new Hono();
+const keyService = new KeyService();
+
+// Public keys other services verify access tokens with
+keyRoutes.get('/.well-known/jwks.json', async (c: Context) => {
+  try {
+    c.header('Cache-Control', 'public, max-age=300');
+    return c.json(keyService.getJwks());
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get JWKS error');
+    return c.json(createErrorResponse('Failed to get signing keys'), 500);
+  }
+});
+
+keyRoutes.use('/auth/keys/*', jwtAuth(), requirePermission(Permissions.SIGNING_KEYS_MANAGE));
+
+// List signing keys, newest first
+keyRoutes.get('/auth/keys', async (c: Context) => {
+  try {
+    return c.json(createSuccessResponse(keyService.listKeys()));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List signing keys error');
+    return c.json(createErrorResponse('Failed to list signing keys'), 500);
+  }
+});
+
+// Rotate the signing key; tokens signed with the previous key stay valid
+keyRoutes.post('/auth/keys/rotate', async (c: Context) => {
+  try {
+    const key = keyService.rotateKeys();
+    return c.json(createSuccessResponse(key, 'Signing key rotated successfully'), 201);
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Rotate signing key error');
+    return c.json(createErrorResponse('Failed to rotate signing key'), 500);
+  }
+});
+
+export default keyRoutes;
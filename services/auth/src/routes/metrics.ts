@@ -9,7 +9,7 @@ const metrics = new Hono();
 metrics.get('/', async (c: Context) => {
   try {
     const serviceMetrics = await getServiceMetrics();
-    
+
     const response = {
       service: config.name,
       version: config.version,
@@ -18,13 +18,16 @@ metrics.get('/', async (c: Context) => {
 
     return c.json(response);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Metrics error');
-    
-    return c.json({
-      error: 'Failed to collect metrics',
-      timestamp: new Date().toISOString()
-    }, 500);
+
+    return c.json(
+      {
+        error: 'Failed to collect metrics',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
@@ -32,15 +35,15 @@ metrics.get('/', async (c: Context) => {
 metrics.get('/prometheus', async (c: Context) => {
   try {
     const prometheusMetrics = await getPrometheusMetrics();
-    
+
     c.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
     return c.text(prometheusMetrics);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Prometheus metrics error');
-    
+
     return c.text('# Error collecting metrics\n', 500);
   }
 });
 
-export default metrics;
\ No newline at end of file
+export default metrics;
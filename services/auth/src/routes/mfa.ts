@@ -0,0 +1,250 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { Permissions, createErrorResponse, createSuccessResponse } from 'shared-utils';
+import { requirePermission, validateBody } from 'shared-middleware';
+import { db, users } from '../models/database';
+import { MfaService } from '../services/mfaService';
+import { jwtAuth } from '../middleware';
+
+const mfaRoutes = new Hono();
+const mfaService = new MfaService();
+
+// Validation schemas
+const CodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'MFA codes are 6 digits'),
+});
+
+const SecondFactorSchema = z
+  .object({
+    code: z
+      .string()
+      .regex(/^\d{6}$/, 'MFA codes are 6 digits')
+      .optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine(factor => factor.code || factor.recoveryCode, 'MFA code or recovery code required');
+
+const MfaPolicySchema = z.object({
+  enforcedRoles: z.array(z.enum(['user', 'admin'])),
+});
+
+// Utility functions
+const errorStatus = (error?: string): 400 | 401 | 404 | 409 | 500 => {
+  if (error?.startsWith('Invalid')) return 401;
+  if (error === 'User not found') return 404;
+  if (error === 'MFA already enabled') return 409;
+  if (error?.startsWith('MFA')) return 400;
+  return 500;
+};
+
+mfaRoutes.use('/mfa/*', jwtAuth());
+mfaRoutes.use('/users/:id/mfa', jwtAuth(), requirePermission(Permissions.USERS_MANAGE));
+
+// MFA status of the current user
+mfaRoutes.get('/mfa', async (c: Context) => {
+  const user = c.get('user');
+
+  try {
+    const status = await mfaService.getStatus({ id: user.userId, role: user.role });
+    return c.json(createSuccessResponse(status));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get MFA status error');
+    return c.json(createErrorResponse('Failed to get MFA status'), 500);
+  }
+});
+
+// Start setting up TOTP; returns the secret and an otpauth:// URI for authenticator apps
+mfaRoutes.post('/mfa/setup', async (c: Context) => {
+  const { userId } = c.get('user');
+
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      return c.json(createErrorResponse('User not found'), 404);
+    }
+
+    const result = await mfaService.beginSetup(user);
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to set up MFA'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(
+      createSuccessResponse(
+        {
+          secret: result.secret,
+          otpauthUri: result.otpauthUri,
+        },
+        'Add the secret to your authenticator app, then confirm it with a code'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'MFA setup error');
+    return c.json(createErrorResponse('Failed to set up MFA'), 500);
+  }
+});
+
+// Confirm setup with a code from the app; the recovery codes are only returned here
+mfaRoutes.post('/mfa/enable', validateBody(CodeSchema), async (c: Context) => {
+  const { code } = c.get('validatedBody');
+  const { userId } = c.get('user');
+
+  try {
+    const result = await mfaService.enable(userId, code, c.req.header('x-correlation-id'));
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to enable MFA'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(
+      createSuccessResponse(
+        { recoveryCodes: result.recoveryCodes },
+        'MFA enabled; store the recovery codes somewhere safe'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'MFA enable error');
+    return c.json(createErrorResponse('Failed to enable MFA'), 500);
+  }
+});
+
+// Turn MFA off; needs a current code or a recovery code
+mfaRoutes.post('/mfa/disable', validateBody(SecondFactorSchema), async (c: Context) => {
+  const factor = c.get('validatedBody');
+  const user = c.get('user');
+
+  try {
+    const status = await mfaService.getStatus({ id: user.userId, role: user.role });
+    if (status.enforced) {
+      return c.json(createErrorResponse('MFA is required for your role'), 403);
+    }
+
+    const verified = await mfaService.verify(user.userId, factor);
+    if (!verified.success) {
+      return c.json(
+        createErrorResponse(verified.error || 'Invalid MFA code'),
+        errorStatus(verified.error)
+      );
+    }
+
+    const result = await mfaService.disable(
+      user.userId,
+      user.userId,
+      c.req.header('x-correlation-id')
+    );
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to disable MFA'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(createSuccessResponse(null, 'MFA disabled'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'MFA disable error');
+    return c.json(createErrorResponse('Failed to disable MFA'), 500);
+  }
+});
+
+// Replace the recovery codes; needs a current code
+mfaRoutes.post('/mfa/recovery-codes', validateBody(CodeSchema), async (c: Context) => {
+  const { code } = c.get('validatedBody');
+  const { userId } = c.get('user');
+
+  try {
+    const verified = await mfaService.verify(userId, { code });
+    if (!verified.success) {
+      return c.json(
+        createErrorResponse(verified.error || 'Invalid MFA code'),
+        errorStatus(verified.error)
+      );
+    }
+
+    const result = await mfaService.regenerateRecoveryCodes(userId);
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to generate recovery codes'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(
+      createSuccessResponse(
+        { recoveryCodes: result.recoveryCodes },
+        'Recovery codes replaced; the old ones no longer work'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Recovery code generation error');
+    return c.json(createErrorResponse('Failed to generate recovery codes'), 500);
+  }
+});
+
+// Roles that must use MFA
+mfaRoutes.get('/mfa/policy', requirePermission(Permissions.USERS_MANAGE), async (c: Context) => {
+  try {
+    const policy = await mfaService.getPolicy();
+    return c.json(createSuccessResponse(policy));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get MFA policy error');
+    return c.json(createErrorResponse('Failed to get MFA policy'), 500);
+  }
+});
+
+// Enforce MFA for roles; their users are asked to set it up at their next login
+mfaRoutes.put(
+  '/mfa/policy',
+  requirePermission(Permissions.USERS_MANAGE),
+  validateBody(MfaPolicySchema),
+  async (c: Context) => {
+    const policy = c.get('validatedBody');
+    const user = c.get('user');
+
+    try {
+      const updated = await mfaService.setPolicy(policy, user.userId);
+      return c.json(createSuccessResponse(updated, 'MFA policy updated successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Update MFA policy error');
+      return c.json(createErrorResponse('Failed to update MFA policy'), 500);
+    }
+  }
+);
+
+// Reset a user's MFA, e.g. after they lost their device
+mfaRoutes.delete('/users/:id/mfa', async (c: Context) => {
+  const user = c.get('user');
+
+  try {
+    const result = await mfaService.disable(
+      c.req.param('id'),
+      user.userId,
+      c.req.header('x-correlation-id')
+    );
+    if (!result.success) {
+      const status =
+        result.error === 'User not found' || result.error === 'MFA not enabled' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to reset MFA'), status);
+    }
+
+    return c.json(createSuccessResponse(null, 'MFA reset successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'MFA reset error');
+    return c.json(createErrorResponse('Failed to reset MFA'), 500);
+  }
+});
+
+export default mfaRoutes;
@@ -0,0 +1,622 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import {
+  Permissions,
+  hasPermission,
+  getTokenPermissions,
+  createErrorResponse,
+  createSuccessResponse,
+} from 'shared-utils';
+import { setAuditDetails, requirePermission, validateBody } from 'shared-middleware';
+import type { OAuthClient } from '../models/database';
+import { oauthConfig, jwtConfig } from '../config';
+import { KeyService } from '../services/keyService';
+import {
+  OAuthService,
+  OIDC_SCOPES,
+  isValidScope,
+  type OAuthErrorCode,
+  type OAuthTokenResponse,
+} from '../services/oauthService';
+import { jwtAuth } from '../middleware';
+
+const oauthRoutes = new Hono();
+const keyService = new KeyService();
+const oauthService = new OAuthService();
+
+const ScopeSchema = z
+  .string()
+  .refine(isValidScope, 'Scopes are openid, profile, email or permissions');
+
+const RedirectUriSchema = z
+  .string()
+  .url()
+  .refine(uri => !uri.includes('#'), 'Redirect URIs cannot contain a fragment');
+
+// Validation schemas
+const CreateClientSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    redirectUris: z.array(RedirectUriSchema).default([]),
+    grantTypes: z.array(z.enum(['authorization_code', 'client_credentials'])).min(1),
+    scopes: z.array(ScopeSchema).default(['openid']),
+    confidential: z.boolean().default(true),
+  })
+  .refine(
+    client => client.confidential || !client.grantTypes.includes('client_credentials'),
+    'Public clients cannot use the client credentials grant'
+  )
+  .refine(
+    client => !client.grantTypes.includes('authorization_code') || client.redirectUris.length > 0,
+    'The authorization code grant needs at least one redirect URI'
+  );
+
+const UpdateClientSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  redirectUris: z.array(RedirectUriSchema).optional(),
+  scopes: z.array(ScopeSchema).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// The authorization request, as the consent page received it in its query string
+const AuthorizeSchema = z.object({
+  client_id: z.string().min(1),
+  redirect_uri: z.string().min(1),
+  response_type: z.string().min(1),
+  scope: z.string().optional(),
+  state: z.string().optional(),
+  code_challenge: z.string().optional(),
+  code_challenge_method: z.string().optional(),
+  nonce: z.string().optional(),
+  approve: z.boolean().optional(), // Unset until the user has answered the consent prompt
+});
+
+// Token and userinfo errors use the OAuth format instead of the API envelope
+const createOAuthError = (
+  error: OAuthErrorCode | 'invalid_token' | 'insufficient_scope',
+  description: string
+) => ({
+  error,
+  error_description: description,
+});
+
+// Clients can only be given permission scopes their creator holds
+const findUngrantable = (c: Context, scopes: string[] = []): string[] => {
+  const granted = getTokenPermissions(c.get('user'));
+  return scopes.filter(scope => !OIDC_SCOPES.includes(scope) && !hasPermission(granted, scope));
+};
+
+const toClientResponse = ({ secretHash, ...client }: OAuthClient) => ({
+  ...client,
+  confidential: !!secretHash,
+});
+
+// Where the authorization response is sent: the redirect URI with the result as query parameters
+const buildRedirectUrl = (
+  redirectUri: string,
+  params: Record<string, string | undefined>
+): string => {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url.toString();
+};
+
+// Form-encoded as the spec requires, though JSON is accepted too
+const readTokenRequest = async (c: Context): Promise<Record<string, string>> => {
+  const body = c.req.header('content-type')?.includes('application/json')
+    ? await c.req.json()
+    : await c.req.parseBody();
+
+  return Object.fromEntries(
+    Object.entries(body).filter(([, value]) => typeof value === 'string')
+  ) as Record<string, string>;
+};
+
+// Client credentials from HTTP Basic (client_secret_basic) or the body (client_secret_post, or none for public clients)
+const readClientCredentials = (c: Context, params: Record<string, string>) => {
+  const authorization = c.req.header('authorization');
+  if (!authorization?.startsWith('Basic ')) {
+    return { clientId: params.client_id, clientSecret: params.client_secret, basic: false };
+  }
+
+  try {
+    const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return { basic: true };
+    }
+
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      basic: true,
+    };
+  } catch (error) {
+    return { basic: true };
+  }
+};
+
+// OpenID Connect discovery document
+oauthRoutes.get('/.well-known/openid-configuration', (c: Context) => {
+  const issuer = oauthConfig.issuer;
+
+  c.header('Cache-Control', 'public, max-age=3600');
+  return c.json({
+    issuer,
+    authorization_endpoint: `${issuer}/oauth/authorize`,
+    token_endpoint: `${issuer}/oauth/token`,
+    userinfo_endpoint: `${issuer}/oauth/userinfo`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'client_credentials'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: [jwtConfig.algorithm],
+    scopes_supported: OIDC_SCOPES,
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: [
+      'sub',
+      'iss',
+      'aud',
+      'exp',
+      'iat',
+      'nonce',
+      'name',
+      'updated_at',
+      'email',
+      'email_verified',
+    ],
+  });
+});
+
+// Start of the authorization code flow. The request is checked, then the browser is
+// sent on to the consent page, which signs the user in and completes it with POST.
+oauthRoutes.get('/oauth/authorize', async (c: Context) => {
+  const query = c.req.query();
+
+  try {
+    const result = await oauthService.validateAuthorizationRequest({
+      clientId: query.client_id || '',
+      redirectUri: query.redirect_uri || '',
+      responseType: query.response_type || '',
+      scope: query.scope,
+      codeChallenge: query.code_challenge,
+      codeChallengeMethod: query.code_challenge_method,
+      nonce: query.nonce,
+    });
+
+    if (!result.success && !result.redirect) {
+      return c.json(
+        createErrorResponse('Invalid authorization request', result.errorDescription),
+        400
+      );
+    }
+    if (!result.success) {
+      return c.redirect(
+        buildRedirectUrl(query.redirect_uri, {
+          error: result.error,
+          error_description: result.errorDescription,
+          state: query.state,
+        })
+      );
+    }
+
+    const consentUrl = new URL(oauthConfig.consentUrl);
+    for (const [key, value] of Object.entries(query)) {
+      consentUrl.searchParams.set(key, value);
+    }
+
+    return c.redirect(consentUrl.toString());
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'OAuth authorize error');
+    return c.json(createErrorResponse('Failed to process authorization request'), 500);
+  }
+});
+
+// Complete an authorization request for the signed-in user. Without an earlier
+// consent covering the scopes, the response asks for one; the user's answer is
+// sent back as `approve`. The result is a URL for the consent page to redirect to.
+oauthRoutes.post(
+  '/oauth/authorize',
+  jwtAuth(),
+  validateBody(AuthorizeSchema),
+  async (c: Context) => {
+    const request = c.get('validatedBody');
+    const { userId } = c.get('user');
+
+    try {
+      const result = await oauthService.validateAuthorizationRequest({
+        clientId: request.client_id,
+        redirectUri: request.redirect_uri,
+        responseType: request.response_type,
+        scope: request.scope,
+        codeChallenge: request.code_challenge,
+        codeChallengeMethod: request.code_challenge_method,
+        nonce: request.nonce,
+      });
+
+      if (!result.success && !result.redirect) {
+        return c.json(
+          createErrorResponse('Invalid authorization request', result.errorDescription),
+          400
+        );
+      }
+
+      const redirectWith = (params: Record<string, string | undefined>) =>
+        c.json(
+          createSuccessResponse({
+            redirectUrl: buildRedirectUrl(request.redirect_uri, {
+              ...params,
+              state: request.state,
+            }),
+          })
+        );
+
+      if (!result.success || !result.client || !result.scopes) {
+        return redirectWith({ error: result.error, error_description: result.errorDescription });
+      }
+      if (request.approve === false) {
+        return redirectWith({
+          error: 'access_denied',
+          error_description: 'The user denied the request',
+        });
+      }
+
+      const client = result.client;
+      const scopes = result.scopes;
+
+      if (
+        request.approve === undefined &&
+        !(await oauthService.hasConsent(userId, client.id, scopes))
+      ) {
+        return c.json(
+          createSuccessResponse(
+            {
+              consentRequired: true,
+              client: { id: client.id, name: client.name },
+              scopes,
+            },
+            'Ask the user to approve the client'
+          )
+        );
+      }
+
+      if (request.approve) {
+        oauthService.grantConsent(userId, client.id, scopes);
+      }
+
+      const code = oauthService.createAuthorizationCode(client.id, userId, {
+        redirectUri: request.redirect_uri,
+        scopes,
+        codeChallenge: request.code_challenge,
+        nonce: request.nonce,
+      });
+
+      return redirectWith({ code });
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'OAuth authorization error');
+      return c.json(createErrorResponse('Failed to process authorization request'), 500);
+    }
+  }
+);
+
+// Token endpoint: authorization_code and client_credentials grants
+oauthRoutes.post('/oauth/token', async (c: Context) => {
+  c.header('Cache-Control', 'no-store');
+  c.header('Pragma', 'no-cache');
+
+  try {
+    const params = await readTokenRequest(c);
+    const credentials = readClientCredentials(c, params);
+
+    const client = credentials.clientId
+      ? await oauthService.authenticateClient(credentials.clientId, credentials.clientSecret)
+      : null;
+    if (!client) {
+      if (credentials.basic) {
+        c.header('WWW-Authenticate', 'Basic realm="oauth"');
+      }
+      return c.json(createOAuthError('invalid_client', 'Client authentication failed'), 401);
+    }
+
+    let result: {
+      success: boolean;
+      tokens?: OAuthTokenResponse;
+      error?: OAuthErrorCode;
+      errorDescription?: string;
+    };
+
+    switch (params.grant_type) {
+      case 'authorization_code':
+        if (!params.code || !params.redirect_uri) {
+          return c.json(
+            createOAuthError('invalid_request', 'code and redirect_uri are required'),
+            400
+          );
+        }
+        result = await oauthService.exchangeAuthorizationCode(client, {
+          code: params.code,
+          redirectUri: params.redirect_uri,
+          codeVerifier: params.code_verifier,
+        });
+        break;
+      case 'client_credentials':
+        result = await oauthService.issueClientCredentialsToken(client, params.scope);
+        break;
+      default:
+        return c.json(
+          createOAuthError(
+            'unsupported_grant_type',
+            'grant_type must be authorization_code or client_credentials'
+          ),
+          400
+        );
+    }
+
+    if (!result.success || !result.tokens) {
+      return c.json(
+        createOAuthError(
+          result.error || 'invalid_request',
+          result.errorDescription || 'Invalid token request'
+        ),
+        400
+      );
+    }
+
+    return c.json(result.tokens);
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'OAuth token error');
+    return c.json(createOAuthError('server_error', 'Failed to issue tokens'), 500);
+  }
+});
+
+// OpenID Connect userinfo: claims about the user an access token was issued for
+const userInfo = async (c: Context) => {
+  const authorization = c.req.header('authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    c.header('WWW-Authenticate', 'Bearer');
+    return c.json(createOAuthError('invalid_token', 'Bearer token required'), 401);
+  }
+
+  let payload: any;
+  try {
+    payload = keyService.verifyOAuthAccessToken(authorization.slice('Bearer '.length));
+  } catch (error) {
+    c.header('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return c.json(createOAuthError('invalid_token', 'Invalid or expired access token'), 401);
+  }
+
+  const scopes = (payload.scope || '').split(' ');
+  if (!scopes.includes('openid')) {
+    c.header('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+    return c.json(createOAuthError('insufficient_scope', 'The openid scope is required'), 403);
+  }
+
+  try {
+    const claims = await oauthService.getUserInfo(payload.sub, scopes);
+    if (!claims) {
+      c.header('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return c.json(createOAuthError('invalid_token', 'Invalid or expired access token'), 401);
+    }
+
+    return c.json(claims);
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'OAuth userinfo error');
+    return c.json(createOAuthError('server_error', 'Failed to get user info'), 500);
+  }
+};
+
+oauthRoutes.get('/oauth/userinfo', userInfo);
+oauthRoutes.post('/oauth/userinfo', userInfo);
+
+// Clients the current user has approved
+oauthRoutes.get('/oauth/consents', jwtAuth(), async (c: Context) => {
+  const { userId } = c.get('user');
+
+  try {
+    const consents = await oauthService.listConsents(userId);
+    return c.json(createSuccessResponse(consents));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List OAuth consents error');
+    return c.json(createErrorResponse('Failed to list consents'), 500);
+  }
+});
+
+// Withdraw the current user's consent for a client
+oauthRoutes.delete('/oauth/consents/:clientId', jwtAuth(), async (c: Context) => {
+  const { userId } = c.get('user');
+
+  try {
+    const revoked = await oauthService.revokeConsent(userId, c.req.param('clientId'));
+    if (!revoked) {
+      return c.json(createErrorResponse('Consent not found'), 404);
+    }
+
+    return c.json(createSuccessResponse(null, 'Consent revoked successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Revoke OAuth consent error');
+    return c.json(createErrorResponse('Failed to revoke consent'), 500);
+  }
+});
+
+oauthRoutes.use('/oauth/clients/*', jwtAuth(), requirePermission(Permissions.OAUTH_CLIENTS_MANAGE));
+
+// Register a client; the secret of a confidential client is only returned here
+oauthRoutes.post('/oauth/clients', validateBody(CreateClientSchema), async (c: Context) => {
+  const input = c.get('validatedBody');
+  const user = c.get('user');
+  setAuditDetails(c, { action: 'oauth_client.create', resource: { type: 'oauth_client' } });
+
+  const ungrantable = findUngrantable(c, input.scopes);
+  if (ungrantable.length > 0) {
+    return c.json(
+      createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+      403
+    );
+  }
+
+  try {
+    const result = await oauthService.createClient(input, user.userId);
+    if (!result.success || !result.client) {
+      return c.json(createErrorResponse(result.error || 'Failed to create OAuth client'), 500);
+    }
+
+    setAuditDetails(c, {
+      resource: { type: 'oauth_client', id: result.client.id },
+      after: toClientResponse(result.client),
+    });
+
+    return c.json(
+      createSuccessResponse(
+        {
+          client: toClientResponse(result.client),
+          clientSecret: result.clientSecret,
+        },
+        result.clientSecret
+          ? 'OAuth client created successfully; store the secret now, it cannot be shown again'
+          : 'OAuth client created successfully'
+      ),
+      201
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Create OAuth client error');
+    return c.json(createErrorResponse('Failed to create OAuth client'), 500);
+  }
+});
+
+oauthRoutes.get('/oauth/clients', async (c: Context) => {
+  try {
+    const clients = await oauthService.listClients();
+    return c.json(createSuccessResponse(clients.map(toClientResponse)));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List OAuth clients error');
+    return c.json(createErrorResponse('Failed to list OAuth clients'), 500);
+  }
+});
+
+oauthRoutes.get('/oauth/clients/:id', async (c: Context) => {
+  try {
+    const client = await oauthService.getClient(c.req.param('id'));
+    if (!client) {
+      return c.json(createErrorResponse('OAuth client not found'), 404);
+    }
+
+    return c.json(createSuccessResponse(toClientResponse(client)));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get OAuth client error');
+    return c.json(createErrorResponse('Failed to get OAuth client'), 500);
+  }
+});
+
+oauthRoutes.put('/oauth/clients/:id', validateBody(UpdateClientSchema), async (c: Context) => {
+  const updates = c.get('validatedBody');
+  setAuditDetails(c, {
+    action: 'oauth_client.update',
+    resource: { type: 'oauth_client', id: c.req.param('id') },
+  });
+
+  const ungrantable = findUngrantable(c, updates.scopes);
+  if (ungrantable.length > 0) {
+    return c.json(
+      createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+      403
+    );
+  }
+
+  try {
+    const previous = await oauthService.getClient(c.req.param('id'));
+    const result = await oauthService.updateClient(c.req.param('id'), updates);
+    if (!result.success || !result.client) {
+      const status = result.error === 'OAuth client not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to update OAuth client'), status);
+    }
+
+    setAuditDetails(c, {
+      before: previous && toClientResponse(previous),
+      after: toClientResponse(result.client),
+    });
+
+    return c.json(
+      createSuccessResponse(toClientResponse(result.client), 'OAuth client updated successfully')
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Update OAuth client error');
+    return c.json(createErrorResponse('Failed to update OAuth client'), 500);
+  }
+});
+
+// Replace the secret of a confidential client
+oauthRoutes.post('/oauth/clients/:id/secret', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'oauth_client.secret.regenerate',
+    resource: { type: 'oauth_client', id: c.req.param('id') },
+  });
+
+  try {
+    const result = await oauthService.regenerateClientSecret(c.req.param('id'));
+    if (!result.success) {
+      const status =
+        result.error === 'OAuth client not found'
+          ? 404
+          : result.error === 'Public clients have no secret'
+            ? 400
+            : 500;
+      return c.json(
+        createErrorResponse(result.error || 'Failed to regenerate client secret'),
+        status
+      );
+    }
+
+    return c.json(
+      createSuccessResponse(
+        { clientSecret: result.clientSecret },
+        'Client secret regenerated; store it now, it cannot be shown again'
+      )
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Regenerate OAuth client secret error');
+    return c.json(createErrorResponse('Failed to regenerate client secret'), 500);
+  }
+});
+
+oauthRoutes.delete('/oauth/clients/:id', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'oauth_client.delete',
+    resource: { type: 'oauth_client', id: c.req.param('id') },
+  });
+
+  try {
+    const previous = await oauthService.getClient(c.req.param('id'));
+    const result = await oauthService.deleteClient(c.req.param('id'));
+    if (!result.success) {
+      const status = result.error === 'OAuth client not found' ? 404 : 500;
+      return c.json(createErrorResponse(result.error || 'Failed to delete OAuth client'), status);
+    }
+
+    setAuditDetails(c, { before: previous && toClientResponse(previous) });
+
+    return c.json(createSuccessResponse(null, 'OAuth client deleted successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Delete OAuth client error');
+    return c.json(createErrorResponse('Failed to delete OAuth client'), 500);
+  }
+});
+
+export default oauthRoutes;
@@ -0,0 +1,253 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import {
+  Permissions,
+  PERMISSION_PATTERN,
+  hasPermission,
+  getTokenPermissions,
+  createErrorResponse,
+  createSuccessResponse,
+} from 'shared-utils';
+import { setAuditDetails, requirePermission, validateBody } from 'shared-middleware';
+import { RoleService } from '../services/roleService';
+import { jwtAuth } from '../middleware';
+
+const roleRoutes = new Hono();
+const roleService = new RoleService();
+
+const PermissionSchema = z.string().regex(PERMISSION_PATTERN, 'Invalid permission');
+
+// Validation schemas
+const CreateRoleSchema = z.object({
+  name: z
+    .string()
+    .min(2)
+    .max(50)
+    .regex(/^[a-z][a-z0-9_-]*$/, 'Role names are lowercase identifiers'),
+  description: z.string().max(500).optional(),
+  permissions: z.array(PermissionSchema).default([]),
+  isActive: z.boolean().default(true),
+});
+
+const UpdateRoleSchema = CreateRoleSchema.partial();
+
+const AssignRoleSchema = z.object({
+  roleId: z.string().min(1),
+});
+
+// Utility functions
+const errorStatus = (error?: string): 404 | 409 | 500 => {
+  if (error?.endsWith('not found')) return 404;
+  if (error?.startsWith('Role already')) return 409;
+  return 500;
+};
+
+// Roles can only carry permissions their editor holds
+const findUngrantable = (c: Context, permissions: string[] = []): string[] => {
+  const granted = getTokenPermissions(c.get('user'));
+  return permissions.filter(permission => !hasPermission(granted, permission));
+};
+
+roleRoutes.use('/roles/*', jwtAuth(), requirePermission(Permissions.ROLES_MANAGE));
+roleRoutes.use('/users/:id/roles/*', jwtAuth(), requirePermission(Permissions.ROLES_MANAGE));
+
+// List roles
+roleRoutes.get('/roles', async (c: Context) => {
+  try {
+    const roles = await roleService.listRoles();
+    return c.json(createSuccessResponse(roles));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List roles error');
+    return c.json(createErrorResponse('Failed to list roles'), 500);
+  }
+});
+
+// Create a role
+roleRoutes.post('/roles', validateBody(CreateRoleSchema), async (c: Context) => {
+  const roleData = c.get('validatedBody');
+  setAuditDetails(c, { action: 'role.create', resource: { type: 'role' } });
+
+  const ungrantable = findUngrantable(c, roleData.permissions);
+  if (ungrantable.length > 0) {
+    return c.json(
+      createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+      403
+    );
+  }
+
+  try {
+    const result = await roleService.createRole(roleData);
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to create role'),
+        errorStatus(result.error)
+      );
+    }
+
+    setAuditDetails(c, { resource: { type: 'role', id: result.role?.id }, after: result.role });
+
+    return c.json(createSuccessResponse(result.role, 'Role created successfully'), 201);
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Create role error');
+    return c.json(createErrorResponse('Failed to create role'), 500);
+  }
+});
+
+// Get a role
+roleRoutes.get('/roles/:roleId', async (c: Context) => {
+  try {
+    const role = await roleService.getRole(c.req.param('roleId'));
+    if (!role) {
+      return c.json(createErrorResponse('Role not found'), 404);
+    }
+
+    return c.json(createSuccessResponse(role));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get role error');
+    return c.json(createErrorResponse('Failed to get role'), 500);
+  }
+});
+
+// Update a role; holders get the new permissions at their next token refresh
+roleRoutes.put('/roles/:roleId', validateBody(UpdateRoleSchema), async (c: Context) => {
+  const updates = c.get('validatedBody');
+  setAuditDetails(c, {
+    action: 'role.update',
+    resource: { type: 'role', id: c.req.param('roleId') },
+  });
+
+  const ungrantable = findUngrantable(c, updates.permissions);
+  if (ungrantable.length > 0) {
+    return c.json(
+      createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+      403
+    );
+  }
+
+  try {
+    const previous = await roleService.getRole(c.req.param('roleId'));
+    const result = await roleService.updateRole(c.req.param('roleId'), updates);
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to update role'),
+        errorStatus(result.error)
+      );
+    }
+
+    setAuditDetails(c, { before: previous, after: result.role });
+
+    return c.json(createSuccessResponse(result.role, 'Role updated successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Update role error');
+    return c.json(createErrorResponse('Failed to update role'), 500);
+  }
+});
+
+// Delete a role and its assignments
+roleRoutes.delete('/roles/:roleId', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'role.delete',
+    resource: { type: 'role', id: c.req.param('roleId') },
+  });
+
+  try {
+    const previous = await roleService.getRole(c.req.param('roleId'));
+    const result = await roleService.deleteRole(c.req.param('roleId'));
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to delete role'),
+        errorStatus(result.error)
+      );
+    }
+
+    setAuditDetails(c, { before: previous });
+
+    return c.json(createSuccessResponse(null, 'Role deleted successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Delete role error');
+    return c.json(createErrorResponse('Failed to delete role'), 500);
+  }
+});
+
+// List the roles assigned to a user
+roleRoutes.get('/users/:id/roles', async (c: Context) => {
+  try {
+    const roles = await roleService.getUserRoles(c.req.param('id'));
+    return c.json(createSuccessResponse(roles));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get user roles error');
+    return c.json(createErrorResponse('Failed to get user roles'), 500);
+  }
+});
+
+// Assign a role to a user
+roleRoutes.post('/users/:id/roles', validateBody(AssignRoleSchema), async (c: Context) => {
+  const { roleId } = c.get('validatedBody');
+  const user = c.get('user');
+  setAuditDetails(c, {
+    action: 'user.role.assign',
+    resource: { type: 'user', id: c.req.param('id') },
+  });
+
+  try {
+    const role = await roleService.getRole(roleId);
+    setAuditDetails(c, {
+      metadata: { roleId, roleName: role?.name, permissions: role?.permissions },
+    });
+    const ungrantable = findUngrantable(c, role?.permissions || []);
+    if (ungrantable.length > 0) {
+      return c.json(
+        createErrorResponse('Cannot grant permissions you do not have', ungrantable.join(', ')),
+        403
+      );
+    }
+
+    const result = await roleService.assignRole(c.req.param('id'), roleId, user.userId);
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to assign role'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(createSuccessResponse(null, 'Role assigned successfully'), 201);
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Assign role error');
+    return c.json(createErrorResponse('Failed to assign role'), 500);
+  }
+});
+
+// Remove a role from a user
+roleRoutes.delete('/users/:id/roles/:roleId', async (c: Context) => {
+  setAuditDetails(c, {
+    action: 'user.role.unassign',
+    resource: { type: 'user', id: c.req.param('id') },
+    metadata: { roleId: c.req.param('roleId') },
+  });
+
+  try {
+    const result = await roleService.unassignRole(c.req.param('id'), c.req.param('roleId'));
+    if (!result.success) {
+      return c.json(
+        createErrorResponse(result.error || 'Failed to unassign role'),
+        errorStatus(result.error)
+      );
+    }
+
+    return c.json(createSuccessResponse(null, 'Role unassigned successfully'));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Unassign role error');
+    return c.json(createErrorResponse('Failed to unassign role'), 500);
+  }
+});
+
+export default roleRoutes;
@@ -1,14 +1,7 @@
-import { eq, and, lt, gt } from 'drizzle-orm';
+import { eq, and, lt, gt, or, isNull } from 'drizzle-orm';
 import crypto from 'crypto';
-import bcrypt from 'bcrypt';
 import { sql } from 'drizzle-orm';
-import { 
-  db, 
-  apiKeys, 
-  users,
-  type ApiKey,
-  type NewApiKey,
-} from '../models/database';
+import { db, apiKeys, users, type ApiKey, type NewApiKey } from '../models/database';
 
 export interface CreateApiKeyRequest {
   name: string;
@@ -22,29 +15,28 @@ export class ApiKeyService {
   // Generate API key with prefix
   private generateApiKey(): string {
     const prefix = 'sk'; // Secret key prefix
-    const randomPart = crypto.randomBytes(24).toString('base64')
-      .replace(/[+/]/g, '')  // Remove URL-unsafe characters
-      .substring(0, 32);     // Ensure consistent length
-    
-    return `${prefix}_${randomPart}`;
-  }
+    const randomPart = crypto
+      .randomBytes(24)
+      .toString('base64')
+      .replace(/[+/]/g, '') // Remove URL-unsafe characters
+      .substring(0, 32); // Ensure consistent length
 
-  // Hash API key for storage
-  private async hashApiKey(apiKey: string): Promise<string> {
-    return await bcrypt.hash(apiKey, 10);
+    return `${prefix}_${randomPart}`;
   }
 
-  // Verify API key against hash
-  private async verifyApiKey(apiKey: string, hash: string): Promise<boolean> {
-    return await bcrypt.compare(apiKey, hash);
+  // Hash API key for storage. Keys are long random strings, so a fast hash is
+  // as hard to reverse as a slow one, and a key is found by its hash with one
+  // indexed lookup rather than compared against every stored key.
+  private hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
   }
 
   // Create new API key
-  async createApiKey(request: CreateApiKeyRequest): Promise<{ 
-    success: boolean; 
-    apiKey?: string; 
-    keyData?: ApiKey; 
-    error?: string; 
+  async createApiKey(request: CreateApiKeyRequest): Promise<{
+    success: boolean;
+    apiKey?: string;
+    keyData?: ApiKey;
+    error?: string;
   }> {
     try {
       // Validate user if provided
@@ -57,7 +49,7 @@ export class ApiKeyService {
 
       // Generate API key
       const apiKey = this.generateApiKey();
-      const keyHash = await this.hashApiKey(apiKey);
+      const keyHash = this.hashApiKey(apiKey);
 
       // Calculate expiry date
       let expiresAt: string | undefined;
@@ -79,10 +71,10 @@ export class ApiKeyService {
 
       const [createdKey] = await db.insert(apiKeys).values(newApiKey).returning();
 
-      return { 
-        success: true, 
+      return {
+        success: true,
         apiKey, // Return the actual key only once
-        keyData: createdKey 
+        keyData: createdKey,
       };
     } catch (error) {
       console.error('API key creation error:', error);
@@ -99,32 +91,46 @@ export class ApiKeyService {
     error?: string;
   }> {
     try {
-      // Get all active API keys (we need to check against all hashes)
-      const activeKeys = await db.select()
+      // Skip hashing for anything that is not shaped like one of our keys
+      if (!/^sk_[A-Za-z0-9]+$/.test(apiKey)) {
+        return { valid: false, error: 'Invalid API key' };
+      }
+
+      const [key] = await db
+        .select()
         .from(apiKeys)
-        .where(and(
-          eq(apiKeys.isActive, true),
-          // Only include keys that haven't expired
-          gt(apiKeys.expiresAt, new Date().toISOString())
-        ));
-
-      // Check against each key hash
-      for (const key of activeKeys) {
-        const isValid = await this.verifyApiKey(apiKey, key.keyHash);
-        if (isValid) {
-          // Update usage stats
-          await this.updateKeyUsage(key.id);
-
-          return {
-            valid: true,
-            keyData: key,
-            userId: key.userId || undefined,
-            permissions: key.permissions || [],
-          };
+        .where(
+          and(
+            eq(apiKeys.keyHash, this.hashApiKey(apiKey)),
+            eq(apiKeys.isActive, true),
+            // Only keys that never expire or haven't expired yet
+            or(isNull(apiKeys.expiresAt), gt(apiKeys.expiresAt, new Date().toISOString()))
+          )
+        );
+      if (!key) {
+        return { valid: false, error: 'Invalid API key' };
+      }
+
+      // Keys stop working while their owner is deactivated
+      if (key.userId) {
+        const [owner] = await db
+          .select({ isActive: users.isActive })
+          .from(users)
+          .where(eq(users.id, key.userId));
+        if (!owner?.isActive) {
+          return { valid: false, error: 'Invalid API key' };
         }
       }
 
-      return { valid: false, error: 'Invalid API key' };
+      // Update usage stats
+      await this.updateKeyUsage(key.id);
+
+      return {
+        valid: true,
+        keyData: key,
+        userId: key.userId || undefined,
+        permissions: key.permissions || [],
+      };
     } catch (error) {
       console.error('API key validation error:', error);
       return { valid: false, error: 'API key validation failed' };
@@ -133,8 +139,9 @@ export class ApiKeyService {
 
   // Update API key usage statistics
   private async updateKeyUsage(keyId: string): Promise<void> {
-    await db.update(apiKeys)
-      .set({ 
+    await db
+      .update(apiKeys)
+      .set({
         lastUsedAt: new Date().toISOString(),
         usageCount: sql`${apiKeys.usageCount} + 1`,
         updatedAt: new Date().toISOString(),
@@ -144,9 +151,7 @@ export class ApiKeyService {
 
   // List API keys for a user
   async listUserApiKeys(userId: string): Promise<ApiKey[]> {
-    return await db.select()
-      .from(apiKeys)
-      .where(eq(apiKeys.userId, userId));
+    return await db.select().from(apiKeys).where(eq(apiKeys.userId, userId));
   }
 
   // List all API keys (admin only)
@@ -161,7 +166,8 @@ export class ApiKeyService {
       conditions.push(eq(apiKeys.userId, userId));
     }
 
-    const [key] = await db.select()
+    const [key] = await db
+      .select()
       .from(apiKeys)
       .where(and(...conditions));
 
@@ -170,7 +176,7 @@ export class ApiKeyService {
 
   // Update API key
   async updateApiKey(
-    keyId: string, 
+    keyId: string,
     updates: {
       name?: string;
       permissions?: string[];
@@ -186,7 +192,8 @@ export class ApiKeyService {
         conditions.push(eq(apiKeys.userId, userId));
       }
 
-      const [updatedKey] = await db.update(apiKeys)
+      const [updatedKey] = await db
+        .update(apiKeys)
         .set({
           ...updates,
           updatedAt: new Date().toISOString(),
@@ -206,7 +213,10 @@ export class ApiKeyService {
   }
 
   // Revoke API key
-  async revokeApiKey(keyId: string, userId?: string): Promise<{ success: boolean; error?: string }> {
+  async revokeApiKey(
+    keyId: string,
+    userId?: string
+  ): Promise<{ success: boolean; error?: string }> {
     try {
       const result = await this.updateApiKey(keyId, { isActive: false }, userId);
       return { success: result.success, error: result.error };
@@ -217,14 +227,24 @@ export class ApiKeyService {
   }
 
   // Delete API key
-  async deleteApiKey(keyId: string, userId?: string): Promise<{ success: boolean; error?: string }> {
+  async deleteApiKey(
+    keyId: string,
+    userId?: string
+  ): Promise<{ success: boolean; error?: string }> {
     try {
       const conditions = [eq(apiKeys.id, keyId)];
       if (userId) {
         conditions.push(eq(apiKeys.userId, userId));
       }
 
-      await db.delete(apiKeys).where(and(...conditions));
+      const deleted = await db
+        .delete(apiKeys)
+        .where(and(...conditions))
+        .returning();
+      if (deleted.length === 0) {
+        return { success: false, error: 'API key not found' };
+      }
+
       return { success: true };
     } catch (error) {
       console.error('API key deletion error:', error);
@@ -252,19 +272,17 @@ export class ApiKeyService {
   // Clean up expired API keys
   async cleanupExpiredKeys(): Promise<number> {
     const now = new Date().toISOString();
-    
-    const result = await db.delete(apiKeys)
-      .where(and(
-        eq(apiKeys.isActive, false),
-        lt(apiKeys.expiresAt, now)
-      ));
-
-    // Return count of deleted keys (if supported by the database driver)
-    return 0; // SQLite doesn't return affected rows in this setup
+
+    const deleted = await db.delete(apiKeys).where(lt(apiKeys.expiresAt, now)).returning();
+
+    return deleted.length;
   }
 
   // Get API key usage statistics
-  async getUsageStats(keyId: string, userId?: string): Promise<{
+  async getUsageStats(
+    keyId: string,
+    userId?: string
+  ): Promise<{
     keyData?: ApiKey;
     stats?: {
       totalUsage: number;
@@ -303,4 +321,4 @@ export class ApiKeyService {
       return { error: 'Failed to get usage statistics' };
     }
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,11 @@
-import { eq, and, lt, gt, sql } from 'drizzle-orm';
+import { eq, and, lt, gt, isNull, sql } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
-import { 
-  db, 
-  users, 
-  authTokens, 
-  passwordResetTokens, 
+import {
+  db,
+  users,
+  authTokens,
+  passwordResetTokens,
   emailVerificationTokens,
   userSessions,
   type User,
@@ -14,6 +14,8 @@ import {
   type NewUserSession,
   type UserSession,
 } from '../models/database';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
 
 export interface DeviceInfo {
   userAgent?: string;
@@ -22,6 +24,12 @@ export interface DeviceInfo {
   platform?: string;
 }
 
+// The database or an open transaction
+type SessionWriter = Pick<typeof db, 'insert' | 'update'>;
+
+export const PASSWORD_RESET_EXPIRY_HOURS = 1;
+export const EMAIL_VERIFICATION_EXPIRY_HOURS = 24;
+
 export class AuthService {
   // Generate secure random token
   private generateSecureToken(): string {
@@ -29,7 +37,9 @@ export class AuthService {
   }
 
   // Create password reset token
-  async createPasswordResetToken(email: string): Promise<{ success: boolean; token?: string; error?: string }> {
+  async createPasswordResetToken(
+    email: string
+  ): Promise<{ success: boolean; token?: string; user?: User; error?: string }> {
     try {
       // Find user by email
       const [user] = await db.select().from(users).where(eq(users.email, email));
@@ -39,14 +49,15 @@ export class AuthService {
       }
 
       // Invalidate existing tokens
-      await db.update(passwordResetTokens)
+      await db
+        .update(passwordResetTokens)
         .set({ used: true })
         .where(eq(passwordResetTokens.userId, user.id));
 
       // Create new token
       const token = this.generateSecureToken();
       const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 1); // 1 hour expiry
+      expiresAt.setHours(expiresAt.getHours() + PASSWORD_RESET_EXPIRY_HOURS);
 
       const resetToken: NewPasswordResetToken = {
         userId: user.id,
@@ -56,7 +67,7 @@ export class AuthService {
 
       await db.insert(passwordResetTokens).values(resetToken);
 
-      return { success: true, token };
+      return { success: true, token, user };
     } catch (error) {
       console.error('Password reset token creation error:', error);
       return { success: false, error: 'Failed to create password reset token' };
@@ -64,16 +75,22 @@ export class AuthService {
   }
 
   // Reset password with token
-  async resetPassword(token: string, newPassword: string): Promise<{ success: boolean; error?: string }> {
+  async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{ success: boolean; error?: string }> {
     try {
       // Find valid token
-      const [resetToken] = await db.select()
+      const [resetToken] = await db
+        .select()
         .from(passwordResetTokens)
-        .where(and(
-          eq(passwordResetTokens.token, token),
-          eq(passwordResetTokens.used, false),
-          gt(passwordResetTokens.expiresAt, new Date().toISOString())
-        ));
+        .where(
+          and(
+            eq(passwordResetTokens.token, token),
+            eq(passwordResetTokens.used, false),
+            gt(passwordResetTokens.expiresAt, new Date().toISOString())
+          )
+        );
 
       if (!resetToken) {
         return { success: false, error: 'Invalid or expired token' };
@@ -82,24 +99,31 @@ export class AuthService {
       // Hash new password
       const hashedPassword = await bcrypt.hash(newPassword, 12);
 
-      // Update user password
-      await db.update(users)
-        .set({ 
-          password: hashedPassword,
-          updatedAt: new Date().toISOString(),
-        })
-        .where(eq(users.id, resetToken.userId));
-
-      // Mark token as used
-      await db.update(passwordResetTokens)
-        .set({ used: true })
-        .where(eq(passwordResetTokens.id, resetToken.id));
-
-      // Invalidate all auth tokens for this user
-      await db.delete(authTokens).where(eq(authTokens.userId, resetToken.userId));
-      await db.update(userSessions)
-        .set({ isActive: false })
-        .where(eq(userSessions.userId, resetToken.userId));
+      db.transaction(tx => {
+        // Update user password
+        tx.update(users)
+          .set({
+            password: hashedPassword,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(users.id, resetToken.userId))
+          .run();
+
+        // Mark token as used
+        tx.update(passwordResetTokens)
+          .set({ used: true })
+          .where(eq(passwordResetTokens.id, resetToken.id))
+          .run();
+
+        // Invalidate all auth tokens for this user
+        tx.delete(authTokens).where(eq(authTokens.userId, resetToken.userId)).run();
+        tx.update(userSessions)
+          .set({ isActive: false })
+          .where(eq(userSessions.userId, resetToken.userId))
+          .run();
+
+        enqueueEvent(tx, EventTypes.USER_PASSWORD_RESET, { userId: resetToken.userId });
+      });
 
       return { success: true };
     } catch (error) {
@@ -109,17 +133,20 @@ export class AuthService {
   }
 
   // Create email verification token
-  async createEmailVerificationToken(userId: string): Promise<{ success: boolean; token?: string; error?: string }> {
+  async createEmailVerificationToken(
+    userId: string
+  ): Promise<{ success: boolean; token?: string; error?: string }> {
     try {
       // Invalidate existing tokens
-      await db.update(emailVerificationTokens)
+      await db
+        .update(emailVerificationTokens)
         .set({ used: true })
         .where(eq(emailVerificationTokens.userId, userId));
 
       // Create new token
       const token = this.generateSecureToken();
       const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24); // 24 hours expiry
+      expiresAt.setHours(expiresAt.getHours() + EMAIL_VERIFICATION_EXPIRY_HOURS);
 
       const verificationToken: NewEmailVerificationToken = {
         userId,
@@ -140,30 +167,39 @@ export class AuthService {
   async verifyEmail(token: string): Promise<{ success: boolean; userId?: string; error?: string }> {
     try {
       // Find valid token
-      const [verificationToken] = await db.select()
+      const [verificationToken] = await db
+        .select()
         .from(emailVerificationTokens)
-        .where(and(
-          eq(emailVerificationTokens.token, token),
-          eq(emailVerificationTokens.used, false),
-          gt(emailVerificationTokens.expiresAt, new Date().toISOString())
-        ));
+        .where(
+          and(
+            eq(emailVerificationTokens.token, token),
+            eq(emailVerificationTokens.used, false),
+            gt(emailVerificationTokens.expiresAt, new Date().toISOString())
+          )
+        );
 
       if (!verificationToken) {
         return { success: false, error: 'Invalid or expired token' };
       }
 
-      // Mark user as verified
-      await db.update(users)
-        .set({ 
-          emailVerified: true,
-          updatedAt: new Date().toISOString(),
-        })
-        .where(eq(users.id, verificationToken.userId));
-
-      // Mark token as used
-      await db.update(emailVerificationTokens)
-        .set({ used: true })
-        .where(eq(emailVerificationTokens.id, verificationToken.id));
+      db.transaction(tx => {
+        // Mark user as verified
+        tx.update(users)
+          .set({
+            emailVerified: true,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(users.id, verificationToken.userId))
+          .run();
+
+        // Mark token as used
+        tx.update(emailVerificationTokens)
+          .set({ used: true })
+          .where(eq(emailVerificationTokens.id, verificationToken.id))
+          .run();
+
+        enqueueEvent(tx, EventTypes.USER_EMAIL_VERIFIED, { userId: verificationToken.userId });
+      });
 
       return { success: true, userId: verificationToken.userId };
     } catch (error) {
@@ -174,8 +210,8 @@ export class AuthService {
 
   // Create user session
   async createUserSession(
-    userId: string, 
-    sessionToken: string, 
+    userId: string,
+    sessionToken: string,
     deviceInfo: DeviceInfo,
     expiryHours = 24
   ): Promise<void> {
@@ -197,24 +233,77 @@ export class AuthService {
 
   // Get active sessions for user
   async getUserSessions(userId: string): Promise<UserSession[]> {
-    return await db.select()
+    return await db
+      .select()
       .from(userSessions)
-      .where(and(
-        eq(userSessions.userId, userId),
-        eq(userSessions.isActive, true),
-        gt(userSessions.expiresAt, new Date().toISOString())
-      ));
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          eq(userSessions.isActive, true),
+          gt(userSessions.expiresAt, new Date().toISOString())
+        )
+      );
+  }
+
+  // Check that the session an access token belongs to is still active
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const [session] = await db
+      .select()
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.id, sessionId),
+          eq(userSessions.isActive, true),
+          gt(userSessions.expiresAt, new Date().toISOString())
+        )
+      );
+
+    return !!session;
+  }
+
+  // End sessions and revoke the refresh token families behind them, as part of
+  // the caller's transaction
+  revokeSessions(tx: SessionWriter, sessions: UserSession[], revokedBy: string): void {
+    const now = new Date().toISOString();
+
+    for (const session of sessions) {
+      tx.update(userSessions).set({ isActive: false }).where(eq(userSessions.id, session.id)).run();
+      tx.update(authTokens)
+        .set({ revokedAt: now })
+        .where(and(eq(authTokens.familyId, session.sessionToken), isNull(authTokens.revokedAt)))
+        .run();
+
+      enqueueEvent(tx, EventTypes.USER_SESSION_REVOKED, {
+        userId: session.userId,
+        sessionId: session.id,
+        revokedBy,
+      });
+    }
   }
 
   // Revoke user session
-  async revokeUserSession(sessionId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+  async revokeUserSession(
+    sessionId: string,
+    userId: string,
+    revokedBy: string = userId
+  ): Promise<{ success: boolean; error?: string }> {
     try {
-      await db.update(userSessions)
-        .set({ isActive: false })
-        .where(and(
-          eq(userSessions.id, sessionId),
-          eq(userSessions.userId, userId)
-        ));
+      const [session] = await db
+        .select()
+        .from(userSessions)
+        .where(
+          and(
+            eq(userSessions.id, sessionId),
+            eq(userSessions.userId, userId),
+            eq(userSessions.isActive, true)
+          )
+        );
+
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      db.transaction(tx => this.revokeSessions(tx, [session], revokedBy));
 
       return { success: true };
     } catch (error) {
@@ -223,17 +312,21 @@ export class AuthService {
     }
   }
 
-  // Revoke all sessions for user (logout from all devices)
-  async revokeAllUserSessions(userId: string): Promise<{ success: boolean; error?: string }> {
+  // Revoke all sessions for user (logout from all devices), optionally keeping one
+  async revokeAllUserSessions(
+    userId: string,
+    options: { exceptSessionId?: string; revokedBy?: string } = {}
+  ): Promise<{ success: boolean; revoked?: number; error?: string }> {
     try {
-      await db.update(userSessions)
-        .set({ isActive: false })
-        .where(eq(userSessions.userId, userId));
+      const sessions = await db
+        .select()
+        .from(userSessions)
+        .where(and(eq(userSessions.userId, userId), eq(userSessions.isActive, true)));
 
-      // Also revoke all refresh tokens
-      await db.delete(authTokens).where(eq(authTokens.userId, userId));
+      const revoked = sessions.filter(session => session.id !== options.exceptSessionId);
+      db.transaction(tx => this.revokeSessions(tx, revoked, options.revokedBy || userId));
 
-      return { success: true };
+      return { success: true, revoked: revoked.length };
     } catch (error) {
       console.error('All sessions revocation error:', error);
       return { success: false, error: 'Failed to revoke all sessions' };
@@ -242,7 +335,8 @@ export class AuthService {
 
   // Update session activity
   async updateSessionActivity(sessionToken: string): Promise<void> {
-    await db.update(userSessions)
+    await db
+      .update(userSessions)
       .set({ lastActivityAt: new Date().toISOString() })
       .where(eq(userSessions.sessionToken, sessionToken));
   }
@@ -250,24 +344,25 @@ export class AuthService {
   // Clean up expired sessions and tokens
   async cleanupExpiredSessions(): Promise<void> {
     const now = new Date().toISOString();
-    
+
     // Remove expired sessions
     await db.delete(userSessions).where(lt(userSessions.expiresAt, now));
-    
+
     // Remove expired auth tokens
     await db.delete(authTokens).where(lt(authTokens.expiresAt, now));
-    
+
     // Remove expired password reset tokens
     await db.delete(passwordResetTokens).where(lt(passwordResetTokens.expiresAt, now));
-    
+
     // Remove expired email verification tokens
     await db.delete(emailVerificationTokens).where(lt(emailVerificationTokens.expiresAt, now));
   }
 
   // Update user login stats
   async updateUserLoginStats(userId: string): Promise<void> {
-    await db.update(users)
-      .set({ 
+    await db
+      .update(users)
+      .set({
         lastLoginAt: new Date().toISOString(),
         loginCount: sql`${users.loginCount} + 1`,
         updatedAt: new Date().toISOString(),
@@ -277,8 +372,8 @@ export class AuthService {
 
   // Change password (with current password verification)
   async changePassword(
-    userId: string, 
-    currentPassword: string, 
+    userId: string,
+    currentPassword: string,
     newPassword: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
@@ -298,12 +393,17 @@ export class AuthService {
       const hashedPassword = await bcrypt.hash(newPassword, 12);
 
       // Update password
-      await db.update(users)
-        .set({ 
-          password: hashedPassword,
-          updatedAt: new Date().toISOString(),
-        })
-        .where(eq(users.id, userId));
+      db.transaction(tx => {
+        tx.update(users)
+          .set({
+            password: hashedPassword,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(users.id, userId))
+          .run();
+
+        enqueueEvent(tx, EventTypes.USER_UPDATED, { userId, changes: ['password'] });
+      });
 
       // Optionally revoke all sessions (force re-login)
       await this.revokeAllUserSessions(userId);
@@ -314,4 +414,4 @@ export class AuthService {
       return { success: false, error: 'Failed to change password' };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,189 @@
+import { eq, or, and, gt, lt, desc } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import crypto, { type KeyObject, type JsonWebKey } from 'crypto';
+import { db, signingKeys, type SigningKey } from '../models/database';
+import { jwtConfig } from '../config';
+
+export type SigningAlgorithm = SigningKey['algorithm'];
+
+// A signing key without its private half
+export type SigningKeyInfo = Omit<SigningKey, 'privateKey'>;
+
+// How long the active key is reused before re-reading it, so rotations made by
+// other instances are picked up
+const ACTIVE_KEY_CACHE_MS = 60 * 1000;
+
+const toKeyInfo = ({ privateKey: _, ...key }: SigningKey): SigningKeyInfo => key;
+
+export class KeyService {
+  private activeKey: { key: SigningKey; privateKey: KeyObject; loadedAt: number } | null = null;
+  private publicKeys = new Map<string, KeyObject>();
+
+  private generateKeyPair(algorithm: SigningAlgorithm) {
+    const { publicKey, privateKey } =
+      algorithm === 'ES256'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    return {
+      publicKey: publicKey.export({ format: 'jwk' }) as JsonWebKey,
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+    };
+  }
+
+  // Retired keys older than this are no longer published
+  private retentionCutoff(): string {
+    return new Date(Date.now() - jwtConfig.keyRetentionHours * 60 * 60 * 1000).toISOString();
+  }
+
+  private createActiveKey(algorithm: SigningAlgorithm): SigningKey {
+    const keyPair = this.generateKeyPair(algorithm);
+    const now = new Date().toISOString();
+
+    const [key] = db.transaction(tx => {
+      tx.update(signingKeys)
+        .set({ status: 'retired', retiredAt: now })
+        .where(eq(signingKeys.status, 'active'))
+        .run();
+      tx.delete(signingKeys)
+        .where(
+          and(eq(signingKeys.status, 'retired'), lt(signingKeys.retiredAt, this.retentionCutoff()))
+        )
+        .run();
+
+      return tx
+        .insert(signingKeys)
+        .values({ id: crypto.randomUUID(), algorithm, ...keyPair, createdAt: now })
+        .returning()
+        .all();
+    });
+
+    this.activeKey = null;
+    return key;
+  }
+
+  // Replace the active key. Tokens it signed stay valid, since retired keys are
+  // published until keyRetentionHours have passed.
+  rotateKeys(): SigningKeyInfo {
+    return toKeyInfo(this.createActiveKey(jwtConfig.algorithm));
+  }
+
+  // The key new tokens are signed with. The first one is created on demand, and
+  // it is rotated once it is older than keyRotationDays or JWT_ALGORITHM changes.
+  private getSigningKey(): { key: SigningKey; privateKey: KeyObject } {
+    if (this.activeKey && Date.now() - this.activeKey.loadedAt < ACTIVE_KEY_CACHE_MS) {
+      return this.activeKey;
+    }
+
+    let [key] = db.select().from(signingKeys).where(eq(signingKeys.status, 'active')).all();
+
+    const maxAgeMs = jwtConfig.keyRotationDays * 24 * 60 * 60 * 1000;
+    if (
+      !key ||
+      key.algorithm !== jwtConfig.algorithm ||
+      Date.now() - Date.parse(key.createdAt) > maxAgeMs
+    ) {
+      key = this.createActiveKey(jwtConfig.algorithm);
+    }
+
+    this.activeKey = {
+      key,
+      privateKey: crypto.createPrivateKey(key.privateKey),
+      loadedAt: Date.now(),
+    };
+    return this.activeKey;
+  }
+
+  signAccessToken(payload: object): string {
+    return this.signToken(payload, { expiresIn: jwtConfig.accessTokenExpiry });
+  }
+
+  // Sign a token with the active key, so it verifies against the JWKS like access
+  // tokens do; used for the tokens issued to OAuth clients
+  signToken(payload: object, options: jwt.SignOptions): string {
+    const { key, privateKey } = this.getSigningKey();
+
+    return jwt.sign(payload, privateKey, {
+      ...options,
+      algorithm: key.algorithm,
+      keyid: key.id,
+    });
+  }
+
+  // The active key and the retired keys still within their retention period
+  private getPublishedKeys(kid?: string): SigningKey[] {
+    const published = or(
+      eq(signingKeys.status, 'active'),
+      gt(signingKeys.retiredAt, this.retentionCutoff())
+    );
+
+    return db
+      .select()
+      .from(signingKeys)
+      .where(kid ? and(eq(signingKeys.id, kid), published) : published)
+      .orderBy(desc(signingKeys.createdAt))
+      .all();
+  }
+
+  // Served as /.well-known/jwks.json
+  getJwks(): { keys: JsonWebKey[] } {
+    // Make sure there is a key to publish before the first token is signed
+    this.getSigningKey();
+
+    return {
+      keys: this.getPublishedKeys().map(key => ({
+        ...key.publicKey,
+        kid: key.id,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  listKeys(): SigningKeyInfo[] {
+    return db.select().from(signingKeys).orderBy(desc(signingKeys.createdAt)).all().map(toKeyInfo);
+  }
+
+  // Verify a token against the published keys; throws if it is invalid
+  private verifyToken(token: string): any {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new Error('Invalid token');
+    }
+
+    const [key] = this.getPublishedKeys(kid);
+    if (!key) {
+      throw new Error('Invalid token');
+    }
+
+    let publicKey = this.publicKeys.get(kid);
+    if (!publicKey) {
+      publicKey = crypto.createPublicKey({ key: key.publicKey as any, format: 'jwk' });
+      this.publicKeys.set(kid, publicKey);
+    }
+
+    return jwt.verify(token, publicKey, { algorithms: [key.algorithm] });
+  }
+
+  // Access tokens for the account APIs of this service. Tokens issued to OAuth
+  // clients are refused: access tokens carry a client_id and ID tokens an audience.
+  verifyAccessToken(token: string): any {
+    const payload = this.verifyToken(token);
+    if (payload.client_id || payload.aud) {
+      throw new Error('Invalid token');
+    }
+
+    return payload;
+  }
+
+  // Access tokens issued to OAuth clients, presented at the userinfo endpoint
+  verifyOAuthAccessToken(token: string): any {
+    const payload = this.verifyToken(token);
+    if (!payload.client_id) {
+      throw new Error('Invalid token');
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,215 @@
+import { createClient } from 'redis';
+import crypto from 'crypto';
+import config, { loginProtection } from '../config';
+
+export interface LoginAttemptCheck {
+  allowed: boolean;
+  reason?: 'locked' | 'throttled';
+  retryAfterSeconds?: number;
+}
+
+export interface LoginFailureResult {
+  failures: number; // Failures of the account within the window
+  locked: boolean; // Whether this failure locked the account
+  lockedUntil?: string;
+  unlockToken?: string;
+}
+
+const WINDOW_MS = loginProtection.failureWindowMinutes * 60 * 1000;
+const LOCKOUT_MS = loginProtection.lockoutMinutes * 60 * 1000;
+
+// Throttles password guessing. Counters live in Redis so every auth-service
+// instance sees the same attempts. When Redis is unavailable logins are let
+// through unthrottled rather than locking everyone out.
+export class LoginAttemptService {
+  private redisClient;
+
+  constructor() {
+    this.redisClient = createClient({
+      socket: {
+        host: config.redis.host,
+        port: config.redis.port,
+      },
+      password: config.redis.password,
+      database: config.redis.db,
+    });
+
+    this.redisClient.on('error', err => {
+      console.error('Redis client error:', err);
+    });
+  }
+
+  async connect() {
+    if (!this.redisClient.isOpen) {
+      await this.redisClient.connect();
+    }
+  }
+
+  async disconnect() {
+    if (this.redisClient.isOpen) {
+      await this.redisClient.disconnect();
+    }
+  }
+
+  private accountId(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private failuresKey(scope: 'account' | 'ip', id: string): string {
+    return `login:failures:${scope}:${id}`;
+  }
+
+  private delayKey(scope: 'account' | 'ip', id: string): string {
+    return `login:delay:${scope}:${id}`;
+  }
+
+  private lockKey(account: string): string {
+    return `login:lock:${account}`;
+  }
+
+  // Unlock tokens are stored hashed, like every other emailed token
+  private unlockKey(token: string): string {
+    return `login:unlock:${crypto.createHash('sha256').update(token).digest('hex')}`;
+  }
+
+  // Delay before the next attempt: none for the free failures, then doubling
+  private delayFor(failures: number, freeFailures: number): number {
+    if (failures <= freeFailures) return 0;
+    return Math.min(
+      loginProtection.baseDelayMs * 2 ** (failures - freeFailures - 1),
+      loginProtection.maxDelayMs
+    );
+  }
+
+  // Whether a login for the email may be attempted from the IP right now
+  async check(email: string, ipAddress: string): Promise<LoginAttemptCheck> {
+    const account = this.accountId(email);
+
+    try {
+      await this.connect();
+
+      const [lockTtl, accountDelay, ipDelay, ipFailures, ipFailuresTtl] = (await this.redisClient
+        .multi()
+        .pTTL(this.lockKey(account))
+        .pTTL(this.delayKey('account', account))
+        .pTTL(this.delayKey('ip', ipAddress))
+        .get(this.failuresKey('ip', ipAddress))
+        .pTTL(this.failuresKey('ip', ipAddress))
+        .exec()) as unknown as [number, number, number, string | null, number];
+
+      const retryAfter = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+      if (lockTtl > 0) {
+        return { allowed: false, reason: 'locked', retryAfterSeconds: retryAfter(lockTtl) };
+      }
+      if (parseInt(ipFailures || '0', 10) >= loginProtection.maxIpFailures) {
+        return {
+          allowed: false,
+          reason: 'throttled',
+          retryAfterSeconds: retryAfter(ipFailuresTtl),
+        };
+      }
+
+      const delay = Math.max(accountDelay, ipDelay);
+      if (delay > 0) {
+        return { allowed: false, reason: 'throttled', retryAfterSeconds: retryAfter(delay) };
+      }
+
+      return { allowed: true };
+    } catch (error) {
+      console.error('Login attempt check error:', error);
+      return { allowed: true };
+    }
+  }
+
+  // Count a failed attempt against the account and the IP
+  async recordFailure(email: string, ipAddress: string): Promise<LoginFailureResult> {
+    const account = this.accountId(email);
+
+    try {
+      await this.connect();
+
+      const [accountFailures, , ipFailures] = (await this.redisClient
+        .multi()
+        .incr(this.failuresKey('account', account))
+        .pExpire(this.failuresKey('account', account), WINDOW_MS)
+        .incr(this.failuresKey('ip', ipAddress))
+        .pExpire(this.failuresKey('ip', ipAddress), WINDOW_MS)
+        .exec()) as unknown as [number, boolean, number, boolean];
+
+      const accountDelay = this.delayFor(accountFailures, loginProtection.accountFreeFailures);
+      const ipDelay = this.delayFor(ipFailures, loginProtection.ipFreeFailures);
+      if (accountDelay > 0) {
+        await this.redisClient.set(this.delayKey('account', account), '1', { PX: accountDelay });
+      }
+      if (ipDelay > 0) {
+        await this.redisClient.set(this.delayKey('ip', ipAddress), '1', { PX: ipDelay });
+      }
+
+      if (accountFailures < loginProtection.maxAccountFailures) {
+        return { failures: accountFailures, locked: false };
+      }
+
+      // Only the failure that sets the lock reports it, so one email goes out per lockout
+      const locked = await this.redisClient.set(this.lockKey(account), '1', {
+        PX: LOCKOUT_MS,
+        NX: true,
+      });
+      if (!locked) {
+        return { failures: accountFailures, locked: false };
+      }
+
+      const unlockToken = crypto.randomBytes(32).toString('hex');
+      await this.redisClient
+        .multi()
+        .set(this.unlockKey(unlockToken), account, { PX: LOCKOUT_MS })
+        .del([this.failuresKey('account', account), this.delayKey('account', account)])
+        .exec();
+
+      return {
+        failures: accountFailures,
+        locked: true,
+        lockedUntil: new Date(Date.now() + LOCKOUT_MS).toISOString(),
+        unlockToken,
+      };
+    } catch (error) {
+      console.error('Login failure recording error:', error);
+      return { failures: 0, locked: false };
+    }
+  }
+
+  // A successful login clears the account's failures; the IP keeps its count
+  async recordSuccess(email: string): Promise<void> {
+    const account = this.accountId(email);
+
+    try {
+      await this.connect();
+      await this.redisClient.del([
+        this.failuresKey('account', account),
+        this.delayKey('account', account),
+      ]);
+    } catch (error) {
+      console.error('Login success recording error:', error);
+    }
+  }
+
+  // Lift a lockout with the token emailed when it started; resolves to the
+  // unlocked account's email, or null if the token is invalid or expired
+  async unlock(token: string): Promise<string | null> {
+    await this.connect();
+
+    const account = await this.redisClient.get(this.unlockKey(token));
+    if (!account) {
+      return null;
+    }
+
+    await this.redisClient.del([
+      this.unlockKey(token),
+      this.lockKey(account),
+      this.failuresKey('account', account),
+      this.delayKey('account', account),
+    ]);
+
+    return account;
+  }
+}
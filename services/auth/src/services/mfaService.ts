@@ -0,0 +1,304 @@
+import { eq, and, or, isNull, lt } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { db, users, userMfa, authSettings, type User } from '../models/database';
+import { mfaConfig } from '../config';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import type { DeviceInfo } from './authService';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp';
+
+export interface MfaPolicy {
+  enforcedRoles: User['role'][]; // Users with these roles cannot log in without MFA
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enforced: boolean;
+  pendingSetup: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+// Second step of a login; 'enroll' means MFA is enforced but not yet set up
+export type MfaRequirement = 'none' | 'verify' | 'enroll';
+
+export interface MfaChallengePayload {
+  userId: string;
+  enroll: boolean;
+  deviceInfo?: Pick<DeviceInfo, 'deviceType' | 'platform'>;
+}
+
+const MFA_POLICY_KEY = 'mfa_policy';
+const MFA_CHALLENGE_AUDIENCE = 'mfa-challenge';
+
+export class MfaService {
+  // The clock is injectable so codes can be checked against a fixed time
+  constructor(private clock: () => number = Date.now) {}
+
+  // Recovery codes are matched ignoring case, spaces and dashes
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: mfaConfig.recoveryCodeCount }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  async getPolicy(): Promise<MfaPolicy> {
+    const [setting] = await db
+      .select()
+      .from(authSettings)
+      .where(eq(authSettings.key, MFA_POLICY_KEY));
+    return (setting?.value as MfaPolicy) || { enforcedRoles: [] };
+  }
+
+  async setPolicy(policy: MfaPolicy, updatedBy: string): Promise<MfaPolicy> {
+    const now = new Date().toISOString();
+
+    await db
+      .insert(authSettings)
+      .values({ key: MFA_POLICY_KEY, value: policy, updatedBy, updatedAt: now })
+      .onConflictDoUpdate({
+        target: authSettings.key,
+        set: { value: policy, updatedBy, updatedAt: now },
+      });
+
+    return policy;
+  }
+
+  async getStatus(user: Pick<User, 'id' | 'role'>): Promise<MfaStatus> {
+    const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, user.id));
+    const policy = await this.getPolicy();
+
+    return {
+      enabled: !!mfa?.enabledAt,
+      enforced: policy.enforcedRoles.includes(user.role),
+      pendingSetup: !!mfa && !mfa.enabledAt,
+      enabledAt: mfa?.enabledAt || null,
+      recoveryCodesRemaining: mfa?.enabledAt ? mfa.recoveryCodes.length : 0,
+    };
+  }
+
+  async getLoginRequirement(user: Pick<User, 'id' | 'role'>): Promise<MfaRequirement> {
+    const status = await this.getStatus(user);
+    if (status.enabled) return 'verify';
+    return status.enforced ? 'enroll' : 'none';
+  }
+
+  // Short-lived proof that a login passed the password step
+  createChallengeToken(payload: MfaChallengePayload): string {
+    return jwt.sign(payload, mfaConfig.challengeSecret, {
+      expiresIn: mfaConfig.challengeExpiry,
+      audience: MFA_CHALLENGE_AUDIENCE,
+    });
+  }
+
+  verifyChallengeToken(token: string): MfaChallengePayload | null {
+    try {
+      return jwt.verify(token, mfaConfig.challengeSecret, {
+        audience: MFA_CHALLENGE_AUDIENCE,
+      }) as MfaChallengePayload;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Generate a new secret to set up in an authenticator app. It only protects
+  // logins once confirmed with enable(); calling this again replaces it.
+  async beginSetup(
+    user: Pick<User, 'id' | 'email'>
+  ): Promise<{ success: boolean; secret?: string; otpauthUri?: string; error?: string }> {
+    try {
+      const [existing] = await db.select().from(userMfa).where(eq(userMfa.userId, user.id));
+      if (existing?.enabledAt) {
+        return { success: false, error: 'MFA already enabled' };
+      }
+
+      const secret = generateTotpSecret();
+      const now = new Date().toISOString();
+
+      await db
+        .insert(userMfa)
+        .values({ userId: user.id, secret, createdAt: now, updatedAt: now })
+        .onConflictDoUpdate({
+          target: userMfa.userId,
+          set: { secret, lastUsedStep: null, recoveryCodes: [], updatedAt: now },
+        });
+
+      return {
+        success: true,
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, mfaConfig.issuer),
+      };
+    } catch (error) {
+      console.error('MFA setup error:', error);
+      return { success: false, error: 'Failed to set up MFA' };
+    }
+  }
+
+  // Consume a TOTP code; each code is accepted once
+  private consumeCode(userId: string, secret: string, code: string): boolean {
+    const step = verifyTotp(secret, code, this.clock());
+    if (step === null) return false;
+
+    const updated = db
+      .update(userMfa)
+      .set({ lastUsedStep: step, updatedAt: new Date().toISOString() })
+      .where(
+        and(
+          eq(userMfa.userId, userId),
+          or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step))
+        )
+      )
+      .returning()
+      .all();
+
+    return updated.length > 0;
+  }
+
+  // Confirm the pending secret with a code from the app; returns the recovery codes,
+  // which are only shown this once
+  async enable(
+    userId: string,
+    code: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    try {
+      const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, userId));
+      if (!mfa) {
+        return { success: false, error: 'MFA setup not started' };
+      }
+      if (mfa.enabledAt) {
+        return { success: false, error: 'MFA already enabled' };
+      }
+
+      if (!this.consumeCode(userId, mfa.secret, code)) {
+        return { success: false, error: 'Invalid MFA code' };
+      }
+
+      const { codes, hashes } = this.generateRecoveryCodes();
+      const now = new Date().toISOString();
+
+      db.transaction(tx => {
+        tx.update(userMfa)
+          .set({ enabledAt: now, recoveryCodes: hashes, updatedAt: now })
+          .where(eq(userMfa.userId, userId))
+          .run();
+
+        enqueueEvent(tx, EventTypes.USER_MFA_ENABLED, { userId, changedBy: userId }, correlationId);
+      });
+
+      return { success: true, recoveryCodes: codes };
+    } catch (error) {
+      console.error('MFA enable error:', error);
+      return { success: false, error: 'Failed to enable MFA' };
+    }
+  }
+
+  // Check a second factor: a TOTP code, or a recovery code, which is used up
+  async verify(
+    userId: string,
+    factor: { code?: string; recoveryCode?: string }
+  ): Promise<{
+    success: boolean;
+    method?: 'totp' | 'recovery_code';
+    recoveryCodesRemaining?: number;
+    error?: string;
+  }> {
+    try {
+      const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, userId));
+      if (!mfa?.enabledAt) {
+        return { success: false, error: 'MFA not enabled' };
+      }
+
+      if (factor.code) {
+        return this.consumeCode(userId, mfa.secret, factor.code)
+          ? { success: true, method: 'totp' }
+          : { success: false, error: 'Invalid MFA code' };
+      }
+
+      if (factor.recoveryCode) {
+        const hash = this.hashRecoveryCode(factor.recoveryCode);
+        if (!mfa.recoveryCodes.includes(hash)) {
+          return { success: false, error: 'Invalid recovery code' };
+        }
+
+        const remaining = mfa.recoveryCodes.filter(code => code !== hash);
+        await db
+          .update(userMfa)
+          .set({ recoveryCodes: remaining, updatedAt: new Date().toISOString() })
+          .where(eq(userMfa.userId, userId));
+
+        return { success: true, method: 'recovery_code', recoveryCodesRemaining: remaining.length };
+      }
+
+      return { success: false, error: 'MFA code or recovery code required' };
+    } catch (error) {
+      console.error('MFA verification error:', error);
+      return { success: false, error: 'Failed to verify MFA' };
+    }
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string
+  ): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    try {
+      const { codes, hashes } = this.generateRecoveryCodes();
+
+      const updated = await db
+        .update(userMfa)
+        .set({ recoveryCodes: hashes, updatedAt: new Date().toISOString() })
+        .where(eq(userMfa.userId, userId))
+        .returning();
+
+      if (updated.length === 0 || !updated[0].enabledAt) {
+        return { success: false, error: 'MFA not enabled' };
+      }
+
+      return { success: true, recoveryCodes: codes };
+    } catch (error) {
+      console.error('Recovery code generation error:', error);
+      return { success: false, error: 'Failed to generate recovery codes' };
+    }
+  }
+
+  // Remove the second factor, by the user or by an admin for a lost device
+  async disable(
+    userId: string,
+    changedBy: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const deleted = db.transaction(tx => {
+        const removed = tx.delete(userMfa).where(eq(userMfa.userId, userId)).returning().all();
+
+        if (removed.some(mfa => mfa.enabledAt)) {
+          enqueueEvent(tx, EventTypes.USER_MFA_DISABLED, { userId, changedBy }, correlationId);
+        }
+
+        return removed;
+      });
+
+      if (!deleted.some(mfa => mfa.enabledAt)) {
+        return { success: false, error: 'MFA not enabled' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('MFA disable error:', error);
+      return { success: false, error: 'Failed to disable MFA' };
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { serviceUrls, serviceApiKey, emailLinks, loginProtection } from '../config';
+import type { User } from '../models/database';
+import { PASSWORD_RESET_EXPIRY_HOURS, EMAIL_VERIFICATION_EXPIRY_HOURS } from './authService';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+type Recipient = Pick<User, 'email' | 'name'>;
+
+// Sends account emails through notification-service. Each email names a template
+// managed there; the inline subject and content are only used if it is missing.
+export class NotificationClient {
+  private buildLink(base: string, token: string): string {
+    const url = new URL(base);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  async sendTemplatedEmail(
+    to: string,
+    templateName: string,
+    variables: Record<string, any>,
+    fallback: { subject: string; content: string },
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(`${serviceUrls.notification}/notifications/email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(serviceApiKey && { 'X-API-Key': serviceApiKey }),
+          ...(correlationId && { 'X-Correlation-ID': correlationId }),
+        },
+        body: JSON.stringify({
+          to,
+          templateName,
+          variables,
+          subject: fallback.subject,
+          content: fallback.content,
+          priority: 'high',
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      const result = (await response.json().catch(() => null)) as {
+        success?: boolean;
+        error?: string;
+      } | null;
+      if (!response.ok || !result?.success) {
+        return {
+          success: false,
+          error: result?.error || `Notification service responded with ${response.status}`,
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Notification request error:', error);
+      return { success: false, error: 'Notification service unavailable' };
+    }
+  }
+
+  async sendPasswordResetEmail(
+    user: Recipient,
+    token: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const resetUrl = this.buildLink(emailLinks.passwordReset, token);
+
+    return this.sendTemplatedEmail(
+      user.email,
+      'password-reset',
+      {
+        name: user.name,
+        resetUrl,
+        expiresInHours: PASSWORD_RESET_EXPIRY_HOURS,
+      },
+      {
+        subject: 'Reset your password',
+        content: `Hi ${user.name}, use this link to reset your password: ${resetUrl}`,
+      },
+      correlationId
+    );
+  }
+
+  async sendVerificationEmail(
+    user: Recipient,
+    token: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const verifyUrl = this.buildLink(emailLinks.emailVerification, token);
+
+    return this.sendTemplatedEmail(
+      user.email,
+      'email-verification',
+      {
+        name: user.name,
+        verifyUrl,
+        expiresInHours: EMAIL_VERIFICATION_EXPIRY_HOURS,
+      },
+      {
+        subject: 'Verify your email address',
+        content: `Hi ${user.name}, use this link to verify your email address: ${verifyUrl}`,
+      },
+      correlationId
+    );
+  }
+
+  async sendAccountLockedEmail(
+    user: Recipient,
+    token: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const unlockUrl = this.buildLink(emailLinks.accountUnlock, token);
+
+    return this.sendTemplatedEmail(
+      user.email,
+      'account-locked',
+      {
+        name: user.name,
+        unlockUrl,
+        lockoutMinutes: loginProtection.lockoutMinutes,
+      },
+      {
+        subject: 'Your account has been locked',
+        content: `Hi ${user.name}, your account was locked after several failed login attempts. Use this link to unlock it: ${unlockUrl}`,
+      },
+      correlationId
+    );
+  }
+}
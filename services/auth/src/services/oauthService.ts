@@ -0,0 +1,520 @@
+import { eq, and, desc, isNull, lt } from 'drizzle-orm';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { PERMISSION_PATTERN, hasPermission } from 'shared-utils';
+import {
+  db,
+  users,
+  oauthClients,
+  oauthAuthorizationCodes,
+  oauthConsents,
+  type User,
+  type OAuthClient,
+  type OAuthConsent,
+} from '../models/database';
+import { oauthConfig } from '../config';
+import { KeyService } from './keyService';
+import { RoleService } from './roleService';
+
+export type OAuthGrantType = OAuthClient['grantTypes'][number];
+
+// Error codes of RFC 6749 (sections 4.1.2.1 and 5.2)
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'access_denied'
+  | 'server_error';
+
+export interface OAuthClientInput {
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  confidential: boolean; // Whether the client gets a secret
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  responseType: string;
+  scope?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  nonce?: string;
+}
+
+// Token endpoint response, in the wire format of RFC 6749 section 5.1
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+  id_token?: string;
+}
+
+export interface OAuthResult {
+  success: boolean;
+  error?: OAuthErrorCode;
+  errorDescription?: string;
+}
+
+// Scopes defined by OpenID Connect; every other scope is a permission, which the
+// access token carries if its user holds it
+export const OIDC_SCOPES = ['openid', 'profile', 'email'];
+
+export const isValidScope = (scope: string): boolean =>
+  OIDC_SCOPES.includes(scope) || PERMISSION_PATTERN.test(scope);
+
+// Space-delimited scope parameter to a list without duplicates
+export const parseScope = (scope?: string): string[] =>
+  Array.from(new Set((scope || '').split(' ').filter(Boolean)));
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// base64url(SHA-256(verifier)), as in RFC 7636 section 4.2
+const s256 = (verifier: string): string =>
+  crypto.createHash('sha256').update(verifier).digest('base64url');
+
+const fail = (error: OAuthErrorCode, errorDescription: string) => ({
+  success: false as const,
+  error,
+  errorDescription,
+});
+
+export class OAuthService {
+  private keyService = new KeyService();
+  private roleService = new RoleService();
+
+  private generateClientSecret(): string {
+    return `cs_${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  async createClient(
+    input: OAuthClientInput,
+    createdBy: string
+  ): Promise<{ success: boolean; client?: OAuthClient; clientSecret?: string; error?: string }> {
+    try {
+      const { confidential, ...clientData } = input;
+      const clientSecret = confidential ? this.generateClientSecret() : undefined;
+
+      const [client] = await db
+        .insert(oauthClients)
+        .values({
+          ...clientData,
+          secretHash: clientSecret ? await bcrypt.hash(clientSecret, 10) : null,
+          createdBy,
+        })
+        .returning();
+
+      return { success: true, client, clientSecret }; // The secret is only returned here
+    } catch (error) {
+      console.error('OAuth client creation error:', error);
+      return { success: false, error: 'Failed to create OAuth client' };
+    }
+  }
+
+  async listClients(): Promise<OAuthClient[]> {
+    return db.select().from(oauthClients).orderBy(desc(oauthClients.createdAt));
+  }
+
+  async getClient(clientId: string): Promise<OAuthClient | null> {
+    const [client] = await db.select().from(oauthClients).where(eq(oauthClients.id, clientId));
+    return client || null;
+  }
+
+  async updateClient(
+    clientId: string,
+    updates: Partial<Pick<OAuthClient, 'name' | 'redirectUris' | 'scopes' | 'isActive'>>
+  ): Promise<{ success: boolean; client?: OAuthClient; error?: string }> {
+    try {
+      const [client] = await db
+        .update(oauthClients)
+        .set({ ...updates, updatedAt: new Date().toISOString() })
+        .where(eq(oauthClients.id, clientId))
+        .returning();
+
+      if (!client) {
+        return { success: false, error: 'OAuth client not found' };
+      }
+
+      return { success: true, client };
+    } catch (error) {
+      console.error('OAuth client update error:', error);
+      return { success: false, error: 'Failed to update OAuth client' };
+    }
+  }
+
+  // Issue a new secret for a confidential client; the old one stops working
+  async regenerateClientSecret(
+    clientId: string
+  ): Promise<{ success: boolean; clientSecret?: string; error?: string }> {
+    try {
+      const client = await this.getClient(clientId);
+      if (!client) {
+        return { success: false, error: 'OAuth client not found' };
+      }
+      if (!client.secretHash) {
+        return { success: false, error: 'Public clients have no secret' };
+      }
+
+      const clientSecret = this.generateClientSecret();
+      await db
+        .update(oauthClients)
+        .set({
+          secretHash: await bcrypt.hash(clientSecret, 10),
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(oauthClients.id, clientId));
+
+      return { success: true, clientSecret };
+    } catch (error) {
+      console.error('OAuth client secret regeneration error:', error);
+      return { success: false, error: 'Failed to regenerate client secret' };
+    }
+  }
+
+  // Deleting a client also removes its consents and pending authorization codes
+  async deleteClient(clientId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const deleted = await db
+        .delete(oauthClients)
+        .where(eq(oauthClients.id, clientId))
+        .returning();
+      if (deleted.length === 0) {
+        return { success: false, error: 'OAuth client not found' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('OAuth client deletion error:', error);
+      return { success: false, error: 'Failed to delete OAuth client' };
+    }
+  }
+
+  // The active client with these credentials. Confidential clients must present
+  // their secret; public clients must not present one.
+  async authenticateClient(clientId: string, clientSecret?: string): Promise<OAuthClient | null> {
+    const client = await this.getClient(clientId);
+    if (!client || !client.isActive) {
+      return null;
+    }
+
+    if (!client.secretHash) {
+      return clientSecret ? null : client;
+    }
+
+    return clientSecret && (await bcrypt.compare(clientSecret, client.secretHash)) ? client : null;
+  }
+
+  // Check an authorization request. Errors with `redirect: false` must be shown to
+  // the user instead of being sent to a redirect URI that cannot be trusted.
+  async validateAuthorizationRequest(
+    request: AuthorizationRequest
+  ): Promise<OAuthResult & { client?: OAuthClient; scopes?: string[]; redirect?: boolean }> {
+    const client = await this.getClient(request.clientId);
+    if (!client || !client.isActive) {
+      return { ...fail('invalid_client', 'Unknown client'), redirect: false };
+    }
+    if (!client.redirectUris.includes(request.redirectUri)) {
+      return {
+        ...fail('invalid_request', 'redirect_uri is not registered for the client'),
+        redirect: false,
+      };
+    }
+
+    const invalid = (error: OAuthErrorCode, description: string) => ({
+      ...fail(error, description),
+      client,
+      redirect: true,
+    });
+
+    if (request.responseType !== 'code') {
+      return invalid('unsupported_response_type', 'Only the code response type is supported');
+    }
+    if (!client.grantTypes.includes('authorization_code')) {
+      return invalid('unauthorized_client', 'The client may not use the authorization code grant');
+    }
+
+    const scopes = parseScope(request.scope);
+    if (scopes.length === 0) {
+      return invalid('invalid_scope', 'scope is required');
+    }
+    if (scopes.some(scope => !client.scopes.includes(scope))) {
+      return invalid('invalid_scope', 'The client may not request these scopes');
+    }
+
+    // Public clients cannot keep a secret, so PKCE is what binds the code to them
+    if (request.codeChallenge) {
+      if (request.codeChallengeMethod !== 'S256') {
+        return invalid('invalid_request', 'code_challenge_method must be S256');
+      }
+      if (!/^[A-Za-z0-9_-]{43}$/.test(request.codeChallenge)) {
+        return invalid('invalid_request', 'Invalid code_challenge');
+      }
+    } else if (!client.secretHash) {
+      return invalid('invalid_request', 'code_challenge is required for public clients');
+    }
+
+    return { success: true, client, scopes, redirect: true };
+  }
+
+  async getConsent(userId: string, clientId: string): Promise<OAuthConsent | null> {
+    const [consent] = await db
+      .select()
+      .from(oauthConsents)
+      .where(and(eq(oauthConsents.userId, userId), eq(oauthConsents.clientId, clientId)));
+
+    return consent || null;
+  }
+
+  async hasConsent(userId: string, clientId: string, scopes: string[]): Promise<boolean> {
+    const consent = await this.getConsent(userId, clientId);
+    return !!consent && scopes.every(scope => consent.scopes.includes(scope));
+  }
+
+  // Record the user's approval; scopes approved earlier are kept
+  grantConsent(userId: string, clientId: string, scopes: string[]): OAuthConsent {
+    const now = new Date().toISOString();
+
+    return db.transaction(tx => {
+      const [existing] = tx
+        .select()
+        .from(oauthConsents)
+        .where(and(eq(oauthConsents.userId, userId), eq(oauthConsents.clientId, clientId)))
+        .all();
+
+      if (!existing) {
+        const [created] = tx
+          .insert(oauthConsents)
+          .values({ userId, clientId, scopes, createdAt: now, updatedAt: now })
+          .returning()
+          .all();
+        return created;
+      }
+
+      const [updated] = tx
+        .update(oauthConsents)
+        .set({ scopes: Array.from(new Set([...existing.scopes, ...scopes])), updatedAt: now })
+        .where(eq(oauthConsents.id, existing.id))
+        .returning()
+        .all();
+      return updated;
+    });
+  }
+
+  async listConsents(userId: string) {
+    return db
+      .select({
+        clientId: oauthConsents.clientId,
+        clientName: oauthClients.name,
+        scopes: oauthConsents.scopes,
+        createdAt: oauthConsents.createdAt,
+        updatedAt: oauthConsents.updatedAt,
+      })
+      .from(oauthConsents)
+      .innerJoin(oauthClients, eq(oauthConsents.clientId, oauthClients.id))
+      .where(eq(oauthConsents.userId, userId))
+      .orderBy(desc(oauthConsents.updatedAt));
+  }
+
+  // Withdraw a consent; the client has to ask again at the next sign-in. Tokens
+  // already issued stay valid until they expire.
+  async revokeConsent(userId: string, clientId: string): Promise<boolean> {
+    const deleted = db.transaction(tx => {
+      tx.delete(oauthAuthorizationCodes)
+        .where(
+          and(
+            eq(oauthAuthorizationCodes.userId, userId),
+            eq(oauthAuthorizationCodes.clientId, clientId)
+          )
+        )
+        .run();
+
+      return tx
+        .delete(oauthConsents)
+        .where(and(eq(oauthConsents.userId, userId), eq(oauthConsents.clientId, clientId)))
+        .returning()
+        .all();
+    });
+
+    return deleted.length > 0;
+  }
+
+  // Issue a code for a validated request the user approved; only its hash is stored
+  createAuthorizationCode(
+    clientId: string,
+    userId: string,
+    request: { redirectUri: string; scopes: string[]; codeChallenge?: string; nonce?: string }
+  ): string {
+    const code = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    db.transaction(tx => {
+      tx.delete(oauthAuthorizationCodes)
+        .where(lt(oauthAuthorizationCodes.expiresAt, now.toISOString()))
+        .run();
+
+      tx.insert(oauthAuthorizationCodes)
+        .values({
+          code: hashToken(code),
+          clientId,
+          userId,
+          redirectUri: request.redirectUri,
+          scopes: request.scopes,
+          codeChallenge: request.codeChallenge,
+          nonce: request.nonce,
+          expiresAt: new Date(
+            now.getTime() + oauthConfig.authorizationCodeExpirySeconds * 1000
+          ).toISOString(),
+          createdAt: now.toISOString(),
+        })
+        .run();
+    });
+
+    return code;
+  }
+
+  // authorization_code grant: redeem a code for an access token and, with the
+  // openid scope, an ID token
+  async exchangeAuthorizationCode(
+    client: OAuthClient,
+    request: { code: string; redirectUri: string; codeVerifier?: string }
+  ): Promise<OAuthResult & { tokens?: OAuthTokenResponse }> {
+    if (!client.grantTypes.includes('authorization_code')) {
+      return fail('unauthorized_client', 'The client may not use the authorization code grant');
+    }
+
+    // Marking the code used and reading it in one statement makes it single-use
+    const [grant] = db
+      .update(oauthAuthorizationCodes)
+      .set({ usedAt: new Date().toISOString() })
+      .where(
+        and(
+          eq(oauthAuthorizationCodes.code, hashToken(request.code)),
+          isNull(oauthAuthorizationCodes.usedAt)
+        )
+      )
+      .returning()
+      .all();
+
+    if (!grant || grant.clientId !== client.id || Date.parse(grant.expiresAt) < Date.now()) {
+      return fail('invalid_grant', 'Invalid or expired authorization code');
+    }
+    if (grant.redirectUri !== request.redirectUri) {
+      return fail('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (
+      grant.codeChallenge
+        ? !request.codeVerifier || s256(request.codeVerifier) !== grant.codeChallenge
+        : !!request.codeVerifier
+    ) {
+      return fail('invalid_grant', 'Invalid code_verifier');
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, grant.userId));
+    if (!user || !user.isActive) {
+      return fail('invalid_grant', 'Invalid or expired authorization code');
+    }
+
+    // Permission scopes are only granted as far as the user still holds them
+    const userPermissions = this.roleService.resolvePermissions(db, user);
+    const permissions = grant.scopes.filter(
+      scope => !OIDC_SCOPES.includes(scope) && hasPermission(userPermissions, scope)
+    );
+    const scope = grant.scopes.join(' ');
+
+    const tokens: OAuthTokenResponse = {
+      access_token: this.keyService.signToken(
+        { userId: user.id, client_id: client.id, scope, permissions },
+        {
+          subject: user.id,
+          issuer: oauthConfig.issuer,
+          expiresIn: oauthConfig.accessTokenExpirySeconds,
+        }
+      ),
+      token_type: 'Bearer',
+      expires_in: oauthConfig.accessTokenExpirySeconds,
+      scope,
+    };
+
+    if (grant.scopes.includes('openid')) {
+      tokens.id_token = this.keyService.signToken(
+        {
+          ...this.getUserClaims(user, grant.scopes),
+          ...(grant.nonce && { nonce: grant.nonce }),
+        },
+        {
+          audience: client.id,
+          issuer: oauthConfig.issuer,
+          expiresIn: oauthConfig.accessTokenExpirySeconds,
+        }
+      );
+    }
+
+    return { success: true, tokens };
+  }
+
+  // client_credentials grant: a token for the client itself, carrying the
+  // permission scopes it asked for (all of its scopes by default)
+  async issueClientCredentialsToken(
+    client: OAuthClient,
+    requestedScope?: string
+  ): Promise<OAuthResult & { tokens?: OAuthTokenResponse }> {
+    if (!client.grantTypes.includes('client_credentials')) {
+      return fail('unauthorized_client', 'The client may not use the client credentials grant');
+    }
+
+    const allowed = client.scopes.filter(scope => !OIDC_SCOPES.includes(scope));
+    const scopes = requestedScope ? parseScope(requestedScope) : allowed;
+    if (scopes.some(scope => !allowed.includes(scope))) {
+      return fail('invalid_scope', 'The client may not request these scopes');
+    }
+
+    const scope = scopes.join(' ');
+
+    return {
+      success: true,
+      tokens: {
+        access_token: this.keyService.signToken(
+          { userId: client.id, client_id: client.id, scope, permissions: scopes },
+          {
+            subject: client.id,
+            issuer: oauthConfig.issuer,
+            expiresIn: oauthConfig.accessTokenExpirySeconds,
+          }
+        ),
+        token_type: 'Bearer',
+        expires_in: oauthConfig.accessTokenExpirySeconds,
+        scope,
+      },
+    };
+  }
+
+  // Standard claims about a user, limited to what the scopes cover
+  private getUserClaims(user: User, scopes: string[]): Record<string, any> {
+    return {
+      sub: user.id,
+      ...(scopes.includes('profile') && {
+        name: user.name,
+        updated_at: Math.floor(Date.parse(user.updatedAt) / 1000),
+      }),
+      ...(scopes.includes('email') && { email: user.email, email_verified: user.emailVerified }),
+    };
+  }
+
+  // Claims for the userinfo endpoint; null if the user no longer exists or is deactivated
+  async getUserInfo(userId: string, scopes: string[]): Promise<Record<string, any> | null> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    return this.getUserClaims(user, scopes);
+  }
+}
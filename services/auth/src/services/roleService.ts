@@ -0,0 +1,181 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import { DEFAULT_ROLE_PERMISSIONS } from 'shared-utils';
+import { db, users, roles, userRoles, type User, type Role } from '../models/database';
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+  isActive?: boolean;
+}
+
+// Anything that can read roles: the database or an open transaction
+type RoleReader = Pick<typeof db, 'select'>;
+
+export class RoleService {
+  // Effective permissions of a user: the defaults of their built-in role plus
+  // those of every active role assigned to them. Synchronous so it can run
+  // inside the transaction that issues their tokens.
+  resolvePermissions(reader: RoleReader, user: Pick<User, 'id' | 'role'>): string[] {
+    const assigned = reader
+      .select({ permissions: roles.permissions })
+      .from(userRoles)
+      .innerJoin(roles, eq(userRoles.roleId, roles.id))
+      .where(and(eq(userRoles.userId, user.id), eq(roles.isActive, true)))
+      .all();
+
+    const permissions = new Set(DEFAULT_ROLE_PERMISSIONS[user.role] || []);
+    for (const role of assigned) {
+      for (const permission of role.permissions || []) {
+        permissions.add(permission);
+      }
+    }
+
+    // '*' covers everything else
+    return permissions.has('*') ? ['*'] : Array.from(permissions).sort();
+  }
+
+  async listRoles(): Promise<Role[]> {
+    return await db.select().from(roles);
+  }
+
+  async getRole(roleId: string): Promise<Role | null> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, roleId));
+    return role || null;
+  }
+
+  async createRole(input: RoleInput): Promise<{ success: boolean; role?: Role; error?: string }> {
+    try {
+      const [existing] = await db.select().from(roles).where(eq(roles.name, input.name));
+      if (existing) {
+        return { success: false, error: 'Role already exists with this name' };
+      }
+
+      const [role] = await db.insert(roles).values(input).returning();
+      return { success: true, role };
+    } catch (error) {
+      console.error('Role creation error:', error);
+      return { success: false, error: 'Failed to create role' };
+    }
+  }
+
+  async updateRole(
+    roleId: string,
+    updates: Partial<RoleInput>
+  ): Promise<{ success: boolean; role?: Role; error?: string }> {
+    try {
+      if (updates.name) {
+        const [existing] = await db.select().from(roles).where(eq(roles.name, updates.name));
+        if (existing && existing.id !== roleId) {
+          return { success: false, error: 'Role already exists with this name' };
+        }
+      }
+
+      const [role] = await db
+        .update(roles)
+        .set({ ...updates, updatedAt: new Date().toISOString() })
+        .where(eq(roles.id, roleId))
+        .returning();
+
+      if (!role) {
+        return { success: false, error: 'Role not found' };
+      }
+
+      return { success: true, role };
+    } catch (error) {
+      console.error('Role update error:', error);
+      return { success: false, error: 'Failed to update role' };
+    }
+  }
+
+  // Deleting a role also removes its assignments
+  async deleteRole(roleId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const deleted = db.transaction(tx => {
+        tx.delete(userRoles).where(eq(userRoles.roleId, roleId)).run();
+        return tx.delete(roles).where(eq(roles.id, roleId)).returning().all();
+      });
+
+      if (deleted.length === 0) {
+        return { success: false, error: 'Role not found' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Role deletion error:', error);
+      return { success: false, error: 'Failed to delete role' };
+    }
+  }
+
+  async getUserRoles(userId: string): Promise<Role[]> {
+    const assignments = await db
+      .select({ roleId: userRoles.roleId })
+      .from(userRoles)
+      .where(eq(userRoles.userId, userId));
+
+    if (assignments.length === 0) return [];
+
+    return await db
+      .select()
+      .from(roles)
+      .where(
+        inArray(
+          roles.id,
+          assignments.map(assignment => assignment.roleId)
+        )
+      );
+  }
+
+  async assignRole(
+    userId: string,
+    roleId: string,
+    assignedBy: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const role = await this.getRole(roleId);
+      if (!role) {
+        return { success: false, error: 'Role not found' };
+      }
+
+      const [existing] = await db
+        .select()
+        .from(userRoles)
+        .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)));
+      if (existing) {
+        return { success: false, error: 'Role already assigned' };
+      }
+
+      await db.insert(userRoles).values({ userId, roleId, assignedBy });
+      return { success: true };
+    } catch (error) {
+      console.error('Role assignment error:', error);
+      return { success: false, error: 'Failed to assign role' };
+    }
+  }
+
+  async unassignRole(
+    userId: string,
+    roleId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const deleted = await db
+        .delete(userRoles)
+        .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)))
+        .returning();
+
+      if (deleted.length === 0) {
+        return { success: false, error: 'Role assignment not found' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Role unassignment error:', error);
+      return { success: false, error: 'Failed to unassign role' };
+    }
+  }
+}
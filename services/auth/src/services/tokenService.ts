@@ -0,0 +1,290 @@
+import { eq, and, isNull } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import {
+  db,
+  users,
+  authTokens,
+  userSessions,
+  type User,
+  type AuthToken,
+  type UserSession,
+} from '../models/database';
+import { jwtConfig } from '../config';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import type { DeviceInfo } from './authService';
+import { KeyService } from './keyService';
+import { RoleService } from './roleService';
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  tokenType: 'Bearer';
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  fam: string; // Token family
+  jti: string; // auth_tokens row ID
+}
+
+// Anything that can write tokens and sessions: the database or an open transaction
+type TokenWriter = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export class TokenService {
+  private keyService = new KeyService();
+  private roleService = new RoleService();
+
+  // Only a hash of each refresh token is stored
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Sign an access token bound to the session and store a refresh token in its family.
+  // Permissions are resolved at every rotation, so role changes apply at the next refresh.
+  private issueTokens(
+    tx: TokenWriter,
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    deviceInfo: DeviceInfo,
+    session: Pick<UserSession, 'id' | 'sessionToken'>,
+    tokenId: string = crypto.randomUUID()
+  ): { tokens: TokenPair; expiresAt: string } {
+    const permissions = this.roleService.resolvePermissions(tx, user);
+    const accessToken = this.keyService.signAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions,
+      sid: session.id,
+    });
+    const signOptions: jwt.SignOptions = {
+      expiresIn: jwtConfig.refreshTokenExpiry,
+      jwtid: tokenId,
+    };
+    const refreshToken = jwt.sign(
+      { userId: user.id, fam: session.sessionToken },
+      jwtConfig.refreshSecret,
+      signOptions
+    );
+
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+    const expiresAt = new Date(exp * 1000).toISOString();
+
+    tx.insert(authTokens)
+      .values({
+        id: tokenId,
+        userId: user.id,
+        familyId: session.sessionToken,
+        refreshToken: this.hashToken(refreshToken),
+        deviceInfo: JSON.stringify(deviceInfo),
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        expiresAt,
+      })
+      .run();
+
+    return {
+      tokens: {
+        accessToken,
+        refreshToken,
+        expiresIn: 3600, // 1 hour in seconds
+        tokenType: 'Bearer',
+      },
+      expiresAt,
+    };
+  }
+
+  // Start a session for a login. Its session token is the ID of a new refresh token
+  // family, so the session lasts as long as the family keeps being rotated.
+  startSession(
+    tx: TokenWriter,
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    deviceInfo: DeviceInfo
+  ): TokenPair {
+    const session = { id: crypto.randomUUID(), sessionToken: crypto.randomUUID() };
+    const now = new Date().toISOString();
+    const { tokens, expiresAt } = this.issueTokens(tx, user, deviceInfo, session);
+
+    tx.insert(userSessions)
+      .values({
+        ...session,
+        userId: user.id,
+        deviceInfo: JSON.stringify(deviceInfo),
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        expiresAt,
+        lastActivityAt: now,
+      })
+      .run();
+
+    return tokens;
+  }
+
+  // Find the stored row of a refresh token; null if it is invalid or unknown
+  private async findRefreshToken(
+    refreshToken: string,
+    ignoreExpiration = false
+  ): Promise<{ payload: RefreshTokenPayload; stored: AuthToken } | null> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = jwt.verify(refreshToken, jwtConfig.refreshSecret, {
+        ignoreExpiration,
+      }) as RefreshTokenPayload;
+    } catch (error) {
+      return null;
+    }
+
+    const [stored] = await db.select().from(authTokens).where(eq(authTokens.id, payload.jti));
+    if (!stored || stored.refreshToken !== this.hashToken(refreshToken)) {
+      return null;
+    }
+
+    return { payload, stored };
+  }
+
+  // Exchange a refresh token for a new pair; presenting an already rotated token
+  // means it leaked, so the whole family is revoked
+  async rotateRefreshToken(
+    refreshToken: string,
+    deviceInfo: DeviceInfo,
+    correlationId?: string
+  ): Promise<{ success: boolean; tokens?: TokenPair; error?: string }> {
+    try {
+      const found = await this.findRefreshToken(refreshToken);
+      if (!found) {
+        return { success: false, error: 'Invalid refresh token' };
+      }
+
+      const { stored } = found;
+      if (stored.revokedAt && stored.replacedBy) {
+        this.revokeFamily(stored, EventTypes.USER_TOKEN_REUSED, deviceInfo, correlationId);
+        return { success: false, error: 'Refresh token reuse detected' };
+      }
+      if (stored.revokedAt) {
+        // Logged out, or its family was already revoked
+        return { success: false, error: 'Refresh token revoked' };
+      }
+
+      const [user] = await db.select().from(users).where(eq(users.id, stored.userId));
+      if (!user || !user.isActive) {
+        return { success: false, error: 'User not found or inactive' };
+      }
+
+      const [session] = await db
+        .select()
+        .from(userSessions)
+        .where(
+          and(eq(userSessions.sessionToken, stored.familyId), eq(userSessions.isActive, true))
+        );
+      if (!session) {
+        return { success: false, error: 'Session revoked' };
+      }
+
+      const now = new Date().toISOString();
+      const tokenId = crypto.randomUUID();
+      const previousDeviceInfo: DeviceInfo = stored.deviceInfo ? JSON.parse(stored.deviceInfo) : {};
+
+      const tokens = db.transaction(tx => {
+        // Only one concurrent rotation can revoke the token; the others count as reuse
+        const rotated = tx
+          .update(authTokens)
+          .set({ revokedAt: now, lastUsedAt: now, replacedBy: tokenId })
+          .where(and(eq(authTokens.id, stored.id), isNull(authTokens.revokedAt)))
+          .returning()
+          .all();
+
+        if (rotated.length === 0) return null;
+
+        const issued = this.issueTokens(
+          tx,
+          user,
+          { ...previousDeviceInfo, ...deviceInfo },
+          session,
+          tokenId
+        );
+
+        tx.update(userSessions)
+          .set({ lastActivityAt: now, expiresAt: issued.expiresAt })
+          .where(eq(userSessions.id, session.id))
+          .run();
+
+        return issued.tokens;
+      });
+
+      if (!tokens) {
+        this.revokeFamily(stored, EventTypes.USER_TOKEN_REUSED, deviceInfo, correlationId);
+        return { success: false, error: 'Refresh token reuse detected' };
+      }
+
+      return { success: true, tokens };
+    } catch (error) {
+      console.error('Refresh token rotation error:', error);
+      return { success: false, error: 'Failed to refresh tokens' };
+    }
+  }
+
+  // Log out the device holding the refresh token by ending its session
+  async logout(
+    refreshToken: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Expired tokens can still end their family
+      const found = await this.findRefreshToken(refreshToken, true);
+      if (!found) {
+        return { success: false, error: 'Invalid refresh token' };
+      }
+
+      this.revokeFamily(found.stored, EventTypes.USER_LOGOUT, {}, correlationId);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Logout error:', error);
+      return { success: false, error: 'Failed to logout' };
+    }
+  }
+
+  private revokeFamily(
+    token: AuthToken,
+    reason: typeof EventTypes.USER_LOGOUT | typeof EventTypes.USER_TOKEN_REUSED,
+    deviceInfo: DeviceInfo,
+    correlationId?: string
+  ): void {
+    db.transaction(tx => {
+      tx.update(authTokens)
+        .set({ revokedAt: new Date().toISOString() })
+        .where(and(eq(authTokens.familyId, token.familyId), isNull(authTokens.revokedAt)))
+        .run();
+      tx.update(userSessions)
+        .set({ isActive: false })
+        .where(eq(userSessions.sessionToken, token.familyId))
+        .run();
+
+      if (reason === EventTypes.USER_TOKEN_REUSED) {
+        enqueueEvent(
+          tx,
+          EventTypes.USER_TOKEN_REUSED,
+          {
+            userId: token.userId,
+            familyId: token.familyId,
+            ipAddress: deviceInfo.ipAddress,
+            userAgent: deviceInfo.userAgent,
+          },
+          correlationId
+        );
+      } else {
+        enqueueEvent(
+          tx,
+          EventTypes.USER_LOGOUT,
+          {
+            userId: token.userId,
+            familyId: token.familyId,
+          },
+          correlationId
+        );
+      }
+    });
+  }
+}
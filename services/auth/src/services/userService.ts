@@ -0,0 +1,308 @@
+import { eq, and, or, gte, lte, isNull, asc, desc, sql, type SQL } from 'drizzle-orm';
+import {
+  db,
+  users,
+  authTokens,
+  passwordResetTokens,
+  emailVerificationTokens,
+  userSessions,
+  apiKeys,
+  userRoles,
+  userMfa,
+  oauthConsents,
+  oauthAuthorizationCodes,
+  oauthClients,
+  authSettings,
+  type User,
+} from '../models/database';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import { AuthService } from './authService';
+
+export interface UserQuery {
+  page: number;
+  limit: number;
+  search?: string; // Matches email or name
+  email?: string;
+  name?: string;
+  role?: User['role'];
+  isActive?: boolean;
+  emailVerified?: boolean;
+  lastLoginAfter?: string;
+  lastLoginBefore?: string;
+  neverLoggedIn?: boolean;
+  sortBy: 'createdAt' | 'email' | 'name' | 'lastLoginAt';
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface AdminUserUpdate {
+  name?: string;
+  email?: string;
+  role?: User['role'];
+}
+
+// Case-insensitive substring match; % and _ in the input match themselves
+const contains = (column: typeof users.email | typeof users.name, value: string): SQL =>
+  sql`${column} LIKE ${`%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`} ESCAPE '\\'`;
+
+const sortColumns = {
+  createdAt: users.createdAt,
+  email: users.email,
+  name: users.name,
+  lastLoginAt: users.lastLoginAt,
+};
+
+export class UserService {
+  private authService = new AuthService();
+
+  async listUsers(query: UserQuery): Promise<{ users: User[]; total: number }> {
+    const conditions: SQL[] = [];
+
+    if (query.search) {
+      conditions.push(or(contains(users.email, query.search), contains(users.name, query.search))!);
+    }
+    if (query.email) conditions.push(contains(users.email, query.email));
+    if (query.name) conditions.push(contains(users.name, query.name));
+    if (query.role) conditions.push(eq(users.role, query.role));
+    if (query.isActive !== undefined) conditions.push(eq(users.isActive, query.isActive));
+    if (query.emailVerified !== undefined)
+      conditions.push(eq(users.emailVerified, query.emailVerified));
+    if (query.lastLoginAfter) conditions.push(gte(users.lastLoginAt, query.lastLoginAfter));
+    if (query.lastLoginBefore) conditions.push(lte(users.lastLoginAt, query.lastLoginBefore));
+    if (query.neverLoggedIn) conditions.push(isNull(users.lastLoginAt));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const order = query.sortOrder === 'asc' ? asc : desc;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(users)
+      .where(where);
+    const page = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(order(sortColumns[query.sortBy]), order(users.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    return { users: page, total };
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    return user || null;
+  }
+
+  // Change a user's profile or built-in role. A new email has to be verified
+  // again; a new role applies to their access tokens from the next refresh.
+  async updateUser(
+    userId: string,
+    updates: AdminUserUpdate,
+    updatedBy: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; user?: User; previous?: User; error?: string }> {
+    try {
+      const existing = await this.getUser(userId);
+      if (!existing) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const changes = (Object.keys(updates) as (keyof AdminUserUpdate)[]).filter(
+        field => updates[field] !== undefined && updates[field] !== existing[field]
+      );
+      if (changes.length === 0) {
+        return { success: true, user: existing, previous: existing };
+      }
+
+      if (changes.includes('email')) {
+        const [taken] = await db
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.email, updates.email!));
+        if (taken) {
+          return { success: false, error: 'Email already in use' };
+        }
+      }
+
+      const user = db.transaction(tx => {
+        const [updated] = tx
+          .update(users)
+          .set({
+            ...Object.fromEntries(changes.map(field => [field, updates[field]])),
+            ...(changes.includes('email') && { emailVerified: false }),
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(users.id, userId))
+          .returning()
+          .all();
+
+        enqueueEvent(
+          tx,
+          EventTypes.USER_UPDATED,
+          {
+            userId,
+            email: updated.email,
+            changes,
+            updatedBy,
+          },
+          correlationId
+        );
+
+        return updated;
+      });
+
+      return { success: true, user, previous: existing };
+    } catch (error) {
+      console.error('User update error:', error);
+      return { success: false, error: 'Failed to update user' };
+    }
+  }
+
+  // Block a user from logging in and end everything they are signed in with:
+  // sessions, refresh tokens and, through the session check, access tokens.
+  // Their API keys are refused while they are deactivated.
+  async deactivateUser(
+    userId: string,
+    changedBy: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; user?: User; revokedSessions?: number; error?: string }> {
+    try {
+      const result = db.transaction(tx => {
+        const [user] = tx
+          .update(users)
+          .set({ isActive: false, updatedAt: new Date().toISOString() })
+          .where(and(eq(users.id, userId), eq(users.isActive, true)))
+          .returning()
+          .all();
+        if (!user) {
+          return null;
+        }
+
+        const sessions = tx
+          .select()
+          .from(userSessions)
+          .where(and(eq(userSessions.userId, userId), eq(userSessions.isActive, true)))
+          .all();
+        this.authService.revokeSessions(tx, sessions, changedBy);
+
+        // Refresh tokens whose session has already ended
+        tx.update(authTokens)
+          .set({ revokedAt: new Date().toISOString() })
+          .where(and(eq(authTokens.userId, userId), isNull(authTokens.revokedAt)))
+          .run();
+
+        enqueueEvent(
+          tx,
+          EventTypes.USER_DEACTIVATED,
+          { userId, email: user.email, changedBy },
+          correlationId
+        );
+
+        return { user, revokedSessions: sessions.length };
+      });
+
+      if (!result) {
+        const existing = await this.getUser(userId);
+        return { success: false, error: existing ? 'User already deactivated' : 'User not found' };
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      console.error('User deactivation error:', error);
+      return { success: false, error: 'Failed to deactivate user' };
+    }
+  }
+
+  // Let a deactivated user log in again; their old sessions stay revoked
+  async reactivateUser(
+    userId: string,
+    changedBy: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; user?: User; error?: string }> {
+    try {
+      const user = db.transaction(tx => {
+        const [updated] = tx
+          .update(users)
+          .set({ isActive: true, updatedAt: new Date().toISOString() })
+          .where(and(eq(users.id, userId), eq(users.isActive, false)))
+          .returning()
+          .all();
+
+        if (updated) {
+          enqueueEvent(
+            tx,
+            EventTypes.USER_REACTIVATED,
+            { userId, email: updated.email, changedBy },
+            correlationId
+          );
+        }
+
+        return updated;
+      });
+
+      if (!user) {
+        const existing = await this.getUser(userId);
+        return { success: false, error: existing ? 'User already active' : 'User not found' };
+      }
+
+      return { success: true, user };
+    } catch (error) {
+      console.error('User reactivation error:', error);
+      return { success: false, error: 'Failed to reactivate user' };
+    }
+  }
+
+  // Delete a user with everything that belongs to them. SQLite does not enforce
+  // the foreign keys here, so the rows their cascades describe are removed explicitly.
+  async deleteUser(
+    userId: string,
+    deletedBy: string,
+    correlationId?: string
+  ): Promise<{ success: boolean; user?: User; error?: string }> {
+    try {
+      const deleted = db.transaction(tx => {
+        const [user] = tx.delete(users).where(eq(users.id, userId)).returning().all();
+        if (!user) {
+          return null;
+        }
+
+        tx.delete(authTokens).where(eq(authTokens.userId, userId)).run();
+        tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId)).run();
+        tx.delete(emailVerificationTokens).where(eq(emailVerificationTokens.userId, userId)).run();
+        tx.delete(userSessions).where(eq(userSessions.userId, userId)).run();
+        tx.delete(apiKeys).where(eq(apiKeys.userId, userId)).run();
+        tx.delete(userRoles).where(eq(userRoles.userId, userId)).run();
+        tx.delete(userMfa).where(eq(userMfa.userId, userId)).run();
+        tx.delete(oauthConsents).where(eq(oauthConsents.userId, userId)).run();
+        tx.delete(oauthAuthorizationCodes).where(eq(oauthAuthorizationCodes.userId, userId)).run();
+        tx.update(oauthClients)
+          .set({ createdBy: null })
+          .where(eq(oauthClients.createdBy, userId))
+          .run();
+        tx.update(authSettings)
+          .set({ updatedBy: null })
+          .where(eq(authSettings.updatedBy, userId))
+          .run();
+
+        enqueueEvent(
+          tx,
+          EventTypes.USER_DELETED,
+          { userId, email: user.email, deletedBy },
+          correlationId
+        );
+
+        return user;
+      });
+
+      if (!deleted) {
+        return { success: false, error: 'User not found' };
+      }
+
+      return { success: true, user: deleted };
+    } catch (error) {
+      console.error('User deletion error:', error);
+      return { success: false, error: 'Failed to delete user' };
+    }
+  }
+}
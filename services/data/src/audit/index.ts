@@ -0,0 +1,16 @@
+import { createServiceAuditLog } from 'shared-utils';
+import config from '../config';
+
+// Audit log shared by all services (see shared-utils/serviceAuditLog)
+export const { auditLog, connectAuditLog, disconnectAuditLog } = createServiceAuditLog(
+  config.name,
+  {
+    redis: {
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password,
+      db: config.audit.redisDb,
+    },
+    enabled: config.audit.enabled,
+  }
+);
@@ -14,6 +14,29 @@ interface ServiceConfig {
     password?: string;
     db: number;
   };
+  events: {
+    enabled: boolean;
+    mode: 'pubsub' | 'streams';
+    redisDb: number;
+    outboxIntervalMs: number;
+  };
+  audit: {
+    enabled: boolean;
+    redisDb: number;
+  };
+  entities: {
+    indexedFields: string[];
+    maxFilters: number;
+    requireRegisteredTypes: boolean;
+    importChunkSize: number;
+    importMaxErrors: number;
+    importMaxBytes: number;
+  };
+  relations: {
+    maxDepth: number;
+    maxNodes: number;
+    maxIncluded: number;
+  };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     pretty: boolean;
@@ -39,6 +62,34 @@ const config: ServiceConfig = {
     password: process.env.REDIS_PASSWORD,
     db: parseInt(process.env.REDIS_DB || '1', 10),
   },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    mode: (process.env.EVENTS_MODE as any) || 'streams', // Durable delivery via consumer groups
+    redisDb: parseInt(process.env.EVENTS_REDIS_DB || '0', 10), // Shared by all services
+    outboxIntervalMs: parseInt(process.env.EVENTS_OUTBOX_INTERVAL_MS || '1000', 10),
+  },
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    redisDb: parseInt(process.env.AUDIT_REDIS_DB || process.env.EVENTS_REDIS_DB || '0', 10), // One log for all services
+  },
+  entities: {
+    // JSON fields to index for filtering, e.g. data.status,metadata.env
+    indexedFields: (process.env.ENTITY_INDEXED_FIELDS || '')
+      .split(',')
+      .map(field => field.trim())
+      .filter(Boolean),
+    maxFilters: parseInt(process.env.ENTITY_MAX_FILTERS || '20', 10),
+    // Reject entities whose type has no schema registered at /data/entity-types
+    requireRegisteredTypes: process.env.ENTITY_REQUIRE_REGISTERED_TYPES === 'true',
+    importChunkSize: parseInt(process.env.ENTITY_IMPORT_CHUNK_SIZE || '500', 10), // Rows per transaction
+    importMaxErrors: parseInt(process.env.ENTITY_IMPORT_MAX_ERRORS || '1000', 10), // Row errors reported per import
+    importMaxBytes: parseInt(process.env.ENTITY_IMPORT_MAX_BYTES || String(100 * 1024 * 1024), 10), // Body size per import
+  },
+  relations: {
+    maxDepth: parseInt(process.env.RELATION_MAX_DEPTH || '5', 10), // Hops per graph traversal
+    maxNodes: parseInt(process.env.RELATION_MAX_NODES || '1000', 10), // Entities per graph traversal
+    maxIncluded: parseInt(process.env.RELATION_MAX_INCLUDED || '100', 10), // Entities embedded per relation with ?include=
+  },
   logging: {
     level: (process.env.LOG_LEVEL as any) || 'info',
     pretty: process.env.NODE_ENV !== 'production',
@@ -50,7 +101,12 @@ const config: ServiceConfig = {
 };
 
 export const jwtConfig = {
-  secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production',
+  // Published by auth-service, which signs access tokens with its own keys
+  jwksUrl:
+    process.env.JWKS_URL ||
+    `${process.env.AUTH_SERVICE_URL || 'http://localhost:3001'}/.well-known/jwks.json`,
+  // Reports whether the session a token was issued for is still active
+  authServiceUrl: process.env.AUTH_SERVICE_URL || 'http://localhost:3001',
 };
 
-export default config;
\ No newline at end of file
+export default config;
@@ -1,9 +1,15 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import pino from 'pino';
+import { auditTrail } from 'shared-middleware';
 import config from './config';
 import dataRoutes from './routes/data';
 import healthRoutes from './routes/health';
 import metricsRoutes from './routes/metrics';
+import { connectEventBus, disconnectEventBus } from './events';
+import { auditLog, connectAuditLog, disconnectAuditLog } from './audit';
+import { startOutboxRelay, stopOutboxRelay } from './events/outbox';
+import { createJsonFieldIndexes } from './services/entityFilters';
 
 // Initialize logger
 const logger = pino({
@@ -21,22 +27,32 @@ const logger = pino({
   }),
 });
 
+// Expression indexes for frequently filtered JSON fields
+if (config.entities.indexedFields.length > 0) {
+  try {
+    createJsonFieldIndexes(config.entities.indexedFields);
+    logger.info({ fields: config.entities.indexedFields }, 'Entity field indexes ready');
+  } catch (error) {
+    logger.error(error, 'Failed to create entity field indexes');
+  }
+}
+
 // Initialize Hono app
 const app = new Hono();
 
 // Basic middleware
-app.use('*', async (c, next) => {
+app.use('*', async (c: Context, next) => {
   const start = Date.now();
   const method = c.req.method;
   const url = c.req.url;
-  
+
   // Store logger reference for access in routes
-  (c as any).logger = logger;
+  c.set('logger', logger);
 
   logger.info({ method, url }, 'Request started');
-  
+
   await next();
-  
+
   const duration = Date.now() - start;
   const status = c.res.status;
   logger.info({ method, url, status, duration }, 'Request completed');
@@ -48,11 +64,14 @@ app.use('*', async (c, next) => {
     await next();
   } catch (error) {
     logger.error(error, 'Request error');
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
@@ -62,28 +81,35 @@ app.use('*', async (c, next) => {
   if (origin && config.cors.origin.includes(origin)) {
     c.res.headers.set('Access-Control-Allow-Origin', origin);
   }
-  
+
   if (config.cors.credentials) {
     c.res.headers.set('Access-Control-Allow-Credentials', 'true');
   }
-  
+
   c.res.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-  c.res.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  
+  c.res.headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-Requested-With, If-Match, If-None-Match'
+  );
+  c.res.headers.set('Access-Control-Expose-Headers', 'ETag');
+
   if (c.req.method === 'OPTIONS') {
     return c.text('', 204);
   }
-  
+
   await next();
 });
 
+// Record mutating requests in the audit log
+app.use('*', auditTrail(auditLog));
+
 // Routes
 app.route('/health', healthRoutes);
 app.route('/metrics', metricsRoutes);
 app.route('/data', dataRoutes);
 
 // Root endpoint
-app.get('/', (c) => {
+app.get('/', c => {
   return c.json({
     service: config.name,
     version: config.version,
@@ -99,23 +125,37 @@ const server = Bun.serve({
   fetch: app.fetch,
 });
 
-logger.info({
-  port: config.port,
-  host: config.host,
-  pid: process.pid,
-}, `🚀 ${config.name} v${config.version} is running!`);
+logger.info(
+  {
+    port: config.port,
+    host: config.host,
+    pid: process.pid,
+  },
+  `🚀 ${config.name} v${config.version} is running!`
+);
+
+// Connect to the domain event bus
+await connectEventBus(logger);
+await connectAuditLog(logger);
+startOutboxRelay(logger);
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
   server.stop();
+  await stopOutboxRelay();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
   server.stop();
+  await stopOutboxRelay();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-export default app;
\ No newline at end of file
+export default app;
@@ -1,19 +1,151 @@
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { Database } from 'bun:sqlite';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createOutboxTable } from 'shared-utils';
 
 // Entity table schema
-export const entities = sqliteTable('entities', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  name: text('name').notNull(),
-  type: text('type').notNull(),
-  data: text('data').notNull(), // JSON string
-  metadata: text('metadata').notNull().default('{}'), // JSON string
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
-  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+export const entities = sqliteTable(
+  'entities',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    name: text('name').notNull(),
+    type: text('type').notNull(),
+    data: text('data').notNull(), // JSON string
+    metadata: text('metadata').notNull().default('{}'), // JSON string
+    schemaVersion: integer('schema_version'), // Version of its type's schema the data matches; null for unregistered types
+    version: integer('version').notNull().default(1), // Incremented on every change; the ETag and latest entity_versions.version
+    createdAt: text('created_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    updatedAt: text('updated_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    createdBy: text('created_by').notNull(),
+    deletedAt: text('deleted_at'), // Soft deleted; restored with POST /data/entities/:id/undelete
+    deletedBy: text('deleted_by'),
+  },
+  table => ({
+    // Listing filters by type and sorts by one of these columns, with the ID as tie-breaker
+    typeIdx: index('entities_type_idx').on(table.type, table.createdAt, table.id),
+    nameIdx: index('entities_name_idx').on(table.name, table.id),
+    createdAtIdx: index('entities_created_at_idx').on(table.createdAt, table.id),
+    updatedAtIdx: index('entities_updated_at_idx').on(table.updatedAt, table.id),
+  })
+);
+
+// Every state an entity has been in, newest version last. The snapshot makes
+// restores and point-in-time reads a single lookup; the patch shows what changed.
+export const entityVersions = sqliteTable(
+  'entity_versions',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    entityId: text('entity_id').notNull(),
+    version: integer('version').notNull(),
+    operation: text('operation', {
+      enum: ['create', 'update', 'delete', 'undelete', 'restore'],
+    }).notNull(),
+    snapshot: text('snapshot').notNull(), // JSON string of name, type, data, metadata, schemaVersion and deletedAt
+    patch: text('patch').notNull(), // JSON Patch from the previous version
+    createdAt: text('created_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    createdBy: text('created_by').notNull(),
+  },
+  table => ({
+    entityVersionIdx: uniqueIndex('entity_versions_entity_version_idx').on(
+      table.entityId,
+      table.version
+    ),
+    entityCreatedAtIdx: index('entity_versions_entity_created_at_idx').on(
+      table.entityId,
+      table.createdAt
+    ),
+  })
+);
+
+// Registered entity types, one row per schema version. Versions of a type are
+// consecutive integers starting at 1 and never change once registered.
+export const entityTypes = sqliteTable(
+  'entity_types',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    type: text('type').notNull(),
+    version: integer('version').notNull(),
+    schema: text('schema').notNull(), // JSON Schema of the entity data
+    description: text('description'),
+    createdAt: text('created_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    createdBy: text('created_by').notNull(),
+  },
+  table => ({
+    typeVersionIdx: uniqueIndex('entity_types_type_version_idx').on(table.type, table.version),
+  })
+);
+
+// Typed relations between entities. A relation type fixes the entity types at
+// either end, how many entities each side may link to, and what deleting a
+// target does to the entities linking to it.
+export const relationTypes = sqliteTable('relation_types', {
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  name: text('name').notNull().unique(), // e.g. placed_by, for an order linking to its customer
+  sourceType: text('source_type').notNull(),
+  targetType: text('target_type').notNull(),
+  // many-to-one: a source links to at most one target; one-to-many: a target
+  // is linked from at most one source; one-to-one: both
+  cardinality: text('cardinality', {
+    enum: ['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many'],
+  }).notNull(),
+  // restrict: a target cannot be deleted while live sources link to it;
+  // cascade: deleting a target deletes its sources
+  onDelete: text('on_delete', { enum: ['restrict', 'cascade'] })
+    .notNull()
+    .default('restrict'),
+  description: text('description'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
   createdBy: text('created_by').notNull(),
 });
 
+// Links between entities. They outlive soft deletes, so an undeleted entity
+// gets its relations back; deleted entities are left out when reading them.
+export const entityRelations = sqliteTable(
+  'entity_relations',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    relation: text('relation').notNull(), // relation_types.name
+    sourceId: text('source_id').notNull(),
+    targetId: text('target_id').notNull(),
+    createdAt: text('created_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    createdBy: text('created_by').notNull(),
+  },
+  table => ({
+    sourceIdx: uniqueIndex('entity_relations_source_idx').on(
+      table.sourceId,
+      table.relation,
+      table.targetId
+    ),
+    targetIdx: index('entity_relations_target_idx').on(table.targetId, table.relation),
+  })
+);
+
+// Transactional outbox: events written in the same transaction as the change
+// they describe and relayed to the event bus after commit
+export const outbox = createOutboxTable();
+
 // Database setup
 const sqlite = new Database('./data/data.db');
 export const db = drizzle(sqlite);
@@ -27,4 +159,11 @@ try {
 }
 
 export type Entity = typeof entities.$inferSelect;
-export type NewEntity = typeof entities.$inferInsert;
\ No newline at end of file
+export type NewEntity = typeof entities.$inferInsert;
+export type EntityVersion = typeof entityVersions.$inferSelect;
+export type EntityType = typeof entityTypes.$inferSelect;
+export type NewEntityType = typeof entityTypes.$inferInsert;
+export type RelationType = typeof relationTypes.$inferSelect;
+export type EntityRelation = typeof entityRelations.$inferSelect;
+export type OutboxEvent = typeof outbox.$inferSelect;
+export type NewOutboxEvent = typeof outbox.$inferInsert;
@@ -1,12 +1,56 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import { eq, like, desc, asc } from 'drizzle-orm';
-import jwt from 'jsonwebtoken';
+import { and, eq, isNotNull, isNull, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import { Permissions, createErrorResponse } from 'shared-utils';
+import {
+  setAuditDetails,
+  jwtAuth,
+  requirePermission,
+  validateBody,
+  validateQuery,
+} from 'shared-middleware';
 import { db, entities, type Entity, type NewEntity } from '../models/database';
-import { jwtConfig } from '../config';
+import config, { jwtConfig } from '../config';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import { EntityService, InvalidCursorError } from '../services/entityService';
+import { parseEntityFilters, InvalidFilterError } from '../services/entityFilters';
+import {
+  EntityTypeService,
+  EntityValidationError,
+  InvalidEntitySchemaError,
+  UnregisteredEntityTypeError,
+} from '../services/entityTypeService';
+import { EntityVersionService } from '../services/entityVersionService';
+import { createPatch, applyPatch, applyMergePatch, JsonPatchError } from '../services/jsonPatch';
+import {
+  EntityImportService,
+  ImportError,
+  ImportTooLargeError,
+  type CsvMapping,
+  type ImportFormat,
+  type ImportResult,
+} from '../services/entityImport';
+import { createExportStream, EXPORT_CONTENT_TYPES } from '../services/entityExport';
+import {
+  RelationService,
+  InvalidRelationError,
+  RelationConflictError,
+} from '../services/relationService';
 
 const data = new Hono();
+const entityService = new EntityService();
+const entityTypeService = new EntityTypeService();
+const entityVersionService = new EntityVersionService();
+const entityImportService = new EntityImportService();
+const relationService = new RelationService();
+
+// Access tokens are verified against auth-service's published signing keys
+const authenticateUser = jwtAuth({
+  jwksUrl: jwtConfig.jwksUrl,
+  sessions: { authServiceUrl: jwtConfig.authServiceUrl },
+});
 
 // Validation schemas
 const CreateEntitySchema = z.object({
@@ -18,13 +62,108 @@ const CreateEntitySchema = z.object({
 
 const UpdateEntitySchema = CreateEntitySchema.partial();
 
+const BooleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
 const QueryEntitySchema = z.object({
-  page: z.string().optional().default('1'),
-  limit: z.string().optional().default('10'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
   type: z.string().optional(),
   search: z.string().optional(),
   sortBy: z.enum(['name', 'type', 'createdAt', 'updatedAt']).optional().default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  cursor: z.string().optional(), // pagination.nextCursor of the previous page
+  includeDeleted: BooleanQuerySchema.optional(),
+});
+
+// The same selection as listing, without paging
+const ExportEntitiesSchema = QueryEntitySchema.omit({
+  page: true,
+  limit: true,
+  cursor: true,
+}).extend({
+  format: z.enum(['ndjson', 'csv']).default('ndjson'),
+});
+
+const ImportEntitiesSchema = z.object({
+  mode: z.enum(['atomic', 'partial']).default('atomic'),
+  type: z.string().min(1).optional(), // For rows without a type
+  mapping: z.string().optional(), // CSV only: JSON object of field to column
+});
+
+// Import formats by request Content-Type
+const IMPORT_FORMATS: Record<string, ImportFormat> = {
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'text/csv': 'csv',
+};
+
+// Comma-separated relation names, e.g. placed_by,line_item_of
+const RelationListSchema = z.string().transform(value =>
+  value
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+);
+
+const GetEntitySchema = z.object({
+  asOf: z.string().datetime().optional(), // Read the entity as it was at this time
+  includeDeleted: BooleanQuerySchema.optional(),
+  include: RelationListSchema.optional(), // Embed the entities linked by these relations
+});
+
+const RegisterRelationTypeSchema = z.object({
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Use letters, digits and underscores'),
+  sourceType: z.string().min(1),
+  targetType: z.string().min(1),
+  cardinality: z.enum(['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many']),
+  onDelete: z.enum(['restrict', 'cascade']).default('restrict'),
+  description: z.string().optional(),
+});
+
+const CreateRelationSchema = z.object({
+  relation: z.string().min(1),
+  targetId: z.string().min(1),
+});
+
+const QueryRelationsSchema = z.object({
+  relation: z.string().optional(),
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('both'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const GraphQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(config.relations.maxDepth).default(1),
+  relations: RelationListSchema.optional(), // All relations when absent
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('both'),
+});
+
+const QueryVersionsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const DiffVersionsSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(), // Defaults to the latest version
+});
+
+// Formats accepted by PATCH /entities/:id, applied to the entity data
+const MERGE_PATCH = 'application/merge-patch+json';
+const JSON_PATCH = 'application/json-patch+json';
+
+const RestoreEntitySchema = z.object({
+  version: z.number().int().min(1),
+});
+
+const RegisterEntityTypeSchema = z.object({
+  type: z.string().min(1),
+  schema: z.record(z.any()), // JSON Schema of the entity data
+  description: z.string().optional(),
+});
+
+const EntityTypeVersionSchema = z.object({
+  version: z.coerce.number().int().min(1).optional(),
 });
 
 // Utility functions
@@ -36,271 +175,1402 @@ const createSuccessResponse = <T>(data: T, message?: string, pagination?: any) =
   timestamp: new Date().toISOString(),
 });
 
-const createErrorResponse = (error: string, message?: string) => ({
-  success: false,
-  error,
-  message,
-  timestamp: new Date().toISOString(),
+// Parse JSON fields for response
+const toEntityResponse = (entity: Entity) => ({
+  ...entity,
+  data: JSON.parse(entity.data),
+  metadata: JSON.parse(entity.metadata),
 });
 
-const validateBody = (schema: z.ZodSchema) => {
-  return async (c: Context, next: any) => {
+// The entity version is its (strong) ETag
+const entityEtag = (version: number) => `"${version}"`;
+
+// Whether an If-Match or If-None-Match header lists the ETag. If-Match compares
+// strongly, so weak validators never match there.
+const etagMatches = (header: string, etag: string, weak: boolean) =>
+  header.trim() === '*' ||
+  header.split(',').some(tag => (weak ? tag.trim().replace(/^W\//, '') : tag.trim()) === etag);
+
+class PreconditionFailedError extends Error {
+  constructor(public currentVersion: number) {
+    super('Precondition failed');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+// Writes with If-Match only go ahead on the version the client last read.
+// Called in the write's transaction, so nothing can change in between.
+const checkIfMatch = (c: Context, entity: Entity) => {
+  const ifMatch = c.req.header('if-match');
+  if (ifMatch && !etagMatches(ifMatch, entityEtag(entity.version), false)) {
+    throw new PreconditionFailedError(entity.version);
+  }
+};
+
+const preconditionFailedResponse = (c: Context, error: PreconditionFailedError) => {
+  c.header('ETag', entityEtag(error.currentVersion));
+  return c.json(
+    createErrorResponse(
+      'Precondition failed',
+      `The entity has changed; its current version is ${error.currentVersion}`
+    ),
+    412
+  );
+};
+
+// Create entity
+data.post(
+  '/entities',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  validateBody(CreateEntitySchema),
+  async (c: Context) => {
+    const entityData = c.get('validatedBody');
+    const user = c.get('user');
+
     try {
-      const body = await c.req.json();
-      const validatedBody = schema.parse(body);
-      (c as any).validatedBody = validatedBody;
-      await next();
+      // The entity and its event are committed together
+      const createdEntity = db.transaction(tx => {
+        const prepared = entityTypeService.prepareData(tx, entityData.type, entityData.data);
+        const newEntity: NewEntity = {
+          name: entityData.name,
+          type: entityData.type,
+          data: JSON.stringify(prepared.data),
+          metadata: JSON.stringify(entityData.metadata || {}),
+          schemaVersion: prepared.schemaVersion,
+          createdBy: user.userId,
+        };
+
+        const [entity] = tx.insert(entities).values(newEntity).returning().all();
+        entityVersionService.recordVersion(tx, entity, 'create', user.userId);
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_CREATED,
+          {
+            entityId: entity.id,
+            name: entity.name,
+            type: entity.type,
+            createdBy: entity.createdBy,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return entity;
+      });
+
+      const entityResponse = toEntityResponse(createdEntity);
+
+      setAuditDetails(c, {
+        action: 'entity.create',
+        resource: { type: 'entity', id: createdEntity.id },
+        after: entityResponse,
+      });
+
+      c.header('ETag', entityEtag(createdEntity.version));
+      return c.json(createSuccessResponse(entityResponse, 'Entity created successfully'), 201);
     } catch (error) {
-      const logger = (c as any).logger;
-      logger.error(error, 'Request validation error');
-      return c.json(createErrorResponse('Validation error', error instanceof Error ? error.message : 'Invalid request body'), 400);
+      if (error instanceof EntityValidationError || error instanceof UnregisteredEntityTypeError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Create entity error');
+      return c.json(createErrorResponse('Failed to create entity'), 500);
     }
-  };
-};
+  }
+);
+
+// Bulk import from an NDJSON or CSV body, streamed and written in chunked
+// transactions. mode=atomic writes nothing unless every row is valid;
+// mode=partial writes the valid rows. Either way, failed rows are reported
+// with their line numbers.
+data.post(
+  '/entities/import',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  validateQuery(ImportEntitiesSchema),
+  async (c: Context) => {
+    const query = c.get('validatedQuery');
+    const user = c.get('user');
+
+    const contentType = (c.req.header('content-type') || '').split(';')[0].trim().toLowerCase();
+    const format = IMPORT_FORMATS[contentType];
+    if (!format) {
+      return c.json(
+        createErrorResponse(
+          'Unsupported media type',
+          `Use one of ${Object.keys(IMPORT_FORMATS).join(', ')}`
+        ),
+        415
+      );
+    }
+
+    // Bodies without a length are counted as they are read
+    const contentLength = Number(c.req.header('content-length'));
+    if (contentLength > config.entities.importMaxBytes) {
+      return c.json(
+        createErrorResponse(
+          'Payload too large',
+          `Imports are limited to ${config.entities.importMaxBytes} bytes`
+        ),
+        413
+      );
+    }
+
+    let mapping: CsvMapping | undefined;
+    if (query.mapping) {
+      try {
+        mapping = JSON.parse(query.mapping);
+      } catch {
+        return c.json(createErrorResponse('Invalid mapping', 'mapping must be a JSON object'), 400);
+      }
+      if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+        return c.json(createErrorResponse('Invalid mapping', 'mapping must be a JSON object'), 400);
+      }
+    }
+
+    const auditImport = (result: ImportResult) =>
+      setAuditDetails(c, {
+        action: 'entity.import',
+        resource: { type: 'entity_import', id: result.importId },
+        metadata: {
+          format,
+          mode: result.mode,
+          rows: result.rows,
+          created: result.created,
+          failed: result.failed,
+        },
+      });
 
-const validateQuery = (schema: z.ZodSchema) => {
-  return async (c: Context, next: any) => {
     try {
-      const query = c.req.query();
-      const validatedQuery = schema.parse(query);
-      (c as any).validatedQuery = validatedQuery;
-      await next();
+      const result = await entityImportService.importEntities(c.req.raw.body, {
+        format,
+        mode: query.mode,
+        defaultType: query.type,
+        mapping,
+        importedBy: user.userId,
+        correlationId: c.req.header('x-correlation-id'),
+      });
+
+      auditImport(result);
+
+      if (result.mode === 'atomic' && result.failed > 0) {
+        return c.json(
+          {
+            ...createErrorResponse(
+              'Import failed',
+              `${result.failed} of ${result.rows} rows are invalid; nothing was imported`
+            ),
+            data: result,
+          },
+          400
+        );
+      }
+
+      return c.json(
+        createSuccessResponse(result, `Imported ${result.created} of ${result.rows} entities`)
+      );
     } catch (error) {
-      const logger = (c as any).logger;
-      logger.error(error, 'Query validation error');
-      return c.json(createErrorResponse('Validation error', error instanceof Error ? error.message : 'Invalid query parameters'), 400);
+      // Rows written before the error (partial mode) are reported with it
+      if (error instanceof ImportError && error.result) {
+        auditImport(error.result);
+      }
+      if (error instanceof ImportTooLargeError) {
+        return c.json(
+          { ...createErrorResponse('Payload too large', error.message), data: error.result },
+          413
+        );
+      }
+      if (error instanceof ImportError) {
+        return c.json(
+          { ...createErrorResponse('Invalid import', error.message), data: error.result },
+          400
+        );
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Import entities error');
+      return c.json(createErrorResponse('Failed to import entities'), 500);
     }
-  };
-};
+  }
+);
+
+// Get entities, filtered and sorted. Pages are addressed by number, or by the
+// cursor of the previous page for deep paging that stays stable under inserts.
+// Fields of data and metadata are filtered with filter[data.<field>][<operator>]=<value>.
+data.get(
+  '/entities',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(QueryEntitySchema),
+  async (c: Context) => {
+    const query = c.get('validatedQuery');
+
+    try {
+      const filters = parseEntityFilters(c.req.queries(), config.entities.maxFilters);
+      const result = await entityService.listEntities({ ...query, filters });
+
+      const entitiesResponse = result.entities.map(toEntityResponse);
+
+      const pagination = {
+        ...(!query.cursor && { page: query.page }),
+        limit: query.limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / query.limit),
+        nextCursor: result.nextCursor,
+      };
 
-const jwtAuth = (secret: string) => {
-  return async (c: Context, next: any) => {
-    const authorization = c.req.header('authorization');
-    
-    if (!authorization) {
-      return c.json(createErrorResponse('Authorization header required'), 401);
+      return c.json(createSuccessResponse(entitiesResponse, undefined, pagination));
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return c.json(
+          createErrorResponse(
+            'Invalid cursor',
+            'Cursors only work with the sort they were issued for'
+          ),
+          400
+        );
+      }
+      if (error instanceof InvalidFilterError) {
+        return c.json(createErrorResponse('Invalid filter', error.message), 400);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Get entities error');
+      return c.json(createErrorResponse('Failed to get entities'), 500);
     }
+  }
+);
+
+// Stream every entity matching the listing filters, as NDJSON (one entity per
+// line, like GET /entities returns them) or CSV (data and metadata as JSON).
+// Either can be imported again with POST /entities/import.
+data.get(
+  '/entities/export',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(ExportEntitiesSchema),
+  async (c: Context) => {
+    const { format, ...query } = c.get('validatedQuery');
 
-    const token = authorization.replace('Bearer ', '');
-    
     try {
-      const payload = jwt.verify(token, secret);
-      (c as any).user = payload;
-      await next();
+      const filters = parseEntityFilters(c.req.queries(), config.entities.maxFilters);
+      const stream = createExportStream(
+        entityService.iterateEntities({ ...query, filters }),
+        format
+      );
+
+      c.header('Content-Type', EXPORT_CONTENT_TYPES[format as keyof typeof EXPORT_CONTENT_TYPES]);
+      c.header(
+        'Content-Disposition',
+        `attachment; filename="entities-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}"`
+      );
+      return c.body(stream);
     } catch (error) {
-      return c.json(createErrorResponse('Invalid token'), 401);
+      if (error instanceof InvalidFilterError) {
+        return c.json(createErrorResponse('Invalid filter', error.message), 400);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Export entities error');
+      return c.json(createErrorResponse('Failed to export entities'), 500);
     }
-  };
+  }
+);
+
+// Answer a read with the entity and its ETag, or 304 when the client's copy
+// (If-None-Match) is still current
+const respondWithEntity = <T extends { version: number }>(c: Context, entity: T) => {
+  const etag = entityEtag(entity.version);
+  c.header('ETag', etag);
+
+  const ifNoneMatch = c.req.header('if-none-match');
+  if (ifNoneMatch && etagMatches(ifNoneMatch, etag, true)) {
+    return c.body(null, 304);
+  }
+
+  return c.json(createSuccessResponse(entity));
 };
 
-// Create entity
-data.post('/entities', jwtAuth(jwtConfig.secret), validateBody(CreateEntitySchema), async (c: Context) => {
-  const entityData = (c as any).validatedBody;
-  const user = (c as any).user;
-  
-  try {
-    const newEntity: NewEntity = {
-      name: entityData.name,
-      type: entityData.type,
-      data: JSON.stringify(entityData.data),
-      metadata: JSON.stringify(entityData.metadata || {}),
-      createdBy: user.userId,
-    };
-
-    const [createdEntity] = await db.insert(entities).values(newEntity).returning();
-    
-    // Parse JSON fields for response
-    const entityResponse = {
-      ...createdEntity,
-      data: JSON.parse(createdEntity.data),
-      metadata: JSON.parse(createdEntity.metadata),
-    };
-
-    return c.json(createSuccessResponse(entityResponse, 'Entity created successfully'), 201);
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Create entity error');
-    return c.json(createErrorResponse('Failed to create entity'), 500);
+// Get entity by ID. Soft-deleted entities are only returned with
+// includeDeleted=true; asOf reads the entity from its version history.
+// include=<relation>,... embeds the entities linked by those relations.
+data.get(
+  '/entities/:id',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(GetEntitySchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const { asOf, includeDeleted, include } = c.get('validatedQuery');
+
+      if (include && asOf) {
+        return c.json(
+          createErrorResponse(
+            'Validation error',
+            'include only applies to the current state, not asOf'
+          ),
+          400
+        );
+      }
+      const unknown = (include ?? []).filter(
+        (name: string) => !relationService.getRelationType(db, name)
+      );
+      if (unknown.length > 0) {
+        return c.json(
+          createErrorResponse('Validation error', `Unknown relations: ${unknown.join(', ')}`),
+          400
+        );
+      }
+
+      const [entity] = await db.select().from(entities).where(eq(entities.id, entityId));
+
+      if (!entity || (entity.deletedAt && !includeDeleted && !asOf)) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      // Embedded entities change without the entity's version, so these reads
+      // carry no ETag
+      if (include && include.length > 0) {
+        const included = await relationService.getIncluded(
+          entityId,
+          include,
+          config.relations.maxIncluded
+        );
+        const related = Object.fromEntries(
+          Object.entries(included).map(([name, linked]) => [name, linked.map(toEntityResponse)])
+        );
+        return c.json(createSuccessResponse({ ...toEntityResponse(entity), related }));
+      }
+
+      if (asOf) {
+        const at = new Date(asOf).toISOString();
+        const version = await entityVersionService.getVersionAsOf(entityId, at);
+
+        if (version && !version.snapshot.deletedAt) {
+          const { id, createdAt, createdBy } = entity;
+          return respondWithEntity(c, {
+            id,
+            ...version.snapshot,
+            createdAt,
+            updatedAt: version.createdAt,
+            createdBy,
+            version: version.version,
+          });
+        }
+
+        // Entities unchanged since before versioning only have their current state
+        if (
+          !version &&
+          !entity.deletedAt &&
+          entity.updatedAt <= at &&
+          !(await entityVersionService.hasVersions(entityId))
+        ) {
+          return respondWithEntity(c, toEntityResponse(entity));
+        }
+
+        return c.json(
+          createErrorResponse('Entity not found', `Entity did not exist at ${at}`),
+          404
+        );
+      }
+
+      return respondWithEntity(c, toEntityResponse(entity));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity error');
+      return c.json(createErrorResponse('Failed to get entity'), 500);
+    }
   }
-});
+);
+
+// Update entity
+data.put(
+  '/entities/:id',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  validateBody(UpdateEntitySchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const updateData = c.get('validatedBody');
+      setAuditDetails(c, { action: 'entity.update', resource: { type: 'entity', id: entityId } });
+
+      const updateFields: Partial<typeof entities.$inferInsert> = {
+        updatedAt: new Date().toISOString(),
+      };
+
+      if (updateData.name) updateFields.name = updateData.name;
+      if (updateData.type) updateFields.type = updateData.type;
+      if (updateData.metadata) updateFields.metadata = JSON.stringify(updateData.metadata);
+
+      const updated = db.transaction(tx => {
+        const [previous] = tx
+          .select()
+          .from(entities)
+          .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)))
+          .all();
+        if (!previous) {
+          return undefined;
+        }
+        checkIfMatch(c, previous);
+
+        if (updateData.type && updateData.type !== previous.type) {
+          relationService.checkTypeChange(tx, entityId, updateData.type);
+        }
+
+        // New data, or existing data moving to another type, has to fit the
+        // latest schema of the type; name and metadata changes leave it as is
+        if (updateData.data || (updateData.type && updateData.type !== previous.type)) {
+          const prepared = entityTypeService.prepareData(
+            tx,
+            updateData.type || previous.type,
+            updateData.data || JSON.parse(previous.data)
+          );
+          updateFields.data = JSON.stringify(prepared.data);
+          updateFields.schemaVersion = prepared.schemaVersion;
+        }
 
-// Get all entities with pagination and filtering
-data.get('/entities', jwtAuth(jwtConfig.secret), validateQuery(QueryEntitySchema), async (c: Context) => {
-  const query = (c as any).validatedQuery;
-  
-  try {
-    const page = parseInt(query.page);
-    const limit = parseInt(query.limit);
-    const offset = (page - 1) * limit;
-
-    // Build where conditions
-    let whereConditions: any[] = [];
-    
-    if (query.type) {
-      whereConditions.push(eq(entities.type, query.type));
+        const [entity] = tx
+          .update(entities)
+          .set({ ...updateFields, version: sql`${entities.version} + 1` })
+          .where(eq(entities.id, entityId))
+          .returning()
+          .all();
+
+        entityVersionService.recordVersion(tx, entity, 'update', c.get('user').userId, previous);
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_UPDATED,
+          {
+            entityId: entity.id,
+            name: entity.name,
+            type: entity.type,
+            changes: Object.keys(updateData),
+            updatedBy: c.get('user').userId,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return { entity, previous };
+      });
+
+      if (!updated) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const { entity: updatedEntity, previous } = updated;
+
+      const entityResponse = toEntityResponse(updatedEntity);
+
+      setAuditDetails(c, {
+        before: toEntityResponse(previous),
+        after: entityResponse,
+      });
+
+      c.header('ETag', entityEtag(updatedEntity.version));
+      return c.json(createSuccessResponse(entityResponse, 'Entity updated successfully'));
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailedResponse(c, error);
+      }
+      if (error instanceof EntityValidationError || error instanceof UnregisteredEntityTypeError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+      if (error instanceof RelationConflictError) {
+        return c.json(createErrorResponse('Relation conflict', error.message), 409);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Update entity error');
+      return c.json(createErrorResponse('Failed to update entity'), 500);
     }
-    
-    if (query.search) {
-      whereConditions.push(like(entities.name, `%${query.search}%`));
+  }
+);
+
+// Partially update the data of an entity with a JSON Merge Patch
+// (application/merge-patch+json) or a JSON Patch (application/json-patch+json)
+data.patch(
+  '/entities/:id',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  async (c: Context) => {
+    const contentType = (c.req.header('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (contentType !== MERGE_PATCH && contentType !== JSON_PATCH) {
+      return c.json(
+        createErrorResponse('Unsupported patch format', `Send ${MERGE_PATCH} or ${JSON_PATCH}`),
+        415
+      );
     }
 
-    // Build order by - simplified to avoid type issues
-    const orderBy = query.sortOrder === 'asc' ? 
-      asc(entities.createdAt) : 
-      desc(entities.createdAt);
-
-    // Get total count - simplified approach
-    const allEntities = await db.select().from(entities);
-    const total = allEntities.length;
-
-    // Get entities - simplified query building
-    let entitiesResult = allEntities;
-    
-    // Apply filtering
-    if (query.type) {
-      entitiesResult = entitiesResult.filter(entity => entity.type === query.type);
+    let patch: unknown;
+    try {
+      patch = await c.req.json();
+    } catch {
+      return c.json(createErrorResponse('Validation error', 'Invalid JSON body'), 400);
     }
-    
-    if (query.search) {
-      entitiesResult = entitiesResult.filter(entity => 
-        entity.name.toLowerCase().includes(query.search.toLowerCase())
+
+    try {
+      const entityId = c.req.param('id');
+      const user = c.get('user');
+      setAuditDetails(c, {
+        action: 'entity.update',
+        resource: { type: 'entity', id: entityId },
+        metadata: { patch: contentType },
+      });
+
+      const updated = db.transaction(tx => {
+        const [previous] = tx
+          .select()
+          .from(entities)
+          .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)))
+          .all();
+        if (!previous) {
+          return undefined;
+        }
+        checkIfMatch(c, previous);
+
+        const current = JSON.parse(previous.data);
+        const patched =
+          contentType === MERGE_PATCH
+            ? applyMergePatch(current, patch)
+            : applyPatch(current, patch);
+        if (typeof patched !== 'object' || patched === null || Array.isArray(patched)) {
+          throw new JsonPatchError('Entity data must remain an object');
+        }
+
+        const prepared = entityTypeService.prepareData(
+          tx,
+          previous.type,
+          patched as Record<string, any>
+        );
+        const [entity] = tx
+          .update(entities)
+          .set({
+            data: JSON.stringify(prepared.data),
+            schemaVersion: prepared.schemaVersion,
+            version: sql`${entities.version} + 1`,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(entities.id, entityId))
+          .returning()
+          .all();
+        entityVersionService.recordVersion(tx, entity, 'update', user.userId, previous);
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_UPDATED,
+          {
+            entityId: entity.id,
+            name: entity.name,
+            type: entity.type,
+            changes: ['data'],
+            updatedBy: user.userId,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return { entity, previous };
+      });
+
+      if (!updated) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const entityResponse = toEntityResponse(updated.entity);
+      setAuditDetails(c, { before: toEntityResponse(updated.previous), after: entityResponse });
+
+      c.header('ETag', entityEtag(updated.entity.version));
+      return c.json(createSuccessResponse(entityResponse, 'Entity updated successfully'));
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailedResponse(c, error);
+      }
+      if (error instanceof JsonPatchError) {
+        // A well-formed patch that does not fit the current data conflicts with it
+        return c.json(
+          createErrorResponse('Invalid patch', error.message),
+          error.conflict ? 409 : 400
+        );
+      }
+      if (error instanceof EntityValidationError || error instanceof UnregisteredEntityTypeError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Patch entity error');
+      return c.json(createErrorResponse('Failed to update entity'), 500);
+    }
+  }
+);
+
+// Delete entity. The entity is only marked as deleted, so it can be brought
+// back with POST /entities/:id/undelete.
+data.delete(
+  '/entities/:id',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_DELETE),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const user = c.get('user');
+      setAuditDetails(c, { action: 'entity.delete', resource: { type: 'entity', id: entityId } });
+
+      const deleted = db.transaction(tx => {
+        const [previous] = tx
+          .select()
+          .from(entities)
+          .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)))
+          .all();
+        if (!previous) {
+          return undefined;
+        }
+
+        checkIfMatch(c, previous);
+
+        // Restrict relations are checked before anything is deleted
+        const cascaded = relationService.collectCascade(tx, entityId);
+
+        const now = new Date().toISOString();
+        const softDelete = (target: Entity, cascadedFrom?: string) => {
+          const [entity] = tx
+            .update(entities)
+            .set({
+              deletedAt: now,
+              deletedBy: user.userId,
+              version: sql`${entities.version} + 1`,
+              updatedAt: now,
+            })
+            .where(eq(entities.id, target.id))
+            .returning()
+            .all();
+          entityVersionService.recordVersion(tx, entity, 'delete', user.userId, target);
+
+          enqueueEvent(
+            tx,
+            EventTypes.ENTITY_DELETED,
+            {
+              entityId: entity.id,
+              name: entity.name,
+              type: entity.type,
+              deletedBy: user.userId,
+              cascadedFrom,
+            },
+            c.req.header('x-correlation-id')
+          );
+
+          return entity;
+        };
+
+        const entity = softDelete(previous);
+        for (const source of cascaded) {
+          softDelete(source, entityId);
+        }
+
+        return { entity, previous, cascaded: cascaded.map(source => source.id) };
+      });
+
+      if (!deleted) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      setAuditDetails(c, {
+        before: toEntityResponse(deleted.previous),
+        after: toEntityResponse(deleted.entity),
+        metadata: deleted.cascaded.length > 0 ? { cascaded: deleted.cascaded } : undefined,
+      });
+
+      return c.json(
+        createSuccessResponse({ cascaded: deleted.cascaded }, 'Entity deleted successfully')
       );
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailedResponse(c, error);
+      }
+      if (error instanceof RelationConflictError) {
+        return c.json(createErrorResponse('Relation conflict', error.message), 409);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Delete entity error');
+      return c.json(createErrorResponse('Failed to delete entity'), 500);
     }
+  }
+);
+
+// Bring back a soft-deleted entity as it was when it was deleted
+data.post(
+  '/entities/:id/undelete',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_DELETE),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const user = c.get('user');
+      setAuditDetails(c, { action: 'entity.undelete', resource: { type: 'entity', id: entityId } });
+
+      const undeleted = db.transaction(tx => {
+        const [previous] = tx
+          .select()
+          .from(entities)
+          .where(and(eq(entities.id, entityId), isNotNull(entities.deletedAt)))
+          .all();
+        if (!previous) {
+          return undefined;
+        }
+
+        checkIfMatch(c, previous);
+
+        const [entity] = tx
+          .update(entities)
+          .set({
+            deletedAt: null,
+            deletedBy: null,
+            version: sql`${entities.version} + 1`,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(entities.id, entityId))
+          .returning()
+          .all();
+        const version = entityVersionService.recordVersion(
+          tx,
+          entity,
+          'undelete',
+          user.userId,
+          previous
+        );
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_RESTORED,
+          {
+            entityId: entity.id,
+            name: entity.name,
+            type: entity.type,
+            version: version.version,
+            restoredBy: user.userId,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return { entity, previous };
+      });
 
-    // Apply sorting
-    entitiesResult.sort((a, b) => {
-      const aVal = a.createdAt;
-      const bVal = b.createdAt;
-      if (query.sortOrder === 'asc') {
-        return aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-      } else {
-        return aVal > bVal ? -1 : aVal < bVal ? 1 : 0;
-      }
-    });
-
-    // Apply pagination
-    const paginatedEntities = entitiesResult.slice(offset, offset + limit);
-
-    // Parse JSON fields for response
-    const entitiesResponse = paginatedEntities.map(entity => ({
-      ...entity,
-      data: JSON.parse(entity.data),
-      metadata: JSON.parse(entity.metadata),
-    }));
-
-    const pagination = {
-      page,
-      limit,
-      total: entitiesResult.length,
-      totalPages: Math.ceil(entitiesResult.length / limit),
-    };
-
-    return c.json(createSuccessResponse(entitiesResponse, undefined, pagination));
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Get entities error');
-    return c.json(createErrorResponse('Failed to get entities'), 500);
+      if (!undeleted) {
+        const [existing] = await db
+          .select({ id: entities.id })
+          .from(entities)
+          .where(eq(entities.id, entityId));
+        return existing
+          ? c.json(createErrorResponse('Entity is not deleted'), 409)
+          : c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const entityResponse = toEntityResponse(undeleted.entity);
+      setAuditDetails(c, { before: toEntityResponse(undeleted.previous), after: entityResponse });
+
+      c.header('ETag', entityEtag(undeleted.entity.version));
+      return c.json(createSuccessResponse(entityResponse, 'Entity restored successfully'));
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailedResponse(c, error);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Undelete entity error');
+      return c.json(createErrorResponse('Failed to undelete entity'), 500);
+    }
   }
-});
+);
 
-// Get entity by ID
-data.get('/entities/:id', jwtAuth(jwtConfig.secret), async (c: Context) => {
-  try {
-    const entityId = c.req.param('id');
-    
-    const [entity] = await db.select().from(entities).where(eq(entities.id, entityId));
-    
-    if (!entity) {
-      return c.json(createErrorResponse('Entity not found'), 404);
+// List the versions of an entity, newest first, with the JSON Patch of each change
+data.get(
+  '/entities/:id/versions',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(QueryVersionsSchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const { page, limit } = c.get('validatedQuery');
+
+      const [entity] = await db
+        .select({ id: entities.id })
+        .from(entities)
+        .where(eq(entities.id, entityId));
+      if (!entity) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const { versions, total } = await entityVersionService.listVersions(entityId, page, limit);
+      const pagination = { page, limit, total, totalPages: Math.ceil(total / limit) };
+
+      return c.json(
+        createSuccessResponse(
+          versions.map(({ snapshot: _snapshot, ...version }) => version),
+          undefined,
+          pagination
+        )
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity versions error');
+      return c.json(createErrorResponse('Failed to get entity versions'), 500);
     }
+  }
+);
+
+// Diff two versions of an entity as a JSON Patch from `from` to `to`
+data.get(
+  '/entities/:id/diff',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(DiffVersionsSchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const query = c.get('validatedQuery');
+
+      const from = entityVersionService.getVersion(db, entityId, query.from);
+      const to = query.to
+        ? entityVersionService.getVersion(db, entityId, query.to)
+        : entityVersionService.getLatestVersion(db, entityId);
+
+      if (!from || !to) {
+        return c.json(createErrorResponse('Version not found'), 404);
+      }
 
-    // Parse JSON fields for response
-    const entityResponse = {
-      ...entity,
-      data: JSON.parse(entity.data),
-      metadata: JSON.parse(entity.metadata),
-    };
-
-    return c.json(createSuccessResponse(entityResponse));
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Get entity error');
-    return c.json(createErrorResponse('Failed to get entity'), 500);
+      return c.json(
+        createSuccessResponse({
+          from: from.version,
+          to: to.version,
+          patch: createPatch(from.snapshot, to.snapshot),
+        })
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Diff entity versions error');
+      return c.json(createErrorResponse('Failed to diff entity versions'), 500);
+    }
   }
-});
+);
 
-// Update entity
-data.put('/entities/:id', jwtAuth(jwtConfig.secret), validateBody(UpdateEntitySchema), async (c: Context) => {
-  try {
-    const entityId = c.req.param('id');
-    const updateData = (c as any).validatedBody;
-
-    const updateFields: any = {
-      updatedAt: new Date().toISOString(),
-    };
-
-    if (updateData.name) updateFields.name = updateData.name;
-    if (updateData.type) updateFields.type = updateData.type;
-    if (updateData.data) updateFields.data = JSON.stringify(updateData.data);
-    if (updateData.metadata) updateFields.metadata = JSON.stringify(updateData.metadata);
-
-    const [updatedEntity] = await db
-      .update(entities)
-      .set(updateFields)
-      .where(eq(entities.id, entityId))
-      .returning();
-
-    if (!updatedEntity) {
-      return c.json(createErrorResponse('Entity not found'), 404);
+// Get one version of an entity with its full state
+data.get(
+  '/entities/:id/versions/:version{[0-9]+}',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  async (c: Context) => {
+    try {
+      const version = entityVersionService.getVersion(
+        db,
+        c.req.param('id'),
+        parseInt(c.req.param('version'), 10)
+      );
+
+      if (!version) {
+        return c.json(createErrorResponse('Version not found'), 404);
+      }
+
+      return c.json(createSuccessResponse(version));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity version error');
+      return c.json(createErrorResponse('Failed to get entity version'), 500);
     }
+  }
+);
+
+// Set an entity back to an earlier version, recorded as a new version. A
+// deleted entity is undeleted; data from an older schema version is migrated.
+data.post(
+  '/entities/:id/restore',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  validateBody(RestoreEntitySchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const user = c.get('user');
+      const { version } = c.get('validatedBody');
+      setAuditDetails(c, {
+        action: 'entity.restore',
+        resource: { type: 'entity', id: entityId },
+        metadata: { restoredFrom: version },
+      });
+
+      const target = entityVersionService.getVersion(db, entityId, version);
+      if (!target) {
+        return c.json(createErrorResponse('Version not found'), 404);
+      }
+      if (target.snapshot.deletedAt) {
+        return c.json(
+          createErrorResponse(
+            'Cannot restore a deleted version',
+            'Restore the version before the deletion instead'
+          ),
+          400
+        );
+      }
+
+      const restored = db.transaction(tx => {
+        const [previous] = tx.select().from(entities).where(eq(entities.id, entityId)).all();
+        if (!previous) {
+          return undefined;
+        }
+
+        checkIfMatch(c, previous);
+
+        const { snapshot } = target;
+        if (snapshot.type !== previous.type) {
+          relationService.checkTypeChange(tx, entityId, snapshot.type);
+        }
+        const prepared = entityTypeService.prepareData(
+          tx,
+          snapshot.type,
+          snapshot.data,
+          snapshot.schemaVersion
+        );
+        const [entity] = tx
+          .update(entities)
+          .set({
+            name: snapshot.name,
+            type: snapshot.type,
+            data: JSON.stringify(prepared.data),
+            metadata: JSON.stringify(snapshot.metadata),
+            schemaVersion: prepared.schemaVersion,
+            deletedAt: null,
+            deletedBy: null,
+            version: sql`${entities.version} + 1`,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(entities.id, entityId))
+          .returning()
+          .all();
+        const recorded = entityVersionService.recordVersion(
+          tx,
+          entity,
+          'restore',
+          user.userId,
+          previous
+        );
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_RESTORED,
+          {
+            entityId: entity.id,
+            name: entity.name,
+            type: entity.type,
+            version: recorded.version,
+            restoredFrom: version,
+            restoredBy: user.userId,
+          },
+          c.req.header('x-correlation-id')
+        );
 
-    // Parse JSON fields for response
-    const entityResponse = {
-      ...updatedEntity,
-      data: JSON.parse(updatedEntity.data),
-      metadata: JSON.parse(updatedEntity.metadata),
-    };
-
-    return c.json(createSuccessResponse(entityResponse, 'Entity updated successfully'));
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Update entity error');
-    return c.json(createErrorResponse('Failed to update entity'), 500);
+        return { entity, previous };
+      });
+
+      if (!restored) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const entityResponse = toEntityResponse(restored.entity);
+      setAuditDetails(c, { before: toEntityResponse(restored.previous), after: entityResponse });
+
+      c.header('ETag', entityEtag(restored.entity.version));
+      return c.json(createSuccessResponse(entityResponse, `Entity restored to version ${version}`));
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailedResponse(c, error);
+      }
+      if (error instanceof EntityValidationError || error instanceof UnregisteredEntityTypeError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+      if (error instanceof RelationConflictError) {
+        return c.json(createErrorResponse('Relation conflict', error.message), 409);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Restore entity error');
+      return c.json(createErrorResponse('Failed to restore entity'), 500);
+    }
   }
-});
+);
+
+// List the live entities linked to an entity, with the relation and which way
+// it points
+data.get(
+  '/entities/:id/relations',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(QueryRelationsSchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const query = c.get('validatedQuery');
+
+      const [entity] = await db
+        .select({ id: entities.id })
+        .from(entities)
+        .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)));
+      if (!entity) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      const { related, total } = await relationService.listRelated(entityId, query);
+
+      const pagination = {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      };
+
+      return c.json(
+        createSuccessResponse(
+          related.map(item => ({ ...item, entity: toEntityResponse(item.entity) })),
+          undefined,
+          pagination
+        )
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity relations error');
+      return c.json(createErrorResponse('Failed to get entity relations'), 500);
+    }
+  }
+);
+
+// Link an entity (the source) to another (the target) by a registered
+// relation type, which fixes both entity types and the cardinality
+data.post(
+  '/entities/:id/relations',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  validateBody(CreateRelationSchema),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const { relation, targetId } = c.get('validatedBody');
+      const user = c.get('user');
+
+      const created = db.transaction(tx => {
+        const [source] = tx
+          .select()
+          .from(entities)
+          .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)))
+          .all();
+        if (!source) {
+          return undefined;
+        }
+
+        const row = relationService.createRelation(tx, source, relation, targetId, user.userId);
+
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_RELATION_CREATED,
+          {
+            relationId: row.id,
+            relation: row.relation,
+            sourceId: row.sourceId,
+            targetId: row.targetId,
+            createdBy: user.userId,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return row;
+      });
+
+      if (!created) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
+
+      setAuditDetails(c, {
+        action: 'entity.relate',
+        resource: { type: 'entity', id: entityId },
+        after: created,
+      });
+
+      return c.json(createSuccessResponse(created, 'Relation created successfully'), 201);
+    } catch (error) {
+      if (error instanceof InvalidRelationError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+      if (error instanceof RelationConflictError) {
+        return c.json(createErrorResponse('Relation conflict', error.message), 409);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Create relation error');
+      return c.json(createErrorResponse('Failed to create relation'), 500);
+    }
+  }
+);
+
+// Remove a relation from either of its entities
+data.delete(
+  '/entities/:id/relations/:relationId',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_WRITE),
+  async (c: Context) => {
+    try {
+      const entityId = c.req.param('id');
+      const user = c.get('user');
+
+      const deleted = db.transaction(tx => {
+        const row = relationService.deleteRelation(tx, entityId, c.req.param('relationId'));
+        if (!row) {
+          return undefined;
+        }
 
-// Delete entity
-data.delete('/entities/:id', jwtAuth(jwtConfig.secret), async (c: Context) => {
-  try {
-    const entityId = c.req.param('id');
-    
-    const deletedEntities = await db.delete(entities).where(eq(entities.id, entityId)).returning();
-    
-    if (deletedEntities.length === 0) {
-      return c.json(createErrorResponse('Entity not found'), 404);
+        enqueueEvent(
+          tx,
+          EventTypes.ENTITY_RELATION_DELETED,
+          {
+            relationId: row.id,
+            relation: row.relation,
+            sourceId: row.sourceId,
+            targetId: row.targetId,
+            deletedBy: user.userId,
+          },
+          c.req.header('x-correlation-id')
+        );
+
+        return row;
+      });
+
+      if (!deleted) {
+        return c.json(createErrorResponse('Relation not found'), 404);
+      }
+
+      setAuditDetails(c, {
+        action: 'entity.unrelate',
+        resource: { type: 'entity', id: entityId },
+        before: deleted,
+      });
+
+      return c.json(createSuccessResponse(null, 'Relation deleted successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Delete relation error');
+      return c.json(createErrorResponse('Failed to delete relation'), 500);
     }
+  }
+);
+
+// The entities within `depth` hops of an entity and the relations between
+// them, optionally following only some relations or directions. Bounded by
+// RELATION_MAX_DEPTH and RELATION_MAX_NODES.
+data.get(
+  '/entities/:id/graph',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(GraphQuerySchema),
+  async (c: Context) => {
+    try {
+      const query = c.get('validatedQuery');
+      const graph = await relationService.traverse(c.req.param('id'), {
+        ...query,
+        maxNodes: config.relations.maxNodes,
+      });
+
+      if (!graph) {
+        return c.json(createErrorResponse('Entity not found'), 404);
+      }
 
-    return c.json(createSuccessResponse(null, 'Entity deleted successfully'));
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Delete entity error');
-    return c.json(createErrorResponse('Failed to delete entity'), 500);
+      return c.json(createSuccessResponse({ ...graph, nodes: graph.nodes.map(toEntityResponse) }));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity graph error');
+      return c.json(createErrorResponse('Failed to get entity graph'), 500);
+    }
   }
-});
+);
 
-// Get entity types
-data.get('/entity-types', jwtAuth(jwtConfig.secret), async (c: Context) => {
-  try {
-    // Get distinct types from entities
-    const typesResult = await db.selectDistinct({ type: entities.type }).from(entities);
-    const types = typesResult.map(row => row.type);
-
-    return c.json(createSuccessResponse(types));
-  } catch (error) {
-    const logger = (c as any).logger;
-    logger.error(error, 'Get entity types error');
-    return c.json(createErrorResponse('Failed to get entity types'), 500);
+// Get entity types: every registered type with its latest schema, and the
+// types of stored entities that have none
+data.get(
+  '/entity-types',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  async (c: Context) => {
+    try {
+      const types = await entityTypeService.listTypes();
+      return c.json(createSuccessResponse(types));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity types error');
+      return c.json(createErrorResponse('Failed to get entity types'), 500);
+    }
   }
-});
+);
+
+// Get the latest (or ?version=) schema of an entity type with its version history
+data.get(
+  '/entity-types/:type',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  validateQuery(EntityTypeVersionSchema),
+  async (c: Context) => {
+    try {
+      const { version } = c.get('validatedQuery');
+      const versions = await entityTypeService.getVersions(c.req.param('type'));
+      const definition = version
+        ? versions.find(entry => entry.version === version)
+        : versions[versions.length - 1];
+
+      if (!definition) {
+        return c.json(createErrorResponse('Entity type not found'), 404);
+      }
+
+      return c.json(
+        createSuccessResponse({
+          ...definition,
+          versions: versions.map(({ version, description, createdAt, createdBy }) => ({
+            version,
+            description,
+            createdAt,
+            createdBy,
+          })),
+        })
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get entity type error');
+      return c.json(createErrorResponse('Failed to get entity type'), 500);
+    }
+  }
+);
+
+// Register a type, or the next schema version of an existing one. New and
+// changed entities of the type are validated against its latest schema.
+data.post(
+  '/entity-types',
+  authenticateUser,
+  requirePermission(Permissions.ENTITY_TYPES_MANAGE),
+  validateBody(RegisterEntityTypeSchema),
+  async (c: Context) => {
+    try {
+      const body = c.get('validatedBody');
+      const definition = entityTypeService.registerType(body, c.get('user').userId);
+
+      setAuditDetails(c, {
+        action: 'entity_type.register',
+        resource: { type: 'entity_type', id: definition.type },
+        after: definition,
+        metadata: { version: definition.version },
+      });
+
+      return c.json(
+        createSuccessResponse(
+          definition,
+          `Entity type ${definition.type} v${definition.version} registered`
+        ),
+        201
+      );
+    } catch (error) {
+      if (error instanceof InvalidEntitySchemaError) {
+        return c.json(createErrorResponse('Validation error', error.message), 400);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Register entity type error');
+      return c.json(createErrorResponse('Failed to register entity type'), 500);
+    }
+  }
+);
+
+// Migrate stored entities of a type to its latest schema version through the
+// registered migration hooks; entities that still do not fit are reported
+data.post(
+  '/entity-types/:type/migrate',
+  authenticateUser,
+  requirePermission(Permissions.ENTITY_TYPES_MANAGE),
+  async (c: Context) => {
+    try {
+      const type = c.req.param('type');
+      const result = entityTypeService.migrateEntities(type, c.get('user').userId);
+
+      if (!result) {
+        return c.json(createErrorResponse('Entity type not found'), 404);
+      }
+
+      setAuditDetails(c, {
+        action: 'entity_type.migrate',
+        resource: { type: 'entity_type', id: type },
+        metadata: {
+          version: result.version,
+          migrated: result.migrated,
+          failed: result.failed.length,
+        },
+      });
+
+      return c.json(
+        createSuccessResponse(result, `Migrated ${result.migrated} entities to v${result.version}`)
+      );
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Migrate entity type error');
+      return c.json(createErrorResponse('Failed to migrate entities'), 500);
+    }
+  }
+);
+
+// Get relation types
+data.get(
+  '/relation-types',
+  authenticateUser,
+  requirePermission(Permissions.ENTITIES_READ),
+  async (c: Context) => {
+    try {
+      const types = await relationService.listRelationTypes();
+      return c.json(createSuccessResponse(types));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Get relation types error');
+      return c.json(createErrorResponse('Failed to get relation types'), 500);
+    }
+  }
+);
+
+// Register a relation type between two entity types. Relation types are
+// fixed once registered, as existing relations were checked against them.
+data.post(
+  '/relation-types',
+  authenticateUser,
+  requirePermission(Permissions.ENTITY_TYPES_MANAGE),
+  validateBody(RegisterRelationTypeSchema),
+  async (c: Context) => {
+    try {
+      const body = c.get('validatedBody');
+      const relationType = relationService.registerRelationType(body, c.get('user').userId);
+
+      setAuditDetails(c, {
+        action: 'relation_type.register',
+        resource: { type: 'relation_type', id: relationType.name },
+        after: relationType,
+      });
+
+      return c.json(
+        createSuccessResponse(relationType, `Relation type ${relationType.name} registered`),
+        201
+      );
+    } catch (error) {
+      if (error instanceof RelationConflictError) {
+        return c.json(createErrorResponse('Relation type exists', error.message), 409);
+      }
+
+      const logger = c.get('logger');
+      logger.error(error, 'Register relation type error');
+      return c.json(createErrorResponse('Failed to register relation type'), 500);
+    }
+  }
+);
 
-export default data;
\ No newline at end of file
+export default data;
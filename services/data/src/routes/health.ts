@@ -8,7 +8,7 @@ const health = new Hono();
 health.get('/', async (c: Context) => {
   try {
     const uptime = Math.floor(process.uptime());
-    
+
     const healthCheck = {
       status: 'healthy' as const,
       timestamp: new Date().toISOString(),
@@ -22,21 +22,24 @@ health.get('/', async (c: Context) => {
         redis: {
           status: 'up' as const,
           responseTime: 0,
-        }
-      }
+        },
+      },
     };
 
     return c.json(healthCheck);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Health check error');
-    
-    return c.json({
-      status: 'unhealthy',
-      timestamp: new Date().toISOString(),
-      error: 'Health check failed'
-    }, 503);
+
+    return c.json(
+      {
+        status: 'unhealthy',
+        timestamp: new Date().toISOString(),
+        error: 'Health check failed',
+      },
+      503
+    );
   }
 });
 
-export default health;
\ No newline at end of file
+export default health;
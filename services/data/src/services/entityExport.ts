@@ -0,0 +1,65 @@
+import type { Entity } from '../models/database';
+
+export type ExportFormat = 'ndjson' | 'csv';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+};
+
+// data and metadata are written as JSON, so a CSV export imports back unchanged
+const CSV_COLUMNS = [
+  'id',
+  'name',
+  'type',
+  'data',
+  'metadata',
+  'version',
+  'schemaVersion',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'deletedAt',
+  'deletedBy',
+] as const;
+
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toNdjsonLine = (entity: Entity) =>
+  `${JSON.stringify({ ...entity, data: JSON.parse(entity.data), metadata: JSON.parse(entity.metadata) })}\n`;
+
+const toCsvLine = (entity: Entity) =>
+  `${CSV_COLUMNS.map(column => csvField(entity[column])).join(',')}\r\n`;
+
+// Encodes entities as they are read, one batch per pull, so a slow client
+// holds back reading from the database rather than buffering the export.
+// Closing the connection stops the read.
+export const createExportStream = (
+  batches: AsyncGenerator<Entity[]>,
+  format: ExportFormat
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const toLine = format === 'csv' ? toCsvLine : toNdjsonLine;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\r\n`));
+      }
+    },
+    async pull(controller) {
+      const { value, done } = await batches.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value.map(toLine).join('')));
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+};
@@ -0,0 +1,172 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { db, entities } from '../models/database';
+
+// Filters on the JSON `data` and `metadata` columns, written as query
+// parameters: filter[data.status]=active, filter[data.total][gte]=100,
+// filter[metadata.env][in]=prod,staging, filter[data.deletedAt][exists]=false
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'exists',
+  'contains',
+  'has',
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+export type FilterValue = string | number | boolean | null;
+
+export interface EntityFilter {
+  field: string; // 'data.<path>' or 'metadata.<path>'
+  operator: FilterOperator;
+  value: FilterValue | FilterValue[];
+}
+
+export class InvalidFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+const FILTER_PARAM = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/;
+// Nested keys separated by dots; restricted so paths can be inlined in SQL
+// (an expression index only matches a literal path)
+const FIELD_PATH = /^(data|metadata)((?:\.[A-Za-z0-9_-]+)+)$/;
+
+// Query strings carry no types: numbers, booleans and null are read as such
+// unless quoted, so filter[data.code]="10" matches the string "10"
+const parseValue = (raw: string): FilterValue => {
+  if (/^".*"$/.test(raw)) return raw.slice(1, -1);
+  if (raw === 'null') return null;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw.trim() !== '' && !isNaN(Number(raw))) return Number(raw);
+  return raw;
+};
+
+// JSON1 returns booleans as 1 and 0
+const toSqlValue = (value: FilterValue) => (typeof value === 'boolean' ? Number(value) : value);
+
+export const parseEntityFilters = (
+  queries: Record<string, string[]>,
+  maxFilters: number
+): EntityFilter[] => {
+  const filters: EntityFilter[] = [];
+
+  for (const [param, values] of Object.entries(queries)) {
+    if (!param.startsWith('filter[')) continue;
+
+    const match = FILTER_PARAM.exec(param);
+    if (!match) {
+      throw new InvalidFilterError(`Malformed filter parameter: ${param}`);
+    }
+
+    const [, field, operator = 'eq'] = match;
+    if (!FIELD_PATH.test(field)) {
+      throw new InvalidFilterError(
+        `Filters apply to data.<field> or metadata.<field>, got: ${field}`
+      );
+    }
+    if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+      throw new InvalidFilterError(`Unknown filter operator: ${operator}`);
+    }
+
+    for (const raw of values) {
+      let value: EntityFilter['value'];
+      if (operator === 'in') {
+        value = raw.split(',').map(parseValue);
+      } else if (operator === 'exists') {
+        if (raw !== 'true' && raw !== 'false') {
+          throw new InvalidFilterError(`${param} must be true or false`);
+        }
+        value = raw === 'true';
+      } else {
+        value = parseValue(raw);
+        if (
+          ['gt', 'gte', 'lt', 'lte'].includes(operator) &&
+          (value === null || typeof value === 'boolean')
+        ) {
+          throw new InvalidFilterError(`${param} needs a number or a string`);
+        }
+      }
+
+      filters.push({ field, operator: operator as FilterOperator, value });
+    }
+  }
+
+  if (filters.length > maxFilters) {
+    throw new InvalidFilterError(`At most ${maxFilters} filters are allowed`);
+  }
+
+  return filters;
+};
+
+// The column and literal JSON path of a validated field
+const resolveField = (field: string) => {
+  const [, column, path] = FIELD_PATH.exec(field)!;
+  return {
+    column: column === 'data' ? entities.data : entities.metadata,
+    path: sql.raw(`'$${path}'`),
+  };
+};
+
+export const filterCondition = (filter: EntityFilter): SQL => {
+  const { column, path } = resolveField(filter.field);
+  const extracted = sql`json_extract(${column}, ${path})`;
+  const value = filter.value as FilterValue;
+
+  switch (filter.operator) {
+    case 'eq':
+      // =null matches an explicit null as well as a missing field
+      return value === null ? sql`${extracted} IS NULL` : sql`${extracted} = ${toSqlValue(value)}`;
+    case 'ne':
+      return sql`${extracted} IS NOT ${toSqlValue(value)}`;
+    case 'gt':
+      return sql`${extracted} > ${value}`;
+    case 'gte':
+      return sql`${extracted} >= ${value}`;
+    case 'lt':
+      return sql`${extracted} < ${value}`;
+    case 'lte':
+      return sql`${extracted} <= ${value}`;
+    case 'in':
+      return sql`${extracted} IN (${sql.join(
+        (filter.value as FilterValue[]).map(item => sql`${toSqlValue(item)}`),
+        sql`, `
+      )})`;
+    case 'exists':
+      // json_type tells a missing field (NULL) from an explicit null ('null')
+      return value
+        ? sql`json_type(${column}, ${path}) IS NOT NULL`
+        : sql`json_type(${column}, ${path}) IS NULL`;
+    case 'contains':
+      // Case-insensitive substring of a string field
+      return sql`${extracted} LIKE ${`%${String(value).replace(/[\\%_]/g, char => `\\${char}`)}%`} ESCAPE '\\'`;
+    case 'has':
+      // Array field with an element equal to the value
+      return sql`EXISTS (SELECT 1 FROM json_each(${column}, ${path}) WHERE json_each.value = ${toSqlValue(value)})`;
+  }
+};
+
+// Expression indexes for fields that are filtered often; equality and range
+// filters on these fields use the index instead of scanning every entity
+export const createJsonFieldIndexes = (fields: string[]) => {
+  for (const field of fields) {
+    if (!FIELD_PATH.test(field)) {
+      throw new Error(`Cannot index ${field}: expected data.<field> or metadata.<field>`);
+    }
+
+    const [, column, path] = FIELD_PATH.exec(field)!;
+    const name = `entities_${field.replace(/[^A-Za-z0-9_]/g, '_')}_idx`;
+    db.run(
+      sql.raw(
+        `CREATE INDEX IF NOT EXISTS "${name}" ON entities (json_extract(${column}, '$${path}'))`
+      )
+    );
+  }
+};
@@ -0,0 +1,607 @@
+import { closeSync, mkdtempSync, openSync, readSync, rmSync, writeSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inArray, TransactionRollbackError } from 'drizzle-orm';
+import { z } from 'zod';
+import config from '../config';
+import { db, entities, type NewEntity } from '../models/database';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+import { EntityTypeService } from './entityTypeService';
+import { EntityVersionService } from './entityVersionService';
+
+type ImportReader = Pick<typeof db, 'select'>;
+type ImportWriter = Pick<typeof db, 'select' | 'insert'>;
+
+export type ImportFormat = 'ndjson' | 'csv';
+
+// atomic: nothing is written unless every row is valid.
+// partial: valid rows are written, invalid ones reported.
+export type ImportMode = 'atomic' | 'partial';
+
+export type CsvColumnType = 'string' | 'number' | 'integer' | 'boolean' | 'json';
+
+// Import target (id, name, type, data, metadata, data.<path> or
+// metadata.<key>) to the CSV column it is read from
+export type CsvMapping = Record<string, string | { column: string; type?: CsvColumnType }>;
+
+export interface ImportOptions {
+  format: ImportFormat;
+  mode: ImportMode;
+  defaultType?: string; // For rows without a type
+  mapping?: CsvMapping; // CSV only; derived from the header when absent
+  importedBy: string;
+  correlationId?: string;
+}
+
+export interface ImportRowError {
+  line: number; // Where the row starts in the file
+  id?: string;
+  error: string;
+}
+
+export interface ImportResult {
+  importId: string;
+  mode: ImportMode;
+  rows: number;
+  created: number;
+  failed: number;
+  errors: ImportRowError[]; // The first importMaxErrors failures
+  errorsTruncated: boolean;
+}
+
+// The whole import is unusable, e.g. an invalid mapping or malformed CSV.
+// Reading stops there; result tells what was written before (partial mode
+// keeps the chunks already written, atomic mode writes nothing).
+export class ImportError extends Error {
+  result?: ImportResult;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// The body is larger than config.entities.importMaxBytes
+export class ImportTooLargeError extends ImportError {
+  constructor(maxBytes: number) {
+    super(`Imports are limited to ${maxBytes} bytes`);
+    this.name = 'ImportTooLargeError';
+  }
+}
+
+const ImportRowSchema = z.object({
+  id: z.string().min(1).max(255).optional(), // Generated when absent
+  name: z.string().min(1),
+  type: z.string().min(1),
+  data: z.record(z.any()).default({}),
+  metadata: z.record(z.string()).optional(),
+});
+
+// SQLite limits the variables of a statement, so large chunks are inserted in parts
+const INSERT_BATCH_SIZE = 200;
+
+// Columns of CSV exports that are not imported, so an export can be imported as is
+const SYSTEM_COLUMNS = new Set([
+  'version',
+  'schemaVersion',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'deletedAt',
+  'deletedBy',
+]);
+
+const COLUMN_TYPES: CsvColumnType[] = ['string', 'number', 'integer', 'boolean', 'json'];
+const TARGET_PATTERN = /^(?:id|name|type|data|metadata|data(?:\.[^.]+)+|metadata\.[^.]+)$/;
+
+interface RawRow {
+  line: number;
+  value?: unknown;
+  error?: string;
+}
+
+interface PreparedRow {
+  line: number;
+  entity: NewEntity & { id: string };
+}
+
+interface ColumnMapping {
+  target: string;
+  index: number;
+  column: string;
+  type: CsvColumnType;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const emptyBody = () => new ReadableStream<Uint8Array>({ start: controller => controller.close() });
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+async function* readText(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const maxBytes = config.entities.importMaxBytes;
+  let received = 0;
+  for await (const chunk of body) {
+    received += chunk.byteLength;
+    if (received > maxBytes) {
+      throw new ImportTooLargeError(maxBytes);
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+// One JSON object per line; blank lines are skipped
+async function* readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<RawRow> {
+  let buffer = '';
+  let line = 0;
+
+  const parse = (text: string): RawRow | undefined => {
+    line++;
+    if (text.trim() === '') return undefined;
+    try {
+      return { line, value: JSON.parse(text) };
+    } catch {
+      return { line, error: 'Invalid JSON' };
+    }
+  };
+
+  for await (const text of readText(body)) {
+    buffer += text;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const row = parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (row) yield row;
+    }
+  }
+  const row = parse(buffer);
+  if (row) yield row;
+}
+
+// CSV records (RFC 4180): quoted fields may hold commas, quotes ("") and line
+// breaks; lines end with LF or CRLF. Blank lines are skipped.
+async function* readCsvRecords(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ line: number; fields: string[] }> {
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false; // Inside a quoted field
+  let quoteSeen = false; // A quote inside a quoted field: closes it unless another follows
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+
+  for await (const text of readText(body)) {
+    for (const char of text) {
+      if (first) {
+        first = false;
+        if (char === '\uFEFF') continue;
+      }
+
+      if (quoted) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          quoted = false;
+        } else {
+          if (char === '"') quoteSeen = true;
+          else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n') {
+        fields.push(field);
+        if (fields.length > 1 || fields[0] !== '') {
+          yield { line: recordLine, fields };
+        }
+        fields = [];
+        field = '';
+        line++;
+        recordLine = line;
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (quoted && !quoteSeen) {
+    throw new ImportError(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (fields.length > 0 || field !== '') {
+    fields.push(field);
+    yield { line: recordLine, fields };
+  }
+}
+
+// Set a dotted path, creating the objects on the way
+const setPath = (target: Record<string, any>, path: string[], value: unknown) => {
+  let parent = target;
+  for (const key of path.slice(0, -1)) {
+    if (!isPlainObject(parent[key])) parent[key] = {};
+    parent = parent[key];
+  }
+  parent[path[path.length - 1]] = value;
+};
+
+const convertCell = (value: string, type: CsvColumnType, column: string): unknown => {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number':
+    case 'integer': {
+      const number = Number(value.trim());
+      if (
+        value.trim() === '' ||
+        !Number.isFinite(number) ||
+        (type === 'integer' && !Number.isInteger(number))
+      ) {
+        throw new Error(
+          `Column ${column} is not ${type === 'integer' ? 'an integer' : 'a number'}`
+        );
+      }
+      return number;
+    }
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === 'true' || normalized === '1') return true;
+      if (normalized === 'false' || normalized === '0') return false;
+      throw new Error(`Column ${column} is not a boolean`);
+    }
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new Error(`Column ${column} is not valid JSON`);
+      }
+  }
+};
+
+// Without a mapping, id, name, type, data and metadata columns map to those
+// fields (data and metadata as JSON), data.<path> and metadata.<key> columns to
+// those fields, and any other column to a field of data
+const resolveMapping = (header: string[], mapping?: CsvMapping): ColumnMapping[] => {
+  if (new Set(header).size !== header.length) {
+    throw new ImportError('CSV header has duplicate column names');
+  }
+
+  const entries: [string, string | { column: string; type?: CsvColumnType }][] = mapping
+    ? Object.entries(mapping)
+    : header
+        .filter(column => !SYSTEM_COLUMNS.has(column))
+        .map(column => [TARGET_PATTERN.test(column) ? column : `data.${column}`, column]);
+
+  const columns = entries.map(([target, source]): ColumnMapping => {
+    const { column, type } =
+      typeof source === 'string' ? { column: source, type: undefined } : source;
+    if (!TARGET_PATTERN.test(target) || target.split('.').includes('__proto__')) {
+      throw new ImportError(
+        `Cannot map to ${target}; targets are id, name, type, data, metadata, data.<path> and metadata.<key>`
+      );
+    }
+    if (type !== undefined && !COLUMN_TYPES.includes(type)) {
+      throw new ImportError(`Mapping for ${target} has an unknown type: ${type}`);
+    }
+    const index = header.indexOf(column);
+    if (index === -1) {
+      throw new ImportError(`Mapping for ${target} names a missing column: ${column}`);
+    }
+    return {
+      target,
+      index,
+      column,
+      type: type ?? (target === 'data' || target === 'metadata' ? 'json' : 'string'),
+    };
+  });
+
+  // Whole data and metadata columns first, so path columns add to them
+  return columns.sort((a, b) => a.target.split('.').length - b.target.split('.').length);
+};
+
+async function* readCsv(
+  body: ReadableStream<Uint8Array>,
+  mapping?: CsvMapping
+): AsyncGenerator<RawRow> {
+  let columns: ColumnMapping[] | undefined;
+  let width = 0;
+
+  for await (const { line, fields } of readCsvRecords(body)) {
+    if (!columns) {
+      columns = resolveMapping(fields, mapping);
+      width = fields.length;
+      continue;
+    }
+    if (fields.length !== width) {
+      yield { line, error: `Expected ${width} columns, found ${fields.length}` };
+      continue;
+    }
+
+    try {
+      const row: Record<string, any> = { data: {} };
+      for (const { target, index, column, type } of columns) {
+        // Empty cells leave the field unset
+        if (fields[index] === '') continue;
+        const value = convertCell(fields[index], type, column);
+        if (target.includes('.')) {
+          const [root, ...path] = target.split('.');
+          if (!isPlainObject(row[root])) row[root] = {};
+          setPath(row[root], path, value);
+        } else {
+          row[target] = value;
+        }
+      }
+      yield { line, value: row };
+    } catch (error) {
+      yield { line, error: errorMessage(error) };
+    }
+  }
+}
+
+// Valid rows of an atomic import, kept in a temporary file until every row
+// is checked, so memory stays bounded however large the import is
+class RowSpool {
+  private dir = mkdtempSync(join(tmpdir(), 'entity-import-'));
+  private fd = openSync(join(this.dir, 'rows.ndjson'), 'w+');
+  count = 0;
+
+  write(rows: PreparedRow[]): void {
+    if (rows.length === 0) return;
+    writeSync(this.fd, rows.map(row => `${JSON.stringify(row)}\n`).join(''));
+    this.count += rows.length;
+  }
+
+  // Synchronous, so the rows can be read back inside a transaction
+  *read(chunkSize: number): Generator<PreparedRow[]> {
+    const decoder = new TextDecoder();
+    const block = new Uint8Array(64 * 1024);
+    let position = 0;
+    let buffer = '';
+    let chunk: PreparedRow[] = [];
+
+    for (;;) {
+      const read = readSync(this.fd, block, 0, block.length, position);
+      if (read === 0) break;
+      position += read;
+      buffer += decoder.decode(block.subarray(0, read), { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        chunk.push(JSON.parse(line));
+        if (chunk.length >= chunkSize) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+    }
+    if (chunk.length > 0) yield chunk;
+  }
+
+  close(): void {
+    closeSync(this.fd);
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+export class EntityImportService {
+  private entityTypeService = new EntityTypeService();
+  private entityVersionService = new EntityVersionService();
+
+  // Rows are read from the stream as it arrives and written a chunk per
+  // transaction, so the size of an import is not bound by memory. Atomic
+  // imports spool the valid rows to disk until every row is checked, then
+  // write them in one transaction.
+  async importEntities(
+    body: ReadableStream<Uint8Array> | null,
+    options: ImportOptions
+  ): Promise<ImportResult> {
+    const chunkSize = config.entities.importChunkSize;
+    const result: ImportResult = {
+      importId: crypto.randomUUID(),
+      mode: options.mode,
+      rows: 0,
+      created: 0,
+      failed: 0,
+      errors: [],
+      errorsTruncated: false,
+    };
+
+    const fail = (line: number, error: string, id?: string) => {
+      result.failed++;
+      if (result.errors.length < config.entities.importMaxErrors) {
+        result.errors.push({ line, id, error });
+      }
+    };
+
+    // Rows whose ID is taken are failed; the rest can be inserted
+    const dropExisting = (reader: ImportReader, rows: PreparedRow[]): PreparedRow[] => {
+      const existing = new Set<string>();
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const ids = rows.slice(i, i + INSERT_BATCH_SIZE).map(row => row.entity.id);
+        for (const { id } of reader
+          .select({ id: entities.id })
+          .from(entities)
+          .where(inArray(entities.id, ids))
+          .all()) {
+          existing.add(id);
+        }
+      }
+      return rows.filter(row => {
+        if (existing.has(row.entity.id))
+          fail(row.line, 'An entity with this ID already exists', row.entity.id);
+        return !existing.has(row.entity.id);
+      });
+    };
+
+    const seenIds = new Set<string>();
+    const spool = options.mode === 'atomic' ? new RowSpool() : undefined;
+    let pending: PreparedRow[] = [];
+
+    const flush = () => {
+      const rows = dropExisting(db, pending);
+      pending = [];
+      if (spool) {
+        // Only worth keeping while the import can still succeed
+        if (result.failed === 0) spool.write(rows);
+        return;
+      }
+
+      try {
+        db.transaction(tx => this.insertChunk(tx, rows, result.importId, options));
+        result.created += rows.length;
+      } catch {
+        // Find the rows at fault, one transaction each
+        for (const row of rows) {
+          try {
+            db.transaction(tx => this.insertChunk(tx, [row], result.importId, options));
+            result.created++;
+          } catch (error) {
+            fail(row.line, errorMessage(error), row.entity.id);
+          }
+        }
+      }
+    };
+
+    try {
+      const rows =
+        options.format === 'csv'
+          ? readCsv(body ?? emptyBody(), options.mapping)
+          : readNdjson(body ?? emptyBody());
+      for await (const raw of rows) {
+        result.rows++;
+        if (raw.error !== undefined) {
+          fail(raw.line, raw.error);
+          continue;
+        }
+
+        const row = this.prepareRow(raw, options);
+        if ('error' in row) {
+          fail(raw.line, row.error, row.id);
+        } else if (seenIds.has(row.entity.id)) {
+          fail(raw.line, 'Duplicate ID in this import', row.entity.id);
+        } else {
+          seenIds.add(row.entity.id);
+          pending.push(row);
+          if (pending.length >= chunkSize) flush();
+        }
+      }
+      flush();
+
+      if (spool && result.failed === 0) {
+        try {
+          db.transaction(tx => {
+            for (const chunk of spool.read(chunkSize)) {
+              // Entities created since the rows were checked fail the import
+              const rows = dropExisting(tx, chunk);
+              if (rows.length < chunk.length) tx.rollback();
+              this.insertChunk(tx, rows, result.importId, options);
+            }
+          });
+          result.created = spool.count;
+        } catch (error) {
+          if (!(error instanceof TransactionRollbackError)) throw error;
+        }
+      }
+    } catch (error) {
+      if (error instanceof ImportError) {
+        result.errorsTruncated = result.failed > result.errors.length;
+        error.result = result;
+      }
+      throw error;
+    } finally {
+      spool?.close();
+    }
+
+    result.errorsTruncated = result.failed > result.errors.length;
+    return result;
+  }
+
+  private prepareRow(
+    raw: RawRow,
+    options: ImportOptions
+  ): PreparedRow | { error: string; id?: string } {
+    const value =
+      isPlainObject(raw.value) && options.defaultType && raw.value.type === undefined
+        ? { ...raw.value, type: options.defaultType }
+        : raw.value;
+    const id = isPlainObject(value) && typeof value.id === 'string' ? value.id : undefined;
+
+    const parsed = ImportRowSchema.safeParse(value);
+    if (!parsed.success) {
+      return {
+        id,
+        error: parsed.error.issues
+          .map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`)
+          .join(', '),
+      };
+    }
+
+    try {
+      const prepared = this.entityTypeService.prepareData(db, parsed.data.type, parsed.data.data);
+      const now = new Date().toISOString();
+      return {
+        line: raw.line,
+        entity: {
+          id: parsed.data.id ?? crypto.randomUUID(),
+          name: parsed.data.name,
+          type: parsed.data.type,
+          data: JSON.stringify(prepared.data),
+          metadata: JSON.stringify(parsed.data.metadata || {}),
+          schemaVersion: prepared.schemaVersion,
+          createdAt: now,
+          updatedAt: now,
+          createdBy: options.importedBy,
+        },
+      };
+    } catch (error) {
+      return { id, error: errorMessage(error) };
+    }
+  }
+
+  // The entities, their first versions and one event for the chunk
+  private insertChunk(
+    tx: ImportWriter,
+    rows: PreparedRow[],
+    importId: string,
+    options: ImportOptions
+  ): void {
+    if (rows.length === 0) return;
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const created = tx
+        .insert(entities)
+        .values(rows.slice(i, i + INSERT_BATCH_SIZE).map(row => row.entity))
+        .returning()
+        .all();
+      this.entityVersionService.recordCreated(tx, created, options.importedBy);
+    }
+
+    enqueueEvent(
+      tx,
+      EventTypes.ENTITY_IMPORTED,
+      {
+        importId,
+        entityIds: rows.map(row => row.entity.id),
+        types: [...new Set(rows.map(row => row.entity.type))],
+        createdBy: options.importedBy,
+      },
+      options.correlationId
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { eq, and, or, gt, lt, isNull, asc, desc, sql, type SQL } from 'drizzle-orm';
+import { db, entities, type Entity } from '../models/database';
+import { filterCondition, type EntityFilter } from './entityFilters';
+
+export type EntitySortField = 'name' | 'type' | 'createdAt' | 'updatedAt';
+
+export interface EntityQuery {
+  page: number;
+  limit: number;
+  type?: string;
+  search?: string; // Substring of the name
+  filters?: EntityFilter[]; // On fields of data and metadata; all must match
+  includeDeleted?: boolean;
+  sortBy: EntitySortField;
+  sortOrder: 'asc' | 'desc';
+  cursor?: string; // From a previous page; replaces `page`
+}
+
+// The entities a query selects, whichever page is read
+export type EntitySelection = Omit<EntityQuery, 'page' | 'limit' | 'cursor'>;
+
+export interface EntityPage {
+  entities: Entity[];
+  total: number;
+  nextCursor?: string; // Absent on the last page
+}
+
+// Position after the last entity of a page. Tied to the sort it was issued
+// for, so changing the sort while paging is rejected instead of skipping rows.
+interface CursorPosition {
+  sortBy: EntitySortField;
+  sortOrder: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const sortColumns = {
+  name: entities.name,
+  type: entities.type,
+  createdAt: entities.createdAt,
+  updatedAt: entities.updatedAt,
+};
+
+// Case-insensitive substring match; % and _ in the input match themselves
+const contains = (column: typeof entities.name, value: string): SQL =>
+  sql`${column} LIKE ${`%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`} ESCAPE '\\'`;
+
+const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+const decodeCursor = (cursor: string, query: EntityQuery): CursorPosition => {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    position?.sortBy !== query.sortBy ||
+    position.sortOrder !== query.sortOrder ||
+    typeof position.value !== 'string' ||
+    typeof position.id !== 'string'
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  return position;
+};
+
+// The entities after a position in the sort order
+const afterPosition = (
+  query: Pick<EntityQuery, 'sortBy' | 'sortOrder'>,
+  value: string,
+  id: string
+): SQL => {
+  const column = sortColumns[query.sortBy];
+  const after = query.sortOrder === 'asc' ? gt : lt;
+  return or(after(column, value), and(eq(column, value), after(entities.id, id)))!;
+};
+
+const whereClause = (query: EntitySelection): SQL | undefined => {
+  const conditions: SQL[] = [];
+  if (!query.includeDeleted) conditions.push(isNull(entities.deletedAt));
+  if (query.type) conditions.push(eq(entities.type, query.type));
+  if (query.search) conditions.push(contains(entities.name, query.search));
+  for (const filter of query.filters ?? []) conditions.push(filterCondition(filter));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+};
+
+export class EntityService {
+  // Filtering, sorting and paging all run in SQL. The ID breaks ties between
+  // equal sort values so pages never overlap or skip rows.
+  async listEntities(query: EntityQuery): Promise<EntityPage> {
+    const column = sortColumns[query.sortBy];
+    const order = query.sortOrder === 'asc' ? asc : desc;
+    const where = whereClause(query);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(entities)
+      .where(where);
+
+    let page: Entity[];
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor, query);
+
+      page = await db
+        .select()
+        .from(entities)
+        .where(and(where, afterPosition(query, position.value, position.id)))
+        .orderBy(order(column), order(entities.id))
+        .limit(query.limit + 1);
+    } else {
+      page = await db
+        .select()
+        .from(entities)
+        .where(where)
+        .orderBy(order(column), order(entities.id))
+        .limit(query.limit + 1)
+        .offset((query.page - 1) * query.limit);
+    }
+
+    // The extra row only tells whether another page follows
+    const hasMore = page.length > query.limit;
+    const results = page.slice(0, query.limit);
+    const last = results[results.length - 1];
+
+    return {
+      entities: results,
+      total,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              sortBy: query.sortBy,
+              sortOrder: query.sortOrder,
+              value: last[query.sortBy],
+              id: last.id,
+            })
+          : undefined,
+    };
+  }
+
+  // Every matching entity in sort order, read a batch at a time so exports of
+  // any size use little memory
+  async *iterateEntities(query: EntitySelection, batchSize = 500): AsyncGenerator<Entity[]> {
+    const column = sortColumns[query.sortBy];
+    const order = query.sortOrder === 'asc' ? asc : desc;
+    const where = whereClause(query);
+    let last: Entity | undefined;
+
+    for (;;) {
+      const batch = await db
+        .select()
+        .from(entities)
+        .where(last ? and(where, afterPosition(query, last[query.sortBy], last.id)) : where)
+        .orderBy(order(column), order(entities.id))
+        .limit(batchSize);
+      if (batch.length === 0) return;
+
+      yield batch;
+      last = batch[batch.length - 1];
+    }
+  }
+}
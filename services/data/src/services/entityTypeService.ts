@@ -0,0 +1,291 @@
+import { and, eq, gt, isNull, lt, or, asc, desc, sql } from 'drizzle-orm';
+import config from '../config';
+import { db, entities, entityTypes, type EntityType } from '../models/database';
+import { checkSchema, validateJson, type JsonSchema, type SchemaIssue } from './jsonSchema';
+import { EntityVersionService } from './entityVersionService';
+
+// Anything that can read entity types: the database or an open transaction
+type EntityTypeReader = Pick<typeof db, 'select'>;
+
+// Migrates entity data from one schema version to the next
+export type EntityMigration = (data: Record<string, any>) => Record<string, any>;
+
+export interface EntityTypeDefinition extends Omit<EntityType, 'schema'> {
+  schema: JsonSchema;
+}
+
+export interface EntityTypeSummary {
+  type: string;
+  registered: boolean;
+  entityCount: number;
+  latest?: EntityTypeDefinition;
+}
+
+export interface MigrationResult {
+  type: string;
+  version: number;
+  migrated: number;
+  failed: { entityId: string; error: string }[];
+}
+
+export class InvalidEntitySchemaError extends Error {
+  constructor(public issues: SchemaIssue[]) {
+    super(
+      `Invalid schema: ${issues.map(issue => `${issue.path || 'schema'} ${issue.message}`).join(', ')}`
+    );
+    this.name = 'InvalidEntitySchemaError';
+  }
+}
+
+export class EntityValidationError extends Error {
+  constructor(
+    public entityType: string,
+    public version: number,
+    public issues: SchemaIssue[]
+  ) {
+    super(
+      `Invalid data for ${entityType} v${version}: ${issues.map(issue => `${issue.path || 'data'} ${issue.message}`).join(', ')}`
+    );
+    this.name = 'EntityValidationError';
+  }
+}
+
+export class UnregisteredEntityTypeError extends Error {
+  constructor(public entityType: string) {
+    super(`Entity type ${entityType} is not registered`);
+    this.name = 'UnregisteredEntityTypeError';
+  }
+}
+
+const MIGRATION_BATCH_SIZE = 100;
+
+// Migration hooks by type and the version they migrate from. A version without
+// a hook is taken to be compatible with the one before it, so the data is only
+// revalidated. A breaking schema change registers the new version through the
+// API and a hook here, e.g.
+//   registerEntityMigration('order', 1, ({ amount, ...data }) => ({ ...data, total: { amount, currency: 'USD' } }));
+const migrations: Map<string, Map<number, EntityMigration>> = new Map();
+
+export const registerEntityMigration = (
+  type: string,
+  fromVersion: number,
+  migrate: EntityMigration
+): void => {
+  if (!migrations.has(type)) {
+    migrations.set(type, new Map());
+  }
+  migrations.get(type)!.set(fromVersion, migrate);
+};
+
+const toDefinition = (row: EntityType): EntityTypeDefinition => ({
+  ...row,
+  schema: JSON.parse(row.schema),
+});
+
+export class EntityTypeService {
+  private entityVersionService = new EntityVersionService();
+
+  // Every type with a registered schema or stored entities; registered ones
+  // come with their latest schema
+  async listTypes(): Promise<EntityTypeSummary[]> {
+    const definitions = await db
+      .select()
+      .from(entityTypes)
+      .orderBy(asc(entityTypes.type), asc(entityTypes.version));
+    const counts = await db
+      .select({ type: entities.type, count: sql<number>`count(*)` })
+      .from(entities)
+      .where(isNull(entities.deletedAt))
+      .groupBy(entities.type);
+
+    const summaries = new Map<string, EntityTypeSummary>();
+    for (const definition of definitions) {
+      summaries.set(definition.type, {
+        type: definition.type,
+        registered: true,
+        entityCount: 0,
+        latest: toDefinition(definition),
+      });
+    }
+    for (const { type, count } of counts) {
+      const summary = summaries.get(type) ?? { type, registered: false, entityCount: 0 };
+      summaries.set(type, { ...summary, entityCount: count });
+    }
+
+    return [...summaries.values()].sort((a, b) => a.type.localeCompare(b.type));
+  }
+
+  async getVersions(type: string): Promise<EntityTypeDefinition[]> {
+    const rows = await db
+      .select()
+      .from(entityTypes)
+      .where(eq(entityTypes.type, type))
+      .orderBy(asc(entityTypes.version));
+    return rows.map(toDefinition);
+  }
+
+  // The given version of a type, or its latest one
+  getDefinition(
+    reader: EntityTypeReader,
+    type: string,
+    version?: number
+  ): EntityTypeDefinition | undefined {
+    const [row] = reader
+      .select()
+      .from(entityTypes)
+      .where(
+        version !== undefined
+          ? and(eq(entityTypes.type, type), eq(entityTypes.version, version))
+          : eq(entityTypes.type, type)
+      )
+      .orderBy(desc(entityTypes.version))
+      .limit(1)
+      .all();
+
+    return row && toDefinition(row);
+  }
+
+  // Add the next schema version of a type (version 1 for a new type). Stored
+  // entities keep their version until they are migrated.
+  registerType(
+    input: { type: string; schema: unknown; description?: string },
+    createdBy: string
+  ): EntityTypeDefinition {
+    const issues = checkSchema(input.schema);
+    if (issues.length === 0 && (input.schema as JsonSchema).type !== 'object') {
+      issues.push({ path: 'type', message: 'must be object, as entity data is an object' });
+    }
+    if (issues.length > 0) {
+      throw new InvalidEntitySchemaError(issues);
+    }
+
+    const row = db.transaction(tx => {
+      const current = this.getDefinition(tx, input.type);
+      const [created] = tx
+        .insert(entityTypes)
+        .values({
+          type: input.type,
+          version: (current?.version ?? 0) + 1,
+          schema: JSON.stringify(input.schema),
+          description: input.description,
+          createdBy,
+        })
+        .returning()
+        .all();
+
+      return created;
+    });
+
+    return toDefinition(row);
+  }
+
+  // Check the data of a new or changed entity against the latest schema of its
+  // type. Data stored under an older version (fromVersion) is migrated first.
+  // Returns the data to store with its schema version, which is null for
+  // unregistered types.
+  prepareData(
+    reader: EntityTypeReader,
+    type: string,
+    data: Record<string, any>,
+    fromVersion?: number | null
+  ): { data: Record<string, any>; schemaVersion: number | null } {
+    const definition = this.getDefinition(reader, type);
+    if (!definition) {
+      if (config.entities.requireRegisteredTypes) {
+        throw new UnregisteredEntityTypeError(type);
+      }
+      return { data, schemaVersion: null };
+    }
+
+    const migrated = fromVersion
+      ? this.migrateData(type, data, fromVersion, definition.version)
+      : data;
+    const issues = validateJson(definition.schema, migrated);
+    if (issues.length > 0) {
+      throw new EntityValidationError(type, definition.version, issues);
+    }
+
+    return { data: migrated, schemaVersion: definition.version };
+  }
+
+  migrateData(
+    type: string,
+    data: Record<string, any>,
+    fromVersion: number,
+    toVersion: number
+  ): Record<string, any> {
+    let migrated = data;
+    for (let version = fromVersion; version < toVersion; version++) {
+      const migrate = migrations.get(type)?.get(version);
+      if (migrate) {
+        migrated = migrate(migrated);
+      }
+    }
+    return migrated;
+  }
+
+  // Bring every entity of a type to its latest schema version, a batch per
+  // transaction, each recorded as a new entity version. Entities whose data
+  // does not fit are left as they are and reported.
+  migrateEntities(type: string, migratedBy: string): MigrationResult | null {
+    const definition = this.getDefinition(db, type);
+    if (!definition) {
+      return null;
+    }
+
+    const result: MigrationResult = { type, version: definition.version, migrated: 0, failed: [] };
+    let afterId = '';
+
+    for (;;) {
+      const batch = db
+        .select()
+        .from(entities)
+        .where(
+          and(
+            eq(entities.type, type),
+            or(isNull(entities.schemaVersion), lt(entities.schemaVersion, definition.version)),
+            gt(entities.id, afterId)
+          )
+        )
+        .orderBy(asc(entities.id))
+        .limit(MIGRATION_BATCH_SIZE)
+        .all();
+      if (batch.length === 0) break;
+
+      db.transaction(tx => {
+        for (const entity of batch) {
+          try {
+            const prepared = this.prepareData(
+              tx,
+              type,
+              JSON.parse(entity.data),
+              entity.schemaVersion
+            );
+            const [migrated] = tx
+              .update(entities)
+              .set({
+                data: JSON.stringify(prepared.data),
+                schemaVersion: prepared.schemaVersion,
+                version: sql`${entities.version} + 1`,
+                updatedAt: new Date().toISOString(),
+              })
+              .where(eq(entities.id, entity.id))
+              .returning()
+              .all();
+            this.entityVersionService.recordVersion(tx, migrated, 'update', migratedBy, entity);
+            result.migrated++;
+          } catch (error) {
+            result.failed.push({
+              entityId: entity.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      });
+
+      afterId = batch[batch.length - 1].id;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,181 @@
+import { and, eq, lte, desc, sql } from 'drizzle-orm';
+import { db, entityVersions, type Entity, type EntityVersion } from '../models/database';
+import { createPatch, type JsonPatchOperation } from './jsonPatch';
+
+// Anything that can read (and add) versions: the database or an open transaction
+type VersionReader = Pick<typeof db, 'select'>;
+type VersionWriter = Pick<typeof db, 'select' | 'insert'>;
+
+export type VersionOperation = EntityVersion['operation'];
+
+// The part of an entity that is versioned
+export interface EntitySnapshot {
+  name: string;
+  type: string;
+  data: Record<string, any>;
+  metadata: Record<string, string>;
+  schemaVersion: number | null;
+  deletedAt: string | null;
+}
+
+export interface EntityVersionRecord extends Omit<EntityVersion, 'snapshot' | 'patch'> {
+  snapshot: EntitySnapshot;
+  patch: JsonPatchOperation[];
+}
+
+export const toSnapshot = (entity: Entity): EntitySnapshot => ({
+  name: entity.name,
+  type: entity.type,
+  data: JSON.parse(entity.data),
+  metadata: JSON.parse(entity.metadata),
+  schemaVersion: entity.schemaVersion,
+  deletedAt: entity.deletedAt,
+});
+
+const toRecord = (row: EntityVersion): EntityVersionRecord => ({
+  ...row,
+  snapshot: JSON.parse(row.snapshot),
+  patch: JSON.parse(row.patch),
+});
+
+export class EntityVersionService {
+  getLatestVersion(reader: VersionReader, entityId: string): EntityVersionRecord | undefined {
+    const [row] = reader
+      .select()
+      .from(entityVersions)
+      .where(eq(entityVersions.entityId, entityId))
+      .orderBy(desc(entityVersions.version))
+      .limit(1)
+      .all();
+
+    return row && toRecord(row);
+  }
+
+  // Record the state an entity was just changed to, in the transaction that
+  // changed it, under the entity's own version. An entity from before
+  // versioning first gets its previous state recorded, so that state can
+  // still be restored.
+  recordVersion(
+    tx: VersionWriter,
+    entity: Entity,
+    operation: VersionOperation,
+    author: string,
+    previous?: Entity
+  ): EntityVersionRecord {
+    let latest = this.getLatestVersion(tx, entity.id);
+
+    if (!latest && previous) {
+      const baseline = toSnapshot(previous);
+      const [row] = tx
+        .insert(entityVersions)
+        .values({
+          entityId: entity.id,
+          version: previous.version,
+          operation: 'create',
+          snapshot: JSON.stringify(baseline),
+          patch: JSON.stringify(createPatch({}, baseline)),
+          createdAt: previous.updatedAt,
+          createdBy: previous.createdBy,
+        })
+        .returning()
+        .all();
+      latest = toRecord(row);
+    }
+
+    const snapshot = toSnapshot(entity);
+    const [row] = tx
+      .insert(entityVersions)
+      .values({
+        entityId: entity.id,
+        version: entity.version,
+        operation,
+        snapshot: JSON.stringify(snapshot),
+        patch: JSON.stringify(createPatch(latest?.snapshot ?? {}, snapshot)),
+        createdAt: entity.updatedAt,
+        createdBy: author,
+      })
+      .returning()
+      .all();
+
+    return toRecord(row);
+  }
+
+  // Version 1 of newly created entities, in one statement for bulk imports
+  recordCreated(tx: VersionWriter, created: Entity[], author: string): void {
+    if (created.length === 0) return;
+
+    tx.insert(entityVersions)
+      .values(
+        created.map(entity => {
+          const snapshot = toSnapshot(entity);
+          return {
+            entityId: entity.id,
+            version: entity.version,
+            operation: 'create' as const,
+            snapshot: JSON.stringify(snapshot),
+            patch: JSON.stringify(createPatch({}, snapshot)),
+            createdAt: entity.updatedAt,
+            createdBy: author,
+          };
+        })
+      )
+      .run();
+  }
+
+  // Newest first
+  async listVersions(
+    entityId: string,
+    page: number,
+    limit: number
+  ): Promise<{ versions: EntityVersionRecord[]; total: number }> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(entityVersions)
+      .where(eq(entityVersions.entityId, entityId));
+    const rows = await db
+      .select()
+      .from(entityVersions)
+      .where(eq(entityVersions.entityId, entityId))
+      .orderBy(desc(entityVersions.version))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return { versions: rows.map(toRecord), total };
+  }
+
+  getVersion(
+    reader: VersionReader,
+    entityId: string,
+    version: number
+  ): EntityVersionRecord | undefined {
+    const [row] = reader
+      .select()
+      .from(entityVersions)
+      .where(and(eq(entityVersions.entityId, entityId), eq(entityVersions.version, version)))
+      .all();
+
+    return row && toRecord(row);
+  }
+
+  // The version that was current at a point in time
+  async getVersionAsOf(entityId: string, asOf: string): Promise<EntityVersionRecord | null> {
+    const [row] = await db
+      .select()
+      .from(entityVersions)
+      .where(and(eq(entityVersions.entityId, entityId), lte(entityVersions.createdAt, asOf)))
+      .orderBy(desc(entityVersions.createdAt), desc(entityVersions.version))
+      .limit(1);
+
+    return row ? toRecord(row) : null;
+  }
+
+  async hasVersions(entityId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: entityVersions.id })
+      .from(entityVersions)
+      .where(eq(entityVersions.entityId, entityId))
+      .limit(1);
+
+    return Boolean(row);
+  }
+}
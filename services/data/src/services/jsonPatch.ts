@@ -0,0 +1,240 @@
+// JSON Patch (RFC 6902) operations between two JSON documents
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Object keys are escaped as JSON Pointer reference tokens (RFC 6901)
+const pointer = (path: string, key: string) =>
+  `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+// Own keys only, so members like `constructor` are not found on every object
+const hasKey = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const jsonEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => hasKey(b, key) && jsonEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+// Operations turning `before` into `after`. Objects are compared key by key;
+// a changed array is replaced as a whole, which keeps patches easy to read.
+export const createPatch = (before: unknown, after: unknown, path = ''): JsonPatchOperation[] => {
+  if (jsonEqual(before, after)) {
+    return [];
+  }
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return [{ op: 'replace', path, value: after }];
+  }
+
+  const operations: JsonPatchOperation[] = [];
+  for (const key of Object.keys(before)) {
+    if (!hasKey(after, key)) {
+      operations.push({ op: 'remove', path: pointer(path, key) });
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (!hasKey(before, key)) {
+      operations.push({ op: 'add', path: pointer(path, key), value });
+    } else {
+      operations.push(...createPatch(before[key], value, pointer(path, key)));
+    }
+  }
+
+  return operations;
+};
+
+export class JsonPatchError extends Error {
+  // `conflict` when the patch is well-formed but does not fit the document,
+  // e.g. a missing path or a failed test
+  constructor(
+    message: string,
+    public conflict = false
+  ) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+const parsePointer = (path: string): string[] => {
+  if (path === '') return [];
+  if (!path.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer: ${path}`);
+  }
+  const tokens = path
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.includes('__proto__')) {
+    throw new JsonPatchError(`Invalid JSON Pointer: ${path}`);
+  }
+  return tokens;
+};
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// The container holding the last token of a path, and that token
+const resolveParent = (
+  document: any,
+  tokens: string[],
+  path: string
+): { parent: any; key: string } => {
+  let parent = document;
+  for (const token of tokens.slice(0, -1)) {
+    parent = Array.isArray(parent)
+      ? parent[Number(token)]
+      : isPlainObject(parent)
+        ? parent[token]
+        : undefined;
+    if (parent === undefined || parent === null || typeof parent !== 'object') {
+      throw new JsonPatchError(`Path not found: ${path}`, true);
+    }
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+};
+
+const arrayIndex = (array: unknown[], key: string, path: string, allowEnd: boolean): number => {
+  if (allowEnd && key === '-') return array.length;
+  if (
+    !/^(0|[1-9][0-9]*)$/.test(key) ||
+    Number(key) > array.length ||
+    (!allowEnd && Number(key) === array.length)
+  ) {
+    throw new JsonPatchError(`Path not found: ${path}`, true);
+  }
+  return Number(key);
+};
+
+const getValue = (document: unknown, path: string): unknown => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) return document;
+
+  const { parent, key } = resolveParent(document, tokens, path);
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, key, path, false)];
+  if (!hasKey(parent, key)) {
+    throw new JsonPatchError(`Path not found: ${path}`, true);
+  }
+  return parent[key];
+};
+
+const removeValue = (document: unknown, path: string): unknown => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) {
+    throw new JsonPatchError('Cannot remove the whole document');
+  }
+
+  const { parent, key } = resolveParent(document, tokens, path);
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, key, path, false), 1)[0];
+  }
+  if (!hasKey(parent, key)) {
+    throw new JsonPatchError(`Path not found: ${path}`, true);
+  }
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+};
+
+// Returns the new document, as the root itself can be replaced
+const addValue = (document: unknown, path: string, value: unknown, replace: boolean): unknown => {
+  const tokens = parsePointer(path);
+  if (tokens.length === 0) return value;
+
+  const { parent, key } = resolveParent(document, tokens, path);
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, path, !replace);
+    parent.splice(index, replace ? 1 : 0, value);
+  } else {
+    if (replace && !hasKey(parent, key)) {
+      throw new JsonPatchError(`Path not found: ${path}`, true);
+    }
+    parent[key] = value;
+  }
+  return document;
+};
+
+// Apply a JSON Patch (RFC 6902). All operations apply or none do; the input
+// document is left untouched.
+export const applyPatch = (document: unknown, operations: unknown): unknown => {
+  if (!Array.isArray(operations)) {
+    throw new JsonPatchError('A JSON Patch must be an array of operations');
+  }
+
+  let result = clone(document);
+  for (const [i, operation] of operations.entries()) {
+    if (!isPlainObject(operation) || typeof operation.path !== 'string') {
+      throw new JsonPatchError(`Operation ${i} needs an op and a path`);
+    }
+    const { op, path } = operation;
+    if (['add', 'replace', 'test'].includes(op as string) && !hasKey(operation, 'value')) {
+      throw new JsonPatchError(`Operation ${i} (${op}) needs a value`);
+    }
+    if (['move', 'copy'].includes(op as string) && typeof operation.from !== 'string') {
+      throw new JsonPatchError(`Operation ${i} (${op}) needs a from path`);
+    }
+
+    switch (op) {
+      case 'add':
+        result = addValue(result, path, clone(operation.value), false);
+        break;
+      case 'replace':
+        result = addValue(result, path, clone(operation.value), true);
+        break;
+      case 'remove':
+        removeValue(result, path);
+        break;
+      case 'move': {
+        const from = operation.from as string;
+        if (path.startsWith(`${from}/`)) {
+          throw new JsonPatchError(`Operation ${i} moves ${from} into itself`);
+        }
+        if (from !== path) {
+          result = addValue(result, path, removeValue(result, from), false);
+        }
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, clone(getValue(result, operation.from as string)), false);
+        break;
+      case 'test':
+        if (!jsonEqual(getValue(result, path), operation.value)) {
+          throw new JsonPatchError(`Test failed at ${path || 'the document root'}`, true);
+        }
+        break;
+      default:
+        throw new JsonPatchError(`Operation ${i} has an unknown op: ${op}`);
+    }
+  }
+
+  return result;
+};
+
+// Apply a JSON Merge Patch (RFC 7396): objects merge recursively, null removes
+// a member and anything else replaces the target
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isPlainObject(patch)) {
+    return clone(patch);
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === '__proto__') continue;
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(hasKey(result, key) ? result[key] : undefined, value);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,287 @@
+// The subset of JSON Schema (draft-07) that entity types are defined with.
+// Schemas using any other keyword are rejected when registered, so a schema
+// never looks stricter than what is actually enforced.
+export type JsonSchema = {
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: keyof typeof FORMATS;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Annotations, not validated
+  $schema?: string;
+  $comment?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+};
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaIssue {
+  path: string; // e.g. 'items[2].price'; empty for the value itself
+  message: string;
+}
+
+const JSON_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const FORMATS = {
+  'date-time': (value: string) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) &&
+    !isNaN(Date.parse(value)),
+  date: (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  email: (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value) && URL.canParse(value),
+  uuid: (value: string) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+};
+
+const NON_NEGATIVE_INTEGER_KEYWORDS = [
+  'minProperties',
+  'maxProperties',
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+] as const;
+const NUMBER_KEYWORDS = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'] as const;
+const ANNOTATION_KEYWORDS = ['$schema', '$comment', 'title', 'description', 'default', 'examples'];
+
+const KNOWN_KEYWORDS = new Set([
+  'type',
+  'enum',
+  'const',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'uniqueItems',
+  'pattern',
+  'format',
+  'multipleOf',
+  ...NON_NEGATIVE_INTEGER_KEYWORDS,
+  ...NUMBER_KEYWORDS,
+  ...ANNOTATION_KEYWORDS,
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): JsonType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+};
+
+// Objects compare by content regardless of key order
+const jsonEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => key in b && jsonEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Problems with a schema definition itself; empty when it can be used
+export const checkSchema = (schema: unknown, path = ''): SchemaIssue[] => {
+  if (!isPlainObject(schema)) {
+    return [{ path, message: 'must be a schema object' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  const issue = (keyword: string, message: string) =>
+    issues.push({ path: childPath(path, keyword), message });
+
+  for (const keyword of Object.keys(schema)) {
+    if (!KNOWN_KEYWORDS.has(keyword)) issue(keyword, 'is not a supported keyword');
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || types.some(type => !JSON_TYPES.includes(type as string))) {
+      issue('type', `must be one of ${JSON_TYPES.join(', ')} or an array of them`);
+    }
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    issue('enum', 'must be a non-empty array');
+  }
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      issue('properties', 'must be an object of schemas');
+    } else {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        issues.push(...checkSchema(property, childPath(childPath(path, 'properties'), name)));
+      }
+    }
+  }
+  if (
+    schema.required !== undefined &&
+    (!Array.isArray(schema.required) || schema.required.some(name => typeof name !== 'string'))
+  ) {
+    issue('required', 'must be an array of property names');
+  }
+  if (
+    schema.additionalProperties !== undefined &&
+    typeof schema.additionalProperties !== 'boolean'
+  ) {
+    issues.push(
+      ...checkSchema(schema.additionalProperties, childPath(path, 'additionalProperties'))
+    );
+  }
+  if (schema.items !== undefined) {
+    issues.push(...checkSchema(schema.items, childPath(path, 'items')));
+  }
+  if (schema.uniqueItems !== undefined && typeof schema.uniqueItems !== 'boolean') {
+    issue('uniqueItems', 'must be a boolean');
+  }
+  for (const keyword of NON_NEGATIVE_INTEGER_KEYWORDS) {
+    const value = schema[keyword];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+      issue(keyword, 'must be a non-negative integer');
+    }
+  }
+  for (const keyword of NUMBER_KEYWORDS) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      issue(keyword, 'must be a number');
+    }
+  }
+  if (
+    schema.multipleOf !== undefined &&
+    (typeof schema.multipleOf !== 'number' || schema.multipleOf <= 0)
+  ) {
+    issue('multipleOf', 'must be a positive number');
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern as string, 'u');
+    } catch {
+      issue('pattern', 'must be a valid regular expression');
+    }
+  }
+  if (schema.format !== undefined && !((schema.format as string) in FORMATS)) {
+    issue('format', `must be one of ${Object.keys(FORMATS).join(', ')}`);
+  }
+
+  return issues;
+};
+
+// Every way a value fails a schema that passed checkSchema
+export const validateJson = (schema: JsonSchema, value: unknown, path = ''): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const issue = (message: string) => issues.push({ path, message });
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.includes(actual) || (actual === 'integer' && types.includes('number'));
+    if (!matches) {
+      issue(`must be ${types.join(' or ')}`);
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => jsonEqual(option, value))) {
+    issue(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !jsonEqual(schema.const, value)) {
+    issue(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength)
+      issue(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && length > schema.maxLength)
+      issue(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value))
+      issue(`must match ${schema.pattern}`);
+    if (schema.format && !FORMATS[schema.format](value)) issue(`must be a valid ${schema.format}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      issue(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum)
+      issue(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum)
+      issue(`must be > ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum)
+      issue(`must be < ${schema.exclusiveMaximum}`);
+    if (
+      schema.multipleOf !== undefined &&
+      !Number.isInteger(Number((value / schema.multipleOf).toFixed(10)))
+    ) {
+      issue(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems)
+      issue(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems)
+      issue(`must have at most ${schema.maxItems} items`);
+    if (
+      schema.uniqueItems &&
+      value.some((item, i) => value.findIndex(other => jsonEqual(item, other)) !== i)
+    ) {
+      issue('must not contain duplicate items');
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        issues.push(...validateJson(schema.items!, item, childPath(path, i)))
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties)
+      issue(`must have at least ${schema.minProperties} properties`);
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties)
+      issue(`must have at most ${schema.maxProperties} properties`);
+
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined)
+        issues.push({ path: childPath(path, name), message: 'is required' });
+    }
+
+    for (const key of keys) {
+      const property = schema.properties?.[key];
+      if (property) {
+        issues.push(...validateJson(property, value[key], childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'is not allowed' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        issues.push(...validateJson(schema.additionalProperties, value[key], childPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+};
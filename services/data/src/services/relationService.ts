@@ -0,0 +1,411 @@
+import { and, eq, inArray, isNull, or, asc, sql, type SQL } from 'drizzle-orm';
+import {
+  db,
+  entities,
+  entityRelations,
+  relationTypes,
+  type Entity,
+  type EntityRelation,
+  type RelationType,
+} from '../models/database';
+
+// Anything that can read (and add) relations: the database or an open transaction
+type RelationReader = Pick<typeof db, 'select'>;
+type RelationWriter = Pick<typeof db, 'select' | 'insert' | 'delete'>;
+
+export type RelationCardinality = RelationType['cardinality'];
+export type RelationDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface RelatedEntity {
+  relationId: string;
+  relation: string;
+  direction: 'outgoing' | 'incoming';
+  entity: Entity;
+}
+
+export interface EntityGraph {
+  nodes: Entity[];
+  edges: EntityRelation[];
+  truncated: boolean; // The node limit was reached before the requested depth
+}
+
+export interface TraversalOptions {
+  depth: number;
+  relations?: string[]; // All relations when absent
+  direction: RelationDirection;
+  maxNodes: number;
+}
+
+// A request that cannot be carried out as given, e.g. an unknown relation or
+// an entity of the wrong type
+export class InvalidRelationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRelationError';
+  }
+}
+
+// A valid request that existing relations rule out: cardinality, duplicates,
+// restricted deletes and type changes
+export class RelationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RelationConflictError';
+  }
+}
+
+// inArray lists are bound as statement variables, which SQLite limits
+const ID_BATCH_SIZE = 500;
+
+const inBatches = <T>(ids: string[], read: (batch: string[]) => T[]): T[] => {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    rows.push(...read(ids.slice(i, i + ID_BATCH_SIZE)));
+  }
+  return rows;
+};
+
+const relationFilter = (relations?: string[]): SQL | undefined =>
+  relations && relations.length > 0 ? inArray(entityRelations.relation, relations) : undefined;
+
+// Relations with the entity at the given end(s)
+const touching = (entityId: string, direction: RelationDirection): SQL => {
+  if (direction === 'outgoing') return eq(entityRelations.sourceId, entityId);
+  if (direction === 'incoming') return eq(entityRelations.targetId, entityId);
+  return or(eq(entityRelations.sourceId, entityId), eq(entityRelations.targetId, entityId))!;
+};
+
+// The entity at the other end of a relation from entityId; a relation from an
+// entity to itself is read as outgoing
+const otherEnd = (entityId: string): SQL =>
+  sql`CASE WHEN ${entityRelations.sourceId} = ${entityId} THEN ${entityRelations.targetId} ELSE ${entityRelations.sourceId} END`;
+
+export class RelationService {
+  async listRelationTypes(): Promise<RelationType[]> {
+    return db.select().from(relationTypes).orderBy(asc(relationTypes.name));
+  }
+
+  getRelationType(reader: RelationReader, name: string): RelationType | undefined {
+    const [row] = reader.select().from(relationTypes).where(eq(relationTypes.name, name)).all();
+    return row;
+  }
+
+  // Relation types cannot change once registered, as existing relations were
+  // checked against them
+  registerRelationType(
+    input: Pick<RelationType, 'name' | 'sourceType' | 'targetType' | 'cardinality' | 'onDelete'> & {
+      description?: string;
+    },
+    createdBy: string
+  ): RelationType {
+    return db.transaction(tx => {
+      if (this.getRelationType(tx, input.name)) {
+        throw new RelationConflictError(`Relation type ${input.name} already exists`);
+      }
+
+      const [created] = tx
+        .insert(relationTypes)
+        .values({ ...input, createdBy })
+        .returning()
+        .all();
+      return created;
+    });
+  }
+
+  // Link a live source entity to a live target, within the caller's transaction
+  createRelation(
+    tx: RelationWriter,
+    source: Entity,
+    relation: string,
+    targetId: string,
+    createdBy: string
+  ): EntityRelation {
+    const relationType = this.getRelationType(tx, relation);
+    if (!relationType) {
+      throw new InvalidRelationError(`Relation type ${relation} is not registered`);
+    }
+    if (source.type !== relationType.sourceType) {
+      throw new InvalidRelationError(
+        `${relation} links ${relationType.sourceType} entities, not ${source.type}`
+      );
+    }
+
+    const [target] = tx
+      .select()
+      .from(entities)
+      .where(and(eq(entities.id, targetId), isNull(entities.deletedAt)))
+      .all();
+    if (!target) {
+      throw new InvalidRelationError(`Target entity ${targetId} not found`);
+    }
+    if (target.type !== relationType.targetType) {
+      throw new InvalidRelationError(
+        `${relation} links to ${relationType.targetType} entities, not ${target.type}`
+      );
+    }
+
+    const existing = tx
+      .select()
+      .from(entityRelations)
+      .where(
+        and(
+          eq(entityRelations.relation, relation),
+          or(eq(entityRelations.sourceId, source.id), eq(entityRelations.targetId, targetId))
+        )
+      )
+      .all();
+
+    if (existing.some(row => row.sourceId === source.id && row.targetId === targetId)) {
+      throw new RelationConflictError(
+        `Entity ${source.id} is already linked to ${targetId} by ${relation}`
+      );
+    }
+    const { cardinality } = relationType;
+    if (
+      (cardinality === 'many-to-one' || cardinality === 'one-to-one') &&
+      existing.some(row => row.sourceId === source.id)
+    ) {
+      throw new RelationConflictError(
+        `Entity ${source.id} already has a ${relation} relation (${cardinality})`
+      );
+    }
+    if (
+      (cardinality === 'one-to-many' || cardinality === 'one-to-one') &&
+      existing.some(row => row.targetId === targetId)
+    ) {
+      throw new RelationConflictError(
+        `Entity ${targetId} is already the target of a ${relation} relation (${cardinality})`
+      );
+    }
+
+    const [created] = tx
+      .insert(entityRelations)
+      .values({
+        relation,
+        sourceId: source.id,
+        targetId,
+        createdBy,
+      })
+      .returning()
+      .all();
+
+    return created;
+  }
+
+  // Remove one of an entity's relations, in either direction
+  deleteRelation(
+    tx: RelationWriter,
+    entityId: string,
+    relationId: string
+  ): EntityRelation | undefined {
+    const [deleted] = tx
+      .delete(entityRelations)
+      .where(and(eq(entityRelations.id, relationId), touching(entityId, 'both')))
+      .returning()
+      .all();
+
+    return deleted;
+  }
+
+  // Live entities linked to an entity, oldest relation first
+  async listRelated(
+    entityId: string,
+    options: { relation?: string; direction: RelationDirection; page: number; limit: number }
+  ): Promise<{ related: RelatedEntity[]; total: number }> {
+    const where = and(
+      touching(entityId, options.direction),
+      options.relation ? eq(entityRelations.relation, options.relation) : undefined,
+      isNull(entities.deletedAt)
+    );
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(entityRelations)
+      .innerJoin(entities, eq(entities.id, otherEnd(entityId)))
+      .where(where);
+    const rows = await db
+      .select()
+      .from(entityRelations)
+      .innerJoin(entities, eq(entities.id, otherEnd(entityId)))
+      .where(where)
+      .orderBy(asc(entityRelations.createdAt), asc(entityRelations.id))
+      .limit(options.limit)
+      .offset((options.page - 1) * options.limit);
+
+    return {
+      related: rows.map(({ entity_relations: relation, entities: entity }) => ({
+        relationId: relation.id,
+        relation: relation.relation,
+        direction: relation.sourceId === entityId ? 'outgoing' : 'incoming',
+        entity,
+      })),
+      total,
+    };
+  }
+
+  // Live entities linked by each of the given relations, in either direction,
+  // for embedding in an entity read
+  async getIncluded(
+    entityId: string,
+    relations: string[],
+    limit: number
+  ): Promise<Record<string, Entity[]>> {
+    const included: Record<string, Entity[]> = {};
+    for (const relation of relations) {
+      const { related } = await this.listRelated(entityId, {
+        relation,
+        direction: 'both',
+        page: 1,
+        limit,
+      });
+      included[relation] = related.map(({ entity }) => entity);
+    }
+    return included;
+  }
+
+  // Breadth-first walk from an entity, one query per hop, through live
+  // entities only. Stops at the depth or once maxNodes entities are found.
+  async traverse(entityId: string, options: TraversalOptions): Promise<EntityGraph | null> {
+    const [start] = await db
+      .select()
+      .from(entities)
+      .where(and(eq(entities.id, entityId), isNull(entities.deletedAt)));
+    if (!start) {
+      return null;
+    }
+
+    const nodes = new Map<string, Entity>([[start.id, start]]);
+    const edges = new Map<string, EntityRelation>();
+    let frontier = [start.id];
+    let truncated = false;
+
+    for (let hop = 0; hop < options.depth && frontier.length > 0 && !truncated; hop++) {
+      const relations = inBatches(frontier, batch =>
+        db
+          .select()
+          .from(entityRelations)
+          .where(
+            and(
+              options.direction === 'outgoing'
+                ? inArray(entityRelations.sourceId, batch)
+                : options.direction === 'incoming'
+                  ? inArray(entityRelations.targetId, batch)
+                  : or(
+                      inArray(entityRelations.sourceId, batch),
+                      inArray(entityRelations.targetId, batch)
+                    ),
+              relationFilter(options.relations)
+            )
+          )
+          .all()
+      );
+
+      const reached = new Set<string>();
+      for (const relation of relations) {
+        for (const id of [relation.sourceId, relation.targetId]) {
+          if (!nodes.has(id)) reached.add(id);
+        }
+      }
+
+      const found = inBatches([...reached], batch =>
+        db
+          .select()
+          .from(entities)
+          .where(and(inArray(entities.id, batch), isNull(entities.deletedAt)))
+          .orderBy(asc(entities.id))
+          .all()
+      );
+
+      frontier = [];
+      for (const entity of found) {
+        if (nodes.size >= options.maxNodes) {
+          truncated = true;
+          break;
+        }
+        nodes.set(entity.id, entity);
+        frontier.push(entity.id);
+      }
+
+      // Only edges between entities in the graph
+      for (const relation of relations) {
+        if (nodes.has(relation.sourceId) && nodes.has(relation.targetId)) {
+          edges.set(relation.id, relation);
+        }
+      }
+    }
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()], truncated };
+  }
+
+  // The live entities that deleting an entity also deletes, following cascade
+  // relations transitively. Throws if a restrict relation links a live entity
+  // to any of them, unless that entity is being deleted as well.
+  collectCascade(reader: RelationReader, entityId: string): Entity[] {
+    const deleting = new Set([entityId]);
+    const cascaded: Entity[] = [];
+    const restricted: { relation: string; sourceId: string; targetId: string }[] = [];
+    let frontier = [entityId];
+
+    while (frontier.length > 0) {
+      const links = inBatches(frontier, batch =>
+        reader
+          .select({
+            relation: entityRelations.relation,
+            targetId: entityRelations.targetId,
+            onDelete: relationTypes.onDelete,
+            source: entities,
+          })
+          .from(entityRelations)
+          .innerJoin(relationTypes, eq(relationTypes.name, entityRelations.relation))
+          .innerJoin(entities, eq(entities.id, entityRelations.sourceId))
+          .where(and(inArray(entityRelations.targetId, batch), isNull(entities.deletedAt)))
+          .all()
+      );
+
+      frontier = [];
+      for (const { relation, targetId, onDelete, source } of links) {
+        if (onDelete === 'restrict') {
+          restricted.push({ relation, sourceId: source.id, targetId });
+        } else if (!deleting.has(source.id)) {
+          deleting.add(source.id);
+          cascaded.push(source);
+          frontier.push(source.id);
+        }
+      }
+    }
+
+    const blocking = restricted.filter(({ sourceId }) => !deleting.has(sourceId));
+    if (blocking.length > 0) {
+      const { relation, sourceId, targetId } = blocking[0];
+      throw new RelationConflictError(
+        `Entity ${targetId} is linked from ${sourceId} by ${relation}` +
+          (blocking.length > 1 ? ` and ${blocking.length - 1} other relation(s)` : '') +
+          '; remove the relations or delete the linking entities first'
+      );
+    }
+
+    return cascaded;
+  }
+
+  // An entity can only change type if its relations still fit the new type
+  checkTypeChange(reader: RelationReader, entityId: string, type: string): void {
+    const [mismatch] = reader
+      .select({ relation: entityRelations.relation })
+      .from(entityRelations)
+      .innerJoin(relationTypes, eq(relationTypes.name, entityRelations.relation))
+      .where(
+        or(
+          and(eq(entityRelations.sourceId, entityId), sql`${relationTypes.sourceType} <> ${type}`),
+          and(eq(entityRelations.targetId, entityId), sql`${relationTypes.targetType} <> ${type}`)
+        )
+      )
+      .limit(1)
+      .all();
+
+    if (mismatch) {
+      throw new RelationConflictError(
+        `Entity ${entityId} has ${mismatch.relation} relations that do not allow type ${type}`
+      );
+    }
+  }
+}
@@ -14,6 +14,15 @@ interface ServiceConfig {
     password?: string;
     db: number;
   };
+  events: {
+    enabled: boolean;
+    mode: 'pubsub' | 'streams';
+    redisDb: number;
+  };
+  audit: {
+    enabled: boolean;
+    redisDb: number;
+  };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     pretty: boolean;
@@ -23,17 +32,22 @@ interface ServiceConfig {
     credentials: boolean;
   };
   rateLimiting: {
-    windowMs: number;    // Time window in milliseconds
+    windowMs: number; // Time window in milliseconds
     maxRequests: number; // Max requests per window
   };
+  auth: {
+    serviceUrl: string;
+    jwksUrl: string;
+    allowAnonymous: boolean;
+  };
   webhooks: {
     secretHeader: string;
     validateSignatures: boolean;
   };
   externalApis: {
-    timeout: number;     // Request timeout in milliseconds
+    timeout: number; // Request timeout in milliseconds
     retryAttempts: number;
-    retryDelay: number;  // Base delay between retries in milliseconds
+    retryDelay: number; // Base delay between retries in milliseconds
   };
 }
 
@@ -52,6 +66,15 @@ const config: ServiceConfig = {
     password: process.env.REDIS_PASSWORD,
     db: parseInt(process.env.REDIS_DB || '1', 10), // Use different DB than auth
   },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    mode: (process.env.EVENTS_MODE as any) || 'streams', // Durable delivery via consumer groups
+    redisDb: parseInt(process.env.EVENTS_REDIS_DB || '0', 10), // Shared by all services
+  },
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    redisDb: parseInt(process.env.AUDIT_REDIS_DB || process.env.EVENTS_REDIS_DB || '0', 10), // One log for all services
+  },
   logging: {
     level: (process.env.LOG_LEVEL as any) || 'info',
     pretty: process.env.NODE_ENV !== 'production',
@@ -62,17 +85,25 @@ const config: ServiceConfig = {
   },
   rateLimiting: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '900000', 10), // 15 minutes
-    maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),    // 100 requests per window
+    maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '100', 10), // 100 requests per window
+  },
+  auth: {
+    serviceUrl: process.env.AUTH_SERVICE_URL || 'http://localhost:3001', // Validates API keys and sessions
+    jwksUrl:
+      process.env.JWKS_URL ||
+      `${process.env.AUTH_SERVICE_URL || 'http://localhost:3001'}/.well-known/jwks.json`,
+    // Let calls without a JWT or API key through, with no permissions; local development only
+    allowAnonymous: process.env.ALLOW_ANONYMOUS === 'true',
   },
   webhooks: {
     secretHeader: process.env.WEBHOOK_SECRET_HEADER || 'x-webhook-signature',
     validateSignatures: process.env.WEBHOOK_VALIDATE_SIGNATURES !== 'false',
   },
   externalApis: {
-    timeout: parseInt(process.env.API_TIMEOUT || '30000', 10),      // 30 seconds
+    timeout: parseInt(process.env.API_TIMEOUT || '30000', 10), // 30 seconds
     retryAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3', 10),
     retryDelay: parseInt(process.env.API_RETRY_DELAY || '1000', 10), // 1 second
   },
 };
 
-export default config;
\ No newline at end of file
+export default config;
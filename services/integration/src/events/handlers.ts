@@ -0,0 +1,28 @@
+import type { Logger } from 'pino';
+import type { Event } from 'shared-utils';
+import { WebhookService } from '../services/webhook';
+import { eventBus } from './index';
+
+const webhookService = new WebhookService();
+
+// Integration events are not forwarded to avoid webhook deliveries feeding back into the bus
+const isForwardableEvent = (event: Event): boolean => !event.type.startsWith('integration.');
+
+// Forward platform events to every active outbound webhook subscribed to the event type
+const forwardToWebhooks = async (event: Event): Promise<void> => {
+  if (!isForwardableEvent(event)) return;
+
+  await webhookService.broadcastEvent({
+    type: event.type,
+    data: event.data,
+    timestamp: event.timestamp,
+    correlationId: event.correlationId,
+  });
+};
+
+export const registerEventHandlers = async (logger: Logger): Promise<void> => {
+  if (!eventBus.isConnected()) return;
+
+  await eventBus.subscribeToAll(forwardToWebhooks);
+  logger.info('Registered webhook forwarding handler');
+};
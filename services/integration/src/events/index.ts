@@ -0,0 +1,18 @@
+import { createServiceEventBus, EventTypes } from 'shared-utils';
+import config from '../config';
+
+// Domain event bus shared by all services (see shared-utils/serviceEventBus)
+export const { eventBus, publishEvent, connectEventBus, disconnectEventBus } =
+  createServiceEventBus(config.name, {
+    redis: {
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password,
+      db: config.events.redisDb,
+    },
+    enabled: config.events.enabled,
+    mode: config.events.mode,
+    version: config.version,
+  });
+
+export { EventTypes };
@@ -1,10 +1,15 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import pino from 'pino';
+import { authenticate, auditTrail } from 'shared-middleware';
 import config from './config';
 import healthRoutes from './routes/health';
 import metricsRoutes from './routes/metrics';
 import integrationRoutes from './routes/integration';
 import webhookRoutes from './routes/webhook';
+import { connectEventBus, disconnectEventBus } from './events';
+import { auditLog, connectAuditLog, disconnectAuditLog } from './audit';
+import { registerEventHandlers } from './events/handlers';
 
 // Initialize logger
 const logger = pino({
@@ -26,18 +31,18 @@ const logger = pino({
 const app = new Hono();
 
 // Basic middleware
-app.use('*', async (c, next) => {
+app.use('*', async (c: Context, next) => {
   const start = Date.now();
   const method = c.req.method;
   const url = c.req.url;
-  
+
   // Store logger reference for access in routes
-  (c as any).logger = logger;
+  c.set('logger', logger);
 
   logger.info({ method, url }, 'Request started');
-  
+
   await next();
-  
+
   const duration = Date.now() - start;
   const status = c.res.status;
   logger.info({ method, url, status, duration }, 'Request completed');
@@ -49,11 +54,14 @@ app.use('*', async (c, next) => {
     await next();
   } catch (error) {
     logger.error(error, 'Request error');
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
@@ -63,18 +71,21 @@ app.use('*', async (c, next) => {
   if (origin && config.cors.origin.includes(origin)) {
     c.res.headers.set('Access-Control-Allow-Origin', origin);
   }
-  
+
   if (config.cors.credentials) {
     c.res.headers.set('Access-Control-Allow-Credentials', 'true');
   }
-  
+
   c.res.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-  c.res.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  
+  c.res.headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-Requested-With'
+  );
+
   if (c.req.method === 'OPTIONS') {
     return c.text('', 204);
   }
-  
+
   await next();
 });
 
@@ -88,6 +99,21 @@ app.use('*', async (c, next) => {
   await next();
 });
 
+// Record mutating requests in the audit log
+app.use('*', auditTrail(auditLog));
+
+// Users authenticate with a JWT, other services with an API key. Incoming
+// webhooks are authenticated by their secret instead.
+const authenticateCaller = authenticate({
+  jwks: { jwksUrl: config.auth.jwksUrl, sessions: { authServiceUrl: config.auth.serviceUrl } },
+  apiKeys: { authServiceUrl: config.auth.serviceUrl },
+  allowAnonymous: config.auth.allowAnonymous,
+});
+app.use('/integrations/*', authenticateCaller);
+app.use('/webhooks/configs/*', authenticateCaller);
+app.use('/webhooks/broadcast', authenticateCaller);
+app.use('/webhooks/deliveries/*', authenticateCaller);
+
 // Routes
 app.route('/health', healthRoutes);
 app.route('/metrics', metricsRoutes);
@@ -95,7 +121,7 @@ app.route('/integrations', integrationRoutes);
 app.route('/webhooks', webhookRoutes);
 
 // Root endpoint
-app.get('/', (c) => {
+app.get('/', c => {
   return c.json({
     service: config.name,
     version: config.version,
@@ -119,23 +145,35 @@ const server = Bun.serve({
   fetch: app.fetch,
 });
 
-logger.info({
-  port: config.port,
-  host: config.host,
-  pid: process.pid,
-}, `🚀 ${config.name} v${config.version} is running!`);
+logger.info(
+  {
+    port: config.port,
+    host: config.host,
+    pid: process.pid,
+  },
+  `🚀 ${config.name} v${config.version} is running!`
+);
+
+// Connect to the domain event bus
+await connectEventBus(logger);
+await connectAuditLog(logger);
+await registerEventHandlers(logger);
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
   server.stop();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
   server.stop();
+  await disconnectEventBus();
+  await disconnectAuditLog();
   process.exit(0);
 });
 
-export default app;
\ No newline at end of file
+export default app;
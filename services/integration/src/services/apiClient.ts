@@ -2,6 +2,7 @@ import { eq, desc } from 'drizzle-orm';
 import { db, externalApiConfigs, integrationRequests, apiHealthChecks } from '../models';
 import { CreateApiConfigDto, UpdateApiConfigDto, ApiRequestDto } from '../models/validation';
 import config from '../config';
+import { publishEvent, EventTypes } from '../events';
 import crypto from 'crypto';
 
 interface RequestOptions {
@@ -30,11 +31,11 @@ export class ApiClientService {
   ): Promise<ApiResponse> {
     const startTime = Date.now();
     const correlationId = options.correlationId || crypto.randomUUID();
-    
+
     try {
       const url = new URL(request.endpoint, apiConfig.baseUrl).toString();
       const timeout = request.timeout || apiConfig.timeout || config.externalApis.timeout;
-      
+
       // Prepare headers
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
@@ -47,10 +48,20 @@ export class ApiClientService {
       // Add authentication headers
       if (apiConfig.authType === 'bearer' && apiConfig.authConfig?.token) {
         headers['Authorization'] = `Bearer ${apiConfig.authConfig.token}`;
-      } else if (apiConfig.authType === 'basic' && apiConfig.authConfig?.username && apiConfig.authConfig?.password) {
-        const credentials = Buffer.from(`${apiConfig.authConfig.username}:${apiConfig.authConfig.password}`).toString('base64');
+      } else if (
+        apiConfig.authType === 'basic' &&
+        apiConfig.authConfig?.username &&
+        apiConfig.authConfig?.password
+      ) {
+        const credentials = Buffer.from(
+          `${apiConfig.authConfig.username}:${apiConfig.authConfig.password}`
+        ).toString('base64');
         headers['Authorization'] = `Basic ${credentials}`;
-      } else if (apiConfig.authType === 'api_key' && apiConfig.authConfig?.key && apiConfig.authConfig?.keyHeader) {
+      } else if (
+        apiConfig.authType === 'api_key' &&
+        apiConfig.authConfig?.key &&
+        apiConfig.authConfig?.keyHeader
+      ) {
         headers[apiConfig.authConfig.keyHeader] = apiConfig.authConfig.key;
       }
 
@@ -61,9 +72,8 @@ export class ApiClientService {
       };
 
       if (request.body && ['POST', 'PUT', 'PATCH'].includes(request.method)) {
-        requestOptions.body = typeof request.body === 'string' 
-          ? request.body 
-          : JSON.stringify(request.body);
+        requestOptions.body =
+          typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
       }
 
       const response = await fetch(url, requestOptions);
@@ -74,7 +84,7 @@ export class ApiClientService {
 
       let responseBody: any;
       const contentType = response.headers.get('content-type') || '';
-      
+
       if (contentType.includes('application/json')) {
         responseBody = await response.json();
       } else {
@@ -92,7 +102,8 @@ export class ApiClientService {
         requestBody: request.body ? JSON.stringify(request.body) : null,
         responseStatus: response.status,
         responseHeaders,
-        responseBody: typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody),
+        responseBody:
+          typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody),
         duration,
         correlationId,
       });
@@ -103,7 +114,6 @@ export class ApiClientService {
         body: responseBody,
         duration,
       };
-
     } catch (error) {
       const duration = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -129,8 +139,12 @@ export class ApiClientService {
     request: ApiRequestDto,
     options: RequestOptions = {}
   ): Promise<ApiResponse> {
-    const apiConfig = await db.select().from(externalApiConfigs).where(eq(externalApiConfigs.id, apiConfigId)).then(rows => rows[0]);
-    
+    const apiConfig = await db
+      .select()
+      .from(externalApiConfigs)
+      .where(eq(externalApiConfigs.id, apiConfigId))
+      .then(rows => rows[0]);
+
     if (!apiConfig) {
       throw new Error(`API configuration not found: ${apiConfigId}`);
     }
@@ -139,37 +153,69 @@ export class ApiClientService {
       throw new Error(`API configuration is inactive: ${apiConfigId}`);
     }
 
-    const maxRetries = options.retryAttempts ?? apiConfig.retryAttempts ?? config.externalApis.retryAttempts;
+    const maxRetries =
+      options.retryAttempts ?? apiConfig.retryAttempts ?? config.externalApis.retryAttempts;
     const retryDelay = options.retryDelay ?? apiConfig.retryDelay ?? config.externalApis.retryDelay;
 
     let lastError: Error | null = null;
-    
+
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        return await this.makeRequest(apiConfig, request, options);
+        const response = await this.makeRequest(apiConfig, request, options);
+
+        await publishEvent(
+          EventTypes.API_CALL_SUCCESS,
+          {
+            apiConfigId,
+            method: request.method,
+            endpoint: request.endpoint,
+            status: response.status,
+            duration: response.duration,
+            attempts: attempt + 1,
+          },
+          request.correlationId || options.correlationId
+        );
+
+        return response;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
-        
+
         if (attempt < maxRetries) {
           await this.delay(retryDelay * Math.pow(2, attempt)); // Exponential backoff
         }
       }
     }
 
+    await publishEvent(
+      EventTypes.API_CALL_FAILED,
+      {
+        apiConfigId,
+        method: request.method,
+        endpoint: request.endpoint,
+        error: lastError?.message,
+        attempts: maxRetries + 1,
+      },
+      request.correlationId || options.correlationId
+    );
+
     throw lastError;
   }
 
   async createApiConfig(data: CreateApiConfigDto) {
-    const [apiConfig] = await db.insert(externalApiConfigs).values({
-      ...data,
-      updatedAt: new Date().toISOString(),
-    }).returning();
+    const [apiConfig] = await db
+      .insert(externalApiConfigs)
+      .values({
+        ...data,
+        updatedAt: new Date().toISOString(),
+      })
+      .returning();
 
     return apiConfig;
   }
 
   async updateApiConfig(id: string, data: UpdateApiConfigDto) {
-    const [apiConfig] = await db.update(externalApiConfigs)
+    const [apiConfig] = await db
+      .update(externalApiConfigs)
       .set({
         ...data,
         updatedAt: new Date().toISOString(),
@@ -181,7 +227,11 @@ export class ApiClientService {
   }
 
   async getApiConfig(id: string) {
-    return db.select().from(externalApiConfigs).where(eq(externalApiConfigs.id, id)).then(rows => rows[0]);
+    return db
+      .select()
+      .from(externalApiConfigs)
+      .where(eq(externalApiConfigs.id, id))
+      .then(rows => rows[0]);
   }
 
   async listApiConfigs() {
@@ -192,7 +242,9 @@ export class ApiClientService {
     await db.delete(externalApiConfigs).where(eq(externalApiConfigs.id, id));
   }
 
-  async checkApiHealth(apiConfigId: string): Promise<{ status: 'up' | 'down' | 'degraded'; responseTime?: number; error?: string }> {
+  async checkApiHealth(
+    apiConfigId: string
+  ): Promise<{ status: 'up' | 'down' | 'degraded'; responseTime?: number; error?: string }> {
     try {
       const apiConfig = await this.getApiConfig(apiConfigId);
       if (!apiConfig || !apiConfig.healthCheckUrl) {
@@ -220,10 +272,9 @@ export class ApiClientService {
       });
 
       return { status, responseTime };
-
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
+
       // Log failed health check
       await db.insert(apiHealthChecks).values({
         apiConfigId,
@@ -236,10 +287,11 @@ export class ApiClientService {
   }
 
   async getRequestHistory(apiConfigId: string, limit = 50) {
-    return db.select()
+    return db
+      .select()
       .from(integrationRequests)
       .where(eq(integrationRequests.apiConfigId, apiConfigId))
       .orderBy(desc(integrationRequests.createdAt))
       .limit(limit);
   }
-}
\ No newline at end of file
+}
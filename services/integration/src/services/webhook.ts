@@ -1,7 +1,12 @@
 import { eq, desc } from 'drizzle-orm';
 import { db, webhookConfigs, webhookDeliveries } from '../models';
-import { CreateWebhookConfigDto, UpdateWebhookConfigDto, WebhookEventDto } from '../models/validation';
+import {
+  CreateWebhookConfigDto,
+  UpdateWebhookConfigDto,
+  WebhookEventDto,
+} from '../models/validation';
 import config from '../config';
+import { publishEvent, EventTypes } from '../events';
 import crypto from 'crypto';
 
 export class WebhookService {
@@ -15,23 +20,24 @@ export class WebhookService {
 
   private verifySignature(payload: string, signature: string, secret: string): boolean {
     const expectedSignature = this.generateSignature(payload, secret);
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
+    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature));
   }
 
   async createWebhookConfig(data: CreateWebhookConfigDto) {
-    const [webhookConfig] = await db.insert(webhookConfigs).values({
-      ...data,
-      updatedAt: new Date().toISOString(),
-    }).returning();
+    const [webhookConfig] = await db
+      .insert(webhookConfigs)
+      .values({
+        ...data,
+        updatedAt: new Date().toISOString(),
+      })
+      .returning();
 
     return webhookConfig;
   }
 
   async updateWebhookConfig(id: string, data: UpdateWebhookConfigDto) {
-    const [webhookConfig] = await db.update(webhookConfigs)
+    const [webhookConfig] = await db
+      .update(webhookConfigs)
       .set({
         ...data,
         updatedAt: new Date().toISOString(),
@@ -43,7 +49,11 @@ export class WebhookService {
   }
 
   async getWebhookConfig(id: string) {
-    return db.select().from(webhookConfigs).where(eq(webhookConfigs.id, id)).then(rows => rows[0]);
+    return db
+      .select()
+      .from(webhookConfigs)
+      .where(eq(webhookConfigs.id, id))
+      .then(rows => rows[0]);
   }
 
   async listWebhookConfigs() {
@@ -58,9 +68,15 @@ export class WebhookService {
     webhookConfig: any,
     event: WebhookEventDto,
     attempt: number = 0
-  ): Promise<{ success: boolean; responseStatus?: number; responseBody?: string; error?: string; duration: number }> {
+  ): Promise<{
+    success: boolean;
+    responseStatus?: number;
+    responseBody?: string;
+    error?: string;
+    duration: number;
+  }> {
     const startTime = Date.now();
-    
+
     try {
       const payload = JSON.stringify({
         ...event,
@@ -97,7 +113,6 @@ export class WebhookService {
         responseBody,
         duration,
       };
-
     } catch (error) {
       const duration = Date.now() - startTime;
       return {
@@ -110,7 +125,7 @@ export class WebhookService {
 
   async sendWebhook(webhookConfigId: string, event: WebhookEventDto): Promise<void> {
     const webhookConfig = await this.getWebhookConfig(webhookConfigId);
-    
+
     if (!webhookConfig) {
       throw new Error(`Webhook configuration not found: ${webhookConfigId}`);
     }
@@ -147,6 +162,17 @@ export class WebhookService {
       await db.insert(webhookDeliveries).values(deliveryRecord);
 
       if (result.success) {
+        await publishEvent(
+          EventTypes.WEBHOOK_SENT,
+          {
+            webhookConfigId,
+            eventType: event.type,
+            responseStatus: result.responseStatus,
+            duration: result.duration,
+            attempts: attempt + 1,
+          },
+          event.correlationId
+        );
         break; // Success, no need to retry
       }
 
@@ -157,20 +183,25 @@ export class WebhookService {
     }
 
     if (!lastResult.success) {
-      throw new Error(`Webhook delivery failed after ${maxRetries + 1} attempts: ${lastResult.error}`);
+      throw new Error(
+        `Webhook delivery failed after ${maxRetries + 1} attempts: ${lastResult.error}`
+      );
     }
   }
 
   async broadcastEvent(event: WebhookEventDto): Promise<void> {
-    const activeWebhooks = await db.select()
+    const activeWebhooks = await db
+      .select()
       .from(webhookConfigs)
       .where(eq(webhookConfigs.isActive, true));
 
     const deliveryPromises = activeWebhooks
       .filter(webhook => webhook.events.includes(event.type))
-      .map(webhook => this.sendWebhook(webhook.id, event).catch(error => {
-        console.error(`Failed to deliver webhook ${webhook.id}:`, error);
-      }));
+      .map(webhook =>
+        this.sendWebhook(webhook.id, event).catch(error => {
+          console.error(`Failed to deliver webhook ${webhook.id}:`, error);
+        })
+      );
 
     await Promise.allSettled(deliveryPromises);
   }
@@ -190,7 +221,7 @@ export class WebhookService {
 
         const payload = typeof body === 'string' ? body : JSON.stringify(body);
         const signatureWithoutPrefix = signature.replace('sha256=', '');
-        
+
         if (!this.verifySignature(payload, signatureWithoutPrefix, expectedSecret)) {
           return { valid: false, error: 'Invalid webhook signature' };
         }
@@ -200,17 +231,17 @@ export class WebhookService {
       const event = typeof body === 'string' ? JSON.parse(body) : body;
 
       return { valid: true, event };
-
     } catch (error) {
       return {
         valid: false,
-        error: error instanceof Error ? error.message : 'Invalid webhook payload'
+        error: error instanceof Error ? error.message : 'Invalid webhook payload',
       };
     }
   }
 
   async getDeliveryHistory(webhookConfigId: string, limit = 50) {
-    return db.select()
+    return db
+      .select()
       .from(webhookDeliveries)
       .where(eq(webhookDeliveries.webhookConfigId, webhookConfigId))
       .orderBy(desc(webhookDeliveries.createdAt))
@@ -218,7 +249,8 @@ export class WebhookService {
   }
 
   async redeliverWebhook(deliveryId: string): Promise<void> {
-    const delivery = await db.select()
+    const delivery = await db
+      .select()
       .from(webhookDeliveries)
       .where(eq(webhookDeliveries.id, deliveryId))
       .then(rows => rows[0]);
@@ -235,4 +267,4 @@ export class WebhookService {
 
     await this.sendWebhook(delivery.webhookConfigId, event);
   }
-}
\ No newline at end of file
+}
@@ -10,6 +10,15 @@ interface ServiceConfig {
     password?: string;
     db: number;
   };
+  events: {
+    enabled: boolean;
+    mode: 'pubsub' | 'streams';
+    redisDb: number;
+  };
+  audit: {
+    enabled: boolean;
+    redisDb: number;
+  };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     pretty: boolean;
@@ -36,6 +45,11 @@ interface ServiceConfig {
     defaultLanguage: string;
     supportedLanguages: string[];
   };
+  auth: {
+    serviceUrl: string;
+    jwksUrl: string;
+    allowAnonymous: boolean;
+  };
   rateLimit: {
     emailPerMinute: number;
     smsPerMinute: number;
@@ -54,6 +68,15 @@ const config: ServiceConfig = {
     password: process.env.REDIS_PASSWORD,
     db: parseInt(process.env.REDIS_DB || '2', 10), // Use different DB
   },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    mode: (process.env.EVENTS_MODE as any) || 'streams', // Durable delivery via consumer groups
+    redisDb: parseInt(process.env.EVENTS_REDIS_DB || '0', 10), // Shared by all services
+  },
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    redisDb: parseInt(process.env.AUDIT_REDIS_DB || process.env.EVENTS_REDIS_DB || '0', 10), // One log for all services
+  },
   logging: {
     level: (process.env.LOG_LEVEL as any) || 'info',
     pretty: process.env.NODE_ENV !== 'production',
@@ -118,6 +141,14 @@ const config: ServiceConfig = {
     defaultLanguage: process.env.DEFAULT_LANGUAGE || 'en',
     supportedLanguages: process.env.SUPPORTED_LANGUAGES?.split(',') || ['en'],
   },
+  auth: {
+    serviceUrl: process.env.AUTH_SERVICE_URL || 'http://localhost:3001', // Validates API keys and sessions
+    jwksUrl:
+      process.env.JWKS_URL ||
+      `${process.env.AUTH_SERVICE_URL || 'http://localhost:3001'}/.well-known/jwks.json`,
+    // Let calls without a JWT or API key through, with no permissions; local development only
+    allowAnonymous: process.env.ALLOW_ANONYMOUS === 'true',
+  },
   rateLimit: {
     emailPerMinute: parseInt(process.env.EMAIL_RATE_LIMIT || '60', 10),
     smsPerMinute: parseInt(process.env.SMS_RATE_LIMIT || '10', 10),
@@ -125,4 +156,4 @@ const config: ServiceConfig = {
   },
 };
 
-export default config;
\ No newline at end of file
+export default config;
@@ -0,0 +1,33 @@
+import type { Logger } from 'pino';
+import type { TypedEvent } from 'shared-utils';
+import { NotificationStorage } from '../models';
+import { NotificationService } from '../services/notificationService';
+import { eventBus, EventTypes } from './index';
+
+const storage = new NotificationStorage();
+const notificationService = new NotificationService(storage);
+
+// Send a welcome email to newly registered users unless they opted out of email
+const sendWelcomeEmail = async (
+  event: TypedEvent<typeof EventTypes.USER_REGISTERED>
+): Promise<void> => {
+  const { userId, email, name } = event.data;
+  if (!email) return;
+
+  const preferences = await storage.getUserPreferences(userId);
+  if (preferences && !preferences.email.enabled) return;
+
+  await notificationService.sendEmail({
+    to: email,
+    subject: 'Welcome to the platform',
+    content: `Hi ${name || 'there'}, your account has been created successfully.`,
+    priority: 'normal',
+  });
+};
+
+export const registerEventHandlers = async (logger: Logger): Promise<void> => {
+  if (!eventBus.isConnected()) return;
+
+  await eventBus.subscribe(EventTypes.USER_REGISTERED, sendWelcomeEmail);
+  logger.info('Registered user lifecycle notification handlers');
+};
@@ -69,7 +69,7 @@ export class NotificationStorage {
       database: config.redis.db,
     });
 
-    this.redisClient.on('error', (err) => {
+    this.redisClient.on('error', err => {
       console.error('Redis client error:', err);
     });
   }
@@ -90,7 +90,14 @@ export class NotificationStorage {
   async saveTemplate(template: NotificationTemplate): Promise<void> {
     this.templates.set(template.id, template);
     await this.connect();
-    await this.redisClient.hSet(`template:${template.id}`, template as any);
+
+    // Hash fields are strings: lists and objects are stored as JSON, unset fields are left out
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(template)) {
+      if (value === undefined) continue;
+      fields[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    await this.redisClient.hSet(`template:${template.id}`, fields);
   }
 
   async getTemplate(id: string): Promise<NotificationTemplate | null> {
@@ -134,6 +141,11 @@ export class NotificationStorage {
     return templates.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   }
 
+  async getTemplateByName(name: string, type?: string): Promise<NotificationTemplate | null> {
+    const templates = await this.listTemplates(type);
+    return templates.find(template => template.name === name) || null;
+  }
+
   async deleteTemplate(id: string): Promise<void> {
     this.templates.delete(id);
     await this.connect();
@@ -179,7 +191,12 @@ export class NotificationStorage {
     type?: string
   ): Promise<NotificationHistory[]> {
     await this.connect();
-    const ids = await this.redisClient.zRange('notifications:timeline', offset, offset + limit - 1, { REV: true });
+    const ids = await this.redisClient.zRange(
+      'notifications:timeline',
+      offset,
+      offset + limit - 1,
+      { REV: true }
+    );
     const notifications: NotificationHistory[] = [];
 
     for (const id of ids) {
@@ -232,7 +249,7 @@ export class NotificationStorage {
     scheduledAt?: Date
   ): Promise<void> {
     await this.connect();
-    
+
     const queueName = `queue:${type}:${priority}`;
     const payload = JSON.stringify({
       ...notification,
@@ -258,10 +275,10 @@ export class NotificationStorage {
     priority: 'low' | 'normal' | 'high' = 'normal'
   ): Promise<any | null> {
     await this.connect();
-    
+
     const queueName = `queue:${type}:${priority}`;
     const payload = await this.redisClient.rPop(queueName);
-    
+
     return payload ? JSON.parse(payload) : null;
   }
 
@@ -276,20 +293,20 @@ export class NotificationStorage {
 
   async processScheduledNotifications(): Promise<void> {
     await this.connect();
-    
+
     const now = Date.now();
     const scheduled = await this.redisClient.zRangeByScore('scheduled:notifications', 0, now);
-    
+
     for (const payload of scheduled) {
       const notification = JSON.parse(payload);
       const type = notification.type || 'email';
       const priority = notification.priority || 'normal';
-      
+
       // Move to immediate processing queue
       await this.redisClient.lPush(`queue:${type}:${priority}`, payload);
-      
+
       // Remove from scheduled
       await this.redisClient.zRem('scheduled:notifications', payload);
     }
   }
-}
\ No newline at end of file
+}
@@ -25,12 +25,17 @@ export const SendEmailSchema = z.object({
   content: z.string().min(1),
   html: z.string().optional(),
   templateId: z.string().optional(),
+  templateName: z.string().optional(), // Falls back to subject and content if no template has this name
   variables: z.record(z.any()).optional(),
-  attachments: z.array(z.object({
-    filename: z.string(),
-    content: z.string(), // Base64 encoded
-    contentType: z.string(),
-  })).optional(),
+  attachments: z
+    .array(
+      z.object({
+        filename: z.string(),
+        content: z.string(), // Base64 encoded
+        contentType: z.string(),
+      })
+    )
+    .optional(),
   priority: z.enum(['low', 'normal', 'high']).default('normal'),
   scheduledAt: z.string().datetime().optional(),
 });
@@ -93,25 +98,34 @@ export const NotificationPreferenceSchema = z.object({
 });
 
 export const UpdateNotificationPreferenceSchema = z.object({
-  email: z.object({
-    enabled: z.boolean(),
-    address: z.string().email(),
-    frequency: z.enum(['immediate', 'hourly', 'daily', 'weekly']),
-    categories: z.array(z.string()),
-  }).partial().optional(),
-  sms: z.object({
-    enabled: z.boolean(),
-    number: z.string(),
-    frequency: z.enum(['immediate', 'daily']),
-    categories: z.array(z.string()),
-  }).partial().optional(),
-  push: z.object({
-    enabled: z.boolean(),
-    deviceTokens: z.array(z.string()),
-    frequency: z.enum(['immediate', 'hourly']),
-    categories: z.array(z.string()),
-  }).partial().optional(),
+  email: z
+    .object({
+      enabled: z.boolean(),
+      address: z.string().email(),
+      frequency: z.enum(['immediate', 'hourly', 'daily', 'weekly']),
+      categories: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
+  sms: z
+    .object({
+      enabled: z.boolean(),
+      number: z.string(),
+      frequency: z.enum(['immediate', 'daily']),
+      categories: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
+  push: z
+    .object({
+      enabled: z.boolean(),
+      deviceTokens: z.array(z.string()),
+      frequency: z.enum(['immediate', 'hourly']),
+      categories: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
 });
 
 export type NotificationPreferenceDto = z.infer<typeof NotificationPreferenceSchema>;
-export type UpdateNotificationPreferenceDto = z.infer<typeof UpdateNotificationPreferenceSchema>;
\ No newline at end of file
+export type UpdateNotificationPreferenceDto = z.infer<typeof UpdateNotificationPreferenceSchema>;
@@ -1,4 +1,6 @@
 import { Hono } from 'hono';
+import { requirePermission, setAuditDetails } from 'shared-middleware';
+import { Permissions } from 'shared-utils';
 import { NotificationStorage } from '../models';
 import { TemplateService } from '../services/templateService';
 import { CreateTemplateSchema, UpdateTemplateSchema } from '../models/validation';
@@ -10,169 +12,217 @@ const storage = new NotificationStorage();
 const templateService = new TemplateService(storage);
 
 // Create template
-templateRoutes.post('/', async (c) => {
+templateRoutes.post('/', requirePermission(Permissions.TEMPLATES_WRITE), async c => {
   try {
     const body = await c.req.json();
     const validatedData = CreateTemplateSchema.parse(body);
-    
+
     const template = await templateService.createTemplate(validatedData);
-    
-    return c.json({
-      success: true,
-      data: template,
-      timestamp: new Date().toISOString(),
-    }, 201);
+    setAuditDetails(c, {
+      action: 'template.create',
+      resource: { type: 'template', id: template.id },
+      after: template,
+    });
+
+    return c.json(
+      {
+        success: true,
+        data: template,
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Invalid request data',
-      timestamp: new Date().toISOString(),
-    }, 400);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid request data',
+        timestamp: new Date().toISOString(),
+      },
+      400
+    );
   }
 });
 
 // List templates
-templateRoutes.get('/', async (c) => {
+templateRoutes.get('/', requirePermission(Permissions.TEMPLATES_READ), async c => {
   try {
     const type = c.req.query('type') as 'email' | 'sms' | 'push' | undefined;
     const templates = await templateService.listTemplates(type);
-    
+
     return c.json({
       success: true,
       data: templates,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to retrieve templates',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retrieve templates',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
 // Get template by ID
-templateRoutes.get('/:id', async (c) => {
+templateRoutes.get('/:id', requirePermission(Permissions.TEMPLATES_READ), async c => {
   try {
     const id = c.req.param('id');
     const template = await templateService.getTemplate(id);
-    
+
     if (!template) {
-      return c.json({
-        success: false,
-        error: 'Template not found',
-        timestamp: new Date().toISOString(),
-      }, 404);
+      return c.json(
+        {
+          success: false,
+          error: 'Template not found',
+          timestamp: new Date().toISOString(),
+        },
+        404
+      );
     }
-    
+
     return c.json({
       success: true,
       data: template,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to retrieve template',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retrieve template',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
 // Update template
-templateRoutes.put('/:id', async (c) => {
+templateRoutes.put('/:id', requirePermission(Permissions.TEMPLATES_WRITE), async c => {
   try {
     const id = c.req.param('id');
+    setAuditDetails(c, { action: 'template.update', resource: { type: 'template', id } });
     const body = await c.req.json();
     const validatedData = UpdateTemplateSchema.parse(body);
-    
+
+    const previous = await templateService.getTemplate(id);
     const template = await templateService.updateTemplate(id, validatedData);
-    
+    setAuditDetails(c, { before: previous, after: template });
+
     return c.json({
       success: true,
       data: template,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to update template',
-      timestamp: new Date().toISOString(),
-    }, error instanceof Error && error.message.includes('not found') ? 404 : 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update template',
+        timestamp: new Date().toISOString(),
+      },
+      error instanceof Error && error.message.includes('not found') ? 404 : 500
+    );
   }
 });
 
 // Delete template
-templateRoutes.delete('/:id', async (c) => {
+templateRoutes.delete('/:id', requirePermission(Permissions.TEMPLATES_WRITE), async c => {
   try {
     const id = c.req.param('id');
+    const previous = await templateService.getTemplate(id);
+    setAuditDetails(c, {
+      action: 'template.delete',
+      resource: { type: 'template', id },
+      before: previous,
+    });
     await templateService.deleteTemplate(id);
-    
+
     return c.json({
       success: true,
       message: 'Template deleted successfully',
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to delete template',
-      timestamp: new Date().toISOString(),
-    }, error instanceof Error && error.message.includes('not found') ? 404 : 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete template',
+        timestamp: new Date().toISOString(),
+      },
+      error instanceof Error && error.message.includes('not found') ? 404 : 500
+    );
   }
 });
 
 // Preview template with sample data
-templateRoutes.post('/:id/preview', async (c) => {
+templateRoutes.post('/:id/preview', requirePermission(Permissions.TEMPLATES_READ), async c => {
+  setAuditDetails(c, false); // Read-only
+
   try {
     const id = c.req.param('id');
     const body = await c.req.json();
     const sampleVariables = body.variables || {};
-    
+
     const preview = await templateService.getTemplatePreview(id, sampleVariables);
-    
+
     return c.json({
       success: true,
       data: preview,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to generate template preview',
-      timestamp: new Date().toISOString(),
-    }, error instanceof Error && error.message.includes('not found') ? 404 : 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate template preview',
+        timestamp: new Date().toISOString(),
+      },
+      error instanceof Error && error.message.includes('not found') ? 404 : 500
+    );
   }
 });
 
 // Validate template
-templateRoutes.post('/:id/validate', async (c) => {
+templateRoutes.post('/:id/validate', requirePermission(Permissions.TEMPLATES_READ), async c => {
+  setAuditDetails(c, false); // Read-only
+
   try {
     const id = c.req.param('id');
     const template = await templateService.getTemplate(id);
-    
+
     if (!template) {
-      return c.json({
-        success: false,
-        error: 'Template not found',
-        timestamp: new Date().toISOString(),
-      }, 404);
+      return c.json(
+        {
+          success: false,
+          error: 'Template not found',
+          timestamp: new Date().toISOString(),
+        },
+        404
+      );
     }
-    
+
     const validation = await templateService.validateTemplate(template.content, template.variables);
-    
+
     return c.json({
       success: true,
       data: validation,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    return c.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to validate template',
-      timestamp: new Date().toISOString(),
-    }, 500);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to validate template',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
-export default templateRoutes;
\ No newline at end of file
+export default templateRoutes;
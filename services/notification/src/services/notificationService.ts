@@ -5,6 +5,7 @@ import { createSmsProvider } from './smsProvider';
 import { createPushProvider } from './pushProvider';
 import { TemplateService } from './templateService';
 import config from '../config';
+import { publishEvent, EventTypes } from '../events';
 
 export class NotificationService {
   private storage: NotificationStorage;
@@ -18,6 +19,23 @@ export class NotificationService {
     this.templateService = new TemplateService(storage);
   }
 
+  // Publish the delivery outcome of a notification
+  private async publishDeliveryEvent(
+    type: 'email' | 'sms' | 'push',
+    to: string | string[],
+    result: { success: boolean; messageId?: string; error?: string }
+  ): Promise<void> {
+    await publishEvent(
+      result.success ? EventTypes.NOTIFICATION_SENT : EventTypes.NOTIFICATION_FAILED,
+      {
+        channel: type,
+        to,
+        messageId: result.messageId,
+        error: result.error,
+      }
+    );
+  }
+
   // Rate limiting check
   private async checkRateLimit(type: 'email' | 'sms' | 'push'): Promise<boolean> {
     const limits = {
@@ -31,7 +49,9 @@ export class NotificationService {
     return queueLength < limits[type];
   }
 
-  async sendEmail(emailData: SendEmailDto): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  async sendEmail(
+    emailData: SendEmailDto
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       // Check rate limit
       if (!(await this.checkRateLimit('email'))) {
@@ -40,10 +60,26 @@ export class NotificationService {
 
       let finalEmail = { ...emailData };
 
+      // Resolve a template given by name, keeping the inline content if there is none
+      let templateId = emailData.templateId;
+      if (!templateId && emailData.templateName) {
+        const template = await this.templateService.getTemplateByName(
+          emailData.templateName,
+          'email'
+        );
+        if (template) {
+          templateId = template.id;
+        } else {
+          console.warn(
+            `Email template not found: ${emailData.templateName}, sending inline content`
+          );
+        }
+      }
+
       // Process template if provided
-      if (emailData.templateId) {
+      if (templateId) {
         const rendered = await this.templateService.renderTemplate(
-          emailData.templateId,
+          templateId,
           emailData.variables || {}
         );
 
@@ -57,7 +93,12 @@ export class NotificationService {
       if (emailData.scheduledAt) {
         const scheduledDate = new Date(emailData.scheduledAt);
         if (scheduledDate > new Date()) {
-          await this.storage.enqueueNotification('email', finalEmail, emailData.priority, scheduledDate);
+          await this.storage.enqueueNotification(
+            'email',
+            finalEmail,
+            emailData.priority,
+            scheduledDate
+          );
           return { success: true, messageId: 'scheduled' };
         }
       }
@@ -79,10 +120,12 @@ export class NotificationService {
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('email', finalEmail.to, result);
+
       return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown email error';
-      
+
       // Store failed notification in history
       await this.storage.saveNotificationHistory({
         id: crypto.randomUUID(),
@@ -96,11 +139,18 @@ export class NotificationService {
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('email', emailData.to, {
+        success: false,
+        error: errorMessage,
+      });
+
       return { success: false, error: errorMessage };
     }
   }
 
-  async sendSms(smsData: SendSmsDto): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  async sendSms(
+    smsData: SendSmsDto
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       // Check rate limit
       if (!(await this.checkRateLimit('sms'))) {
@@ -148,10 +198,12 @@ export class NotificationService {
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('sms', finalSms.to, result);
+
       return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown SMS error';
-      
+
       // Store failed notification in history
       await this.storage.saveNotificationHistory({
         id: crypto.randomUUID(),
@@ -164,11 +216,15 @@ export class NotificationService {
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('sms', smsData.to, { success: false, error: errorMessage });
+
       return { success: false, error: errorMessage };
     }
   }
 
-  async sendPush(pushData: SendPushDto): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  async sendPush(
+    pushData: SendPushDto
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       // Check rate limit
       if (!(await this.checkRateLimit('push'))) {
@@ -183,7 +239,7 @@ export class NotificationService {
           pushData.templateId,
           pushData.variables || {}
         );
-        
+
         // For push notifications, template content could be JSON with title/body
         try {
           const templateData = JSON.parse(rendered.content);
@@ -199,7 +255,12 @@ export class NotificationService {
       if (pushData.scheduledAt) {
         const scheduledDate = new Date(pushData.scheduledAt);
         if (scheduledDate > new Date()) {
-          await this.storage.enqueueNotification('push', finalPush, pushData.priority, scheduledDate);
+          await this.storage.enqueueNotification(
+            'push',
+            finalPush,
+            pushData.priority,
+            scheduledDate
+          );
           return { success: true, messageId: 'scheduled' };
         }
       }
@@ -213,7 +274,11 @@ export class NotificationService {
         type: 'push',
         to: finalPush.to,
         subject: finalPush.title,
-        content: JSON.stringify({ title: finalPush.title, body: finalPush.body, data: finalPush.data }),
+        content: JSON.stringify({
+          title: finalPush.title,
+          body: finalPush.body,
+          data: finalPush.data,
+        }),
         status: result.success ? 'sent' : 'failed',
         provider: this.pushProvider.name,
         error: result.error,
@@ -221,23 +286,32 @@ export class NotificationService {
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('push', finalPush.to, result);
+
       return result;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown push notification error';
-      
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown push notification error';
+
       // Store failed notification in history
       await this.storage.saveNotificationHistory({
         id: crypto.randomUUID(),
         type: 'push',
         to: pushData.to,
         subject: pushData.title,
-        content: JSON.stringify({ title: pushData.title, body: pushData.body, data: pushData.data }),
+        content: JSON.stringify({
+          title: pushData.title,
+          body: pushData.body,
+          data: pushData.data,
+        }),
         status: 'failed',
         provider: this.pushProvider.name,
         error: errorMessage,
         createdAt: new Date().toISOString(),
       });
 
+      await this.publishDeliveryEvent('push', pushData.to, { success: false, error: errorMessage });
+
       return { success: false, error: errorMessage };
     }
   }
@@ -254,9 +328,9 @@ export class NotificationService {
     // Process notifications in batches
     for (let i = 0; i < batchData.notifications.length; i += batchSize) {
       const batch = batchData.notifications.slice(i, i + batchSize);
-      
+
       // Process batch concurrently
-      const batchPromises = batch.map(async (notification) => {
+      const batchPromises = batch.map(async notification => {
         switch (batchData.type) {
           case 'email':
             return await this.sendEmail(notification as SendEmailDto);
@@ -270,9 +344,9 @@ export class NotificationService {
       });
 
       const batchResults = await Promise.allSettled(batchPromises);
-      
+
       // Collect results
-      batchResults.forEach((result) => {
+      batchResults.forEach(result => {
         if (result.status === 'fulfilled') {
           results.push(result.value);
         } else {
@@ -315,7 +389,7 @@ export class NotificationService {
   // Queue processing methods (for background workers)
   async processEmailQueue(): Promise<void> {
     const priorities: ('high' | 'normal' | 'low')[] = ['high', 'normal', 'low'];
-    
+
     for (const priority of priorities) {
       const notification = await this.storage.dequeueNotification('email', priority);
       if (notification) {
@@ -326,7 +400,7 @@ export class NotificationService {
 
   async processSmsQueue(): Promise<void> {
     const priorities: ('high' | 'normal' | 'low')[] = ['high', 'normal', 'low'];
-    
+
     for (const priority of priorities) {
       const notification = await this.storage.dequeueNotification('sms', priority);
       if (notification) {
@@ -337,7 +411,7 @@ export class NotificationService {
 
   async processPushQueue(): Promise<void> {
     const priorities: ('high' | 'normal' | 'low')[] = ['high', 'normal', 'low'];
-    
+
     for (const priority of priorities) {
       const notification = await this.storage.dequeueNotification('push', priority);
       if (notification) {
@@ -345,4 +419,4 @@ export class NotificationService {
       }
     }
   }
-}
\ No newline at end of file
+}
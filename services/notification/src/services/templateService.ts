@@ -1,6 +1,37 @@
 import { NotificationStorage } from '../models';
 import { CreateTemplateDto, UpdateTemplateDto } from '../models/validation';
 
+// Templates other services send by name; created at startup unless one with the name exists
+export const DEFAULT_TEMPLATES: CreateTemplateDto[] = [
+  {
+    name: 'password-reset',
+    type: 'email',
+    language: 'en',
+    subject: 'Reset your password',
+    content:
+      'Hi {{name}}, we received a request to reset your password. Use the link below within {{expiresInHours}} hour(s) to choose a new one:\n\n{{resetUrl}}\n\nIf you did not request a reset, you can ignore this email.',
+    variables: ['name', 'resetUrl', 'expiresInHours'],
+  },
+  {
+    name: 'email-verification',
+    type: 'email',
+    language: 'en',
+    subject: 'Verify your email address',
+    content:
+      'Hi {{name}}, please confirm your email address within {{expiresInHours}} hour(s) using the link below:\n\n{{verifyUrl}}',
+    variables: ['name', 'verifyUrl', 'expiresInHours'],
+  },
+  {
+    name: 'account-locked',
+    type: 'email',
+    language: 'en',
+    subject: 'Your account has been locked',
+    content:
+      'Hi {{name}}, your account was locked for {{lockoutMinutes}} minute(s) after several failed login attempts. If this was you, use the link below to unlock it now:\n\n{{unlockUrl}}\n\nIf it was not you, consider changing your password.',
+    variables: ['name', 'unlockUrl', 'lockoutMinutes'],
+  },
+];
+
 export class TemplateService {
   private storage: NotificationStorage;
 
@@ -10,12 +41,12 @@ export class TemplateService {
 
   private replaceVariables(content: string, variables: Record<string, any>): string {
     let result = content;
-    
+
     for (const [key, value] of Object.entries(variables)) {
       const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g');
       result = result.replace(regex, String(value));
     }
-    
+
     return result;
   }
 
@@ -56,6 +87,25 @@ export class TemplateService {
     return await this.storage.listTemplates(type);
   }
 
+  async getTemplateByName(name: string, type?: string) {
+    return await this.storage.getTemplateByName(name, type);
+  }
+
+  // Create the default templates that do not exist yet; edited ones are left untouched
+  async ensureDefaultTemplates(): Promise<string[]> {
+    const created: string[] = [];
+
+    for (const template of DEFAULT_TEMPLATES) {
+      const existing = await this.storage.getTemplateByName(template.name, template.type);
+      if (!existing) {
+        await this.createTemplate(template);
+        created.push(template.name);
+      }
+    }
+
+    return created;
+  }
+
   async deleteTemplate(id: string) {
     const existing = await this.storage.getTemplate(id);
     if (!existing) {
@@ -66,7 +116,7 @@ export class TemplateService {
   }
 
   async renderTemplate(
-    templateId: string, 
+    templateId: string,
     variables: Record<string, any> = {},
     language?: string
   ): Promise<{ subject?: string; content: string }> {
@@ -82,18 +132,23 @@ export class TemplateService {
     }
 
     const content = this.replaceVariables(template.content, variables);
-    const subject = template.subject ? this.replaceVariables(template.subject, variables) : undefined;
+    const subject = template.subject
+      ? this.replaceVariables(template.subject, variables)
+      : undefined;
 
     return { subject, content };
   }
 
-  async validateTemplate(content: string, variables: string[]): Promise<{ valid: boolean; errors: string[] }> {
+  async validateTemplate(
+    content: string,
+    variables: string[]
+  ): Promise<{ valid: boolean; errors: string[] }> {
     const errors: string[] = [];
-    
+
     // Check for undefined variables in template
     const variableRegex = /{{\\s*([a-zA-Z_][a-zA-Z0-9_]*)\\s*}}/g;
     const matches = Array.from(content.matchAll(variableRegex));
-    
+
     for (const match of matches) {
       const variableName = match[1];
       if (!variables.includes(variableName)) {
@@ -104,7 +159,7 @@ export class TemplateService {
     // Check for unclosed template tags
     const openTags = (content.match(/{/g) || []).length;
     const closeTags = (content.match(/}/g) || []).length;
-    
+
     if (openTags !== closeTags) {
       errors.push('Mismatched template braces');
     }
@@ -116,9 +171,14 @@ export class TemplateService {
   }
 
   async getTemplatePreview(
-    templateId: string, 
+    templateId: string,
     sampleVariables: Record<string, any> = {}
-  ): Promise<{ subject?: string; content: string; usedVariables: string[]; missingVariables: string[] }> {
+  ): Promise<{
+    subject?: string;
+    content: string;
+    usedVariables: string[];
+    missingVariables: string[];
+  }> {
     const template = await this.storage.getTemplate(templateId);
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
@@ -127,8 +187,10 @@ export class TemplateService {
     // Find all variables used in the template
     const variableRegex = /{{\\s*([a-zA-Z_][a-zA-Z0-9_]*)\\s*}}/g;
     const contentMatches = Array.from(template.content.matchAll(variableRegex));
-    const subjectMatches = template.subject ? Array.from(template.subject.matchAll(variableRegex)) : [];
-    
+    const subjectMatches = template.subject
+      ? Array.from(template.subject.matchAll(variableRegex))
+      : [];
+
     const usedVariables = new Set<string>();
     [...contentMatches, ...subjectMatches].forEach(match => {
       usedVariables.add(match[1]);
@@ -151,4 +213,4 @@ export class TemplateService {
       missingVariables,
     };
   }
-}
\ No newline at end of file
+}
@@ -14,6 +14,16 @@ interface ServiceConfig {
     password?: string;
     db: number;
   };
+  events: {
+    enabled: boolean;
+    mode: 'pubsub' | 'streams';
+    redisDb: number;
+    outboxIntervalMs: number;
+  };
+  audit: {
+    enabled: boolean;
+    redisDb: number;
+  };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     pretty: boolean;
@@ -39,6 +49,16 @@ const config: ServiceConfig = {
     password: process.env.REDIS_PASSWORD,
     db: parseInt(process.env.REDIS_DB || '2', 10),
   },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    mode: (process.env.EVENTS_MODE as any) || 'streams', // Durable delivery via consumer groups
+    redisDb: parseInt(process.env.EVENTS_REDIS_DB || '0', 10), // Shared by all services
+    outboxIntervalMs: parseInt(process.env.EVENTS_OUTBOX_INTERVAL_MS || '1000', 10),
+  },
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    redisDb: parseInt(process.env.AUDIT_REDIS_DB || process.env.EVENTS_REDIS_DB || '0', 10), // One log for all services
+  },
   logging: {
     level: (process.env.LOG_LEVEL as any) || 'info',
     pretty: process.env.NODE_ENV !== 'production',
@@ -50,7 +70,10 @@ const config: ServiceConfig = {
 };
 
 export const jwtConfig = {
-  secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production',
+  // Published by auth-service, which signs access tokens with its own keys
+  jwksUrl:
+    process.env.JWKS_URL ||
+    `${process.env.AUTH_SERVICE_URL || 'http://localhost:3001'}/.well-known/jwks.json`,
 };
 
 // Service URLs for inter-service communication
@@ -59,4 +82,4 @@ export const serviceUrls = {
   data: process.env.DATA_SERVICE_URL || 'http://localhost:3002',
 };
 
-export default config;
\ No newline at end of file
+export default config;
@@ -0,0 +1,43 @@
+import type { Logger } from 'pino';
+import { eq } from 'drizzle-orm';
+import type { Event } from 'shared-utils';
+import { db, workflows } from '../models/database';
+import { workflowEngine } from '../services/workflowEngine';
+import { eventBus } from './index';
+
+// Workflow events are never used as triggers to avoid executions triggering each other
+const isTriggerableEvent = (event: Event): boolean => !event.type.startsWith('workflow.');
+
+// Run every active workflow with an `event` trigger matching the incoming event type
+const runEventTriggeredWorkflows = async (event: Event): Promise<void> => {
+  if (!isTriggerableEvent(event)) return;
+
+  const activeWorkflows = await db.select().from(workflows).where(eq(workflows.status, 'active'));
+
+  for (const workflow of activeWorkflows) {
+    const triggers = JSON.parse(workflow.triggers);
+    const matches = triggers.some(
+      (trigger: any) => trigger.type === 'event' && trigger.config?.eventType === event.type
+    );
+
+    if (!matches) continue;
+
+    try {
+      await workflowEngine.executeWorkflow(
+        workflow,
+        { event: { id: event.id, type: event.type, source: event.source }, data: event.data },
+        `event:${event.type}`,
+        event.correlationId
+      );
+    } catch (error) {
+      console.error(`Event-triggered workflow ${workflow.id} failed:`, error);
+    }
+  }
+};
+
+export const registerEventHandlers = async (logger: Logger): Promise<void> => {
+  if (!eventBus.isConnected()) return;
+
+  await eventBus.subscribeToAll(runEventTriggeredWorkflows);
+  logger.info('Registered event-triggered workflow handler');
+};
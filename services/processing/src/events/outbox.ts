@@ -0,0 +1,14 @@
+import { createOutbox } from 'shared-utils';
+import config from '../config';
+import { db, outbox } from '../models/database';
+import { eventBus } from './index';
+
+// Transactional outbox for this service's domain events (see shared-utils/outbox)
+export const { enqueueEvent, relayOutbox, startOutboxRelay, stopOutboxRelay } = createOutbox({
+  db,
+  table: outbox,
+  eventBus,
+  source: config.name,
+  enabled: config.events.enabled,
+  intervalMs: config.events.outboxIntervalMs,
+});
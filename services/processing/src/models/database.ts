@@ -1,26 +1,43 @@
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { Database } from 'bun:sqlite';
 import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { createOutboxTable } from 'shared-utils';
 
 // Workflow table schema
 export const workflows = sqliteTable('workflows', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
   name: text('name').notNull(),
   description: text('description'),
-  status: text('status', { enum: ['active', 'inactive', 'draft'] }).notNull().default('draft'),
+  status: text('status', { enum: ['active', 'inactive', 'draft'] })
+    .notNull()
+    .default('draft'),
   steps: text('steps').notNull(), // JSON array of workflow steps
   triggers: text('triggers').notNull(), // JSON array of workflow triggers
-  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
-  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
   createdBy: text('created_by').notNull(),
 });
 
 // Workflow executions table
 export const workflowExecutions = sqliteTable('workflow_executions', {
-  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  workflowId: text('workflow_id').notNull().references(() => workflows.id, { onDelete: 'cascade' }),
-  status: text('status', { enum: ['pending', 'running', 'completed', 'failed', 'cancelled'] }).notNull().default('pending'),
-  startedAt: text('started_at').notNull().$defaultFn(() => new Date().toISOString()),
+  id: text('id')
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  workflowId: text('workflow_id')
+    .notNull()
+    .references(() => workflows.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['pending', 'running', 'completed', 'failed', 'cancelled'] })
+    .notNull()
+    .default('pending'),
+  startedAt: text('started_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
   completedAt: text('completed_at'),
   error: text('error'),
   results: text('results').notNull().default('{}'), // JSON object
@@ -28,6 +45,10 @@ export const workflowExecutions = sqliteTable('workflow_executions', {
   triggeredBy: text('triggered_by').notNull(),
 });
 
+// Transactional outbox: events written in the same transaction as the change
+// they describe and relayed to the event bus after commit
+export const outbox = createOutboxTable();
+
 // Database setup
 const sqlite = new Database('./data/processing.db');
 export const db = drizzle(sqlite);
@@ -43,4 +64,6 @@ try {
 export type Workflow = typeof workflows.$inferSelect;
 export type NewWorkflow = typeof workflows.$inferInsert;
 export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
-export type NewWorkflowExecution = typeof workflowExecutions.$inferInsert;
\ No newline at end of file
+export type NewWorkflowExecution = typeof workflowExecutions.$inferInsert;
+export type OutboxEvent = typeof outbox.$inferSelect;
+export type NewOutboxEvent = typeof outbox.$inferInsert;
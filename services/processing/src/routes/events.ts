@@ -0,0 +1,239 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { Permissions, createErrorResponse, createSuccessResponse } from 'shared-utils';
+import { jwtAuth, requirePermission } from 'shared-middleware';
+import { jwtConfig, serviceUrls } from '../config';
+import { eventBus } from '../events';
+
+const events = new Hono();
+
+const authenticateUser = jwtAuth({
+  jwksUrl: jwtConfig.jwksUrl,
+  sessions: { authServiceUrl: serviceUrls.auth },
+});
+
+// Validation schemas
+const HistoryFilterSchema = z.object({
+  type: z.string().optional(),
+  source: z.string().optional(),
+  correlationId: z.string().optional(),
+  from: z.coerce.date().optional(), // ISO 8601
+  to: z.coerce.date().optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+const HistoryQuerySchema = HistoryFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const HistoryExportSchema = HistoryFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100000).default(10000),
+});
+
+const DeadLetterQuerySchema = z.object({
+  type: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Utility functions
+const requireEventBus = async (c: Context, next: any) => {
+  if (!eventBus.isConnected()) {
+    return c.json(createErrorResponse('Event bus unavailable'), 503);
+  }
+  await next();
+};
+
+events.use('*', authenticateUser, requireEventBus);
+
+// Query stored events by type, source, correlation ID and time window
+events.get('/history', requirePermission(Permissions.EVENTS_READ), async (c: Context) => {
+  const parsed = HistoryQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json(createErrorResponse('Validation error', parsed.error.message), 400);
+  }
+
+  const { limit, offset, ...query } = parsed.data;
+
+  try {
+    const { events: history, hasMore } = await eventBus.queryEventHistory(query, limit, offset);
+
+    return c.json(
+      createSuccessResponse({
+        events: history,
+        pagination: { limit, offset, hasMore },
+      })
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Query event history error');
+    return c.json(createErrorResponse('Failed to query event history'), 500);
+  }
+});
+
+// Export matching events as newline-delimited JSON, streamed as they are read
+events.get('/history/export', requirePermission(Permissions.EVENTS_READ), async (c: Context) => {
+  const parsed = HistoryExportSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json(createErrorResponse('Validation error', parsed.error.message), 400);
+  }
+
+  const { limit, ...query } = parsed.data;
+  const history = eventBus.iterateEventHistory(query);
+  const encoder = new TextEncoder();
+  let exported = 0;
+
+  const stream = new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } =
+          exported < limit ? await history.next() : await history.return(undefined);
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        exported++;
+        controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+      } catch (error) {
+        const logger = c.get('logger');
+        logger.error(error, 'Export event history error');
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await history.return(undefined);
+    },
+  });
+
+  return c.body(stream, 200, {
+    'Content-Type': 'application/x-ndjson',
+    'Content-Disposition': `attachment; filename="events-${Date.now()}.ndjson"`,
+  });
+});
+
+// List dead-lettered events, optionally for a single event type
+events.get('/dead-letters', requirePermission(Permissions.EVENTS_READ), async (c: Context) => {
+  const parsed = DeadLetterQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json(createErrorResponse('Validation error', parsed.error.message), 400);
+  }
+
+  const { type, limit, offset } = parsed.data;
+
+  try {
+    const [entries, total] = await Promise.all([
+      eventBus.listDeadLetters(type, limit, offset),
+      eventBus.countDeadLetters(type),
+    ]);
+
+    return c.json(
+      createSuccessResponse({
+        entries,
+        pagination: { total, limit, offset },
+      })
+    );
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'List dead letters error');
+    return c.json(createErrorResponse('Failed to list dead-lettered events'), 500);
+  }
+});
+
+// Get a dead-lettered event with its error and attempt count
+events.get('/dead-letters/:id', requirePermission(Permissions.EVENTS_READ), async (c: Context) => {
+  const id = c.req.param('id');
+
+  try {
+    const entry = await eventBus.getDeadLetter(id);
+    if (!entry) {
+      return c.json(createErrorResponse('Dead-lettered event not found'), 404);
+    }
+
+    return c.json(createSuccessResponse(entry));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Get dead letter error');
+    return c.json(createErrorResponse('Failed to get dead-lettered event'), 500);
+  }
+});
+
+// Replay every dead-lettered event of a type (or of all types)
+events.post(
+  '/dead-letters/replay',
+  requirePermission(Permissions.EVENTS_MANAGE),
+  async (c: Context) => {
+    const type = c.req.query('type');
+
+    try {
+      const replayed = await eventBus.replayDeadLetters(type);
+      return c.json(createSuccessResponse({ replayed }, `Replayed ${replayed} event(s)`));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Replay dead letters error');
+      return c.json(createErrorResponse('Failed to replay dead-lettered events'), 500);
+    }
+  }
+);
+
+// Replay a single dead-lettered event
+events.post(
+  '/dead-letters/:id/replay',
+  requirePermission(Permissions.EVENTS_MANAGE),
+  async (c: Context) => {
+    const id = c.req.param('id');
+
+    try {
+      const replayed = await eventBus.replayDeadLetter(id);
+      if (!replayed) {
+        return c.json(createErrorResponse('Dead-lettered event not found'), 404);
+      }
+
+      return c.json(createSuccessResponse({ id }, 'Event replayed successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Replay dead letter error');
+      return c.json(createErrorResponse('Failed to replay dead-lettered event'), 500);
+    }
+  }
+);
+
+// Purge every dead-lettered event of a type (or of all types)
+events.delete('/dead-letters', requirePermission(Permissions.EVENTS_MANAGE), async (c: Context) => {
+  const type = c.req.query('type');
+
+  try {
+    const purged = await eventBus.purgeDeadLetters(type);
+    return c.json(createSuccessResponse({ purged }, `Purged ${purged} event(s)`));
+  } catch (error) {
+    const logger = c.get('logger');
+    logger.error(error, 'Purge dead letters error');
+    return c.json(createErrorResponse('Failed to purge dead-lettered events'), 500);
+  }
+});
+
+// Delete a single dead-lettered event
+events.delete(
+  '/dead-letters/:id',
+  requirePermission(Permissions.EVENTS_MANAGE),
+  async (c: Context) => {
+    const id = c.req.param('id');
+
+    try {
+      const deleted = await eventBus.deleteDeadLetter(id);
+      if (!deleted) {
+        return c.json(createErrorResponse('Dead-lettered event not found'), 404);
+      }
+
+      return c.json(createSuccessResponse({ id }, 'Dead-lettered event deleted successfully'));
+    } catch (error) {
+      const logger = c.get('logger');
+      logger.error(error, 'Delete dead letter error');
+      return c.json(createErrorResponse('Failed to delete dead-lettered event'), 500);
+    }
+  }
+);
+
+export default events;
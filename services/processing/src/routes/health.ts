@@ -8,7 +8,7 @@ const health = new Hono();
 health.get('/', async (c: Context) => {
   try {
     const uptime = Math.floor(process.uptime());
-    
+
     const healthCheck = {
       status: 'healthy' as const,
       timestamp: new Date().toISOString(),
@@ -30,21 +30,24 @@ health.get('/', async (c: Context) => {
         data_service: {
           status: 'up' as const,
           responseTime: 0,
-        }
-      }
+        },
+      },
     };
 
     return c.json(healthCheck);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Health check error');
-    
-    return c.json({
-      status: 'unhealthy',
-      timestamp: new Date().toISOString(),
-      error: 'Health check failed'
-    }, 503);
+
+    return c.json(
+      {
+        status: 'unhealthy',
+        timestamp: new Date().toISOString(),
+        error: 'Health check failed',
+      },
+      503
+    );
   }
 });
 
-export default health;
\ No newline at end of file
+export default health;
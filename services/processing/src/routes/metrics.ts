@@ -9,7 +9,7 @@ metrics.get('/', async (c: Context) => {
   try {
     const uptime = process.uptime();
     const memoryUsage = process.memoryUsage();
-    
+
     const serviceMetrics = {
       service: config.name,
       version: config.version,
@@ -42,14 +42,17 @@ metrics.get('/', async (c: Context) => {
 
     return c.json(serviceMetrics);
   } catch (error) {
-    const logger = (c as any).logger;
+    const logger = c.get('logger');
     logger.error(error, 'Metrics error');
-    
-    return c.json({
-      error: 'Failed to collect metrics',
-      timestamp: new Date().toISOString()
-    }, 500);
+
+    return c.json(
+      {
+        error: 'Failed to collect metrics',
+        timestamp: new Date().toISOString(),
+      },
+      500
+    );
   }
 });
 
-export default metrics;
\ No newline at end of file
+export default metrics;
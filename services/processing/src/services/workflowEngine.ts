@@ -0,0 +1,262 @@
+import { eq } from 'drizzle-orm';
+import {
+  db,
+  workflowExecutions,
+  type Workflow,
+  type WorkflowExecution,
+  type NewWorkflowExecution,
+} from '../models/database';
+import { EventTypes } from '../events';
+import { enqueueEvent } from '../events/outbox';
+
+// Workflow execution engine
+export class WorkflowEngine {
+  private async executeStep(step: any, context: any, execution: WorkflowExecution) {
+    const logger = console; // TODO: Use proper logger
+    logger.log(`Executing step: ${step.id} (${step.type})`);
+
+    try {
+      switch (step.type) {
+        case 'start':
+          logger.log('Workflow started');
+          return { success: true, result: 'Started' };
+
+        case 'log':
+          const message = step.config.message || 'Log step executed';
+          logger.log(`Log step: ${message}`);
+          return { success: true, result: message };
+
+        case 'data_fetch':
+          // Example: Fetch data from data service
+          if (step.config.entityId) {
+            try {
+              // This would make an HTTP call to the data service
+              logger.log(`Fetching entity: ${step.config.entityId}`);
+              return { success: true, result: { entityId: step.config.entityId, fetched: true } };
+            } catch (error) {
+              return { success: false, error: `Failed to fetch data: ${error}` };
+            }
+          }
+          return { success: true, result: 'No entity ID provided' };
+
+        case 'data_transform':
+          // Example: Transform data
+          const inputData = context.data || step.config.inputData;
+          const transformedData = {
+            ...inputData,
+            transformed: true,
+            transformedAt: new Date().toISOString(),
+          };
+          logger.log('Data transformed');
+          return { success: true, result: transformedData };
+
+        case 'conditional':
+          // Example: Conditional logic
+          const condition = step.config.condition;
+          const conditionResult = this.evaluateCondition(condition, context);
+          logger.log(`Condition evaluated: ${conditionResult}`);
+          return { success: true, result: conditionResult };
+
+        case 'delay':
+          // Example: Delay step
+          const delayMs = step.config.delayMs || 1000;
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          logger.log(`Delayed for ${delayMs}ms`);
+          return { success: true, result: `Delayed ${delayMs}ms` };
+
+        case 'end':
+          logger.log('Workflow completed');
+          return { success: true, result: 'Completed' };
+
+        default:
+          logger.log(`Unknown step type: ${step.type}`);
+          return { success: false, error: `Unknown step type: ${step.type}` };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Step execution failed',
+      };
+    }
+  }
+
+  private evaluateCondition(condition: string, context: any): boolean {
+    // Simple condition evaluation - in production, use a proper expression evaluator
+    try {
+      // Example conditions: "data.priority === 'high'", "context.count > 10"
+      // For safety, we'll just do simple string matching for now
+      if (condition.includes('priority') && condition.includes('high')) {
+        return context.data?.priority === 'high';
+      }
+      if (condition.includes('count') && condition.includes('>')) {
+        const match = condition.match(/count\s*>\s*(\d+)/);
+        if (match) {
+          const threshold = parseInt(match[1]);
+          return (context.count || 0) > threshold;
+        }
+      }
+      return false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async executeWorkflow(
+    workflow: Workflow,
+    context: any = {},
+    triggeredBy: string,
+    correlationId?: string
+  ) {
+    const executionId = crypto.randomUUID();
+
+    // Create execution record
+    const newExecution: NewWorkflowExecution = {
+      id: executionId,
+      workflowId: workflow.id,
+      status: 'running',
+      context: JSON.stringify(context),
+      triggeredBy,
+    };
+
+    // Execution records and their events are committed together
+    const execution = db.transaction(tx => {
+      const [created] = tx.insert(workflowExecutions).values(newExecution).returning().all();
+
+      enqueueEvent(
+        tx,
+        EventTypes.WORKFLOW_STARTED,
+        {
+          workflowId: workflow.id,
+          executionId,
+          triggeredBy,
+        },
+        correlationId
+      );
+
+      return created;
+    });
+
+    try {
+      const steps = JSON.parse(workflow.steps);
+      const results: any = {};
+      let currentStepId = steps.find((s: any) => s.type === 'start')?.id || steps[0]?.id;
+
+      while (currentStepId) {
+        const step = steps.find((s: any) => s.id === currentStepId);
+        if (!step) break;
+
+        const stepResult = await this.executeStep(step, context, execution);
+        results[step.id] = stepResult;
+
+        if (!stepResult.success) {
+          // Step failed, mark execution as failed
+          db.transaction(tx => {
+            tx.update(workflowExecutions)
+              .set({
+                status: 'failed',
+                error: stepResult.error,
+                results: JSON.stringify(results),
+                completedAt: new Date().toISOString(),
+              })
+              .where(eq(workflowExecutions.id, executionId))
+              .run();
+
+            enqueueEvent(
+              tx,
+              EventTypes.WORKFLOW_FAILED,
+              {
+                workflowId: workflow.id,
+                executionId,
+                stepId: step.id,
+                error: stepResult.error,
+              },
+              correlationId
+            );
+          });
+
+          return { success: false, error: stepResult.error, results };
+        }
+
+        // Also goes through the outbox so it is relayed in order with the other execution events
+        enqueueEvent(
+          db,
+          EventTypes.WORKFLOW_STEP_COMPLETED,
+          {
+            workflowId: workflow.id,
+            executionId,
+            stepId: step.id,
+            stepType: step.type,
+          },
+          correlationId
+        );
+
+        // Update context with step result
+        if (stepResult.result) {
+          context[`step_${step.id}`] = stepResult.result;
+        }
+
+        // Determine next step
+        if (step.nextSteps && step.nextSteps.length > 0) {
+          // For simplicity, just take the first next step
+          // In production, this could be conditional based on step results
+          currentStepId = step.nextSteps[0];
+        } else {
+          // No more steps
+          currentStepId = null;
+        }
+      }
+
+      // Mark execution as completed
+      db.transaction(tx => {
+        tx.update(workflowExecutions)
+          .set({
+            status: 'completed',
+            results: JSON.stringify(results),
+            completedAt: new Date().toISOString(),
+          })
+          .where(eq(workflowExecutions.id, executionId))
+          .run();
+
+        enqueueEvent(
+          tx,
+          EventTypes.WORKFLOW_COMPLETED,
+          {
+            workflowId: workflow.id,
+            executionId,
+            stepCount: Object.keys(results).length,
+          },
+          correlationId
+        );
+      });
+
+      return { success: true, results, executionId };
+    } catch (error) {
+      // Mark execution as failed
+      db.transaction(tx => {
+        tx.update(workflowExecutions)
+          .set({
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Workflow execution failed',
+            completedAt: new Date().toISOString(),
+          })
+          .where(eq(workflowExecutions.id, executionId))
+          .run();
+
+        enqueueEvent(
+          tx,
+          EventTypes.WORKFLOW_FAILED,
+          {
+            workflowId: workflow.id,
+            executionId,
+            error: error instanceof Error ? error.message : 'Workflow execution failed',
+          },
+          correlationId
+        );
+      });
+
+      throw error;
+    }
+  }
+}
+
+export const workflowEngine = new WorkflowEngine();
@@ -1,5 +1,17 @@
 import type { Context, Next } from 'hono';
 import type { Logger } from 'pino';
+import { createHash } from 'crypto';
+import {
+  hasPermission,
+  getTokenPermissions,
+  createJwksVerifier,
+  JwksUnavailableError,
+  SessionCheckUnavailableError,
+  type JwksVerifierOptions,
+  type AuditLog,
+  type AuditActor,
+  type AuditResource,
+} from 'shared-utils';
 
 // Local utility functions to avoid circular dependencies
 const createErrorResponse = (error: string, message?: string) => {
@@ -11,13 +23,27 @@ const createErrorResponse = (error: string, message?: string) => {
   };
 };
 
-const verifyToken = (token: string, secret: string): any => {
-  const jwt = require('jsonwebtoken');
-  try {
-    return jwt.verify(token, secret);
-  } catch (error) {
-    throw new Error('Invalid token');
+// Proxies in front of the services that append the address they received a
+// request from to X-Forwarded-For; entries to the left of theirs are client-supplied
+const trustedProxyHops = Math.max(0, parseInt(process.env.TRUST_PROXY || '0', 10) || 0);
+
+// The caller's address: the socket peer, or the entry the nearest trusted proxy
+// added to X-Forwarded-For. Hono on Bun gets the server as c.env.
+export const getClientIp = (c: Context, hops = trustedProxyHops): string | undefined => {
+  if (hops > 0) {
+    const forwarded = (c.req.header('x-forwarded-for') || '')
+      .split(',')
+      .map(ip => ip.trim())
+      .filter(Boolean);
+    if (forwarded.length > 0) {
+      return forwarded[Math.max(0, forwarded.length - hops)];
+    }
   }
+
+  const server = c.env as
+    | { requestIP?: (request: Request) => { address: string } | null }
+    | undefined;
+  return server?.requestIP?.(c.req.raw)?.address;
 };
 
 // Error handling middleware
@@ -45,41 +71,44 @@ export const requestLogger = (logger: Logger) => {
     const method = c.req.method;
     const url = c.req.url;
     const userAgent = c.req.header('user-agent') || '';
-    const ip = c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown';
+    const ip = getClientIp(c) || 'unknown';
 
     // Set logger in context for use in other middleware/handlers
     c.set('logger', logger);
 
-    logger.info({
-      method,
-      url,
-      userAgent,
-      ip,
-    }, 'Request started');
+    logger.info(
+      {
+        method,
+        url,
+        userAgent,
+        ip,
+      },
+      'Request started'
+    );
 
     await next();
 
     const duration = Date.now() - start;
     const status = c.res.status;
 
-    logger.info({
-      method,
-      url,
-      status,
-      duration,
-      ip,
-    }, 'Request completed');
+    logger.info(
+      {
+        method,
+        url,
+        status,
+        duration,
+        ip,
+      },
+      'Request completed'
+    );
   };
 };
 
 // CORS middleware
-export const cors = (options: {
-  origin: string[];
-  credentials: boolean;
-}) => {
+export const cors = (options: { origin: string[]; credentials: boolean }) => {
   return async (c: Context, next: Next) => {
     const origin = c.req.header('origin');
-    
+
     if (origin && options.origin.includes(origin)) {
       c.res.headers.set('Access-Control-Allow-Origin', origin);
     } else if (options.origin.includes('*')) {
@@ -91,7 +120,10 @@ export const cors = (options: {
     }
 
     c.res.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-    c.res.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+    c.res.headers.set(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Authorization, X-Requested-With'
+    );
 
     if (c.req.method === 'OPTIONS') {
       return c.text('', 204);
@@ -110,7 +142,7 @@ export const securityHeaders = () => {
     c.res.headers.set('X-XSS-Protection', '1; mode=block');
     c.res.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
     c.res.headers.set('Permissions-Policy', 'geolocation=(), microphone=(), camera=()');
-    
+
     // Content Security Policy
     const csp = [
       "default-src 'self'",
@@ -121,24 +153,30 @@ export const securityHeaders = () => {
       "connect-src 'self'",
       "frame-ancestors 'none'",
       "base-uri 'self'",
-      "form-action 'self'"
+      "form-action 'self'",
     ].join('; ');
     c.res.headers.set('Content-Security-Policy', csp);
-    
+
     // HSTS in production
     if (process.env.NODE_ENV === 'production') {
-      c.res.headers.set('Strict-Transport-Security', 'max-age=31536000; includeSubDomains; preload');
+      c.res.headers.set(
+        'Strict-Transport-Security',
+        'max-age=31536000; includeSubDomains; preload'
+      );
     }
-    
+
     await next();
   };
 };
 
-// JWT Authentication middleware
-export const jwtAuth = (secret: string, options: { optional?: boolean } = {}) => {
+// JWT Authentication middleware; tokens are verified against auth-service's JWKS
+// and refused once their session is revoked
+export const jwtAuth = (jwks: JwksVerifierOptions, options: { optional?: boolean } = {}) => {
+  const verifyToken = createJwksVerifier(jwks);
+
   return async (c: Context, next: Next) => {
     const authorization = c.req.header('authorization');
-    
+
     if (!authorization) {
       if (options.optional) {
         return await next();
@@ -147,17 +185,23 @@ export const jwtAuth = (secret: string, options: { optional?: boolean } = {}) =>
     }
 
     const token = authorization.replace('Bearer ', '');
-    
+
+    let payload: any;
     try {
-      const payload = verifyToken(token, secret);
-      c.set('user', payload);
-      await next();
+      payload = await verifyToken(token);
     } catch (error) {
+      if (error instanceof JwksUnavailableError || error instanceof SessionCheckUnavailableError) {
+        return c.json(createErrorResponse('Token verification unavailable'), 503);
+      }
       if (options.optional) {
         return await next();
       }
       return c.json(createErrorResponse('Invalid token'), 401);
     }
+
+    c.set('user', payload);
+    c.set('permissions', getTokenPermissions(payload));
+    await next();
   };
 };
 
@@ -165,7 +209,7 @@ export const jwtAuth = (secret: string, options: { optional?: boolean } = {}) =>
 export const requireRole = (roles: string[]) => {
   return async (c: Context, next: Next) => {
     const user = c.get('user');
-    
+
     if (!user) {
       return c.json(createErrorResponse('Authentication required'), 401);
     }
@@ -178,6 +222,197 @@ export const requireRole = (roles: string[]) => {
   };
 };
 
+// API key authentication for service-to-service calls
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId?: string;
+  permissions: string[];
+}
+
+interface ApiKeyValidationOptions {
+  authServiceUrl: string;
+  cacheTtlMs?: number;
+  timeoutMs?: number;
+}
+
+const API_KEY_CACHE_MAX_ENTRIES = 1000;
+
+// Validates keys against auth-service. Results, including rejections, are cached by
+// key hash for `cacheTtlMs`, so revoking a key takes up to that long to reach other
+// services. Throws when auth-service cannot give an answer.
+const createApiKeyValidator = (options: ApiKeyValidationOptions) => {
+  const { authServiceUrl, cacheTtlMs = 60000, timeoutMs = 5000 } = options;
+  const cache = new Map<string, { principal: ApiKeyPrincipal | null; expiresAt: number }>();
+
+  return async (apiKey: string): Promise<ApiKeyPrincipal | null> => {
+    const cacheKey = createHash('sha256').update(apiKey).digest('hex');
+
+    const cached = cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.principal;
+    }
+
+    const response = await fetch(`${authServiceUrl}/auth/api-keys/validate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiKey }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    // Anything but an explicit answer is an outage and is not cached
+    if (response.status !== 200 && response.status !== 401) {
+      throw new Error(`API key validation failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success: boolean; data?: ApiKeyPrincipal };
+    const principal = result.success && result.data ? result.data : null;
+
+    if (cache.size >= API_KEY_CACHE_MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(cacheKey, { principal, expiresAt: Date.now() + cacheTtlMs });
+
+    return principal;
+  };
+};
+
+// Accepts only an X-API-Key header and requires every listed permission
+export const apiKeyAuth = (
+  options: ApiKeyValidationOptions & {
+    permissions?: string[];
+    optional?: boolean; // Let requests without a key through
+  }
+) => {
+  const { permissions = [], optional = false } = options;
+  const validateApiKey = createApiKeyValidator(options);
+
+  return async (c: Context, next: Next) => {
+    const apiKey = c.req.header('x-api-key');
+
+    if (!apiKey) {
+      if (optional) {
+        return await next();
+      }
+      return c.json(createErrorResponse('API key required'), 401);
+    }
+
+    let principal: ApiKeyPrincipal | null;
+    try {
+      principal = await validateApiKey(apiKey);
+    } catch (error) {
+      return c.json(createErrorResponse('API key validation unavailable'), 503);
+    }
+
+    if (!principal) {
+      return c.json(createErrorResponse('Invalid API key'), 401);
+    }
+
+    const missing = permissions.filter(
+      permission => !hasPermission(principal!.permissions, permission)
+    );
+    if (missing.length > 0) {
+      return c.json(
+        createErrorResponse('Insufficient permissions', `Missing: ${missing.join(', ')}`),
+        403
+      );
+    }
+
+    c.set('apiKey', principal);
+    c.set('permissions', principal.permissions);
+    await next();
+  };
+};
+
+// Authenticates users by bearer JWT and services by X-API-Key, and stores the
+// caller's permissions for requirePermission. With `allowAnonymous`, requests
+// without credentials get through with no permissions, so they only reach
+// routes that require none.
+export const authenticate = (options: {
+  jwks: JwksVerifierOptions;
+  apiKeys?: ApiKeyValidationOptions; // Accept API keys
+  allowAnonymous?: boolean;
+}) => {
+  const verifyToken = createJwksVerifier(options.jwks);
+  const validateApiKey = options.apiKeys ? createApiKeyValidator(options.apiKeys) : undefined;
+
+  return async (c: Context, next: Next) => {
+    const authorization = c.req.header('authorization');
+    const apiKey = c.req.header('x-api-key');
+
+    if (authorization) {
+      let payload: any;
+      try {
+        payload = await verifyToken(authorization.replace('Bearer ', ''));
+      } catch (error) {
+        if (
+          error instanceof JwksUnavailableError ||
+          error instanceof SessionCheckUnavailableError
+        ) {
+          return c.json(createErrorResponse('Token verification unavailable'), 503);
+        }
+        return c.json(createErrorResponse('Invalid token'), 401);
+      }
+
+      c.set('user', payload);
+      c.set('permissions', getTokenPermissions(payload));
+      return await next();
+    }
+
+    if (apiKey && validateApiKey) {
+      let principal: ApiKeyPrincipal | null;
+      try {
+        principal = await validateApiKey(apiKey);
+      } catch (error) {
+        return c.json(createErrorResponse('API key validation unavailable'), 503);
+      }
+
+      if (!principal) {
+        return c.json(createErrorResponse('Invalid API key'), 401);
+      }
+
+      c.set('apiKey', principal);
+      c.set('permissions', principal.permissions);
+      return await next();
+    }
+
+    if (options.allowAnonymous) {
+      c.set('anonymous', true);
+      c.set('permissions', []);
+      return await next();
+    }
+
+    return c.json(
+      createErrorResponse(
+        validateApiKey
+          ? 'Authorization header or API key required'
+          : 'Authorization header required'
+      ),
+      401
+    );
+  };
+};
+
+// Requires every listed permission from the caller authenticated upstream
+export const requirePermission = (...permissions: string[]) => {
+  return async (c: Context, next: Next) => {
+    const granted = c.get('permissions') as string[] | undefined;
+
+    if (!granted || c.get('anonymous')) {
+      return c.json(createErrorResponse('Authentication required'), 401);
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(granted, permission));
+    if (missing.length > 0) {
+      return c.json(
+        createErrorResponse('Insufficient permissions', `Missing: ${missing.join(', ')}`),
+        403
+      );
+    }
+
+    await next();
+  };
+};
+
 // Request validation middleware
 export const validateBody = <T>(schema: any) => {
   return async (c: Context, next: Next) => {
@@ -189,7 +424,13 @@ export const validateBody = <T>(schema: any) => {
     } catch (error) {
       const logger = c.get('logger') as Logger;
       logger.error(error, 'Request validation error');
-      return c.json(createErrorResponse('Validation error', error instanceof Error ? error.message : 'Invalid request body'), 400);
+      return c.json(
+        createErrorResponse(
+          'Validation error',
+          error instanceof Error ? error.message : 'Invalid request body'
+        ),
+        400
+      );
     }
   };
 };
@@ -204,7 +445,13 @@ export const validateQuery = <T>(schema: any) => {
     } catch (error) {
       const logger = c.get('logger') as Logger;
       logger.error(error, 'Query validation error');
-      return c.json(createErrorResponse('Validation error', error instanceof Error ? error.message : 'Invalid query parameters'), 400);
+      return c.json(
+        createErrorResponse(
+          'Validation error',
+          error instanceof Error ? error.message : 'Invalid query parameters'
+        ),
+        400
+      );
     }
   };
 };
@@ -253,18 +500,18 @@ export const rateLimit = (options: {
   const {
     windowMs,
     maxRequests,
-    keyGenerator = (c) => c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'unknown',
+    keyGenerator = c => getClientIp(c) || 'unknown',
     store = defaultStore,
     skipSuccessfulRequests = false,
-    skipFailedRequests = false
+    skipFailedRequests = false,
   } = options;
 
   return async (c: Context, next: Next) => {
     const key = `rate_limit:${keyGenerator(c)}`;
     const now = Date.now();
-    
+
     let record = await store.get(key);
-    
+
     if (!record || now > record.resetTime) {
       record = {
         count: 0,
@@ -276,7 +523,7 @@ export const rateLimit = (options: {
       c.res.headers.set('X-RateLimit-Limit', maxRequests.toString());
       c.res.headers.set('X-RateLimit-Remaining', '0');
       c.res.headers.set('X-RateLimit-Reset', Math.ceil(record.resetTime / 1000).toString());
-      
+
       return c.json(createErrorResponse('Too many requests'), 429);
     }
 
@@ -305,7 +552,7 @@ export const rateLimit = (options: {
 export const requireContentType = (contentType: string) => {
   return async (c: Context, next: Next) => {
     const requestContentType = c.req.header('content-type');
-    
+
     if (!requestContentType || !requestContentType.includes(contentType)) {
       return c.json(createErrorResponse(`Content-Type must be ${contentType}`), 400);
     }
@@ -375,4 +622,97 @@ export const sanitizeInput = () => {
 
     await next();
   };
-};
\ No newline at end of file
+};
+
+// What a route knows about the action it performed, for auditTrail. Without it
+// the action is derived from the method and route and the resource from the path.
+export interface AuditDetails {
+  action?: string;
+  actor?: AuditActor;
+  resource?: AuditResource;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+// Merge details into the request's audit entry; `false` leaves the request out
+// of the audit log
+export const setAuditDetails = (c: Context, details: AuditDetails | false) => {
+  const current = c.get('audit') as AuditDetails | false | undefined;
+  c.set('audit', details === false || current === false ? false : { ...current, ...details });
+};
+
+// The caller as set by authentication: `user` and `apiKey` on the context
+// (shared middleware) or as properties of it (services' own jwtAuth)
+const resolveAuditActor = (c: Context): AuditActor => {
+  const user = c.get('user') ?? (c as any).user;
+  if (user) {
+    return user.client_id && user.userId === user.client_id
+      ? { type: 'client', id: user.client_id }
+      : { type: 'user', id: user.userId, email: user.email };
+  }
+
+  const apiKey = (c.get('apiKey') ?? (c as any).apiKey) as ApiKeyPrincipal | undefined;
+  if (apiKey) {
+    return { type: 'api_key', id: apiKey.keyId };
+  }
+
+  return { type: 'anonymous' };
+};
+
+// '/webhooks/configs/:id/test' → { type: 'configs', id: <id> }
+const resolveAuditResource = (c: Context): AuditResource => {
+  const segments = c.req.routePath.split('/').filter(segment => segment && segment !== '*');
+  const paramIndex = segments.map(segment => segment.startsWith(':')).lastIndexOf(true);
+
+  if (paramIndex > 0) {
+    const name = segments[paramIndex].slice(1).replace(/\{.*\}$/, '');
+    return { type: segments[paramIndex - 1], id: c.req.param(name) };
+  }
+
+  return { type: segments[segments.length - 1] || 'service' };
+};
+
+// Records every mutating request (successful or not) in the audit log once it
+// has been handled. Failures to record are logged and never fail the request.
+export const auditTrail = (
+  auditLog: AuditLog,
+  options: {
+    skip?: string[]; // Paths left out, e.g. high-volume service-to-service calls
+  } = {}
+) => {
+  const mutating = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+  const skip = new Set(options.skip || []);
+
+  return async (c: Context, next: Next) => {
+    await next();
+
+    if (!mutating.has(c.req.method) || skip.has(c.req.path) || !auditLog.isConnected()) return;
+
+    // Unknown paths and missing resources only count when the route described the action
+    const details = c.get('audit') as AuditDetails | false | undefined;
+    if (details === false || (c.res.status === 404 && !details)) return;
+
+    try {
+      await auditLog.record({
+        action: details?.action || `${c.req.method} ${c.req.routePath}`,
+        actor: details?.actor || resolveAuditActor(c),
+        resource: details?.resource || resolveAuditResource(c),
+        outcome: c.res.status < 400 ? 'success' : 'failure',
+        before: details?.before,
+        after: details?.after,
+        ipAddress: getClientIp(c),
+        userAgent: c.req.header('user-agent'),
+        correlationId: c.req.header('x-correlation-id'),
+        metadata: {
+          ...details?.metadata,
+          method: c.req.method,
+          path: c.req.path,
+          status: c.res.status,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry:', error);
+    }
+  };
+};
@@ -0,0 +1,387 @@
+import { createClient, WatchError } from 'redis';
+import { createHash } from 'crypto';
+
+// Who performed an action: a signed-in user, an API key, an OAuth client using
+// its own credentials, or nobody yet (e.g. a failed login)
+export interface AuditActor {
+  type: 'user' | 'api_key' | 'client' | 'anonymous';
+  id?: string;
+  email?: string;
+}
+
+export interface AuditResource {
+  type: string;
+  id?: string;
+}
+
+export type AuditOutcome = 'success' | 'failure';
+
+// Field-level changes of a resource; secrets only show that they changed
+export type AuditChanges = Record<string, { before: any; after: any }>;
+
+export interface AuditRecord {
+  action: string; // e.g. 'user.login', 'webhook.update'
+  actor: AuditActor;
+  resource: AuditResource;
+  outcome: AuditOutcome;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  ipAddress?: string;
+  userAgent?: string;
+  correlationId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface AuditEntry extends Omit<AuditRecord, 'before' | 'after'> {
+  id: string; // Stream entry ID; also the query cursor
+  sequence: number;
+  service: string;
+  timestamp: string;
+  changes?: AuditChanges;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  actorType?: AuditActor['type'];
+  action?: string; // Exact action or a 'namespace.*' prefix
+  resourceType?: string;
+  resourceId?: string;
+  service?: string;
+  outcome?: AuditOutcome;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  cursor?: string; // ID of the last entry of the previous page
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  lastSequence?: number;
+  brokenAt?: { id: string; sequence: number; reason: string };
+}
+
+export interface AuditLogOptions {
+  service: string;
+  scanBatchSize?: number; // Entries read per round trip while filtering
+}
+
+const AUDIT_STREAM = 'audit:log';
+const AUDIT_HEAD = 'audit:head'; // { sequence, hash } of the newest entry
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_APPEND_ATTEMPTS = 10;
+
+const SECRET_FIELD = /password|secret|token|hash|privatekey|authorization|api[-_]?key|credential/i;
+
+// Replace the values of secret-looking fields, at any depth (e.g. headers or auth settings)
+const redactSecrets = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        SECRET_FIELD.test(key) && nested !== undefined ? '[REDACTED]' : redactSecrets(nested),
+      ])
+    );
+  }
+  return value;
+};
+
+// JSON with object keys sorted, so an entry hashes the same after a round trip
+const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const hashEntry = (prevHash: string, entry: Omit<AuditEntry, 'id' | 'hash'>): string =>
+  createHash('sha256')
+    .update(`${prevHash}\n${canonicalJson(entry)}`)
+    .digest('hex');
+
+// What an entry's hash covers: everything but its stream ID and the hash itself
+const signedFields = ({
+  id: _id,
+  hash: _hash,
+  ...fields
+}: AuditEntry): Omit<AuditEntry, 'id' | 'hash'> => fields;
+
+// Top-level fields that differ between two versions of a resource. A missing
+// side (creation or deletion) records every field of the other one.
+export const diffChanges = (
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): AuditChanges => {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (canonicalJson(previous) === canonicalJson(next)) continue;
+
+    changes[field] = {
+      before: redactSecrets({ [field]: previous })[field],
+      after: redactSecrets({ [field]: next })[field],
+    };
+  }
+
+  return changes;
+};
+
+const matchesQuery = (entry: AuditEntry, query: AuditQuery): boolean => {
+  if (query.actorId && entry.actor.id !== query.actorId) return false;
+  if (query.actorType && entry.actor.type !== query.actorType) return false;
+  if (query.resourceType && entry.resource.type !== query.resourceType) return false;
+  if (query.resourceId && entry.resource.id !== query.resourceId) return false;
+  if (query.service && entry.service !== query.service) return false;
+  if (query.outcome && entry.outcome !== query.outcome) return false;
+  if (query.from && entry.timestamp < query.from) return false;
+  if (query.to && entry.timestamp > query.to) return false;
+  if (query.action) {
+    return query.action.endsWith('.*')
+      ? entry.action.startsWith(query.action.slice(0, -1))
+      : entry.action === query.action;
+  }
+  return true;
+};
+
+// Append-only audit trail shared by all services. Every entry carries the hash
+// of the one before it, so editing or removing an entry breaks the chain from
+// that point on (see verify).
+export class AuditLog {
+  private client;
+  private connected = false;
+  private service: string;
+  private scanBatchSize: number;
+
+  constructor(
+    redisConfig: { host: string; port: number; password?: string; db?: number },
+    options: AuditLogOptions
+  ) {
+    this.service = options.service;
+    this.scanBatchSize = options.scanBatchSize ?? 500;
+
+    this.client = createClient({
+      socket: {
+        host: redisConfig.host,
+        port: redisConfig.port,
+      },
+      password: redisConfig.password,
+      database: redisConfig.db || 0,
+    });
+
+    this.client.on('error', err => {
+      console.error('Redis audit log client error:', err);
+    });
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    await this.client.connect();
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected) return;
+
+    await this.client.disconnect();
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Append an entry. The head is watched so concurrent writers (from any
+  // service) retry instead of forking the chain.
+  async record(record: AuditRecord): Promise<AuditEntry> {
+    if (!this.connected) {
+      throw new Error('AuditLog not connected');
+    }
+
+    const { before, after, ...fields } = record;
+    const changes = before || after ? diffChanges(before, after) : undefined;
+
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const entry = await this.client.executeIsolated(async isolated => {
+        await isolated.watch(AUDIT_HEAD);
+        const head = await isolated.get(AUDIT_HEAD);
+        const previous = head ? (JSON.parse(head) as { sequence: number; hash: string }) : null;
+
+        const unsigned: Omit<AuditEntry, 'id' | 'hash'> = {
+          ...fields,
+          ...(changes && { changes }),
+          sequence: (previous?.sequence ?? 0) + 1,
+          service: this.service,
+          timestamp: new Date().toISOString(),
+          prevHash: previous?.hash ?? GENESIS_HASH,
+        };
+        const hash = hashEntry(unsigned.prevHash, unsigned);
+
+        const results = await isolated
+          .multi()
+          .xAdd(AUDIT_STREAM, '*', { entry: JSON.stringify({ ...unsigned, hash }) })
+          .set(AUDIT_HEAD, JSON.stringify({ sequence: unsigned.sequence, hash }))
+          .exec()
+          .catch(error => {
+            if (error instanceof WatchError) return null;
+            throw error;
+          });
+
+        return results ? { ...unsigned, hash, id: String(results[0]) } : null;
+      });
+
+      if (entry) return entry;
+    }
+
+    throw new Error('Audit log is too busy, entry not recorded');
+  }
+
+  // Newest entries first. Filters are applied while scanning back from the
+  // cursor (or the end of the time range), so narrow time ranges are cheapest.
+  async query(query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; nextCursor?: string }> {
+    if (!this.connected) {
+      throw new Error('AuditLog not connected');
+    }
+
+    const limit = query.limit ?? 50;
+    const start = query.from ? `${new Date(query.from).getTime()}-0` : '-';
+    let end = query.cursor
+      ? `(${query.cursor}`
+      : query.to
+        ? `${new Date(query.to).getTime()}-18446744073709551615`
+        : '+';
+    const entries: AuditEntry[] = [];
+
+    while (entries.length < limit) {
+      const batch = await this.client.xRevRange(AUDIT_STREAM, end, start, {
+        COUNT: this.scanBatchSize,
+      });
+      if (batch.length === 0) {
+        return { entries };
+      }
+
+      for (const item of batch) {
+        const entry = this.decodeEntry(item.id, item.message.entry);
+        if (!matchesQuery(entry, query)) continue;
+
+        entries.push(entry);
+        if (entries.length === limit) {
+          return { entries, nextCursor: entry.id };
+        }
+      }
+
+      end = `(${batch[batch.length - 1].id}`;
+    }
+
+    return { entries };
+  }
+
+  // Recompute the chain oldest first. A range starting after the first entry
+  // trusts the prevHash of its first entry.
+  async verify(options: { fromId?: string; limit?: number } = {}): Promise<AuditVerification> {
+    if (!this.connected) {
+      throw new Error('AuditLog not connected');
+    }
+
+    const limit = options.limit ?? Infinity;
+    let start = options.fromId || '-';
+    let previous: { sequence: number; hash: string } | undefined;
+    let checked = 0;
+
+    while (checked < limit) {
+      const batch = await this.client.xRange(AUDIT_STREAM, start, '+', {
+        COUNT: Math.min(this.scanBatchSize, limit - checked),
+      });
+      if (batch.length === 0) break;
+
+      for (const item of batch) {
+        const broken = (sequence: number, reason: string): AuditVerification => ({
+          valid: false,
+          checked,
+          lastSequence: previous?.sequence,
+          brokenAt: { id: item.id, sequence, reason },
+        });
+
+        let entry: AuditEntry;
+        try {
+          entry = this.decodeEntry(item.id, item.message.entry);
+        } catch {
+          return broken((previous?.sequence ?? 0) + 1, 'Unreadable entry');
+        }
+
+        if (previous && entry.sequence !== previous.sequence + 1) {
+          return broken(entry.sequence, `Expected sequence ${previous.sequence + 1}`);
+        }
+        if (previous && entry.prevHash !== previous.hash) {
+          return broken(entry.sequence, 'Previous hash does not match');
+        }
+        if (
+          !previous &&
+          !options.fromId &&
+          (entry.sequence !== 1 || entry.prevHash !== GENESIS_HASH)
+        ) {
+          return broken(entry.sequence, 'Log does not start at the first entry');
+        }
+        if (hashEntry(entry.prevHash, signedFields(entry)) !== entry.hash) {
+          return broken(entry.sequence, 'Entry hash does not match its contents');
+        }
+
+        previous = { sequence: entry.sequence, hash: entry.hash };
+        checked++;
+      }
+
+      start = `(${batch[batch.length - 1].id}`;
+    }
+
+    // Entries removed from the end leave the head pointing past the last one
+    if (!options.fromId && checked < limit) {
+      const head = await this.client.get(AUDIT_HEAD);
+      const expected = head ? (JSON.parse(head) as { sequence: number; hash: string }) : null;
+      if (
+        expected &&
+        (expected.sequence !== previous?.sequence || expected.hash !== previous?.hash)
+      ) {
+        return {
+          valid: false,
+          checked,
+          lastSequence: previous?.sequence,
+          brokenAt: { id: '', sequence: expected.sequence, reason: 'Newest entries are missing' },
+        };
+      }
+    }
+
+    return { valid: true, checked, lastSequence: previous?.sequence };
+  }
+
+  private decodeEntry(id: string, data: string): AuditEntry {
+    return { ...JSON.parse(data), id };
+  }
+}
+
+// Helper function to create an audit log instance
+export function createAuditLog(
+  redisConfig: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  },
+  options: AuditLogOptions
+): AuditLog {
+  return new AuditLog(redisConfig, options);
+}
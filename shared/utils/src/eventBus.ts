@@ -1,4 +1,6 @@
 import { createClient } from 'redis';
+import { hostname } from 'os';
+import type { EventSchemaRegistry, TypedEvent } from './eventSchemas';
 
 export interface Event {
   id: string;
@@ -10,17 +12,164 @@ export interface Event {
   version?: string;
 }
 
+// Events are published with a generated ID and timestamp unless the caller supplies
+// them (e.g. an outbox relay re-publishing the same event after a failure)
+export type PublishableEvent = Omit<Event, 'id' | 'timestamp'> &
+  Partial<Pick<Event, 'id' | 'timestamp'>>;
+
 export interface EventHandler {
   (event: Event): Promise<void>;
 }
 
+// 'pubsub' is fire-and-forget; 'streams' persists events in Redis Streams and
+// delivers them through consumer groups with acknowledgements
+export type EventBusMode = 'pubsub' | 'streams';
+
+export interface EventBusOptions {
+  mode?: EventBusMode;
+  consumerGroup?: string; // Shared by all instances of a service (streams mode)
+  consumerName?: string; // Unique per instance within the group (streams mode)
+  maxStreamLength?: number; // Approximate number of entries kept per stream
+  batchSize?: number; // Entries read or reclaimed per call
+  blockMs?: number; // How long a read waits for new entries
+  claimIdleMs?: number; // Pending entries idle this long are reclaimed
+  claimIntervalMs?: number; // How often pending entries are checked
+  schemas?: EventSchemaRegistry; // Validates published payloads and upcasts delivered events
+}
+
+// In streams mode a failed entry is left pending and attempted again once it has
+// been idle for claimIdleMs, so only maxAttempts applies there
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  initialDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+}
+
+// Events not matching a filter are skipped (and acknowledged) without calling the handler
+export interface EventFilter {
+  source?: string | string[];
+  correlationId?: string;
+}
+
+export interface SubscriptionOptions {
+  name?: string; // Identifies the subscription in dead-letter entries
+  retry?: Partial<RetryPolicy>;
+  deadLetter?: boolean; // Store the event once all attempts failed (default true)
+  filter?: EventFilter;
+  idempotent?: boolean; // Skip event IDs this subscription already handled (default false)
+}
+
+interface Subscription {
+  name: string;
+  handler: EventHandler;
+  retry: RetryPolicy;
+  deadLetter: boolean;
+  filter?: EventFilter;
+  idempotent: boolean;
+}
+
+interface PatternSubscription {
+  regex: RegExp;
+  subscriptions: Subscription[];
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  event: Event;
+  consumerGroup: string;
+  subscription: string;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+// Event type patterns use Redis glob syntax restricted to `*` (any run of
+// characters) and `?` (a single character)
+const EVENT_PATTERN = /^[\w.*?-]+$/;
+
+const patternToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.\-]/, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+const matchesFilter = (filter: EventFilter | undefined, event: Event): boolean => {
+  if (!filter) return true;
+
+  if (filter.source !== undefined) {
+    const sources = Array.isArray(filter.source) ? filter.source : [filter.source];
+    if (!sources.includes(event.source)) return false;
+  }
+
+  if (filter.correlationId !== undefined && event.correlationId !== filter.correlationId) {
+    return false;
+  }
+
+  return true;
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+};
+
+export interface EventHistoryQuery {
+  type?: string;
+  source?: string;
+  correlationId?: string;
+  from?: string | number | Date; // Inclusive time window
+  to?: string | number | Date;
+  order?: 'asc' | 'desc'; // Default newest first
+}
+
+export interface ReplayOptions {
+  fromId?: string;
+  fromTimestamp?: string | number | Date;
+  toId?: string;
+  toTimestamp?: string | number | Date;
+  limit?: number;
+}
+
+const ALL_EVENTS_STREAM = 'events:stream:all';
+const UNDECODABLE_SUBSCRIPTION = '(decode)'; // Dead-letter entries for messages no handler could be given
+const DEAD_LETTER_ENTRIES = 'events:dlq:entries';
+const PROCESSED_EVENT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const HISTORY_BATCH_SIZE = 500;
+const CORRELATION_HISTORY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
 export class EventBus {
   private publisherClient;
   private subscriberClient;
-  private handlers: Map<string, EventHandler[]> = new Map();
+  private handlers: Map<string, Subscription[]> = new Map();
+  private patternHandlers: Map<string, PatternSubscription> = new Map();
   private connected = false;
+  private options: Required<Omit<EventBusOptions, 'schemas'>>;
+  private schemas?: EventSchemaRegistry;
+  private consuming = false;
+  private claimTimer?: ReturnType<typeof setInterval>;
+  private claiming = false;
+
+  constructor(
+    redisConfig: { host: string; port: number; password?: string; db?: number },
+    options: EventBusOptions = {}
+  ) {
+    this.options = {
+      mode: options.mode || 'pubsub',
+      consumerGroup: options.consumerGroup || 'default',
+      consumerName: options.consumerName || `${hostname()}-${process.pid}`,
+      maxStreamLength: options.maxStreamLength ?? 100000,
+      batchSize: options.batchSize ?? 50,
+      blockMs: options.blockMs ?? 5000,
+      claimIdleMs: options.claimIdleMs ?? 60000,
+      claimIntervalMs: options.claimIntervalMs ?? 30000,
+    };
+    this.schemas = options.schemas;
 
-  constructor(redisConfig: { host: string; port: number; password?: string; db?: number }) {
     // Separate clients for publishing and subscribing
     const clientConfig = {
       socket: {
@@ -34,11 +183,11 @@ export class EventBus {
     this.publisherClient = createClient(clientConfig);
     this.subscriberClient = createClient(clientConfig);
 
-    this.publisherClient.on('error', (err) => {
+    this.publisherClient.on('error', err => {
       console.error('Redis publisher client error:', err);
     });
 
-    this.subscriberClient.on('error', (err) => {
+    this.subscriberClient.on('error', err => {
       console.error('Redis subscriber client error:', err);
     });
   }
@@ -46,10 +195,7 @@ export class EventBus {
   async connect(): Promise<void> {
     if (this.connected) return;
 
-    await Promise.all([
-      this.publisherClient.connect(),
-      this.subscriberClient.connect(),
-    ]);
+    await Promise.all([this.publisherClient.connect(), this.subscriberClient.connect()]);
 
     this.connected = true;
     console.log('EventBus connected to Redis');
@@ -58,52 +204,127 @@ export class EventBus {
   async disconnect(): Promise<void> {
     if (!this.connected) return;
 
-    await Promise.all([
-      this.publisherClient.disconnect(),
-      this.subscriberClient.disconnect(),
-    ]);
+    // Stop stream consumption; the pending blocking read fails once the client disconnects
+    this.consuming = false;
+    if (this.claimTimer) {
+      clearInterval(this.claimTimer);
+      this.claimTimer = undefined;
+    }
+
+    await Promise.all([this.publisherClient.disconnect(), this.subscriberClient.disconnect()]);
 
     this.connected = false;
     console.log('EventBus disconnected from Redis');
   }
 
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getMode(): EventBusMode {
+    return this.options.mode;
+  }
+
+  private getStreamKey(eventType: string): string {
+    return eventType === '*' ? ALL_EVENTS_STREAM : `events:stream:${eventType}`;
+  }
+
   // Publish an event
-  async publish(event: Omit<Event, 'id' | 'timestamp'>): Promise<void> {
+  async publish(event: PublishableEvent): Promise<void> {
     if (!this.connected) {
       throw new Error('EventBus not connected');
     }
 
+    await this.send(this.prepareEvent(event));
+  }
+
+  // Fill in the ID and timestamp; registered event types are validated against
+  // the given version (latest by default) and throw when the payload is invalid
+  private prepareEvent(event: PublishableEvent): Event {
     const fullEvent: Event = {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       ...event,
     };
 
-    const eventData = JSON.stringify(fullEvent);
-    
-    // Publish to both specific type channel and general events channel
-    await Promise.all([
-      this.publisherClient.publish(`events:${event.type}`, eventData),
-      this.publisherClient.publish('events:all', eventData),
-    ]);
+    if (this.schemas?.has(fullEvent.type)) {
+      fullEvent.version =
+        fullEvent.version || String(this.schemas.getLatestVersion(fullEvent.type));
+      fullEvent.data = this.schemas.validate(fullEvent.type, fullEvent.data, fullEvent.version);
+    }
+
+    return fullEvent;
+  }
+
+  private async send(event: Event): Promise<void> {
+    const eventData = JSON.stringify(event);
+
+    if (this.options.mode === 'streams') {
+      // Append to both the type stream and the stream of all events
+      const trim = {
+        TRIM: {
+          strategy: 'MAXLEN' as const,
+          strategyModifier: '~' as const,
+          threshold: this.options.maxStreamLength,
+        },
+      };
+
+      await Promise.all([
+        this.publisherClient.xAdd(this.getStreamKey(event.type), '*', { event: eventData }, trim),
+        this.publisherClient.xAdd(ALL_EVENTS_STREAM, '*', { event: eventData }, trim),
+      ]);
+    } else {
+      // Publish to both specific type channel and general events channel
+      await Promise.all([
+        this.publisherClient.publish(`events:${event.type}`, eventData),
+        this.publisherClient.publish('events:all', eventData),
+      ]);
+    }
 
     console.log(`Published event: ${event.type} from ${event.source}`);
   }
 
+  private createSubscription(handler: EventHandler, options: SubscriptionOptions): Subscription {
+    return {
+      name: options.name || handler.name || 'anonymous',
+      handler,
+      retry: { ...DEFAULT_RETRY_POLICY, ...options.retry },
+      deadLetter: options.deadLetter ?? true,
+      filter: options.filter,
+      idempotent: options.idempotent ?? false,
+    };
+  }
+
   // Subscribe to events of a specific type
-  async subscribe(eventType: string, handler: EventHandler): Promise<void> {
+  async subscribe<T extends string>(
+    eventType: T,
+    handler: (event: TypedEvent<T>) => Promise<void>,
+    options: SubscriptionOptions = {}
+  ): Promise<void> {
     if (!this.connected) {
       throw new Error('EventBus not connected');
     }
 
-    // Add handler to registry
-    if (!this.handlers.has(eventType)) {
-      this.handlers.set(eventType, []);
+    // Delivered events are upcast to the latest version, matching the typed payload
+    const subscription = this.createSubscription(handler as EventHandler, options);
+
+    // Add handler to registry; the channel listener dispatches to every
+    // registered handler, so only subscribe to the channel once
+    if (this.handlers.has(eventType)) {
+      this.handlers.get(eventType)!.push(subscription);
+      return;
     }
-    this.handlers.get(eventType)!.push(handler);
+    if (this.options.mode === 'streams') {
+      await this.ensureConsumerGroup(eventType);
+      this.handlers.set(eventType, [subscription]);
+      this.startConsuming();
+      console.log(`Subscribed to events: ${eventType}`);
+      return;
+    }
+    this.handlers.set(eventType, [subscription]);
 
     // Subscribe to the channel
-    await this.subscriberClient.subscribe(`events:${eventType}`, (message) => {
+    await this.subscriberClient.subscribe(`events:${eventType}`, message => {
       this.handleEvent(eventType, message);
     });
 
@@ -111,68 +332,678 @@ export class EventBus {
   }
 
   // Subscribe to all events
-  async subscribeToAll(handler: EventHandler): Promise<void> {
+  async subscribeToAll(handler: EventHandler, options: SubscriptionOptions = {}): Promise<void> {
     if (!this.connected) {
       throw new Error('EventBus not connected');
     }
 
+    const subscription = this.createSubscription(handler, options);
+
     // Add handler to registry
-    if (!this.handlers.has('*')) {
-      this.handlers.set('*', []);
+    if (this.handlers.has('*')) {
+      this.handlers.get('*')!.push(subscription);
+      return;
+    }
+    if (this.options.mode === 'streams') {
+      await this.ensureConsumerGroup('*');
+      this.handlers.set('*', [subscription]);
+      this.startConsuming();
+      console.log('Subscribed to all events');
+      return;
     }
-    this.handlers.get('*')!.push(handler);
+    this.handlers.set('*', [subscription]);
 
     // Subscribe to all events channel
-    await this.subscriberClient.subscribe('events:all', (message) => {
+    await this.subscriberClient.subscribe('events:all', message => {
       this.handleEvent('*', message);
     });
 
     console.log('Subscribed to all events');
   }
 
-  // Handle incoming events
-  private async handleEvent(eventType: string, message: string): Promise<void> {
+  // Subscribe to every event type matching a pattern such as `user.*`
+  async subscribePattern(
+    pattern: string,
+    handler: EventHandler,
+    options: SubscriptionOptions = {}
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    if (!EVENT_PATTERN.test(pattern)) {
+      throw new Error(`Invalid event pattern: ${pattern}`);
+    }
+
+    const subscription = this.createSubscription(handler, options);
+
+    if (this.patternHandlers.has(pattern)) {
+      this.patternHandlers.get(pattern)!.subscriptions.push(subscription);
+      return;
+    }
+
+    // Streams have no pattern reads, so patterns are matched against the stream of all events
+    if (this.options.mode === 'streams') {
+      await this.ensureConsumerGroup('*');
+      this.patternHandlers.set(pattern, {
+        regex: patternToRegExp(pattern),
+        subscriptions: [subscription],
+      });
+      this.startConsuming();
+      console.log(`Subscribed to event pattern: ${pattern}`);
+      return;
+    }
+    this.patternHandlers.set(pattern, {
+      regex: patternToRegExp(pattern),
+      subscriptions: [subscription],
+    });
+
+    await this.subscriberClient.pSubscribe(`events:${pattern}`, (message, channel) => {
+      // The aggregate channel can match short patterns too
+      if (channel === 'events:all') return;
+      this.handleEvent(channel.slice('events:'.length), message, pattern);
+    });
+
+    console.log(`Subscribed to event pattern: ${pattern}`);
+  }
+
+  // Subscriptions receiving an event delivered for a type key (or a pattern in pubsub mode)
+  private getSubscriptions(key: string, event: Event, pattern?: string): Subscription[] {
+    if (pattern !== undefined) {
+      return this.patternHandlers.get(pattern)?.subscriptions || [];
+    }
+
+    const subscriptions = this.handlers.get(key) || [];
+    if (key !== '*' || this.options.mode !== 'streams') {
+      return subscriptions;
+    }
+
+    // In streams mode the stream of all events also serves pattern subscriptions
+    const matching = [...this.patternHandlers.values()]
+      .filter(({ regex }) => regex.test(event.type))
+      .flatMap(({ subscriptions }) => subscriptions);
+
+    return [...subscriptions, ...matching];
+  }
+
+  // Handle incoming events; resolves to false if an event could be neither
+  // handled nor dead-lettered (streams mode then leaves it pending). Stream
+  // entries pass their delivery count, and each handler gets one attempt per
+  // delivery; otherwise failed handlers are retried in place.
+  private async handleEvent(
+    eventType: string,
+    message: string,
+    pattern?: string,
+    delivery?: number
+  ): Promise<boolean> {
+    let event: Event;
     try {
-      const event: Event = JSON.parse(message);
-      const handlers = this.handlers.get(eventType) || [];
+      event = this.decodeEvent(message);
+    } catch (error) {
+      console.error('Error decoding event message:', error);
+      return this.deadLetterUndecodable(eventType, message, error);
+    }
+
+    const subscriptions = this.getSubscriptions(eventType, event, pattern);
 
-      // Execute all handlers concurrently
+    // Execute all handlers concurrently
+    const results = await Promise.all(
+      subscriptions.map(subscription =>
+        delivery === undefined
+          ? this.runSubscription(subscription, event)
+          : this.runStreamSubscription(subscription, event, delivery)
+      )
+    );
+
+    if (delivery !== undefined && !results.every(Boolean)) {
+      // The entry is delivered again; subscriptions that are done with it are skipped then
       await Promise.all(
-        handlers.map(async (handler) => {
-          try {
-            await handler(event);
-          } catch (error) {
-            console.error(`Error handling event ${event.type}:`, error);
-          }
-        })
+        subscriptions
+          .filter((subscription, i) => results[i] && matchesFilter(subscription.filter, event))
+          .map(subscription => this.markProcessed(subscription, event))
+      );
+    }
+
+    return results.every(Boolean);
+  }
+
+  // Malformed or un-migratable messages can never be handled; they are kept in
+  // the dead-letter store, where replaying them retries the upcast
+  private async deadLetterUndecodable(
+    eventType: string,
+    message: string,
+    error: unknown
+  ): Promise<boolean> {
+    let event: Event | undefined;
+    try {
+      const parsed = JSON.parse(message);
+      if (parsed && typeof parsed === 'object' && typeof parsed.type === 'string') event = parsed;
+    } catch (parseError) {
+      // Stored as the raw message below
+    }
+
+    return this.deadLetter({
+      id: crypto.randomUUID(),
+      event: event || {
+        id: crypto.randomUUID(),
+        type: eventType,
+        source: 'unknown',
+        data: { message },
+        timestamp: new Date().toISOString(),
+      },
+      consumerGroup: this.options.consumerGroup,
+      subscription: UNDECODABLE_SUBSCRIPTION,
+      error: error instanceof Error ? error.message : String(error),
+      attempts: 1,
+      failedAt: new Date().toISOString(),
+    });
+  }
+
+  // Parse a delivered event and migrate it to the latest version of its type
+  private decodeEvent(message: string): Event {
+    const event: Event = JSON.parse(message);
+    return this.schemas ? this.schemas.upcast(event) : event;
+  }
+
+  // Run a handler with its retry policy, dead-lettering the event once all attempts failed
+  private async runSubscription(subscription: Subscription, event: Event): Promise<boolean> {
+    if (!matchesFilter(subscription.filter, event)) return true;
+
+    if (subscription.idempotent && (await this.isProcessed(subscription, event))) {
+      return true;
+    }
+
+    const { maxAttempts, initialDelayMs, backoffMultiplier, maxDelayMs } = subscription.retry;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await subscription.handler(event);
+      } catch (error) {
+        lastError = error;
+        console.error(
+          `Error handling event ${event.type} (attempt ${attempt}/${maxAttempts}):`,
+          error
+        );
+
+        if (attempt < maxAttempts) {
+          const delay = Math.min(
+            initialDelayMs * Math.pow(backoffMultiplier, attempt - 1),
+            maxDelayMs
+          );
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        continue;
+      }
+
+      if (subscription.idempotent) {
+        await this.markProcessed(subscription, event);
+      }
+      return true;
+    }
+
+    return this.giveUp(subscription, event, lastError, maxAttempts);
+  }
+
+  // Streams mode: one attempt per delivery. A failure leaves the entry pending
+  // for claimPendingEvents instead of holding up the read loop with a backoff.
+  private async runStreamSubscription(
+    subscription: Subscription,
+    event: Event,
+    delivery: number
+  ): Promise<boolean> {
+    if (!matchesFilter(subscription.filter, event)) return true;
+
+    // Redelivered entries skip the subscriptions that already handled them
+    if (
+      (subscription.idempotent || delivery > 1) &&
+      (await this.isProcessed(subscription, event))
+    ) {
+      return true;
+    }
+
+    const { maxAttempts } = subscription.retry;
+    try {
+      await subscription.handler(event);
+    } catch (error) {
+      console.error(
+        `Error handling event ${event.type} (attempt ${delivery}/${maxAttempts}):`,
+        error
       );
+      return delivery < maxAttempts ? false : this.giveUp(subscription, event, error, delivery);
+    }
+
+    if (subscription.idempotent) {
+      await this.markProcessed(subscription, event);
+    }
+    return true;
+  }
+
+  // Dead-letter an event once a subscription used up its attempts
+  private async giveUp(
+    subscription: Subscription,
+    event: Event,
+    error: unknown,
+    attempts: number
+  ): Promise<boolean> {
+    if (!subscription.deadLetter) return true;
+
+    return this.deadLetter({
+      id: crypto.randomUUID(),
+      event,
+      consumerGroup: this.options.consumerGroup,
+      subscription: subscription.name,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      failedAt: new Date().toISOString(),
+    });
+  }
+
+  // Resolves to false when the entry could not be stored
+  private async deadLetter(entry: DeadLetterEntry): Promise<boolean> {
+    try {
+      await this.storeDeadLetter(entry);
+      return true;
     } catch (error) {
-      console.error('Error parsing event message:', error);
+      console.error(`Failed to dead-letter event ${entry.event.id}:`, error);
+      return false;
     }
   }
 
+  // Delivery is at-least-once; idempotent subscriptions use the event ID as idempotency key
+  private getProcessedKey(subscription: Subscription, event: Event): string {
+    return `events:processed:${this.options.consumerGroup}:${subscription.name}:${event.id}`;
+  }
+
+  private async isProcessed(subscription: Subscription, event: Event): Promise<boolean> {
+    try {
+      return (await this.publisherClient.exists(this.getProcessedKey(subscription, event))) > 0;
+    } catch (error) {
+      // Running the handler again is safer than dropping the event
+      console.error(`Failed to check whether event ${event.id} was processed:`, error);
+      return false;
+    }
+  }
+
+  private async markProcessed(subscription: Subscription, event: Event): Promise<void> {
+    try {
+      await this.publisherClient.set(this.getProcessedKey(subscription, event), '1', {
+        EX: PROCESSED_EVENT_TTL_SECONDS,
+      });
+    } catch (error) {
+      console.error(`Failed to mark event ${event.id} as processed:`, error);
+    }
+  }
+
+  private getDeadLetterIndexKey(eventType?: string): string {
+    return `events:dlq:index:${eventType || 'all'}`;
+  }
+
+  private async storeDeadLetter(entry: DeadLetterEntry): Promise<void> {
+    const score = new Date(entry.failedAt).getTime();
+
+    await Promise.all([
+      this.publisherClient.hSet(DEAD_LETTER_ENTRIES, entry.id, JSON.stringify(entry)),
+      this.publisherClient.zAdd(this.getDeadLetterIndexKey(entry.event.type), {
+        score,
+        value: entry.id,
+      }),
+      this.publisherClient.zAdd(this.getDeadLetterIndexKey(), { score, value: entry.id }),
+    ]);
+  }
+
+  // List dead-lettered events (newest first), optionally for one event type
+  async listDeadLetters(eventType?: string, limit = 50, offset = 0): Promise<DeadLetterEntry[]> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    const ids = await this.publisherClient.zRange(
+      this.getDeadLetterIndexKey(eventType),
+      offset,
+      offset + limit - 1,
+      { REV: true }
+    );
+    if (ids.length === 0) return [];
+
+    const entries = await this.publisherClient.hmGet(DEAD_LETTER_ENTRIES, ids);
+    return entries
+      .filter((entry): entry is string => Boolean(entry))
+      .map(entry => JSON.parse(entry));
+  }
+
+  async countDeadLetters(eventType?: string): Promise<number> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    return await this.publisherClient.zCard(this.getDeadLetterIndexKey(eventType));
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetterEntry | null> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    const entry = await this.publisherClient.hGet(DEAD_LETTER_ENTRIES, id);
+    return entry ? JSON.parse(entry) : null;
+  }
+
+  async deleteDeadLetter(id: string): Promise<boolean> {
+    const entry = await this.getDeadLetter(id);
+    if (!entry) return false;
+
+    await Promise.all([
+      this.publisherClient.hDel(DEAD_LETTER_ENTRIES, id),
+      this.publisherClient.zRem(this.getDeadLetterIndexKey(entry.event.type), id),
+      this.publisherClient.zRem(this.getDeadLetterIndexKey(), id),
+    ]);
+
+    return true;
+  }
+
+  // Publish the original event again (same ID) and remove it from the dead-letter store.
+  // Every subscriber of the type receives it again, so handlers must be idempotent.
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const entry = await this.getDeadLetter(id);
+    if (!entry) return false;
+
+    await this.publish(entry.event);
+    await this.deleteDeadLetter(id);
+
+    console.log(`Replayed dead-lettered event ${entry.event.id} (${entry.event.type})`);
+    return true;
+  }
+
+  // Replay every dead-lettered event of a type (or all types); returns the number replayed
+  async replayDeadLetters(eventType?: string): Promise<number> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    // Oldest first, so events are re-published in their original order
+    const ids = await this.publisherClient.zRange(this.getDeadLetterIndexKey(eventType), 0, -1);
+    let replayed = 0;
+
+    for (const id of ids) {
+      if (await this.replayDeadLetter(id)) {
+        replayed++;
+      }
+    }
+
+    return replayed;
+  }
+
+  // Remove every dead-lettered event of a type (or all types); returns the number removed
+  async purgeDeadLetters(eventType?: string): Promise<number> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    const ids = await this.publisherClient.zRange(this.getDeadLetterIndexKey(eventType), 0, -1);
+    let purged = 0;
+
+    for (const id of ids) {
+      if (await this.deleteDeadLetter(id)) {
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  // Create this service's consumer group for a stream unless it already exists
+  private async ensureConsumerGroup(eventType: string): Promise<void> {
+    try {
+      await this.publisherClient.xGroupCreate(
+        this.getStreamKey(eventType),
+        this.options.consumerGroup,
+        '$',
+        { MKSTREAM: true }
+      );
+    } catch (error) {
+      // Group already exists from a previous run or another instance
+      if (!(error instanceof Error && error.message.includes('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+  }
+
+  // Start the read loop and the periodic reclaim of pending entries
+  private startConsuming(): void {
+    if (!this.consuming) {
+      this.consuming = true;
+      this.consumeStreams();
+    }
+
+    if (!this.claimTimer) {
+      this.claimTimer = setInterval(() => {
+        this.claimPendingEvents();
+      }, this.options.claimIntervalMs);
+    }
+  }
+
+  // Type keys whose streams are consumed; pattern subscriptions need the stream of all events
+  private getConsumedTypes(): string[] {
+    const types = [...this.handlers.keys()];
+    if (this.patternHandlers.size > 0 && !this.handlers.has('*')) {
+      types.push('*');
+    }
+    return types;
+  }
+
+  // Read new entries for every subscribed stream through the consumer group
+  private async consumeStreams(): Promise<void> {
+    while (this.consuming) {
+      const streams = this.getConsumedTypes().map(eventType => ({
+        key: this.getStreamKey(eventType),
+        id: '>',
+      }));
+
+      // Everything was unsubscribed; the next subscribe restarts the loop
+      if (streams.length === 0) {
+        this.consuming = false;
+        break;
+      }
+
+      try {
+        const reply = await this.subscriberClient.xReadGroup(
+          this.options.consumerGroup,
+          this.options.consumerName,
+          streams,
+          { COUNT: this.options.batchSize, BLOCK: this.options.blockMs }
+        );
+
+        for (const stream of reply || []) {
+          for (const message of stream.messages) {
+            await this.processStreamMessage(stream.name, message.id, message.message.event);
+          }
+        }
+      } catch (error) {
+        if (!this.consuming) break;
+        console.error('Error reading event streams:', error);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  // Dispatch a stream entry and acknowledge it once every handler succeeded or
+  // gave up; failed entries stay pending and are retried by claimPendingEvents
+  private async processStreamMessage(
+    streamKey: string,
+    id: string,
+    message: string,
+    delivery = 1
+  ): Promise<void> {
+    const eventType =
+      streamKey === ALL_EVENTS_STREAM ? '*' : streamKey.slice('events:stream:'.length);
+
+    const handled = await this.handleEvent(eventType, message, undefined, delivery);
+    if (handled) {
+      await this.publisherClient.xAck(streamKey, this.options.consumerGroup, id);
+    }
+  }
+
+  // Take over entries left pending by crashed consumers (or by failed handlers)
+  private async claimPendingEvents(): Promise<void> {
+    if (this.claiming || !this.connected) return;
+    this.claiming = true;
+
+    try {
+      for (const eventType of this.getConsumedTypes()) {
+        const streamKey = this.getStreamKey(eventType);
+        let start = '0-0';
+
+        do {
+          const { nextId, messages } = await this.publisherClient.xAutoClaim(
+            streamKey,
+            this.options.consumerGroup,
+            this.options.consumerName,
+            this.options.claimIdleMs,
+            start,
+            { COUNT: this.options.batchSize }
+          );
+
+          for (const message of messages) {
+            // Entries trimmed from the stream are returned as null
+            if (message) {
+              const [pending] = await this.publisherClient.xPendingRange(
+                streamKey,
+                this.options.consumerGroup,
+                message.id,
+                message.id,
+                1
+              );
+              await this.processStreamMessage(
+                streamKey,
+                message.id,
+                message.message.event,
+                pending?.deliveriesCounter
+              );
+            }
+          }
+
+          start = nextId.toString();
+        } while (start !== '0-0');
+      }
+    } catch (error) {
+      console.error('Error claiming pending events:', error);
+    } finally {
+      this.claiming = false;
+    }
+  }
+
+  private toStreamId(id?: string, timestamp?: string | number | Date): string | undefined {
+    if (id) return id;
+    if (timestamp === undefined) return undefined;
+
+    // A millisecond-only ID covers every entry added in that millisecond
+    return new Date(timestamp).getTime().toString();
+  }
+
+  // Replay stored events (oldest first) from an offset or timestamp, independently of consumer groups
+  async replay(
+    eventType: string | undefined,
+    handler: EventHandler,
+    options: ReplayOptions = {}
+  ): Promise<number> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    if (this.options.mode !== 'streams') {
+      throw new Error('Event replay requires streams mode');
+    }
+
+    const streamKey = this.getStreamKey(eventType || '*');
+    const end = this.toStreamId(options.toId, options.toTimestamp) || '+';
+    const limit = options.limit ?? Infinity;
+    let start = this.toStreamId(options.fromId, options.fromTimestamp) || '-';
+    let replayed = 0;
+
+    while (replayed < limit) {
+      const entries = await this.publisherClient.xRange(streamKey, start, end, {
+        COUNT: Math.min(this.options.batchSize, limit - replayed),
+      });
+
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        await handler(this.decodeEvent(entry.message.event));
+        replayed++;
+      }
+
+      // Continue after the last entry (exclusive range)
+      start = `(${entries[entries.length - 1].id}`;
+    }
+
+    return replayed;
+  }
+
+  // Move this service's consumer group for an event type back (or forward) to an offset or timestamp
+  async rewindSubscription(
+    eventType: string,
+    options: Pick<ReplayOptions, 'fromId' | 'fromTimestamp'>
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    if (this.options.mode !== 'streams') {
+      throw new Error('Rewinding subscriptions requires streams mode');
+    }
+
+    // The group delivers entries after its last-delivered ID, so point it just before the requested one
+    const fromId = this.toStreamId(options.fromId, options.fromTimestamp);
+    let groupId = '0';
+    if (fromId) {
+      const [ms, seq = '0'] = fromId.split('-');
+      if (seq !== '0') {
+        groupId = `${ms}-${BigInt(seq) - 1n}`;
+      } else if (Number(ms) > 0) {
+        groupId = `${Number(ms) - 1}-18446744073709551615`;
+      }
+    }
+
+    await this.publisherClient.xGroupSetId(
+      this.getStreamKey(eventType),
+      this.options.consumerGroup,
+      groupId
+    );
+  }
+
   // Unsubscribe from events
   async unsubscribe(eventType: string): Promise<void> {
     if (!this.connected) return;
 
-    await this.subscriberClient.unsubscribe(`events:${eventType}`);
+    // In streams mode the consumer group is kept so events are not lost while unsubscribed
+    if (this.options.mode !== 'streams') {
+      await this.subscriberClient.unsubscribe(`events:${eventType}`);
+    }
     this.handlers.delete(eventType);
 
     console.log(`Unsubscribed from events: ${eventType}`);
   }
 
+  async unsubscribePattern(pattern: string): Promise<void> {
+    if (!this.connected) return;
+
+    if (this.options.mode !== 'streams') {
+      await this.subscriberClient.pUnsubscribe(`events:${pattern}`);
+    }
+    this.patternHandlers.delete(pattern);
+
+    console.log(`Unsubscribed from event pattern: ${pattern}`);
+  }
+
   // Get event history (if events are also stored)
-  async getEventHistory(
-    eventType?: string,
-    limit = 100,
-    offset = 0
-  ): Promise<Event[]> {
+  async getEventHistory(eventType?: string, limit = 100, offset = 0): Promise<Event[]> {
     if (!this.connected) {
       throw new Error('EventBus not connected');
     }
 
     const key = eventType ? `events:history:${eventType}` : 'events:history:all';
-    
+
     // Get events from sorted set (newest first)
     const eventStrings = await this.publisherClient.zRange(key, offset, offset + limit - 1, {
       REV: true,
@@ -181,6 +1012,74 @@ export class EventBus {
     return eventStrings.map(eventStr => JSON.parse(eventStr));
   }
 
+  // Iterate stored events matching a query, reading the history in batches
+  async *iterateEventHistory(query: EventHistoryQuery = {}): AsyncGenerator<Event> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    // Read the narrowest index available: correlation, then type, then source.
+    // Only filters the index doesn't cover are checked per event.
+    const key = query.correlationId
+      ? `events:history:correlation:${query.correlationId}`
+      : query.type
+        ? `events:history:${query.type}`
+        : query.source
+          ? `events:history:source:${query.source}`
+          : 'events:history:all';
+    const min = query.from !== undefined ? new Date(query.from).getTime() : '-inf';
+    const max = query.to !== undefined ? new Date(query.to).getTime() : '+inf';
+    const newestFirst = query.order !== 'asc';
+    let offset = 0;
+
+    while (true) {
+      const batch = newestFirst
+        ? await this.publisherClient.zRange(key, max, min, {
+            BY: 'SCORE',
+            REV: true,
+            LIMIT: { offset, count: HISTORY_BATCH_SIZE },
+          })
+        : await this.publisherClient.zRange(key, min, max, {
+            BY: 'SCORE',
+            LIMIT: { offset, count: HISTORY_BATCH_SIZE },
+          });
+
+      for (const entry of batch) {
+        const event: Event = JSON.parse(entry);
+        if (query.type && event.type !== query.type) continue;
+        if (query.source && event.source !== query.source) continue;
+        yield event;
+      }
+
+      if (batch.length < HISTORY_BATCH_SIZE) return;
+      offset += batch.length;
+    }
+  }
+
+  // Query stored events with filters and a time window
+  async queryEventHistory(
+    query: EventHistoryQuery = {},
+    limit = 100,
+    offset = 0
+  ): Promise<{ events: Event[]; hasMore: boolean }> {
+    const events: Event[] = [];
+    let skipped = 0;
+
+    for await (const event of this.iterateEventHistory(query)) {
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      // One extra match tells whether another page exists
+      if (events.length === limit) {
+        return { events, hasMore: true };
+      }
+      events.push(event);
+    }
+
+    return { events, hasMore: false };
+  }
+
   // Store event in history (optional feature)
   async storeEventHistory(event: Event): Promise<void> {
     if (!this.connected) return;
@@ -188,38 +1087,41 @@ export class EventBus {
     const eventData = JSON.stringify(event);
     const timestamp = new Date(event.timestamp).getTime();
 
-    // Store in both type-specific and general history
-    await Promise.all([
-      this.publisherClient.zAdd(`events:history:${event.type}`, {
-        score: timestamp,
-        value: eventData,
-      }),
-      this.publisherClient.zAdd('events:history:all', {
-        score: timestamp,
-        value: eventData,
-      }),
-    ]);
+    // Store in the type-specific, source-specific and general history
+    const keys = [
+      `events:history:${event.type}`,
+      `events:history:source:${event.source}`,
+      'events:history:all',
+    ];
+    await Promise.all(
+      keys.map(key => this.publisherClient.zAdd(key, { score: timestamp, value: eventData }))
+    );
 
     // Trim history to last 10000 events
-    await Promise.all([
-      this.publisherClient.zRemRangeByRank(`events:history:${event.type}`, 0, -10001),
-      this.publisherClient.zRemRangeByRank('events:history:all', 0, -10001),
-    ]);
+    await Promise.all(keys.map(key => this.publisherClient.zRemRangeByRank(key, 0, -10001)));
+
+    // Index by correlation ID so a request can be traced across services
+    if (event.correlationId) {
+      const correlationKey = `events:history:correlation:${event.correlationId}`;
+      await this.publisherClient.zAdd(correlationKey, { score: timestamp, value: eventData });
+      await this.publisherClient.expire(correlationKey, CORRELATION_HISTORY_TTL_SECONDS);
+    }
   }
 
   // Enhanced publish with history storage
-  async publishWithHistory(event: Omit<Event, 'id' | 'timestamp'>): Promise<void> {
-    const fullEvent: Event = {
-      id: crypto.randomUUID(),
-      timestamp: new Date().toISOString(),
-      ...event,
-    };
+  async publishWithHistory(event: PublishableEvent): Promise<void> {
+    if (!this.connected) {
+      throw new Error('EventBus not connected');
+    }
+
+    // Validate first so rejected payloads never reach the history
+    const fullEvent = this.prepareEvent(event);
 
     // Store event in history
     await this.storeEventHistory(fullEvent);
 
     // Publish event
-    await this.publish(fullEvent);
+    await this.send(fullEvent);
   }
 }
 
@@ -233,13 +1135,27 @@ export const EventTypes = {
   USER_DELETED: 'user.deleted',
   USER_EMAIL_VERIFIED: 'user.email_verified',
   USER_PASSWORD_RESET: 'user.password_reset',
+  USER_TOKEN_REUSED: 'user.token_reused',
+  USER_SESSION_REVOKED: 'user.session_revoked',
+  USER_MFA_ENABLED: 'user.mfa_enabled',
+  USER_MFA_DISABLED: 'user.mfa_disabled',
+  USER_LOGIN_FAILED: 'user.login_failed',
+  USER_LOCKED: 'user.locked',
+  USER_DEACTIVATED: 'user.deactivated',
+  USER_REACTIVATED: 'user.reactivated',
 
   // Data events
   ENTITY_CREATED: 'entity.created',
   ENTITY_UPDATED: 'entity.updated',
   ENTITY_DELETED: 'entity.deleted',
+  ENTITY_RESTORED: 'entity.restored',
+  ENTITY_IMPORTED: 'entity.imported',
+  ENTITY_RELATION_CREATED: 'entity.relation_created',
+  ENTITY_RELATION_DELETED: 'entity.relation_deleted',
 
   // Workflow events
+  WORKFLOW_CREATED: 'workflow.created',
+  WORKFLOW_UPDATED: 'workflow.updated',
   WORKFLOW_STARTED: 'workflow.started',
   WORKFLOW_COMPLETED: 'workflow.completed',
   WORKFLOW_FAILED: 'workflow.failed',
@@ -262,12 +1178,17 @@ export const EventTypes = {
   HEALTH_CHECK_FAILED: 'system.health_check_failed',
 } as const;
 
+export type EventType = (typeof EventTypes)[keyof typeof EventTypes];
+
 // Helper function to create event bus instance
-export function createEventBus(redisConfig: { 
-  host: string; 
-  port: number; 
-  password?: string; 
-  db?: number;
-}): EventBus {
-  return new EventBus(redisConfig);
-}
\ No newline at end of file
+export function createEventBus(
+  redisConfig: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  },
+  options?: EventBusOptions
+): EventBus {
+  return new EventBus(redisConfig, options);
+}
@@ -0,0 +1,363 @@
+import { z } from 'zod';
+import { EventTypes, type Event } from './eventBus';
+
+// Migrates an event payload from one version to the next
+export type EventUpcaster = (data: any) => any;
+
+export class EventValidationError extends Error {
+  constructor(
+    public eventType: string,
+    public version: string,
+    public issues: z.ZodIssue[]
+  ) {
+    super(
+      `Invalid payload for ${eventType} v${version}: ${issues.map(issue => `${issue.path.join('.') || 'data'} ${issue.message}`).join(', ')}`
+    );
+    this.name = 'EventValidationError';
+  }
+}
+
+// Maps event types to a payload schema per version. Versions are consecutive
+// integers starting at 1, and each version above 1 needs an upcaster from the
+// previous one so consumers always receive the latest payload shape.
+export class EventSchemaRegistry {
+  private schemas: Map<string, Map<number, z.ZodTypeAny>> = new Map();
+  private upcasters: Map<string, Map<number, EventUpcaster>> = new Map();
+
+  register(eventType: string, version: number, schema: z.ZodTypeAny): this {
+    if (!this.schemas.has(eventType)) {
+      this.schemas.set(eventType, new Map());
+    }
+    this.schemas.get(eventType)!.set(version, schema);
+    return this;
+  }
+
+  // Register the migration from `fromVersion` to `fromVersion + 1`
+  registerUpcaster(eventType: string, fromVersion: number, upcaster: EventUpcaster): this {
+    if (!this.upcasters.has(eventType)) {
+      this.upcasters.set(eventType, new Map());
+    }
+    this.upcasters.get(eventType)!.set(fromVersion, upcaster);
+    return this;
+  }
+
+  has(eventType: string): boolean {
+    return this.schemas.has(eventType);
+  }
+
+  getLatestVersion(eventType: string): number | undefined {
+    const versions = this.schemas.get(eventType);
+    if (!versions || versions.size === 0) return undefined;
+    return Math.max(...versions.keys());
+  }
+
+  // Validate a payload against the given (or latest) version; resolves to the parsed payload
+  validate(eventType: string, data: unknown, version?: string): any {
+    const versionNumber = version ? parseInt(version, 10) : this.getLatestVersion(eventType);
+    const schema =
+      versionNumber !== undefined ? this.schemas.get(eventType)?.get(versionNumber) : undefined;
+
+    if (!schema) {
+      throw new Error(`No schema registered for ${eventType} v${version ?? 'latest'}`);
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw new EventValidationError(eventType, String(versionNumber), result.error.issues);
+    }
+
+    return result.data;
+  }
+
+  // Migrate an event to the latest version of its type; unknown types pass through unchanged
+  upcast(event: Event): Event {
+    const latest = this.getLatestVersion(event.type);
+    if (latest === undefined) return event;
+
+    // Events published before versioning carry no version and are treated as v1
+    let version = event.version ? parseInt(event.version, 10) : 1;
+    let data = event.data;
+
+    while (version < latest) {
+      const upcaster = this.upcasters.get(event.type)?.get(version);
+      if (!upcaster) {
+        throw new Error(`No upcaster registered for ${event.type} v${version}`);
+      }
+      data = upcaster(data);
+      version++;
+    }
+
+    return { ...event, data, version: String(version) };
+  }
+}
+
+// Event payload schemas
+const UserRegisteredSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  name: z.string(),
+  role: z.enum(['user', 'admin']),
+});
+
+const UserLoginSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  mfa: z.boolean().optional(), // Whether a second factor was verified
+});
+
+const UserUpdatedSchema = z.object({
+  userId: z.string(),
+  email: z.string().email().optional(),
+  changes: z.array(z.string()),
+  updatedBy: z.string().optional(), // Set when an admin made the change
+});
+
+const UserStatusChangedSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  changedBy: z.string(),
+});
+
+const UserDeletedSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  deletedBy: z.string(),
+});
+
+const UserTokenActionSchema = z.object({
+  userId: z.string(),
+});
+
+const UserLogoutSchema = z.object({
+  userId: z.string(),
+  familyId: z.string(),
+});
+
+const UserTokenReusedSchema = z.object({
+  userId: z.string(),
+  familyId: z.string(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+});
+
+const UserSessionRevokedSchema = z.object({
+  userId: z.string(),
+  sessionId: z.string(),
+  revokedBy: z.string(), // The user themselves or an admin
+});
+
+const UserMfaChangedSchema = z.object({
+  userId: z.string(),
+  changedBy: z.string(), // The user themselves or an admin
+});
+
+const UserLoginFailedSchema = z.object({
+  email: z.string(),
+  userId: z.string().optional(), // Unset when no account has the email
+  reason: z.enum(['unknown_user', 'invalid_password', 'invalid_mfa_code']),
+  failures: z.number().int(), // Failures of the account within the window
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+});
+
+const UserLockedSchema = z.object({
+  userId: z.string(),
+  email: z.string().email(),
+  lockedUntil: z.string(),
+  ipAddress: z.string().optional(),
+});
+
+const EntityCreatedSchema = z.object({
+  entityId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  createdBy: z.string(),
+});
+
+const EntityUpdatedSchema = z.object({
+  entityId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  changes: z.array(z.string()),
+  updatedBy: z.string(),
+});
+
+const EntityDeletedSchema = z.object({
+  entityId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  deletedBy: z.string(),
+  cascadedFrom: z.string().optional(), // The entity whose deletion cascaded to this one
+});
+
+// An undeleted entity, or one set back to an earlier version (restoredFrom)
+const EntityRestoredSchema = z.object({
+  entityId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  version: z.number().int(),
+  restoredFrom: z.number().int().optional(),
+  restoredBy: z.string(),
+});
+
+// One per committed chunk of a bulk import, in place of an entity.created per entity
+const EntityImportedSchema = z.object({
+  importId: z.string(),
+  entityIds: z.array(z.string()),
+  types: z.array(z.string()),
+  createdBy: z.string(),
+});
+
+const EntityRelationSchema = z.object({
+  relationId: z.string(),
+  relation: z.string(),
+  sourceId: z.string(),
+  targetId: z.string(),
+});
+
+const EntityRelationCreatedSchema = EntityRelationSchema.extend({
+  createdBy: z.string(),
+});
+
+const EntityRelationDeletedSchema = EntityRelationSchema.extend({
+  deletedBy: z.string(),
+});
+
+const WorkflowChangedSchema = z.object({
+  workflowId: z.string(),
+  name: z.string(),
+  status: z.enum(['active', 'inactive', 'draft']),
+  createdBy: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+
+const WorkflowStartedSchema = z.object({
+  workflowId: z.string(),
+  executionId: z.string(),
+  triggeredBy: z.string(),
+});
+
+const WorkflowCompletedSchema = z.object({
+  workflowId: z.string(),
+  executionId: z.string(),
+  stepCount: z.number(),
+});
+
+const WorkflowFailedSchema = z.object({
+  workflowId: z.string(),
+  executionId: z.string(),
+  stepId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const WorkflowStepCompletedSchema = z.object({
+  workflowId: z.string(),
+  executionId: z.string(),
+  stepId: z.string(),
+  stepType: z.string(),
+});
+
+const NotificationDeliverySchema = z.object({
+  channel: z.enum(['email', 'sms', 'push']),
+  to: z.union([z.string(), z.array(z.string())]),
+  messageId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const ApiCallSchema = z.object({
+  apiConfigId: z.string(),
+  method: z.string(),
+  endpoint: z.string(),
+  status: z.number().optional(),
+  duration: z.number().optional(),
+  error: z.string().optional(),
+  attempts: z.number(),
+});
+
+const WebhookReceivedSchema = z.object({
+  eventType: z.string().optional(),
+  payload: z.any(),
+});
+
+const WebhookSentSchema = z.object({
+  webhookConfigId: z.string(),
+  eventType: z.string(),
+  responseStatus: z.number().optional(),
+  duration: z.number().optional(),
+  attempts: z.number(),
+});
+
+const ServiceLifecycleSchema = z.object({
+  version: z.string(),
+  pid: z.number(),
+});
+
+// Current payload schema of every published event type
+export const eventPayloadSchemas = {
+  [EventTypes.USER_REGISTERED]: UserRegisteredSchema,
+  [EventTypes.USER_LOGIN]: UserLoginSchema,
+  [EventTypes.USER_LOGOUT]: UserLogoutSchema,
+  [EventTypes.USER_UPDATED]: UserUpdatedSchema,
+  [EventTypes.USER_DELETED]: UserDeletedSchema,
+  [EventTypes.USER_EMAIL_VERIFIED]: UserTokenActionSchema,
+  [EventTypes.USER_PASSWORD_RESET]: UserTokenActionSchema,
+  [EventTypes.USER_TOKEN_REUSED]: UserTokenReusedSchema,
+  [EventTypes.USER_SESSION_REVOKED]: UserSessionRevokedSchema,
+  [EventTypes.USER_MFA_ENABLED]: UserMfaChangedSchema,
+  [EventTypes.USER_MFA_DISABLED]: UserMfaChangedSchema,
+  [EventTypes.USER_LOGIN_FAILED]: UserLoginFailedSchema,
+  [EventTypes.USER_LOCKED]: UserLockedSchema,
+  [EventTypes.USER_DEACTIVATED]: UserStatusChangedSchema,
+  [EventTypes.USER_REACTIVATED]: UserStatusChangedSchema,
+
+  [EventTypes.ENTITY_CREATED]: EntityCreatedSchema,
+  [EventTypes.ENTITY_UPDATED]: EntityUpdatedSchema,
+  [EventTypes.ENTITY_DELETED]: EntityDeletedSchema,
+  [EventTypes.ENTITY_RESTORED]: EntityRestoredSchema,
+  [EventTypes.ENTITY_IMPORTED]: EntityImportedSchema,
+  [EventTypes.ENTITY_RELATION_CREATED]: EntityRelationCreatedSchema,
+  [EventTypes.ENTITY_RELATION_DELETED]: EntityRelationDeletedSchema,
+
+  [EventTypes.WORKFLOW_CREATED]: WorkflowChangedSchema,
+  [EventTypes.WORKFLOW_UPDATED]: WorkflowChangedSchema,
+  [EventTypes.WORKFLOW_STARTED]: WorkflowStartedSchema,
+  [EventTypes.WORKFLOW_COMPLETED]: WorkflowCompletedSchema,
+  [EventTypes.WORKFLOW_FAILED]: WorkflowFailedSchema,
+  [EventTypes.WORKFLOW_STEP_COMPLETED]: WorkflowStepCompletedSchema,
+
+  [EventTypes.NOTIFICATION_SENT]: NotificationDeliverySchema,
+  [EventTypes.NOTIFICATION_FAILED]: NotificationDeliverySchema,
+
+  [EventTypes.API_CALL_SUCCESS]: ApiCallSchema,
+  [EventTypes.API_CALL_FAILED]: ApiCallSchema,
+  [EventTypes.WEBHOOK_RECEIVED]: WebhookReceivedSchema,
+  [EventTypes.WEBHOOK_SENT]: WebhookSentSchema,
+
+  [EventTypes.SERVICE_STARTED]: ServiceLifecycleSchema,
+  [EventTypes.SERVICE_STOPPED]: ServiceLifecycleSchema,
+};
+
+export type EventPayloads = {
+  [K in keyof typeof eventPayloadSchemas]: z.infer<(typeof eventPayloadSchemas)[K]>;
+};
+
+// Payload of an event type; types without a schema fall back to an untyped record
+export type EventPayload<T extends string> = T extends keyof EventPayloads
+  ? EventPayloads[T]
+  : Record<string, any>;
+
+export type TypedEvent<T extends string> = Omit<Event, 'type' | 'data'> & {
+  type: T;
+  data: EventPayload<T>;
+};
+
+// Shared registry used by every service; all payloads are at v1 so far. A breaking
+// payload change puts the new schema in eventPayloadSchemas, registers it as v2
+// next to the old v1 schema and adds a v1 -> v2 upcaster.
+export const eventSchemas = new EventSchemaRegistry();
+
+for (const [eventType, schema] of Object.entries(eventPayloadSchemas)) {
+  eventSchemas.register(eventType, 1, schema);
+}
@@ -31,7 +31,11 @@ interface HealthCheck {
 }
 
 // Logger utility
-export const createLogger = (serviceName: string, level: string = 'info', pretty: boolean = true) => {
+export const createLogger = (
+  serviceName: string,
+  level: string = 'info',
+  pretty: boolean = true
+) => {
   return pino({
     name: serviceName,
     level,
@@ -68,12 +72,20 @@ export const createErrorResponse = (error: string | ApiError, message?: string):
 };
 
 // JWT utilities
-export const generateAccessToken = (payload: string | object, secret: string, expiresIn: string | number = '1h'): string => {
+export const generateAccessToken = (
+  payload: string | object,
+  secret: string,
+  expiresIn: string | number = '1h'
+): string => {
   const options: SignOptions = { expiresIn: expiresIn as any };
   return jwt.sign(payload, secret, options);
 };
 
-export const generateRefreshToken = (payload: string | object, secret: string, expiresIn: string | number = '7d'): string => {
+export const generateRefreshToken = (
+  payload: string | object,
+  secret: string,
+  expiresIn: string | number = '7d'
+): string => {
   const options: SignOptions = { expiresIn: expiresIn as any };
   return jwt.sign(payload, secret, options);
 };
@@ -114,11 +126,13 @@ export const handleAsyncError = (fn: Function) => {
 export const createHealthCheck = async (
   serviceName: string,
   version: string,
-  dependencies: { [key: string]: () => Promise<{ status: 'up' | 'down'; responseTime?: number; error?: string }> }
+  dependencies: {
+    [key: string]: () => Promise<{ status: 'up' | 'down'; responseTime?: number; error?: string }>;
+  }
 ): Promise<HealthCheck> => {
   const startTime = Date.now();
   const dependencyChecks: HealthCheck['dependencies'] = {};
-  
+
   for (const [name, check] of Object.entries(dependencies)) {
     try {
       const checkStart = Date.now();
@@ -209,4 +223,12 @@ export const omit = <T extends Record<string, any>, K extends keyof T>(
 };
 
 // Export event bus
-export * from './eventBus';
\ No newline at end of file
+export * from './eventBus';
+export * from './serviceEventBus';
+export * from './outbox';
+export * from './eventSchemas';
+export * from './permissions';
+export * from './jwks';
+export * from './sessions';
+export * from './auditLog';
+export * from './serviceAuditLog';
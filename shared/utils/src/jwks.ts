@@ -0,0 +1,134 @@
+import jwt from 'jsonwebtoken';
+import { createPublicKey, type KeyObject, type JsonWebKey } from 'crypto';
+import { createSessionChecker, type SessionCheckOptions } from './sessions';
+
+// Algorithms auth-service signs access tokens with. Symmetric algorithms are never
+// accepted, so a public key cannot be passed off as an HMAC secret.
+const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'] as const;
+type SupportedAlgorithm = (typeof SUPPORTED_ALGORITHMS)[number];
+
+// Thrown when the JWKS cannot be fetched, as opposed to the token being invalid
+export class JwksUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwksUnavailableError';
+  }
+}
+
+export interface JwksVerifierOptions {
+  jwksUrl: string;
+  cacheTtlMs?: number;
+  // Tokens with an unknown `kid` refetch the JWKS at most this often
+  refetchIntervalMs?: number;
+  timeoutMs?: number;
+  // Where tokens' sessions are checked, so revoked sessions' tokens are refused
+  sessions: SessionCheckOptions;
+}
+
+// Verifies access tokens against auth-service's published keys. The JWKS is
+// cached for `cacheTtlMs` and refetched early when a token names a key it does
+// not contain, so rotated keys are picked up without waiting for the cache.
+// Tokens issued for a session are refused once auth-service reports it inactive,
+// and tokens with an audience (OIDC ID tokens) are refused outright.
+export const createJwksVerifier = (options: JwksVerifierOptions) => {
+  const {
+    jwksUrl,
+    cacheTtlMs = 5 * 60 * 1000,
+    refetchIntervalMs = 30 * 1000,
+    timeoutMs = 5000,
+  } = options;
+  const isSessionActive = createSessionChecker(options.sessions);
+
+  let keys = new Map<string, { key: KeyObject; algorithm: SupportedAlgorithm }>();
+  let fetchedAt = 0;
+  let pending: Promise<void> | null = null;
+
+  const fetchKeys = async (): Promise<void> => {
+    let response: Response;
+    try {
+      response = await fetch(jwksUrl, { signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      throw new JwksUnavailableError(
+        `Failed to fetch JWKS: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!response.ok) {
+      throw new JwksUnavailableError(`Failed to fetch JWKS: status ${response.status}`);
+    }
+
+    const jwks = (await response.json()) as {
+      keys?: (JsonWebKey & { kid?: string; alg?: string; use?: string })[];
+    };
+    const loaded = new Map<string, { key: KeyObject; algorithm: SupportedAlgorithm }>();
+
+    for (const jwk of jwks.keys || []) {
+      const algorithm = jwk.alg as SupportedAlgorithm;
+      if (!jwk.kid || !SUPPORTED_ALGORITHMS.includes(algorithm) || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+
+      try {
+        loaded.set(jwk.kid, {
+          key: createPublicKey({ key: jwk as any, format: 'jwk' }),
+          algorithm,
+        });
+      } catch (error) {
+        // Skip malformed keys rather than rejecting every token
+      }
+    }
+
+    keys = loaded;
+    fetchedAt = Date.now();
+  };
+
+  // Concurrent requests share one fetch
+  const refresh = async (): Promise<void> => {
+    if (!pending) {
+      pending = fetchKeys().finally(() => {
+        pending = null;
+      });
+    }
+    await pending;
+  };
+
+  // Resolves to the token payload; rejects with JwksUnavailableError if the keys
+  // could not be fetched, with SessionCheckUnavailableError if the session could
+  // not be checked, and with another error if the token is invalid or revoked
+  return async (token: string): Promise<any> => {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new Error('Invalid token');
+    }
+
+    const age = Date.now() - fetchedAt;
+    if (age > cacheTtlMs || (!keys.has(kid) && age > refetchIntervalMs)) {
+      try {
+        await refresh();
+      } catch (error) {
+        // Keep using the cached keys through an outage if they know this token
+        if (!keys.has(kid)) throw error;
+      }
+    }
+
+    const entry = keys.get(kid);
+    if (!entry) {
+      throw new Error('Invalid token');
+    }
+
+    const payload = jwt.verify(token, entry.key, {
+      algorithms: [entry.algorithm],
+    }) as jwt.JwtPayload;
+    // ID tokens are signed with the same keys, for the OAuth client named in
+    // their audience; they are not access tokens
+    if (payload.aud) {
+      throw new Error('Invalid token');
+    }
+    if (payload.sid && !(await isSessionActive(payload.sid))) {
+      throw new Error('Session revoked');
+    }
+
+    return payload;
+  };
+};
@@ -0,0 +1,168 @@
+import type { Logger } from 'pino';
+import { and, eq, isNotNull, isNull, lt, sql } from 'drizzle-orm';
+import { sqliteTable, text, integer, type BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
+import type { EventBus, EventType } from './eventBus';
+import { eventSchemas, type EventPayload } from './eventSchemas';
+
+// The outbox table of a service's database; export it from the service's schema
+// so migrations create it
+export const createOutboxTable = () =>
+  sqliteTable('outbox', {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()), // Becomes the event ID
+    type: text('type').notNull(),
+    data: text('data').notNull(), // JSON string
+    version: text('version'),
+    correlationId: text('correlation_id'),
+    createdAt: text('created_at')
+      .notNull()
+      .$defaultFn(() => new Date().toISOString()),
+    publishedAt: text('published_at'),
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+  });
+
+export type OutboxTable = ReturnType<typeof createOutboxTable>;
+
+type OutboxDatabase = BaseSQLiteDatabase<'sync', any, any>;
+
+// Anything that can insert into the outbox: the database or an open transaction
+export type OutboxWriter = Pick<OutboxDatabase, 'insert'>;
+
+export interface OutboxOptions {
+  db: OutboxDatabase;
+  table: OutboxTable;
+  eventBus: EventBus;
+  source: string; // Service named as the source of relayed events
+  enabled: boolean; // Events are dropped when the service runs without them
+  intervalMs: number; // How often the relay looks for pending rows
+}
+
+const RELAY_BATCH_SIZE = 100;
+const PUBLISHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// A service's transactional outbox: events are written with the change they
+// describe and published by a relay once committed
+export const createOutbox = (options: OutboxOptions) => {
+  const { db, table: outbox, eventBus } = options;
+
+  let relayTimer: ReturnType<typeof setInterval> | null = null;
+  let relaying = false;
+
+  // Record a domain event in the same transaction as the change it describes. The
+  // relay publishes it after commit with the row ID as event ID, so consumers can
+  // deduplicate redeliveries by ID. Invalid payloads throw and roll back the change.
+  const enqueueEvent = <T extends EventType>(
+    tx: OutboxWriter,
+    type: T,
+    data: EventPayload<T>,
+    correlationId?: string
+  ): void => {
+    if (!options.enabled) return;
+
+    const version = eventSchemas.getLatestVersion(type);
+    if (version !== undefined) {
+      eventSchemas.validate(type, data, String(version));
+    }
+
+    tx.insert(outbox)
+      .values({
+        type,
+        data: JSON.stringify(data),
+        version: version !== undefined ? String(version) : null,
+        correlationId,
+      })
+      .run();
+  };
+
+  // Publish pending outbox rows in insertion order; a row is marked as published
+  // only after the event bus accepted it, giving at-least-once delivery
+  const relayOutbox = async (): Promise<number> => {
+    if (relaying || !eventBus.isConnected()) return 0;
+    relaying = true;
+
+    let published = 0;
+    try {
+      const pending = db
+        .select()
+        .from(outbox)
+        .where(isNull(outbox.publishedAt))
+        .orderBy(sql`rowid`) // Insertion order, even within the same millisecond
+        .limit(RELAY_BATCH_SIZE)
+        .all();
+
+      for (const row of pending) {
+        try {
+          await eventBus.publishWithHistory({
+            id: row.id,
+            timestamp: row.createdAt,
+            type: row.type,
+            source: options.source,
+            data: JSON.parse(row.data),
+            version: row.version ?? undefined,
+            correlationId: row.correlationId ?? undefined,
+          });
+        } catch (error) {
+          db.update(outbox)
+            .set({
+              attempts: row.attempts + 1,
+              lastError: error instanceof Error ? error.message : 'Unknown error',
+            })
+            .where(eq(outbox.id, row.id))
+            .run();
+
+          // Stop at the first failure so events keep their order; the next run retries it
+          console.error(`Failed to relay outbox event ${row.id}:`, error);
+          break;
+        }
+
+        db.update(outbox)
+          .set({
+            publishedAt: new Date().toISOString(),
+            attempts: row.attempts + 1,
+            lastError: null,
+          })
+          .where(eq(outbox.id, row.id))
+          .run();
+        published++;
+      }
+
+      // Published rows are only kept for troubleshooting
+      const cutoff = new Date(Date.now() - PUBLISHED_RETENTION_MS).toISOString();
+      db.delete(outbox)
+        .where(and(isNotNull(outbox.publishedAt), lt(outbox.publishedAt, cutoff)))
+        .run();
+    } finally {
+      relaying = false;
+    }
+
+    return published;
+  };
+
+  const startOutboxRelay = (logger: Logger): void => {
+    if (!options.enabled || relayTimer) return;
+
+    relayTimer = setInterval(() => {
+      relayOutbox().catch(error => logger.error(error, 'Outbox relay error'));
+    }, options.intervalMs);
+
+    logger.info({ intervalMs: options.intervalMs }, 'Outbox relay started');
+  };
+
+  // Stop polling and flush what is pending so a clean shutdown leaves nothing behind
+  const stopOutboxRelay = async (): Promise<void> => {
+    if (relayTimer) {
+      clearInterval(relayTimer);
+      relayTimer = null;
+    }
+
+    try {
+      await relayOutbox();
+    } catch (error) {
+      console.error('Failed to flush outbox:', error);
+    }
+  };
+
+  return { enqueueEvent, relayOutbox, startOutboxRelay, stopOutboxRelay };
+};
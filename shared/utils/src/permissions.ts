@@ -0,0 +1,79 @@
+// Permissions are 'namespace:action' strings. Granting 'namespace:*' allows every
+// action in the namespace and '*' allows everything.
+export const Permissions = {
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  SESSIONS_MANAGE: 'sessions:manage',
+  ROLES_MANAGE: 'roles:manage',
+  API_KEYS_MANAGE: 'api-keys:manage',
+  SIGNING_KEYS_MANAGE: 'signing-keys:manage',
+  OAUTH_CLIENTS_MANAGE: 'oauth-clients:manage',
+  AUDIT_READ: 'audit:read',
+
+  ENTITIES_READ: 'entities:read',
+  ENTITIES_WRITE: 'entities:write',
+  ENTITIES_DELETE: 'entities:delete',
+  ENTITY_TYPES_MANAGE: 'entity-types:manage',
+
+  WORKFLOWS_READ: 'workflows:read',
+  WORKFLOWS_WRITE: 'workflows:write',
+  WORKFLOWS_EXECUTE: 'workflows:execute',
+  EVENTS_READ: 'events:read',
+  EVENTS_MANAGE: 'events:manage',
+
+  INTEGRATIONS_READ: 'integrations:read',
+  INTEGRATIONS_WRITE: 'integrations:write',
+  INTEGRATIONS_EXECUTE: 'integrations:execute',
+  WEBHOOKS_READ: 'webhooks:read',
+  WEBHOOKS_WRITE: 'webhooks:write',
+  WEBHOOKS_SEND: 'webhooks:send',
+
+  NOTIFICATIONS_SEND: 'notifications:send',
+  NOTIFICATIONS_READ: 'notifications:read',
+  NOTIFICATIONS_PROCESS: 'notifications:process',
+  TEMPLATES_READ: 'templates:read',
+  TEMPLATES_WRITE: 'templates:write',
+  PREFERENCES_MANAGE: 'preferences:manage', // Other users' preferences
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+// Shape of a grantable permission: '*', 'namespace:*' or 'namespace:action'
+export const PERMISSION_PATTERN = /^(\*|[a-z][a-z0-9_-]*:(\*|[a-z][a-z0-9_-]*))$/;
+
+// Permissions every user gets from the built-in `role` column; roles assigned
+// through user_roles add to these
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['*'],
+  user: [
+    Permissions.ENTITIES_READ,
+    Permissions.ENTITIES_WRITE,
+    Permissions.ENTITIES_DELETE,
+    Permissions.WORKFLOWS_READ,
+    Permissions.WORKFLOWS_WRITE,
+    Permissions.WORKFLOWS_EXECUTE,
+    Permissions.TEMPLATES_READ,
+  ],
+};
+
+export const hasPermission = (granted: string[], required: string): boolean => {
+  if (granted.includes('*')) {
+    return true;
+  }
+
+  const [namespace] = required.split(':');
+  return granted.includes(`${namespace}:*`) || granted.includes(required);
+};
+
+// Permissions of a verified access token; tokens issued before permissions were
+// embedded fall back to the defaults of their role
+export const getTokenPermissions = (payload: {
+  role?: string;
+  permissions?: string[];
+}): string[] => {
+  if (Array.isArray(payload.permissions)) {
+    return payload.permissions;
+  }
+
+  return (payload.role && DEFAULT_ROLE_PERMISSIONS[payload.role]) || [];
+};
@@ -0,0 +1,38 @@
+import type { Logger } from 'pino';
+import { createAuditLog } from './auditLog';
+
+export interface ServiceAuditLogOptions {
+  redis: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  };
+  enabled: boolean;
+}
+
+// A service's connection to the audit log shared by all services, with the
+// startup and shutdown behaviour every service shares
+export const createServiceAuditLog = (serviceName: string, options: ServiceAuditLogOptions) => {
+  const auditLog = createAuditLog(options.redis, { service: serviceName });
+
+  // Connect on startup; requests are served without audit entries while Redis is unavailable
+  const connectAuditLog = async (logger: Logger): Promise<void> => {
+    if (!options.enabled) {
+      logger.info('Audit log disabled');
+      return;
+    }
+
+    try {
+      await auditLog.connect();
+    } catch (error) {
+      logger.error(error, 'Failed to connect audit log, continuing without audit entries');
+    }
+  };
+
+  const disconnectAuditLog = async (): Promise<void> => {
+    await auditLog.disconnect();
+  };
+
+  return { auditLog, connectAuditLog, disconnectAuditLog };
+};
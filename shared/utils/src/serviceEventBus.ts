@@ -0,0 +1,74 @@
+import type { Logger } from 'pino';
+import { createEventBus, EventTypes, type EventBusMode, type EventType } from './eventBus';
+import { eventSchemas, type EventPayload } from './eventSchemas';
+
+export interface ServiceEventBusOptions {
+  redis: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+  };
+  enabled: boolean;
+  mode: EventBusMode;
+  version: string; // Reported in service.started and service.stopped
+}
+
+// A service's connection to the domain event bus, with the startup, shutdown and
+// publishing behaviour every service shares
+export const createServiceEventBus = (serviceName: string, options: ServiceEventBusOptions) => {
+  const eventBus = createEventBus(options.redis, {
+    mode: options.mode,
+    // All instances of the service share one consumer group
+    consumerGroup: serviceName,
+    schemas: eventSchemas,
+  });
+
+  // Publish a domain event; failures (including payloads rejected by the schema
+  // registry) are logged and never break the calling request
+  const publishEvent = async <T extends EventType>(
+    type: T,
+    data: EventPayload<T>,
+    correlationId?: string
+  ): Promise<void> => {
+    if (!eventBus.isConnected()) return;
+
+    try {
+      await eventBus.publishWithHistory({
+        type,
+        source: serviceName,
+        data,
+        correlationId,
+      });
+    } catch (error) {
+      console.error(`Failed to publish event ${type}:`, error);
+    }
+  };
+
+  // Connect on startup; the service keeps running without events if Redis is unavailable
+  const connectEventBus = async (logger: Logger): Promise<void> => {
+    if (!options.enabled) {
+      logger.info('Event bus disabled');
+      return;
+    }
+
+    try {
+      await eventBus.connect();
+      await publishEvent(EventTypes.SERVICE_STARTED, {
+        version: options.version,
+        pid: process.pid,
+      });
+    } catch (error) {
+      logger.error(error, 'Failed to connect event bus, continuing without events');
+    }
+  };
+
+  const disconnectEventBus = async (): Promise<void> => {
+    if (!eventBus.isConnected()) return;
+
+    await publishEvent(EventTypes.SERVICE_STOPPED, { version: options.version, pid: process.pid });
+    await eventBus.disconnect();
+  };
+
+  return { eventBus, publishEvent, connectEventBus, disconnectEventBus };
+};
@@ -0,0 +1,58 @@
+export interface SessionCheckOptions {
+  authServiceUrl: string;
+  cacheTtlMs?: number;
+  timeoutMs?: number;
+}
+
+// Thrown when auth-service cannot say whether a session is active
+export class SessionCheckUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionCheckUnavailableError';
+  }
+}
+
+const SESSION_CACHE_MAX_ENTRIES = 1000;
+
+// Asks auth-service whether the session an access token was issued for is still
+// active. Answers are cached by session id for `cacheTtlMs`, so logging out or
+// revoking a session takes up to that long to reach other services.
+export const createSessionChecker = (options: SessionCheckOptions) => {
+  const { authServiceUrl, cacheTtlMs = 10000, timeoutMs = 5000 } = options;
+  const cache = new Map<string, { active: boolean; expiresAt: number }>();
+
+  return async (sessionId: string): Promise<boolean> => {
+    const cached = cache.get(sessionId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.active;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${authServiceUrl}/auth/sessions/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new SessionCheckUnavailableError(
+        `Failed to check session: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!response.ok) {
+      throw new SessionCheckUnavailableError(`Failed to check session: status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success: boolean; data?: { active: boolean } };
+    const active = result.success && result.data?.active === true;
+
+    if (cache.size >= SESSION_CACHE_MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(sessionId, { active, expiresAt: Date.now() + cacheTtlMs });
+
+    return active;
+  };
+};
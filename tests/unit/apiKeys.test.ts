@@ -0,0 +1,191 @@
+import "./setup";
+import { expect, test, describe, beforeAll, afterAll } from "bun:test";
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { Hono, type Context } from "hono";
+import { apiKeyAuth } from "shared-middleware";
+
+import "../../services/auth/migrate";
+import { db, users, apiKeys } from "../../services/auth/src/models/database";
+import { KeyService } from "../../services/auth/src/services/keyService";
+import apiKeyRoutes from "../../services/auth/src/routes/apiKeys";
+
+const AUTH_URL = "http://auth.test";
+const keyService = new KeyService();
+const originalFetch = globalThis.fetch;
+
+const auth = new Hono();
+auth.route("/auth/api-keys", apiKeyRoutes);
+
+let validations = 0;
+let authStatus: "up" | "down" = "up";
+
+// A service accepting keys with `entities:write`
+const service = new Hono();
+service.post(
+  "/entities",
+  apiKeyAuth({ authServiceUrl: AUTH_URL, permissions: ["entities:write"] }),
+  (c: Context) => c.json({ apiKey: c.get("apiKey") })
+);
+const callService = (apiKey: string) => service.request("/entities", { method: "POST", headers: { "x-api-key": apiKey } });
+
+const createUser = (permissions: string[]) => {
+  const now = new Date().toISOString();
+  const id = crypto.randomUUID();
+  db.insert(users).values({ id, email: `${id}@example.com`, name: "Key User", password: "x", createdAt: now, updatedAt: now }).run();
+  return { id, token: keyService.signAccessToken({ userId: id, email: `${id}@example.com`, permissions }) };
+};
+
+let manager: ReturnType<typeof createUser>;
+let owner: ReturnType<typeof createUser>;
+
+const call = async (method: string, path: string, token?: string, body?: unknown) => {
+  const response = await auth.request(`/auth/api-keys${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...(token && { authorization: `Bearer ${token}` }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, json: (await response.json()) as any };
+};
+
+const createKey = async (request: { name?: string; permissions?: string[]; userId?: string } = {}) => {
+  const created = await call("POST", "", manager.token, { name: "test key", ...request });
+  expect(created.status).toBe(201);
+  return { apiKey: created.json.data.apiKey as string, id: created.json.data.key.id as string };
+};
+
+const validate = (apiKey: string) => call("POST", "/validate", undefined, { apiKey });
+
+describe("API keys", () => {
+  beforeAll(() => {
+    manager = createUser(["api-keys:manage", "entities:*"]);
+    owner = createUser([]);
+
+    // Answer the middleware's validation requests with auth-service's route
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      if (String(input) !== `${AUTH_URL}/auth/api-keys/validate`) {
+        return new Response("not found", { status: 404 });
+      }
+      validations++;
+      if (authStatus === "down") return new Response("unavailable", { status: 503 });
+      return auth.request("/auth/api-keys/validate", init);
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("management", () => {
+    test("returns the key once and stores only its SHA-256 digest", async () => {
+      const created = await call("POST", "", manager.token, { name: "ci", permissions: ["entities:read"] });
+
+      expect(created.status).toBe(201);
+      const { apiKey, key } = created.json.data;
+      expect(apiKey).toMatch(/^sk_[A-Za-z0-9]+$/);
+      expect(key.keyHash).toBeUndefined();
+      expect(key.userId).toBe(manager.id);
+
+      const [stored] = db.select().from(apiKeys).where(eq(apiKeys.id, key.id)).all();
+      expect(stored.keyHash).toBe(crypto.createHash("sha256").update(apiKey).digest("hex"));
+    });
+
+    test("refuses permissions the creator does not hold", async () => {
+      const created = await call("POST", "", manager.token, { name: "too much", permissions: ["users:manage"] });
+      expect(created.status).toBe(403);
+      expect(created.json.message).toBe("users:manage");
+
+      expect((await call("POST", "", owner.token, { name: "mine" })).status).toBe(403);
+    });
+
+    test("scopes keys to their owner for users who do not manage keys", async () => {
+      const owned = await createKey({ userId: owner.id });
+      const other = await createKey();
+
+      const listed = await call("GET", "", owner.token);
+      expect(listed.json.data.map((key: { id: string }) => key.id)).toEqual([owned.id]);
+      expect((await call("GET", `/${other.id}`, owner.token)).status).toBe(404);
+      expect((await call("POST", `/${other.id}/revoke`, owner.token)).status).toBe(404);
+      expect((await call("DELETE", `/${other.id}`, owner.token)).status).toBe(404);
+
+      const all = await call("GET", "", manager.token);
+      expect(all.json.data.map((key: { id: string }) => key.id)).toContain(owned.id);
+      expect((await call("POST", `/${owned.id}/revoke`, owner.token)).status).toBe(200);
+    });
+  });
+
+  describe("validation", () => {
+    test("resolves a key to its owner and permissions and counts its use", async () => {
+      const { apiKey, id } = await createKey({ permissions: ["entities:read"] });
+
+      const validated = await validate(apiKey);
+      expect(validated.status).toBe(200);
+      expect(validated.json.data).toEqual({ keyId: id, userId: manager.id, permissions: ["entities:read"] });
+
+      const usage = await call("GET", `/${id}/usage`, manager.token);
+      expect(usage.json.data.totalUsage).toBe(1);
+    });
+
+    test("rejects unknown, malformed, revoked and expired keys", async () => {
+      const revoked = await createKey();
+      await call("POST", `/${revoked.id}/revoke`, manager.token);
+      const expired = await createKey();
+      db.update(apiKeys).set({ expiresAt: new Date(Date.now() - 1000).toISOString() }).where(eq(apiKeys.id, expired.id)).run();
+
+      for (const apiKey of ["sk_unknown", "not a key", revoked.apiKey, expired.apiKey]) {
+        expect((await validate(apiKey)).status).toBe(401);
+      }
+    });
+
+    test("rejects keys while their owner is deactivated", async () => {
+      const { apiKey } = await createKey({ userId: owner.id });
+
+      db.update(users).set({ isActive: false }).where(eq(users.id, owner.id)).run();
+      expect((await validate(apiKey)).status).toBe(401);
+
+      db.update(users).set({ isActive: true }).where(eq(users.id, owner.id)).run();
+      expect((await validate(apiKey)).status).toBe(200);
+    });
+  });
+
+  describe("apiKeyAuth middleware", () => {
+    test("enforces the key's permissions", async () => {
+      const writer = await createKey({ permissions: ["entities:*"] });
+      const reader = await createKey({ permissions: ["entities:read"] });
+
+      const accepted = await callService(writer.apiKey);
+      expect(accepted.status).toBe(200);
+      const { apiKey } = (await accepted.json()) as { apiKey: { keyId: string } };
+      expect(apiKey.keyId).toBe(writer.id);
+
+      const refused = await callService(reader.apiKey);
+      expect(refused.status).toBe(403);
+      expect(((await refused.json()) as { message: string }).message).toBe("Missing: entities:write");
+
+      expect((await service.request("/entities", { method: "POST" })).status).toBe(401);
+    });
+
+    test("caches rejections as well as acceptances", async () => {
+      const { apiKey } = await createKey({ permissions: ["entities:write"] });
+
+      const before = validations;
+      expect((await callService(apiKey)).status).toBe(200);
+      expect((await callService(apiKey)).status).toBe(200);
+      expect((await callService("sk_wrong")).status).toBe(401);
+      expect((await callService("sk_wrong")).status).toBe(401);
+      expect(validations - before).toBe(2);
+    });
+
+    test("answers 503 without caching when auth-service is down", async () => {
+      const { apiKey } = await createKey({ permissions: ["entities:write"] });
+
+      authStatus = "down";
+      try {
+        expect((await callService(apiKey)).status).toBe(503);
+      } finally {
+        authStatus = "up";
+      }
+      expect((await callService(apiKey)).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { AuditLog, diffChanges, type AuditRecord } from "shared-utils";
+
+type StreamEntry = { id: string; message: Record<string, string> };
+
+// The Redis commands the audit log uses, with one stream and plain keys kept in memory
+class FakeRedis {
+  stream: StreamEntry[] = [];
+  keys = new Map<string, string>();
+  private lastMs = 0;
+  private lastSeq = 0;
+
+  private static compare(a: string, b: string): number {
+    const [aMs, aSeq] = a.split("-").map(Number);
+    const [bMs, bSeq] = b.split("-").map(Number);
+    return aMs - bMs || aSeq - bSeq;
+  }
+
+  // Whether an ID lies at or after `start` ("-", an ID, or "(ID" for exclusive)
+  private static after(id: string, start: string): boolean {
+    if (start === "-") return true;
+    if (start.startsWith("(")) return FakeRedis.compare(id, start.slice(1)) > 0;
+    return FakeRedis.compare(id, start) >= 0;
+  }
+
+  private static before(id: string, end: string): boolean {
+    if (end === "+") return true;
+    if (end.startsWith("(")) return FakeRedis.compare(id, end.slice(1)) < 0;
+    return FakeRedis.compare(id, end) <= 0;
+  }
+
+  async get(key: string) {
+    return this.keys.get(key) ?? null;
+  }
+
+  async xRange(_key: string, start: string, end: string, options: { COUNT: number }) {
+    return this.stream.filter((entry) => FakeRedis.after(entry.id, start) && FakeRedis.before(entry.id, end)).slice(0, options.COUNT);
+  }
+
+  async xRevRange(_key: string, end: string, start: string, options: { COUNT: number }) {
+    return this.stream
+      .filter((entry) => FakeRedis.after(entry.id, start) && FakeRedis.before(entry.id, end))
+      .reverse()
+      .slice(0, options.COUNT);
+  }
+
+  private xAdd(_key: string, _id: string, message: Record<string, string>) {
+    const ms = Date.now();
+    this.lastSeq = ms === this.lastMs ? this.lastSeq + 1 : 0;
+    this.lastMs = ms;
+    const id = `${ms}-${this.lastSeq}`;
+    this.stream.push({ id, message });
+    return id;
+  }
+
+  // A connection of its own; only one writer runs at a time here, so WATCH never fires
+  async executeIsolated<T>(run: (isolated: any) => Promise<T>): Promise<T> {
+    const queued: Array<() => unknown> = [];
+    const transaction = {
+      xAdd: (...args: [string, string, Record<string, string>]) => {
+        queued.push(() => this.xAdd(...args));
+        return transaction;
+      },
+      set: (key: string, value: string) => {
+        queued.push(() => this.keys.set(key, value) && "OK");
+        return transaction;
+      },
+      exec: async () => queued.map((command) => command()),
+    };
+
+    return run({
+      watch: async () => "OK",
+      get: (key: string) => this.get(key),
+      multi: () => transaction,
+    });
+  }
+}
+
+const createLog = (redis: FakeRedis, service: string) => {
+  const log = new AuditLog({ host: "localhost", port: 6379 }, { service, scanBatchSize: 2 });
+  Object.assign(log, { client: redis, connected: true });
+  return log;
+};
+
+const record = (action: string, overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+  action,
+  actor: { type: "user", id: "user-1" },
+  resource: { type: "user", id: "user-1" },
+  outcome: "success",
+  ...overrides,
+});
+
+// Rewrite a stored entry the way someone with Redis access could
+const tamper = (redis: FakeRedis, index: number, change: (entry: any) => void) => {
+  const entry = JSON.parse(redis.stream[index].message.entry);
+  change(entry);
+  redis.stream[index].message.entry = JSON.stringify(entry);
+};
+
+describe("Audit log hash chain", () => {
+  let redis: FakeRedis;
+  let log: AuditLog;
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    log = createLog(redis, "auth-service");
+    for (const action of ["user.register", "user.login", "user.update", "user.logout", "user.login"]) {
+      await log.record(record(action));
+    }
+  });
+
+  test("links each entry to the one before it", async () => {
+    const { entries } = await log.query({ limit: 10 });
+    const oldestFirst = entries.reverse();
+
+    expect(oldestFirst.map((entry) => entry.sequence)).toEqual([1, 2, 3, 4, 5]);
+    expect(oldestFirst[0].prevHash).toBe("0".repeat(64));
+    for (let i = 1; i < oldestFirst.length; i++) {
+      expect(oldestFirst[i].prevHash).toBe(oldestFirst[i - 1].hash);
+    }
+  });
+
+  test("an untouched log verifies", async () => {
+    expect(await log.verify()).toEqual({ valid: true, checked: 5, lastSequence: 5 });
+  });
+
+  test("services writing the same log share one chain", async () => {
+    await createLog(redis, "data-service").record(record("entity.create"));
+    expect(await log.verify()).toEqual({ valid: true, checked: 6, lastSequence: 6 });
+  });
+
+  test("an edited entry breaks the chain", async () => {
+    tamper(redis, 2, (entry) => {
+      entry.outcome = "failure";
+    });
+
+    const result = await log.verify();
+    expect(result.valid).toBe(false);
+    expect(result.checked).toBe(2);
+    expect(result.brokenAt).toMatchObject({ id: redis.stream[2].id, sequence: 3, reason: "Entry hash does not match its contents" });
+  });
+
+  test("a removed entry breaks the sequence", async () => {
+    redis.stream.splice(1, 1);
+
+    const result = await log.verify();
+    expect(result.brokenAt).toMatchObject({ sequence: 3, reason: "Expected sequence 2" });
+  });
+
+  test("removing the oldest entries is detected", async () => {
+    redis.stream.splice(0, 2);
+
+    const result = await log.verify();
+    expect(result.brokenAt).toMatchObject({ sequence: 3, reason: "Log does not start at the first entry" });
+  });
+
+  test("removing the newest entries is detected through the head", async () => {
+    redis.stream.splice(3, 2);
+
+    const result = await log.verify();
+    expect(result).toMatchObject({ valid: false, checked: 3, lastSequence: 3 });
+    expect(result.brokenAt).toMatchObject({ sequence: 5, reason: "Newest entries are missing" });
+  });
+
+  test("a range starting later trusts its first entry's link", async () => {
+    redis.stream.splice(0, 1);
+
+    expect(await log.verify({ fromId: redis.stream[0].id })).toEqual({ valid: true, checked: 4, lastSequence: 5 });
+    expect(await log.verify({ fromId: redis.stream[0].id, limit: 2 })).toEqual({ valid: true, checked: 2, lastSequence: 3 });
+  });
+
+  test("queries filter entries and page with a cursor", async () => {
+    const first = await log.query({ action: "user.login", limit: 1 });
+    expect(first.entries.map((entry) => entry.sequence)).toEqual([5]);
+
+    const second = await log.query({ action: "user.login", limit: 1, cursor: first.nextCursor });
+    expect(second.entries.map((entry) => entry.sequence)).toEqual([2]);
+
+    expect((await log.query({ action: "user.*" })).entries).toHaveLength(5);
+    expect((await log.query({ service: "data-service" })).entries).toHaveLength(0);
+  });
+});
+
+describe("Audit changes", () => {
+  test("records changed fields only and redacts secrets", () => {
+    const changes = diffChanges(
+      { name: "Ann", role: "user", password: "old-hash", settings: { apiKey: "k1", theme: "dark" } },
+      { name: "Ann", role: "admin", password: "new-hash", settings: { apiKey: "k2", theme: "dark" } }
+    );
+
+    expect(changes).toEqual({
+      role: { before: "user", after: "admin" },
+      password: { before: "[REDACTED]", after: "[REDACTED]" },
+      settings: { before: { apiKey: "[REDACTED]", theme: "dark" }, after: { apiKey: "[REDACTED]", theme: "dark" } },
+    });
+  });
+
+  test("ignores key order", () => {
+    expect(diffChanges({ data: { a: 1, b: 2 } }, { data: { b: 2, a: 1 } })).toEqual({});
+  });
+});
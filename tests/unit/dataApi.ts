@@ -0,0 +1,61 @@
+// data-service routes on a scratch database, called with access tokens signed
+// by a test key that the stubbed JWKS endpoint publishes
+import { createTables } from "./setup";
+import { generateKeyPairSync } from "crypto";
+import jwt from "jsonwebtoken";
+import pino from "pino";
+import { Hono, type Context } from "hono";
+
+const AUTH_URL = "http://auth.test";
+process.env.AUTH_SERVICE_URL = AUTH_URL;
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: "jwk" }), kid: "test-key", alg: "RS256", use: "sig" };
+
+const originalFetch = globalThis.fetch;
+globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) =>
+  String(input) === `${AUTH_URL}/.well-known/jwks.json`
+    ? Response.json({ keys: [jwk] })
+    : originalFetch(input, init)) as typeof fetch;
+
+const models = await import("../../services/data/src/models/database");
+const { db, entities, entityVersions, entityTypes, relationTypes, entityRelations, outbox } = models;
+createTables(db, entities, entityVersions, entityTypes, relationTypes, entityRelations, outbox);
+
+const { default: dataRoutes } = await import("../../services/data/src/routes/data");
+
+export { db, models };
+
+// Tokens carry no session, so no session check is made
+export const token = (permissions: string[] = ["*"], userId = "test-user") =>
+  jwt.sign({ userId, permissions }, privateKey, { algorithm: "RS256", keyid: "test-key", expiresIn: "1h" });
+
+const logger = pino({ level: "silent" });
+const app = new Hono();
+app.use("*", async (c: Context, next) => {
+  c.set("logger", logger);
+  await next();
+});
+app.route("/data", dataRoutes);
+
+export const call = async (
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; json: any; headers: Headers }> => {
+  const response = await app.request(path, {
+    method,
+    headers: { authorization: `Bearer ${token()}`, "content-type": "application/json", ...headers },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+  const text = await response.text();
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = text;
+  }
+  return { status: response.status, json, headers: response.headers };
+};
@@ -0,0 +1,101 @@
+import { expect, test, describe } from "bun:test";
+import { call } from "./dataApi";
+
+const createEntity = async () => {
+  const created = await call("POST", "/data/entities", { name: "Order", type: "etag-order", data: { status: "new" } });
+  expect(created.status).toBe(201);
+  return { id: created.json.data.id as string, etag: created.headers.get("etag")! };
+};
+
+describe("Entity ETags", () => {
+  test("writes return the new version as a strong ETag", async () => {
+    const { id, etag } = await createEntity();
+    expect(etag).toBe('"1"');
+
+    const read = await call("GET", `/data/entities/${id}`);
+    expect(read.headers.get("etag")).toBe('"1"');
+
+    const updated = await call("PUT", `/data/entities/${id}`, { data: { status: "paid" } });
+    expect(updated.headers.get("etag")).toBe('"2"');
+    expect(updated.json.data.version).toBe(2);
+  });
+
+  describe("If-None-Match", () => {
+    test("answers 304 without a body while the copy is current", async () => {
+      const { id, etag } = await createEntity();
+
+      const notModified = await call("GET", `/data/entities/${id}`, undefined, { "if-none-match": etag });
+      expect(notModified.status).toBe(304);
+      expect(notModified.json).toBe("");
+      expect(notModified.headers.get("etag")).toBe(etag);
+    });
+
+    test("matches weak validators, lists and *", async () => {
+      const { id } = await createEntity();
+
+      for (const header of ['W/"1"', '"7", "1"', "*"]) {
+        expect((await call("GET", `/data/entities/${id}`, undefined, { "if-none-match": header })).status).toBe(304);
+      }
+    });
+
+    test("returns the entity once it changed", async () => {
+      const { id, etag } = await createEntity();
+      await call("PUT", `/data/entities/${id}`, { name: "Renamed" });
+
+      const read = await call("GET", `/data/entities/${id}`, undefined, { "if-none-match": etag });
+      expect(read.status).toBe(200);
+      expect(read.json.data.name).toBe("Renamed");
+      expect(read.headers.get("etag")).toBe('"2"');
+    });
+  });
+
+  describe("If-Match", () => {
+    test("writes on the current version go ahead", async () => {
+      const { id, etag } = await createEntity();
+
+      const updated = await call("PUT", `/data/entities/${id}`, { name: "Mine" }, { "if-match": etag });
+      expect(updated.status).toBe(200);
+    });
+
+    test("a stale version fails with 412 and the current ETag", async () => {
+      const { id, etag } = await createEntity();
+      await call("PUT", `/data/entities/${id}`, { name: "Theirs" }, { "if-match": etag });
+
+      const lost = await call("PUT", `/data/entities/${id}`, { name: "Mine" }, { "if-match": etag });
+      expect(lost.status).toBe(412);
+      expect(lost.headers.get("etag")).toBe('"2"');
+      expect(lost.json.error).toBe("Precondition failed");
+
+      // The lost update changed nothing
+      const read = await call("GET", `/data/entities/${id}`);
+      expect(read.json.data.name).toBe("Theirs");
+      expect(read.json.data.version).toBe(2);
+    });
+
+    test("weak validators never match", async () => {
+      const { id } = await createEntity();
+
+      expect((await call("PUT", `/data/entities/${id}`, { name: "x" }, { "if-match": 'W/"1"' })).status).toBe(412);
+    });
+
+    test("applies to patches and deletes", async () => {
+      const { id } = await createEntity();
+
+      const patched = await call("PATCH", `/data/entities/${id}`, { status: "x" }, {
+        "content-type": "application/merge-patch+json",
+        "if-match": '"5"',
+      });
+      expect(patched.status).toBe(412);
+
+      expect((await call("DELETE", `/data/entities/${id}`, undefined, { "if-match": '"5"' })).status).toBe(412);
+      expect((await call("DELETE", `/data/entities/${id}`, undefined, { "if-match": '"1"' })).status).toBe(200);
+    });
+
+    test("writes without the header are unconditional", async () => {
+      const { id } = await createEntity();
+      await call("PUT", `/data/entities/${id}`, { name: "First" });
+
+      expect((await call("PUT", `/data/entities/${id}`, { name: "Second" })).status).toBe(200);
+    });
+  });
+});
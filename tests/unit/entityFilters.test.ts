@@ -0,0 +1,121 @@
+import { createTables } from "./setup";
+import { expect, test, describe, beforeAll } from "bun:test";
+
+import { db, entities } from "../../services/data/src/models/database";
+import { EntityService, type EntityQuery } from "../../services/data/src/services/entityService";
+import { InvalidFilterError, parseEntityFilters } from "../../services/data/src/services/entityFilters";
+
+const entityService = new EntityService();
+const TYPE = "filter-order";
+
+// Names of the orders matching filters given as query parameters
+const matching = async (params: Record<string, string | string[]>): Promise<string[]> => {
+  const queries = Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [key, Array.isArray(value) ? value : [value]])
+  );
+  const query: EntityQuery = {
+    page: 1,
+    limit: 50,
+    type: TYPE,
+    sortBy: "name",
+    sortOrder: "asc",
+    filters: parseEntityFilters(queries, 10),
+  };
+  return (await entityService.listEntities(query)).entities.map((entity) => entity.name);
+};
+
+describe("Entity filters", () => {
+  beforeAll(() => {
+    createTables(db, entities);
+
+    const orders = [
+      { name: "a", data: { status: "open", total: 50, code: "10", paid: false, tags: ["rush"], customer: { tier: "gold" } }, metadata: { env: "prod" } },
+      { name: "b", data: { status: "open", total: 150, code: 10, paid: true, tags: ["rush", "gift"], note: null }, metadata: { env: "staging" } },
+      { name: "c", data: { status: "closed", total: 100, paid: true, tags: [], customer: { tier: "silver" } }, metadata: { env: "prod" } },
+      { name: "d", data: { status: "Open 100%", total: 5 }, metadata: {} },
+    ];
+    for (const order of orders) {
+      db.insert(entities).values({
+        name: order.name,
+        type: TYPE,
+        data: JSON.stringify(order.data),
+        metadata: JSON.stringify(order.metadata),
+        createdBy: "tester",
+      }).run();
+    }
+  });
+
+  test("equality, with values typed from the query string", async () => {
+    expect(await matching({ "filter[data.status]": "open" })).toEqual(["a", "b"]);
+    expect(await matching({ "filter[data.paid]": "true" })).toEqual(["b", "c"]);
+    expect(await matching({ "filter[data.code]": "10" })).toEqual(["b"]);
+    expect(await matching({ "filter[data.code]": '"10"' })).toEqual(["a"]);
+  });
+
+  test("comparisons", async () => {
+    expect(await matching({ "filter[data.total][gte]": "100" })).toEqual(["b", "c"]);
+    expect(await matching({ "filter[data.total][lt]": "100" })).toEqual(["a", "d"]);
+    expect(await matching({ "filter[data.total][gt]": "10", "filter[data.total][lte]": "100" })).toEqual(["a", "c"]);
+  });
+
+  test("repeated parameters must all match", async () => {
+    expect(await matching({ "filter[data.total][gt]": ["10", "60"] })).toEqual(["b", "c"]);
+  });
+
+  test("ne includes entities without the field", async () => {
+    expect(await matching({ "filter[data.paid][ne]": "true" })).toEqual(["a", "d"]);
+    expect(await matching({ "filter[data.status][ne]": "open" })).toEqual(["c", "d"]);
+  });
+
+  test("in, on data and metadata", async () => {
+    expect(await matching({ "filter[data.status][in]": "closed,open" })).toEqual(["a", "b", "c"]);
+    expect(await matching({ "filter[metadata.env][in]": "staging,dev" })).toEqual(["b"]);
+  });
+
+  test("nested fields", async () => {
+    expect(await matching({ "filter[data.customer.tier]": "gold" })).toEqual(["a"]);
+  });
+
+  test("exists tells a missing field from an explicit null", async () => {
+    expect(await matching({ "filter[data.note][exists]": "true" })).toEqual(["b"]);
+    expect(await matching({ "filter[data.customer][exists]": "false" })).toEqual(["b", "d"]);
+    expect(await matching({ "filter[data.note]": "null" })).toEqual(["a", "b", "c", "d"]);
+  });
+
+  test("contains is a case-insensitive substring with % taken literally", async () => {
+    expect(await matching({ "filter[data.status][contains]": "OPEN" })).toEqual(["a", "b", "d"]);
+    expect(await matching({ "filter[data.status][contains]": "100%" })).toEqual(["d"]);
+    expect(await matching({ "filter[data.status][contains]": "%" })).toEqual(["d"]);
+  });
+
+  test("has matches array elements", async () => {
+    expect(await matching({ "filter[data.tags][has]": "rush" })).toEqual(["a", "b"]);
+    expect(await matching({ "filter[data.tags][has]": "gift" })).toEqual(["b"]);
+  });
+
+  test("field paths cannot inject SQL", async () => {
+    expect(() => parseEntityFilters({ "filter[data.a') OR 1=1 --]": ["x"] }, 10)).toThrow(InvalidFilterError);
+  });
+
+  describe("parsing", () => {
+    const parse = (params: Record<string, string[]>) => () => parseEntityFilters(params, 2);
+
+    test("ignores other parameters and defaults to eq", () => {
+      expect(parseEntityFilters({ page: ["2"], "filter[data.status]": ["open"] }, 2)).toEqual([
+        { field: "data.status", operator: "eq", value: "open" },
+      ]);
+    });
+
+    test("rejects malformed filters", () => {
+      expect(parse({ "filter[data.status": ["x"] })).toThrow("Malformed filter parameter");
+      expect(parse({ "filter[name]": ["x"] })).toThrow("Filters apply to data.<field> or metadata.<field>");
+      expect(parse({ "filter[data.status][like]": ["x"] })).toThrow("Unknown filter operator: like");
+      expect(parse({ "filter[data.note][exists]": ["yes"] })).toThrow("must be true or false");
+      expect(parse({ "filter[data.total][gt]": ["true"] })).toThrow("needs a number or a string");
+    });
+
+    test("limits the number of filters", () => {
+      expect(parse({ "filter[data.a]": ["1", "2"], "filter[data.b]": ["3"] })).toThrow("At most 2 filters are allowed");
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { createTables } from "./setup";
+import { call } from "./dataApi"; // Before the data-service modules, so they read its auth settings
+import { expect, test, describe, beforeAll, afterEach } from "bun:test";
+import { eq, inArray } from "drizzle-orm";
+
+import config from "../../services/data/src/config";
+import { db, entities, entityTypes, entityVersions, outbox } from "../../services/data/src/models/database";
+import {
+  EntityImportService,
+  ImportError,
+  ImportTooLargeError,
+  type ImportOptions,
+} from "../../services/data/src/services/entityImport";
+import { EntityTypeService } from "../../services/data/src/services/entityTypeService";
+import { EntityService } from "../../services/data/src/services/entityService";
+import { createExportStream } from "../../services/data/src/services/entityExport";
+
+const importService = new EntityImportService();
+const defaultChunkSize = config.entities.importChunkSize;
+
+// A request body arriving in pieces of `pieceSize` bytes, so rows, quoted
+// fields and multi-byte characters are split across reads
+const body = (text: string, pieceSize = 7): ReadableStream<Uint8Array> => {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += pieceSize) {
+        controller.enqueue(bytes.slice(i, i + pieceSize));
+      }
+      controller.close();
+    },
+  });
+};
+
+// A body read one part per pull; functions run when the reader gets to them
+const parts = (...pieces: (string | (() => void))[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    pull(controller) {
+      for (let piece = pieces.shift(); piece !== undefined; piece = pieces.shift()) {
+        if (typeof piece === "string") {
+          controller.enqueue(encoder.encode(piece));
+          return;
+        }
+        piece();
+      }
+      controller.close();
+    },
+  }, { highWaterMark: 0 });
+};
+
+const ndjson = (...rows: unknown[]) => rows.map((row) => (typeof row === "string" ? row : JSON.stringify(row))).join("\n");
+
+const importText = (text: string, options: Partial<ImportOptions> = {}) =>
+  importService.importEntities(body(text), { format: "ndjson", mode: "partial", importedBy: "importer", ...options });
+
+const exists = (id: string) => db.select().from(entities).where(eq(entities.id, id)).all().length === 1;
+
+describe("Entity import", () => {
+  beforeAll(() => {
+    createTables(db, entities, entityVersions, entityTypes, outbox);
+
+    new EntityTypeService().registerType({
+      type: "import-product",
+      schema: {
+        type: "object",
+        properties: { sku: { type: "string" }, price: { type: "number", minimum: 0 } },
+        required: ["sku"],
+      },
+    }, "tester");
+  });
+
+  afterEach(() => {
+    config.entities.importChunkSize = defaultChunkSize;
+  });
+
+  const importError = async (promise: Promise<unknown>): Promise<ImportError> => {
+    const error = await promise.then(() => undefined, (error) => error);
+    expect(error).toBeInstanceOf(ImportError);
+    return error;
+  };
+
+  describe("NDJSON", () => {
+    test("reports each bad row with its line number", async () => {
+      const result = await importText(ndjson(
+        { id: "nd-ok-1", name: "Fine", type: "note" },
+        "{not json",
+        "",
+        { id: "nd-bad-name", type: "note" },
+        { id: "nd-bad-data", name: "Product", type: "import-product", data: { price: -1 } },
+        ["not", "an", "object"],
+        { id: "nd-ok-2", name: "Également", type: "note", data: { text: "ünïcödé" } },
+      ));
+
+      expect(result).toMatchObject({ mode: "partial", rows: 6, created: 2, failed: 4, errorsTruncated: false });
+      expect(result.errors.map((error) => [error.line, error.id])).toEqual([
+        [2, undefined],
+        [4, "nd-bad-name"],
+        [5, "nd-bad-data"],
+        [6, undefined],
+      ]);
+      expect(result.errors[0].error).toBe("Invalid JSON");
+      expect(result.errors[1].error).toContain("name");
+      expect(result.errors[2].error).toContain("sku");
+      expect(exists("nd-ok-1") && exists("nd-ok-2")).toBe(true);
+      expect(exists("nd-bad-data")).toBe(false);
+
+      const [stored] = db.select().from(entities).where(eq(entities.id, "nd-ok-2")).all();
+      expect(JSON.parse(stored.data)).toEqual({ text: "ünïcödé" });
+    });
+
+    test("atomic imports write nothing when a row fails", async () => {
+      const result = await importText(ndjson(
+        { id: "atomic-1", name: "One", type: "note" },
+        { id: "atomic-2", type: "note" },
+      ), { mode: "atomic" });
+
+      expect(result).toMatchObject({ rows: 2, created: 0, failed: 1 });
+      expect(exists("atomic-1")).toBe(false);
+
+      const retried = await importText(ndjson({ id: "atomic-1", name: "One", type: "note" }), { mode: "atomic" });
+      expect(retried).toMatchObject({ created: 1, failed: 0 });
+    });
+
+    test("atomic imports span chunks", async () => {
+      config.entities.importChunkSize = 2;
+      const rows = Array.from({ length: 5 }, (_, i) => ({ id: `atomic-chunk-${i}`, name: `Row ${i}`, type: "note" }));
+
+      const failing = await importText(ndjson(...rows, { id: "atomic-chunk-bad", type: "note" }), { mode: "atomic" });
+      expect(failing).toMatchObject({ created: 0, failed: 1 });
+      expect(exists("atomic-chunk-0")).toBe(false);
+
+      expect(await importText(ndjson(...rows), { mode: "atomic" })).toMatchObject({ created: 5, failed: 0 });
+    });
+
+    test("rejects IDs that exist or repeat", async () => {
+      await importText(ndjson({ id: "taken", name: "Taken", type: "note" }));
+
+      const result = await importText(ndjson(
+        { id: "taken", name: "Again", type: "note" },
+        { id: "twice", name: "First", type: "note" },
+        { id: "twice", name: "Second", type: "note" },
+      ));
+
+      expect(result.errors).toEqual([
+        { line: 3, id: "twice", error: "Duplicate ID in this import" },
+        { line: 1, id: "taken", error: "An entity with this ID already exists" },
+      ]);
+      expect(result.created).toBe(1);
+    });
+
+    test("atomic imports fail rows whose ID was taken while the import ran", async () => {
+      config.entities.importChunkSize = 2;
+      const row = (id: string) => `${JSON.stringify({ id, name: id, type: "note" })}\n`;
+
+      const result = await importService.importEntities(parts(
+        row("race-1") + row("race-2"),
+        () => db.insert(entities).values({ id: "race-1", name: "Theirs", type: "note", data: "{}", createdBy: "someone" }).run(),
+        row("race-3"),
+      ), { format: "ndjson", mode: "atomic", importedBy: "importer" });
+
+      expect(result).toMatchObject({ created: 0, failed: 1 });
+      expect(result.errors).toEqual([{ line: 1, id: "race-1", error: "An entity with this ID already exists" }]);
+      expect(exists("race-2") || exists("race-3")).toBe(false);
+    });
+
+    test("fills in the default type", async () => {
+      const result = await importText(ndjson({ id: "typed", name: "Typed" }), { defaultType: "note" });
+      expect(result.created).toBe(1);
+    });
+
+    test("reports at most importMaxErrors failures", async () => {
+      const maxErrors = config.entities.importMaxErrors;
+      config.entities.importMaxErrors = 2;
+      try {
+        const result = await importText(ndjson("x", "y", "z"));
+        expect(result).toMatchObject({ failed: 3, errorsTruncated: true });
+        expect(result.errors).toHaveLength(2);
+      } finally {
+        config.entities.importMaxErrors = maxErrors;
+      }
+    });
+  });
+
+  describe("CSV", () => {
+    const importCsv = (text: string, options: Partial<ImportOptions> = {}) => importText(text, { format: "csv", ...options });
+
+    test("maps columns from the header and reports bad rows by line", async () => {
+      const csv = [
+        "id,name,type,data.sku,metadata.source,color",
+        'csv-1,"Widget, large",import-product,W-1,catalog,red',
+        "csv-2,Short row,import-product",
+        'csv-3,"Multi',
+        'line ""quoted""",note,,,blue',
+        "csv-4,No SKU,import-product,,catalog,green",
+      ].join("\r\n");
+
+      const result = await importCsv(csv);
+
+      expect(result).toMatchObject({ rows: 4, created: 2, failed: 2 });
+      expect(result.errors.map((error) => error.line)).toEqual([3, 6]);
+      expect(result.errors[0].error).toBe("Expected 6 columns, found 3");
+      expect(result.errors[1]).toMatchObject({ id: "csv-4" });
+
+      const [widget] = db.select().from(entities).where(eq(entities.id, "csv-1")).all();
+      expect(widget.name).toBe("Widget, large");
+      expect(JSON.parse(widget.data)).toEqual({ sku: "W-1", color: "red" });
+      expect(JSON.parse(widget.metadata)).toEqual({ source: "catalog" });
+
+      const [multiline] = db.select().from(entities).where(eq(entities.id, "csv-3")).all();
+      expect(multiline.name).toBe('Multi\r\nline "quoted"');
+    });
+
+    test("converts typed columns and reports cells that don't convert", async () => {
+      const mapping = {
+        id: "id",
+        name: "name",
+        type: "kind",
+        "data.sku": "sku",
+        "data.price": { column: "price", type: "number" as const },
+        "data.active": { column: "active", type: "boolean" as const },
+      };
+      const csv = [
+        "id,name,kind,sku,price,active",
+        "typed-1,Priced,import-product,P-1,9.5,yes",
+        "typed-2,Priced,import-product,P-2,cheap,true",
+        "typed-3,Priced,import-product,P-3,3,0",
+      ].join("\n");
+
+      const result = await importCsv(csv, { mapping });
+
+      expect(result.errors).toEqual([
+        { line: 2, error: "Column active is not a boolean" },
+        { line: 3, error: "Column price is not a number" },
+      ]);
+      const [typed] = db.select().from(entities).where(eq(entities.id, "typed-3")).all();
+      expect(JSON.parse(typed.data)).toEqual({ sku: "P-3", price: 3, active: false });
+    });
+
+    test("rejects unusable headers, mappings and quoting as a whole", async () => {
+      await expect(importCsv("id,name,id\n1,a,1")).rejects.toThrow("duplicate column names");
+      await expect(importCsv("id,name\n1,a", { mapping: { name: "title" } })).rejects.toThrow("names a missing column: title");
+      await expect(importCsv("id,name\n1,a", { mapping: { owner: "name" } })).rejects.toThrow(ImportError);
+      await expect(importCsv("id,name\n1,a", { mapping: { "data.__proto__.x": "name" } })).rejects.toThrow("Cannot map to");
+      await expect(importCsv('id,name,type\nq-1,"open,note')).rejects.toThrow("Unterminated quoted field starting on line 2");
+    });
+
+    test("reports the chunks written before an error that stops the import", async () => {
+      config.entities.importChunkSize = 2;
+      const csv = 'id,name,type\nstop-1,One,note\nstop-2,Two,note\nstop-3,Three,note\nstop-4,"Four,note';
+
+      const partial = await importError(importCsv(csv));
+      expect(partial.message).toBe("Unterminated quoted field starting on line 5");
+      expect(partial.result).toMatchObject({ mode: "partial", rows: 3, created: 2 });
+      expect([exists("stop-1"), exists("stop-2"), exists("stop-3")]).toEqual([true, true, false]);
+
+      const atomic = await importError(importCsv(csv.replace(/stop-/g, "stop-atomic-"), { mode: "atomic" }));
+      expect(atomic.result).toMatchObject({ mode: "atomic", created: 0 });
+      expect(exists("stop-atomic-1")).toBe(false);
+    });
+
+    test("the route returns what was written along with the error", async () => {
+      config.entities.importChunkSize = 1;
+      const response = await call("POST", "/data/entities/import?mode=partial", 'id,name,type\nroute-1,One,note\n"open', {
+        "content-type": "text/csv",
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.json.error).toBe("Invalid import");
+      expect(response.json.data).toMatchObject({ rows: 1, created: 1 });
+      expect(exists("route-1")).toBe(true);
+    });
+
+    test("imports a CSV export unchanged", async () => {
+      const entityService = new EntityService();
+      const selection = { type: "import-product", sortBy: "name" as const, sortOrder: "asc" as const };
+      const fields = async () => (await entityService.listEntities({ ...selection, page: 1, limit: 50 })).entities
+        .map((entity) => [entity.id, entity.name, JSON.parse(entity.data), JSON.parse(entity.metadata)]);
+
+      const before = await fields();
+      const exported = await new Response(createExportStream(entityService.iterateEntities(selection), "csv")).text();
+      db.delete(entityVersions).where(inArray(entityVersions.entityId, before.map(([id]) => id))).run();
+      db.delete(entities).where(eq(entities.type, "import-product")).run();
+
+      expect(await importCsv(exported)).toMatchObject({ created: 2, failed: 0 });
+      expect(await fields()).toEqual(before);
+      expect(before.map(([id]) => id).sort()).toEqual(["csv-1", "typed-3"]);
+    });
+  });
+
+  describe("size limit", () => {
+    const maxBytes = config.entities.importMaxBytes;
+    afterEach(() => {
+      config.entities.importMaxBytes = maxBytes;
+    });
+
+    test("stops reading past importMaxBytes", async () => {
+      config.entities.importMaxBytes = 100;
+      const rows = Array.from({ length: 10 }, (_, i) => ({ id: `big-${i}`, name: "Big", type: "note" }));
+
+      const error = await importError(importText(ndjson(...rows)));
+      expect(error).toBeInstanceOf(ImportTooLargeError);
+      expect(error.result?.rows).toBeLessThan(10);
+    });
+
+    test("the route refuses a declared length over the limit", async () => {
+      config.entities.importMaxBytes = 10;
+      const response = await call("POST", "/data/entities/import", ndjson({ id: "big", name: "Big", type: "note" }), {
+        "content-type": "application/x-ndjson",
+      });
+
+      expect(response.status).toBe(413);
+      expect(exists("big")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { createTables } from "./setup";
+import { expect, test, describe, beforeAll } from "bun:test";
+
+import { db, entities, type Entity } from "../../services/data/src/models/database";
+import {
+  EntityService,
+  InvalidCursorError,
+  type EntityQuery,
+} from "../../services/data/src/services/entityService";
+
+const entityService = new EntityService();
+const TYPE = "paging-item";
+
+const query = (overrides: Partial<EntityQuery> = {}): EntityQuery => ({
+  page: 1,
+  limit: 4,
+  type: TYPE,
+  sortBy: "createdAt",
+  sortOrder: "asc",
+  ...overrides,
+});
+
+// Follow nextCursor until the last page
+const readAllPages = async (base: EntityQuery): Promise<Entity[][]> => {
+  const pages: Entity[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await entityService.listEntities({ ...base, cursor });
+    pages.push(page.entities);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+};
+
+const names = (list: Entity[]) => list.map((entity) => entity.name);
+
+describe("Entity listing", () => {
+  beforeAll(() => {
+    createTables(db, entities);
+
+    // Pairs of entities share a creation time, so paging has to break ties by ID
+    const start = Date.parse("2026-01-01T00:00:00Z");
+    for (let i = 0; i < 10; i++) {
+      const createdAt = new Date(start + Math.floor(i / 2) * 1000).toISOString();
+      db.insert(entities).values({
+        name: `Item ${String(i).padStart(2, "0")}`,
+        type: TYPE,
+        data: JSON.stringify({ index: i }),
+        createdBy: "tester",
+        createdAt,
+        updatedAt: createdAt,
+        deletedAt: i === 9 ? createdAt : null,
+      }).run();
+    }
+    db.insert(entities).values({ name: "Item 99", type: "other", data: "{}", createdBy: "tester" }).run();
+  });
+
+  test("cursor pages cover every entity once, in order", async () => {
+    const pages = await readAllPages(query());
+
+    expect(pages.map((page) => page.length)).toEqual([4, 4, 1]);
+
+    const all = pages.flat();
+    expect(new Set(all.map((entity) => entity.id)).size).toBe(9);
+    for (let i = 1; i < all.length; i++) {
+      const previous = all[i - 1];
+      const current = all[i];
+      expect(previous.createdAt < current.createdAt || (previous.createdAt === current.createdAt && previous.id < current.id)).toBe(true);
+    }
+  });
+
+  test("descending cursor pages are the ascending ones reversed", async () => {
+    const ascending = (await readAllPages(query())).flat();
+    const descending = (await readAllPages(query({ sortOrder: "desc" }))).flat();
+
+    expect(descending.map((entity) => entity.id)).toEqual(ascending.map((entity) => entity.id).reverse());
+  });
+
+  test("sorts by name", async () => {
+    const page = await entityService.listEntities(query({ sortBy: "name", sortOrder: "desc", limit: 3 }));
+    expect(names(page.entities)).toEqual(["Item 08", "Item 07", "Item 06"]);
+  });
+
+  test("counts every match and leaves out the cursor on the last page", async () => {
+    const first = await entityService.listEntities(query());
+    expect(first.total).toBe(9);
+    expect(first.nextCursor).toBeString();
+
+    const last = await entityService.listEntities(query({ limit: 9 }));
+    expect(last.entities).toHaveLength(9);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  test("offset pages match cursor pages", async () => {
+    const cursorPages = await readAllPages(query());
+    for (const [i, cursorPage] of cursorPages.entries()) {
+      const page = await entityService.listEntities(query({ page: i + 1 }));
+      expect(page.entities.map((entity) => entity.id)).toEqual(cursorPage.map((entity) => entity.id));
+    }
+  });
+
+  test("new entities don't shift the following cursor pages", async () => {
+    const before = (await entityService.listEntities(query({ limit: 20 }))).entities;
+    const first = await entityService.listEntities(query({ limit: 3 }));
+    db.insert(entities).values({
+      name: "Item early",
+      type: TYPE,
+      data: "{}",
+      createdBy: "tester",
+      createdAt: "2025-12-31T00:00:00.000Z",
+      updatedAt: "2025-12-31T00:00:00.000Z",
+      deletedAt: "2025-12-31T00:00:00.000Z", // Kept out of the other tests
+    }).run();
+
+    const second = await entityService.listEntities(query({ limit: 3, cursor: first.nextCursor, includeDeleted: true }));
+    expect(second.entities.map((entity) => entity.id)).toEqual(before.slice(3, 6).map((entity) => entity.id));
+  });
+
+  test("searches names case-insensitively, with % and _ taken literally", async () => {
+    expect((await entityService.listEntities(query({ search: "item 0" }))).total).toBe(9);
+    expect((await entityService.listEntities(query({ search: "item 01" }))).entities).toHaveLength(1);
+    expect((await entityService.listEntities(query({ search: "Item%" }))).total).toBe(0);
+    expect((await entityService.listEntities(query({ search: "_" }))).total).toBe(0);
+  });
+
+  test("includes deleted entities on request", async () => {
+    expect((await entityService.listEntities(query({ includeDeleted: true, search: "Item 09" }))).total).toBe(1);
+    expect((await entityService.listEntities(query({ search: "Item 09" }))).total).toBe(0);
+  });
+
+  test("rejects cursors from another sort or tampered ones", async () => {
+    const { nextCursor } = await entityService.listEntities(query());
+
+    await expect(entityService.listEntities(query({ cursor: nextCursor, sortOrder: "desc" }))).rejects.toBeInstanceOf(InvalidCursorError);
+    await expect(entityService.listEntities(query({ cursor: nextCursor, sortBy: "name" }))).rejects.toBeInstanceOf(InvalidCursorError);
+    await expect(entityService.listEntities(query({ cursor: "not-a-cursor" }))).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  test("exports iterate every match in batches", async () => {
+    const batches: Entity[][] = [];
+    for await (const batch of entityService.iterateEntities({ type: TYPE, sortBy: "name", sortOrder: "asc" }, 4)) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((batch) => batch.length)).toEqual([4, 4, 1]);
+    expect(names(batches.flat())).toEqual(names((await entityService.listEntities(query({ sortBy: "name", limit: 20 }))).entities));
+  });
+});
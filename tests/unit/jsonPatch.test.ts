@@ -0,0 +1,110 @@
+import { expect, test, describe } from "bun:test";
+import {
+  applyMergePatch,
+  applyPatch,
+  createPatch,
+  JsonPatchError,
+} from "../../services/data/src/services/jsonPatch";
+
+const roundTrip = (before: unknown, after: unknown) => applyPatch(before, createPatch(before, after));
+
+describe("JSON Patch", () => {
+  describe("createPatch", () => {
+    test("returns no operations for equal documents", () => {
+      expect(createPatch({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toEqual([]);
+    });
+
+    test("adds, removes and replaces object members", () => {
+      expect(createPatch({ a: 1, b: 2 }, { b: 3, c: 4 })).toEqual([
+        { op: "remove", path: "/a" },
+        { op: "replace", path: "/b", value: 3 },
+        { op: "add", path: "/c", value: 4 },
+      ]);
+    });
+
+    test("escapes keys as JSON Pointer tokens", () => {
+      expect(createPatch({}, { "a/b~c": 1 })).toEqual([{ op: "add", path: "/a~1b~0c", value: 1 }]);
+    });
+
+    test("treats inherited member names as ordinary keys", () => {
+      expect(createPatch({}, { constructor: "x", toString: 1 })).toEqual([
+        { op: "add", path: "/constructor", value: "x" },
+        { op: "add", path: "/toString", value: 1 },
+      ]);
+      expect(createPatch({ constructor: "x" }, {})).toEqual([{ op: "remove", path: "/constructor" }]);
+    });
+  });
+
+  describe("round-trips", () => {
+    const cases: Array<[string, unknown, unknown]> = [
+      ["nested objects", { a: { b: 1, c: 2 } }, { a: { b: 1, d: [3] } }],
+      ["changed arrays", { tags: ["a", "b"] }, { tags: ["b"] }],
+      ["the root", { a: 1 }, [1, 2]],
+      ["inherited member names", { valueOf: 1 }, { constructor: { prototype: 1 }, toString: "s", hasOwnProperty: null }],
+      ["escaped keys", { "a/b": 1, "~": 2 }, { "a/b": 2 }],
+    ];
+
+    for (const [name, before, after] of cases) {
+      test(name, () => {
+        expect(roundTrip(before, after)).toEqual(after);
+      });
+    }
+
+    test("leave the input document untouched", () => {
+      const before = { a: { b: 1 } };
+      roundTrip(before, { a: { b: 2 } });
+      expect(before).toEqual({ a: { b: 1 } });
+    });
+  });
+
+  describe("applyPatch", () => {
+    test("moves and copies values", () => {
+      const result = applyPatch({ a: { x: 1 }, list: [1, 2] }, [
+        { op: "copy", from: "/a/x", path: "/list/-" },
+        { op: "move", from: "/a", path: "/b" },
+      ]);
+      expect(result).toEqual({ b: { x: 1 }, list: [1, 2, 1] });
+    });
+
+    test("is all or nothing", () => {
+      const document = { a: 1 };
+      expect(() => applyPatch(document, [
+        { op: "replace", path: "/a", value: 2 },
+        { op: "test", path: "/a", value: 1 },
+      ])).toThrow(JsonPatchError);
+      expect(document).toEqual({ a: 1 });
+    });
+
+    test("does not find inherited members", () => {
+      expect(() => applyPatch({}, [{ op: "remove", path: "/toString" }])).toThrow("Path not found: /toString");
+      expect(() => applyPatch({}, [{ op: "replace", path: "/constructor", value: 1 }])).toThrow("Path not found");
+    });
+
+    test("reports conflicts separately from malformed patches", () => {
+      const conflict = (operations: unknown) => {
+        try {
+          applyPatch({}, operations);
+        } catch (error) {
+          return (error as JsonPatchError).conflict;
+        }
+      };
+      expect(conflict([{ op: "remove", path: "/missing" }])).toBe(true);
+      expect(conflict([{ op: "add", path: "/a" }])).toBe(false);
+    });
+
+    test("rejects __proto__ paths", () => {
+      expect(() => applyPatch({}, [{ op: "add", path: "/__proto__/polluted", value: 1 }])).toThrow("Invalid JSON Pointer");
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe("applyMergePatch", () => {
+    test("merges objects and removes null members", () => {
+      expect(applyMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: null, b: { d: 4 } })).toEqual({ b: { c: 2, d: 4 } });
+    });
+
+    test("does not merge into inherited members", () => {
+      expect(applyMergePatch({}, { constructor: { a: 1 } })).toEqual({ constructor: { a: 1 } });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import "./setup";
+import { expect, test, describe, beforeAll, afterAll } from "bun:test";
+import { Hono, type Context } from "hono";
+import { jwtAuth } from "shared-middleware";
+import { createJwksVerifier, JwksUnavailableError, type JwksVerifierOptions } from "shared-utils";
+
+import "../../services/auth/migrate";
+import { KeyService } from "../../services/auth/src/services/keyService";
+
+const AUTH_URL = "http://auth.test";
+const keyService = new KeyService();
+const originalFetch = globalThis.fetch;
+
+let jwksFetches = 0;
+let jwksStatus: "up" | "down" = "up";
+const revokedSessions = new Set<string>();
+
+const options: JwksVerifierOptions = {
+  jwksUrl: `${AUTH_URL}/.well-known/jwks.json`,
+  sessions: { authServiceUrl: AUTH_URL },
+};
+
+// A route behind jwtAuth that echoes the caller
+const app = new Hono();
+app.get("/me", jwtAuth(options), (c: Context) => c.json({ user: c.get("user") }));
+const callMe = (token: string) => app.request("/me", { headers: { authorization: `Bearer ${token}` } });
+
+const accessToken = (sid?: string) => keyService.signAccessToken({ userId: "jwks-user", permissions: [], sid });
+
+// Signed the way oauthService signs ID tokens for a client
+const idToken = () => keyService.signToken(
+  { userId: "jwks-user", email: "jwks@example.com", permissions: ["*"] },
+  { audience: "third-party-client", issuer: AUTH_URL, expiresIn: 300 }
+);
+
+describe("JWKS verification", () => {
+  beforeAll(() => {
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      if (url === options.jwksUrl) {
+        jwksFetches++;
+        if (jwksStatus === "down") return new Response("unavailable", { status: 503 });
+        return Response.json(keyService.getJwks());
+      }
+      if (url === `${AUTH_URL}/auth/sessions/status`) {
+        const { sessionId } = JSON.parse(String(init?.body));
+        return Response.json({ success: true, data: { active: !revokedSessions.has(sessionId) } });
+      }
+      return new Response("not found", { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("accepts access tokens", async () => {
+    const response = await callMe(accessToken());
+
+    expect(response.status).toBe(200);
+    const { user } = (await response.json()) as { user: { userId: string } };
+    expect(user.userId).toBe("jwks-user");
+  });
+
+  test("refuses ID tokens, which carry an audience", async () => {
+    await expect(createJwksVerifier(options)(idToken())).rejects.toThrow("Invalid token");
+
+    const response = await callMe(idToken());
+    expect(response.status).toBe(401);
+  });
+
+  test("refuses tokens of revoked sessions", async () => {
+    expect((await callMe(accessToken("jwks-session"))).status).toBe(200);
+
+    revokedSessions.add("jwks-revoked-session");
+    const response = await callMe(accessToken("jwks-revoked-session"));
+    expect(response.status).toBe(401);
+  });
+
+  // These rotate the signing key, so they run last
+  describe("key rotation", () => {
+    test("refetches the JWKS for a token signed with a new key", async () => {
+      const verify = createJwksVerifier({ ...options, refetchIntervalMs: 0 });
+      const before = accessToken();
+      await verify(before);
+
+      keyService.rotateKeys();
+      const after = accessToken();
+      const fetches = jwksFetches;
+      expect((await verify(after)).userId).toBe("jwks-user");
+      expect(jwksFetches - fetches).toBe(1);
+
+      // Tokens signed before the rotation stay valid with the retired key
+      expect((await verify(before)).userId).toBe("jwks-user");
+      expect(jwksFetches - fetches).toBe(1);
+    });
+
+    test("refetches for unknown keys at most once per interval", async () => {
+      const verify = createJwksVerifier({ ...options, refetchIntervalMs: 60000 });
+      await verify(accessToken());
+
+      keyService.rotateKeys();
+      const fetches = jwksFetches;
+      await expect(verify(accessToken())).rejects.toThrow("Invalid token");
+      await expect(verify(accessToken())).rejects.toThrow("Invalid token");
+      expect(jwksFetches).toBe(fetches);
+    });
+
+    test("keeps verifying known keys through a JWKS outage", async () => {
+      const verify = createJwksVerifier({ ...options, cacheTtlMs: 0, refetchIntervalMs: 0 });
+      const known = accessToken();
+      await verify(known);
+
+      keyService.rotateKeys();
+      jwksStatus = "down";
+      try {
+        expect((await verify(known)).userId).toBe("jwks-user");
+        await expect(verify(accessToken())).rejects.toBeInstanceOf(JwksUnavailableError);
+      } finally {
+        jwksStatus = "up";
+      }
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { loginProtection } from "../../services/auth/src/config";
+import { LoginAttemptService } from "../../services/auth/src/services/loginAttemptService";
+
+// The Redis commands the service uses, kept in memory with a clock the tests move
+class FakeRedis {
+  isOpen = true;
+  now = 0;
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  private entry(key: string) {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  get(key: string) {
+    return this.entry(key)?.value ?? null;
+  }
+
+  set(key: string, value: string, options: { PX?: number; NX?: boolean } = {}) {
+    if (options.NX && this.entry(key)) return null;
+    this.entries.set(key, { value, expiresAt: options.PX !== undefined ? this.now + options.PX : undefined });
+    return "OK";
+  }
+
+  incr(key: string) {
+    const entry = this.entry(key);
+    const value = String(parseInt(entry?.value ?? "0", 10) + 1);
+    this.entries.set(key, { value, expiresAt: entry?.expiresAt });
+    return Number(value);
+  }
+
+  pExpire(key: string, ms: number) {
+    const entry = this.entry(key);
+    if (!entry) return false;
+    entry.expiresAt = this.now + ms;
+    return true;
+  }
+
+  pTTL(key: string) {
+    const entry = this.entry(key);
+    if (!entry) return -2;
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - this.now;
+  }
+
+  del(keys: string[]) {
+    return keys.filter((key) => this.entry(key) && this.entries.delete(key)).length;
+  }
+
+  // Queues commands and runs them in order on exec()
+  multi() {
+    const queued: Array<() => unknown> = [];
+    const transaction: any = new Proxy({}, {
+      get: (_, command: string) => {
+        if (command === "exec") return async () => queued.map((run) => run());
+        return (...args: unknown[]) => {
+          queued.push(() => (this as any)[command](...args));
+          return transaction;
+        };
+      },
+    });
+    return transaction;
+  }
+}
+
+const EMAIL = "Locked@Example.com";
+const IP = "198.51.100.4";
+
+describe("Login attempt protection", () => {
+  let redis: FakeRedis;
+  let service: LoginAttemptService;
+
+  // Fail logins for an account, waiting out each delay like a patient attacker
+  const failLogins = async (count: number, email = EMAIL, ipAddress = IP) => {
+    let result;
+    for (let i = 0; i < count; i++) {
+      redis.now += loginProtection.maxDelayMs;
+      result = await service.recordFailure(email, ipAddress);
+    }
+    return result!;
+  };
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    service = new LoginAttemptService();
+    (service as any).redisClient = redis;
+  });
+
+  test("the first failures are free", async () => {
+    await service.recordFailure(EMAIL, IP);
+    const result = await service.recordFailure(EMAIL, IP);
+
+    expect(result).toEqual({ failures: 2, locked: false });
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: true });
+  });
+
+  test("further failures add a doubling delay", async () => {
+    await failLogins(loginProtection.accountFreeFailures);
+
+    await service.recordFailure(EMAIL, IP);
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: false, reason: "throttled", retryAfterSeconds: 1 });
+
+    redis.now += loginProtection.baseDelayMs;
+    expect((await service.check(EMAIL, IP)).allowed).toBe(true);
+
+    await service.recordFailure(EMAIL, IP);
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: false, reason: "throttled", retryAfterSeconds: 2 });
+  });
+
+  test("accounts are counted case-insensitively", async () => {
+    await failLogins(2, "locked@example.com");
+    expect((await service.recordFailure(" LOCKED@example.com ", IP)).failures).toBe(3);
+  });
+
+  test("too many failures lock the account once", async () => {
+    const locking = await failLogins(loginProtection.maxAccountFailures);
+
+    expect(locking.locked).toBe(true);
+    expect(locking.unlockToken).toBeString();
+    expect(await service.check(EMAIL, "192.0.2.1")).toEqual({
+      allowed: false,
+      reason: "locked",
+      retryAfterSeconds: loginProtection.lockoutMinutes * 60,
+    });
+
+    // The counter starts over, so later failures don't report the lock again
+    const after = await failLogins(loginProtection.maxAccountFailures);
+    expect(after.locked).toBe(false);
+  });
+
+  test("the lock lifts after the lockout or with the emailed token", async () => {
+    const { unlockToken } = await failLogins(loginProtection.maxAccountFailures);
+
+    expect(await service.unlock("not-the-token")).toBeNull();
+    expect(await service.unlock(unlockToken!)).toBe("locked@example.com");
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: true });
+    expect(await service.unlock(unlockToken!)).toBeNull();
+
+    await failLogins(loginProtection.maxAccountFailures);
+    redis.now += loginProtection.lockoutMinutes * 60 * 1000;
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: true });
+  });
+
+  test("failures expire with the window", async () => {
+    await failLogins(loginProtection.maxAccountFailures - 1);
+
+    redis.now += loginProtection.failureWindowMinutes * 60 * 1000;
+    expect(await service.recordFailure(EMAIL, IP)).toEqual({ failures: 1, locked: false });
+  });
+
+  test("a successful login clears the account but not the IP", async () => {
+    await failLogins(loginProtection.maxAccountFailures - 1);
+    await service.recordSuccess(EMAIL);
+
+    expect(await service.recordFailure(EMAIL, IP)).toEqual({ failures: 1, locked: false });
+    expect(redis.get(`login:failures:ip:${IP}`)).toBe(String(loginProtection.maxAccountFailures));
+  });
+
+  test("an IP failing across many accounts is blocked", async () => {
+    for (let i = 0; i < loginProtection.maxIpFailures; i++) {
+      await failLogins(1, `user${i}@example.com`);
+    }
+
+    const check = await service.check("someone-else@example.com", IP);
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toBe("throttled");
+    expect((await service.check("someone-else@example.com", "192.0.2.1")).allowed).toBe(true);
+  });
+
+  test("logins are let through when Redis is unavailable", async () => {
+    (service as any).redisClient = {
+      isOpen: true,
+      multi: () => {
+        throw new Error("connection lost");
+      },
+    };
+
+    expect(await service.check(EMAIL, IP)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,133 @@
+import "./setup";
+import { expect, test, describe, beforeEach } from "bun:test";
+
+import "../../services/auth/migrate";
+import { db, users } from "../../services/auth/src/models/database";
+import { MfaService } from "../../services/auth/src/services/mfaService";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from "../../services/auth/src/services/totp";
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// Fixed clock the MFA service checks codes against
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+const STEP = 30 * 1000;
+
+describe("TOTP", () => {
+  test("base32 round-trips", () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  test("matches the RFC 6238 test vectors", () => {
+    // The RFC lists 8 digit codes; authenticator apps show their last 6
+    const vectors: Array<[number, string]> = [
+      [59, "287082"],
+      [1111111109, "081804"],
+      [1111111111, "050471"],
+      [1234567890, "005924"],
+      [2000000000, "279037"],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+    }
+  });
+
+  test("accepts codes one step either side of the clock", () => {
+    const code = generateTotp(RFC_SECRET, getTotpStep(NOW));
+
+    expect(verifyTotp(RFC_SECRET, code, NOW)).toBe(getTotpStep(NOW));
+    expect(verifyTotp(RFC_SECRET, code, NOW - STEP)).toBe(getTotpStep(NOW));
+    expect(verifyTotp(RFC_SECRET, code, NOW + STEP)).toBe(getTotpStep(NOW));
+    expect(verifyTotp(RFC_SECRET, code, NOW + 2 * STEP)).toBeNull();
+  });
+
+  test("rejects malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345", NOW)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", NOW)).toBeNull();
+  });
+});
+
+describe("MFA", () => {
+  let time = NOW;
+  const mfaService = new MfaService(() => time);
+  let user: { id: string; email: string };
+
+  const codeAt = (secret: string, at: number) => generateTotp(secret, getTotpStep(at));
+
+  const enrol = async () => {
+    const setup = await mfaService.beginSetup(user);
+    const enabled = await mfaService.enable(user.id, codeAt(setup.secret!, time));
+    expect(enabled.success).toBe(true);
+    return { secret: setup.secret!, recoveryCodes: enabled.recoveryCodes! };
+  };
+
+  beforeEach(() => {
+    time = NOW;
+    const now = new Date().toISOString();
+    user = { id: crypto.randomUUID(), email: `${crypto.randomUUID()}@example.com` };
+    db.insert(users).values({ ...user, name: "MFA", password: "x", createdAt: now, updatedAt: now }).run();
+  });
+
+  test("enabling needs a code from the pending secret", async () => {
+    const setup = await mfaService.beginSetup(user);
+    expect(setup.otpauthUri).toStartWith("otpauth://totp/");
+
+    expect(await mfaService.enable(user.id, "000000")).toEqual({ success: false, error: "Invalid MFA code" });
+    expect((await mfaService.getStatus({ id: user.id, role: "user" })).enabled).toBe(false);
+
+    time += 2 * STEP;
+    const enabled = await mfaService.enable(user.id, codeAt(setup.secret!, time));
+    expect(enabled.success).toBe(true);
+    expect(enabled.recoveryCodes).toHaveLength(10);
+  });
+
+  test("each code is accepted once", async () => {
+    const { secret } = await enrol();
+
+    time += STEP;
+    const code = codeAt(secret, time);
+    expect(await mfaService.verify(user.id, { code })).toEqual({ success: true, method: "totp" });
+    expect(await mfaService.verify(user.id, { code })).toEqual({ success: false, error: "Invalid MFA code" });
+  });
+
+  test("codes from steps before the last used one are refused", async () => {
+    const { secret } = await enrol();
+
+    time += 3 * STEP;
+    const earlier = codeAt(secret, time - STEP);
+    expect((await mfaService.verify(user.id, { code: codeAt(secret, time) })).success).toBe(true);
+    expect((await mfaService.verify(user.id, { code: earlier })).success).toBe(false);
+  });
+
+  test("codes outside the drift window are refused", async () => {
+    const { secret } = await enrol();
+
+    time += 10 * STEP;
+    expect((await mfaService.verify(user.id, { code: codeAt(secret, time - 2 * STEP) })).success).toBe(false);
+    expect((await mfaService.verify(user.id, { code: codeAt(secret, time + STEP) })).success).toBe(true);
+  });
+
+  test("recovery codes are used up", async () => {
+    const { recoveryCodes } = await enrol();
+    const [recoveryCode] = recoveryCodes;
+
+    expect(await mfaService.verify(user.id, { recoveryCode: recoveryCode.toUpperCase() })).toEqual({
+      success: true,
+      method: "recovery_code",
+      recoveryCodesRemaining: 9,
+    });
+    expect(await mfaService.verify(user.id, { recoveryCode })).toEqual({
+      success: false,
+      error: "Invalid recovery code",
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import "./setup";
+import { expect, test, describe, beforeAll } from "bun:test";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+import "../../services/auth/migrate";
+import { db, users, type OAuthClient } from "../../services/auth/src/models/database";
+import { OAuthService } from "../../services/auth/src/services/oauthService";
+
+const oauthService = new OAuthService();
+const REDIRECT_URI = "https://app.example.com/callback";
+
+// A PKCE pair as a public client makes it (RFC 7636)
+const createPkce = () => {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+};
+
+let userId: string;
+let publicClient: OAuthClient;
+let confidentialClient: OAuthClient;
+let clientSecret: string;
+
+// Run the authorization step for a user who approved the request
+const authorize = async (client: OAuthClient, request: { scope?: string; codeChallenge?: string; nonce?: string } = {}) => {
+  const validated = await oauthService.validateAuthorizationRequest({
+    clientId: client.id,
+    redirectUri: REDIRECT_URI,
+    responseType: "code",
+    scope: request.scope ?? "openid email",
+    codeChallenge: request.codeChallenge,
+    codeChallengeMethod: request.codeChallenge ? "S256" : undefined,
+  });
+  expect(validated.success).toBe(true);
+
+  return oauthService.createAuthorizationCode(client.id, userId, {
+    redirectUri: REDIRECT_URI,
+    scopes: validated.scopes!,
+    codeChallenge: request.codeChallenge,
+    nonce: request.nonce,
+  });
+};
+
+describe("OAuth authorization code grant", () => {
+  beforeAll(async () => {
+    const now = new Date().toISOString();
+    userId = crypto.randomUUID();
+    db.insert(users).values({
+      id: userId,
+      email: "oauth@example.com",
+      name: "OAuth User",
+      password: "x",
+      emailVerified: true,
+      createdAt: now,
+      updatedAt: now,
+    }).run();
+
+    const clientInput = {
+      redirectUris: [REDIRECT_URI],
+      grantTypes: ["authorization_code" as const],
+      scopes: ["openid", "profile", "email"],
+    };
+    publicClient = (await oauthService.createClient({ ...clientInput, name: "SPA", confidential: false }, userId)).client!;
+    const created = await oauthService.createClient({ ...clientInput, name: "Backend", confidential: true }, userId);
+    confidentialClient = created.client!;
+    clientSecret = created.clientSecret!;
+  });
+
+  test("exchanges a code with a matching S256 verifier", async () => {
+    const { verifier, challenge } = createPkce();
+    const code = await authorize(publicClient, { codeChallenge: challenge, nonce: "n-1" });
+
+    const result = await oauthService.exchangeAuthorizationCode(publicClient, {
+      code,
+      redirectUri: REDIRECT_URI,
+      codeVerifier: verifier,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.tokens!.token_type).toBe("Bearer");
+    expect(result.tokens!.scope).toBe("openid email");
+
+    const idToken = jwt.decode(result.tokens!.id_token!) as jwt.JwtPayload;
+    expect(idToken.sub).toBe(userId);
+    expect(idToken.aud).toBe(publicClient.id);
+    expect(idToken.nonce).toBe("n-1");
+    expect(idToken.email).toBe("oauth@example.com");
+    expect(idToken.name).toBeUndefined();
+  });
+
+  test("rejects a wrong or missing verifier", async () => {
+    const { challenge } = createPkce();
+
+    const wrong = await oauthService.exchangeAuthorizationCode(publicClient, {
+      code: await authorize(publicClient, { codeChallenge: challenge }),
+      redirectUri: REDIRECT_URI,
+      codeVerifier: createPkce().verifier,
+    });
+    expect(wrong).toMatchObject({ success: false, error: "invalid_grant", errorDescription: "Invalid code_verifier" });
+
+    const missing = await oauthService.exchangeAuthorizationCode(publicClient, {
+      code: await authorize(publicClient, { codeChallenge: challenge }),
+      redirectUri: REDIRECT_URI,
+    });
+    expect(missing).toMatchObject({ success: false, error: "invalid_grant" });
+  });
+
+  test("rejects a redirect_uri other than the one authorized", async () => {
+    const { verifier, challenge } = createPkce();
+    const result = await oauthService.exchangeAuthorizationCode(publicClient, {
+      code: await authorize(publicClient, { codeChallenge: challenge }),
+      redirectUri: "https://app.example.com/other",
+      codeVerifier: verifier,
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "invalid_grant",
+      errorDescription: "redirect_uri does not match the authorization request",
+    });
+  });
+
+  test("codes are single-use and bound to their client", async () => {
+    const { verifier, challenge } = createPkce();
+    const code = await authorize(publicClient, { codeChallenge: challenge });
+    const request = { code, redirectUri: REDIRECT_URI, codeVerifier: verifier };
+
+    const other = await oauthService.exchangeAuthorizationCode(confidentialClient, request);
+    expect(other).toMatchObject({ success: false, error: "invalid_grant" });
+
+    // Presenting it to the wrong client used it up
+    const retried = await oauthService.exchangeAuthorizationCode(publicClient, request);
+    expect(retried).toMatchObject({ success: false, error: "invalid_grant" });
+
+    const fresh = await authorize(publicClient, { codeChallenge: challenge });
+    expect((await oauthService.exchangeAuthorizationCode(publicClient, { ...request, code: fresh })).success).toBe(true);
+    expect((await oauthService.exchangeAuthorizationCode(publicClient, { ...request, code: fresh })).success).toBe(false);
+  });
+
+  test("confidential clients may skip PKCE but not present a verifier", async () => {
+    const client = await oauthService.authenticateClient(confidentialClient.id, clientSecret);
+    expect(client?.id).toBe(confidentialClient.id);
+    expect(await oauthService.authenticateClient(confidentialClient.id, "cs_wrong")).toBeNull();
+    expect(await oauthService.authenticateClient(publicClient.id, "anything")).toBeNull();
+
+    const ok = await oauthService.exchangeAuthorizationCode(client!, {
+      code: await authorize(client!),
+      redirectUri: REDIRECT_URI,
+    });
+    expect(ok.success).toBe(true);
+
+    const unexpected = await oauthService.exchangeAuthorizationCode(client!, {
+      code: await authorize(client!),
+      redirectUri: REDIRECT_URI,
+      codeVerifier: createPkce().verifier,
+    });
+    expect(unexpected).toMatchObject({ success: false, errorDescription: "Invalid code_verifier" });
+  });
+
+  describe("authorization requests", () => {
+    const request = () => ({
+      clientId: publicClient.id,
+      redirectUri: REDIRECT_URI,
+      responseType: "code",
+      scope: "openid",
+      codeChallenge: createPkce().challenge,
+      codeChallengeMethod: "S256",
+    });
+
+    test("unregistered redirect URIs are not redirected to", async () => {
+      const result = await oauthService.validateAuthorizationRequest({ ...request(), redirectUri: "https://evil.example.com/cb" });
+      expect(result).toMatchObject({ success: false, error: "invalid_request", redirect: false });
+    });
+
+    test("public clients must use S256 PKCE", async () => {
+      const plain = await oauthService.validateAuthorizationRequest({ ...request(), codeChallengeMethod: "plain" });
+      expect(plain).toMatchObject({ success: false, errorDescription: "code_challenge_method must be S256", redirect: true });
+
+      const missing = await oauthService.validateAuthorizationRequest({ ...request(), codeChallenge: undefined });
+      expect(missing).toMatchObject({ success: false, errorDescription: "code_challenge is required for public clients" });
+    });
+
+    test("scopes must be allowed for the client", async () => {
+      const result = await oauthService.validateAuthorizationRequest({ ...request(), scope: "openid users:delete" });
+      expect(result).toMatchObject({ success: false, error: "invalid_scope" });
+    });
+  });
+});
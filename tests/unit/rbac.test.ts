@@ -0,0 +1,167 @@
+import "./setup";
+import { expect, test, describe, beforeAll } from "bun:test";
+import crypto from "crypto";
+import { Hono, type Context, type Next } from "hono";
+import { requirePermission } from "shared-middleware";
+import { getTokenPermissions } from "shared-utils";
+
+import "../../services/auth/migrate";
+import { db, users, type User } from "../../services/auth/src/models/database";
+import { KeyService } from "../../services/auth/src/services/keyService";
+import { RoleService } from "../../services/auth/src/services/roleService";
+import { TokenService } from "../../services/auth/src/services/tokenService";
+import roleRoutes from "../../services/auth/src/routes/roles";
+
+const keyService = new KeyService();
+const roleService = new RoleService();
+const tokenService = new TokenService();
+const device = { ipAddress: "203.0.113.9", userAgent: "bun-test" };
+
+// Routes guarded the way the services guard theirs, behind a stand-in for
+// authentication that grants the permissions listed in a header
+const guarded = new Hono();
+guarded.use("*", async (c: Context, next: Next) => {
+  const permissions = c.req.header("x-permissions");
+  if (permissions === "anonymous") {
+    c.set("anonymous", true);
+    c.set("permissions", []);
+  } else if (permissions !== undefined) {
+    c.set("permissions", permissions ? permissions.split(",") : []);
+  }
+  await next();
+});
+guarded.get("/write", requirePermission("entities:write"), (c: Context) => c.text("ok"));
+guarded.get("/both", requirePermission("entities:write", "workflows:execute"), (c: Context) => c.text("ok"));
+
+const callGuarded = (path: string, permissions?: string) =>
+  guarded.request(path, { headers: permissions === undefined ? {} : { "x-permissions": permissions } });
+
+const auth = new Hono();
+auth.route("/auth", roleRoutes);
+
+const call = async (method: string, path: string, token: string, body?: unknown) => {
+  const response = await auth.request(`/auth${path}`, {
+    method,
+    headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, json: (await response.json()) as any };
+};
+
+const createUser = (role: "user" | "admin" = "user"): Pick<User, "id" | "email" | "role"> => {
+  const now = new Date().toISOString();
+  const user = { id: crypto.randomUUID(), email: `${crypto.randomUUID()}@example.com`, role };
+  db.insert(users).values({ ...user, name: "RBAC", password: "x", createdAt: now, updatedAt: now }).run();
+  return user;
+};
+
+const tokenFor = (userId: string, permissions: string[]) => keyService.signAccessToken({ userId, permissions });
+
+let editorToken: string;
+
+const createRole = async (name: string, permissions: string[]) => {
+  const created = await call("POST", "/roles", editorToken, { name, permissions });
+  expect(created.status).toBe(201);
+  return created.json.data.id as string;
+};
+
+describe("RBAC", () => {
+  beforeAll(() => {
+    editorToken = tokenFor(createUser().id, ["roles:manage", "audit:read", "webhooks:*"]);
+  });
+
+  describe("requirePermission", () => {
+    test("accepts exact, namespace and '*' grants", async () => {
+      for (const permissions of ["entities:write", "entities:*", "*"]) {
+        expect((await callGuarded("/write", permissions)).status).toBe(200);
+      }
+    });
+
+    test("requires every listed permission and names the missing ones", async () => {
+      const refused = await callGuarded("/both", "entities:read,workflows:*");
+      expect(refused.status).toBe(403);
+      expect(((await refused.json()) as { message: string }).message).toBe("Missing: entities:write");
+
+      expect((await callGuarded("/both", "entities:write,workflows:execute")).status).toBe(200);
+    });
+
+    test("refuses unauthenticated and anonymous callers", async () => {
+      expect((await callGuarded("/write")).status).toBe(401);
+      expect((await callGuarded("/write", "anonymous")).status).toBe(401);
+    });
+
+    test("falls back to the built-in role's permissions for tokens without claims", () => {
+      expect(getTokenPermissions({ role: "admin" })).toEqual(["*"]);
+      expect(getTokenPermissions({ role: "user" })).toContain("entities:write");
+      expect(getTokenPermissions({ role: "user", permissions: [] })).toEqual([]);
+      expect(getTokenPermissions({})).toEqual([]);
+    });
+  });
+
+  describe("roles", () => {
+    test("add the permissions of active assigned roles to the built-in role's", async () => {
+      const user = createUser();
+      const roleId = await createRole("auditor", ["audit:read"]);
+
+      expect((await call("POST", `/users/${user.id}/roles`, editorToken, { roleId })).status).toBe(201);
+      expect((await call("POST", `/users/${user.id}/roles`, editorToken, { roleId })).status).toBe(409);
+      const permissions = roleService.resolvePermissions(db, user);
+      expect(permissions).toContain("audit:read");
+      expect(permissions).toContain("entities:write");
+      expect(permissions).toEqual([...permissions].sort());
+
+      await call("PUT", `/roles/${roleId}`, editorToken, { isActive: false });
+      expect(roleService.resolvePermissions(db, user)).not.toContain("audit:read");
+    });
+
+    test("collapse to '*' when any grant covers everything", () => {
+      expect(roleService.resolvePermissions(db, createUser("admin"))).toEqual(["*"]);
+    });
+
+    test("edits reach the holder's access token at the next refresh", async () => {
+      const user = createUser();
+      const roleId = await createRole("hook-sender", ["webhooks:read"]);
+      await call("POST", `/users/${user.id}/roles`, editorToken, { roleId });
+
+      const tokens = db.transaction((tx) => tokenService.startSession(tx, user, device));
+      expect(keyService.verifyAccessToken(tokens.accessToken).permissions).toContain("webhooks:read");
+
+      expect((await call("PUT", `/roles/${roleId}`, editorToken, { permissions: ["webhooks:send"] })).status).toBe(200);
+      const rotated = await tokenService.rotateRefreshToken(tokens.refreshToken, device);
+      const { permissions } = keyService.verifyAccessToken(rotated.tokens!.accessToken);
+      expect(permissions).toContain("webhooks:send");
+      expect(permissions).not.toContain("webhooks:read");
+    });
+
+    test("cannot carry permissions their editor does not hold", async () => {
+      const created = await call("POST", "/roles", editorToken, { name: "user-admin", permissions: ["users:manage"] });
+      expect(created.status).toBe(403);
+      expect(created.json.message).toBe("users:manage");
+
+      const roleId = await createRole("limited", ["audit:read"]);
+      expect((await call("PUT", `/roles/${roleId}`, editorToken, { permissions: ["*"] })).status).toBe(403);
+
+      // Nor can an editor hand out a role that carries more than they hold
+      const superuser = await call("POST", "/roles", tokenFor(createUser().id, ["*"]), { name: "superuser", permissions: ["*"] });
+      expect(superuser.status).toBe(201);
+      const assigned = await call("POST", `/users/${createUser().id}/roles`, editorToken, { roleId: superuser.json.data.id });
+      expect(assigned.status).toBe(403);
+    });
+
+    test("are only managed with roles:manage", async () => {
+      const token = tokenFor(createUser().id, ["users:manage"]);
+      expect((await call("GET", "/roles", token)).status).toBe(403);
+      expect((await call("POST", "/roles", token, { name: "nope" })).status).toBe(403);
+    });
+
+    test("take their assignments with them when deleted", async () => {
+      const user = createUser();
+      const roleId = await createRole("temporary", ["audit:read"]);
+      await call("POST", `/users/${user.id}/roles`, editorToken, { roleId });
+
+      expect((await call("DELETE", `/roles/${roleId}`, editorToken)).status).toBe(200);
+      expect(await roleService.getUserRoles(user.id)).toEqual([]);
+      expect(roleService.resolvePermissions(db, user)).not.toContain("audit:read");
+    });
+  });
+});
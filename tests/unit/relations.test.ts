@@ -0,0 +1,219 @@
+import { expect, test, describe, beforeAll } from "bun:test";
+import { call } from "./dataApi";
+
+const createEntity = async (type: string, name = type) => {
+  const created = await call("POST", "/data/entities", { name, type, data: {} });
+  expect(created.status).toBe(201);
+  return created.json.data.id as string;
+};
+
+const relate = (sourceId: string, relation: string, targetId: string) =>
+  call("POST", `/data/entities/${sourceId}/relations`, { relation, targetId });
+
+const isLive = async (id: string) => (await call("GET", `/data/entities/${id}`)).status === 200;
+
+describe("Entity relations", () => {
+  beforeAll(async () => {
+    const relationTypes = [
+      { name: "rel_placed_by", sourceType: "rel-order", targetType: "rel-customer", cardinality: "many-to-one" },
+      { name: "rel_line_of", sourceType: "rel-line", targetType: "rel-order", cardinality: "many-to-one", onDelete: "cascade" },
+      { name: "rel_note_on", sourceType: "rel-note", targetType: "rel-line", cardinality: "many-to-one", onDelete: "cascade" },
+      { name: "rel_account_of", sourceType: "rel-account", targetType: "rel-customer", cardinality: "one-to-one" },
+      { name: "rel_manages", sourceType: "rel-customer", targetType: "rel-order", cardinality: "one-to-many" },
+      { name: "rel_tagged", sourceType: "rel-order", targetType: "rel-tag", cardinality: "many-to-many" },
+      { name: "rel_flagged", sourceType: "rel-tag", targetType: "rel-line", cardinality: "many-to-many" },
+      { name: "rel_refers_to", sourceType: "rel-note", targetType: "rel-order", cardinality: "many-to-many" },
+    ];
+    for (const relationType of relationTypes) {
+      expect((await call("POST", "/data/relation-types", relationType)).status).toBe(201);
+    }
+  });
+
+  describe("relation types", () => {
+    test("default to restrict and cannot be registered twice", async () => {
+      const { json } = await call("GET", "/data/relation-types");
+      expect(json.data.find((type: { name: string }) => type.name === "rel_placed_by").onDelete).toBe("restrict");
+
+      const again = await call("POST", "/data/relation-types", {
+        name: "rel_placed_by",
+        sourceType: "rel-order",
+        targetType: "rel-customer",
+        cardinality: "many-to-many",
+      });
+      expect(again.status).toBe(409);
+    });
+
+    test("reject invalid names and cardinalities", async () => {
+      const base = { sourceType: "a", targetType: "b", cardinality: "many-to-many" };
+      expect((await call("POST", "/data/relation-types", { ...base, name: "placed-by" })).status).toBe(400);
+      expect((await call("POST", "/data/relation-types", { ...base, name: "rel_x", cardinality: "some" })).status).toBe(400);
+    });
+  });
+
+  describe("linking", () => {
+    test("checks the relation and both entity types", async () => {
+      const order = await createEntity("rel-order");
+      const customer = await createEntity("rel-customer");
+
+      const wrongSource = await relate(customer, "rel_placed_by", order);
+      expect(wrongSource.status).toBe(400);
+      expect(wrongSource.json.message).toContain("links rel-order entities, not rel-customer");
+
+      const wrongTarget = await relate(order, "rel_placed_by", order);
+      expect(wrongTarget.status).toBe(400);
+      expect(wrongTarget.json.message).toContain("links to rel-customer entities, not rel-order");
+
+      expect((await relate(order, "rel_unknown", customer)).status).toBe(400);
+      expect((await relate(order, "rel_placed_by", "missing")).status).toBe(400);
+      expect((await relate("missing", "rel_placed_by", customer)).status).toBe(404);
+    });
+
+    test("lists relations from either end", async () => {
+      const order = await createEntity("rel-order");
+      const customer = await createEntity("rel-customer");
+      const created = await relate(order, "rel_placed_by", customer);
+      expect(created.status).toBe(201);
+
+      const outgoing = await call("GET", `/data/entities/${order}/relations`);
+      expect(outgoing.json.data.map((item: any) => [item.relation, item.direction, item.entity.id])).toEqual([
+        ["rel_placed_by", "outgoing", customer],
+      ]);
+      const fromCustomer = await call("GET", `/data/entities/${customer}/relations?direction=outgoing`);
+      expect(fromCustomer.json.data).toEqual([]);
+
+      // Either entity can remove it
+      const relationId = created.json.data.id;
+      expect((await call("DELETE", `/data/entities/${customer}/relations/${relationId}`)).status).toBe(200);
+      expect((await call("DELETE", `/data/entities/${order}/relations/${relationId}`)).status).toBe(404);
+    });
+  });
+
+  describe("cardinality", () => {
+    test("many-to-one allows one target per source", async () => {
+      const [first, second] = [await createEntity("rel-order"), await createEntity("rel-order")];
+      const customer = await createEntity("rel-customer");
+      const other = await createEntity("rel-customer");
+
+      expect((await relate(first, "rel_placed_by", customer)).status).toBe(201);
+      expect((await relate(second, "rel_placed_by", customer)).status).toBe(201);
+
+      const conflict = await relate(first, "rel_placed_by", other);
+      expect(conflict.status).toBe(409);
+      expect(conflict.json.message).toContain("(many-to-one)");
+    });
+
+    test("one-to-many allows one source per target", async () => {
+      const [manager, other] = [await createEntity("rel-customer"), await createEntity("rel-customer")];
+      const [first, second] = [await createEntity("rel-order"), await createEntity("rel-order")];
+
+      expect((await relate(manager, "rel_manages", first)).status).toBe(201);
+      expect((await relate(manager, "rel_manages", second)).status).toBe(201);
+      expect((await relate(other, "rel_manages", first)).status).toBe(409);
+    });
+
+    test("one-to-one allows one link at each end", async () => {
+      const [account, spare] = [await createEntity("rel-account"), await createEntity("rel-account")];
+      const [customer, other] = [await createEntity("rel-customer"), await createEntity("rel-customer")];
+
+      expect((await relate(account, "rel_account_of", customer)).status).toBe(201);
+      expect((await relate(account, "rel_account_of", other)).status).toBe(409);
+      expect((await relate(spare, "rel_account_of", customer)).status).toBe(409);
+      expect((await relate(spare, "rel_account_of", other)).status).toBe(201);
+    });
+
+    test("many-to-many only refuses the same link twice", async () => {
+      const [order, other] = [await createEntity("rel-order"), await createEntity("rel-order")];
+      const [tag, second] = [await createEntity("rel-tag"), await createEntity("rel-tag")];
+
+      for (const [source, target] of [[order, tag], [order, second], [other, tag]]) {
+        expect((await relate(source, "rel_tagged", target)).status).toBe(201);
+      }
+      const duplicate = await relate(order, "rel_tagged", tag);
+      expect(duplicate.status).toBe(409);
+      expect(duplicate.json.message).toContain("is already linked");
+    });
+  });
+
+  describe("deletes", () => {
+    test("cascade deletes the linked entities transitively", async () => {
+      const order = await createEntity("rel-order");
+      const lines = [await createEntity("rel-line"), await createEntity("rel-line")];
+      const note = await createEntity("rel-note");
+      for (const line of lines) {
+        await relate(line, "rel_line_of", order);
+      }
+      await relate(note, "rel_note_on", lines[0]);
+
+      const deleted = await call("DELETE", `/data/entities/${order}`);
+      expect(deleted.status).toBe(200);
+      expect([...deleted.json.data.cascaded].sort()).toEqual([...lines, note].sort());
+
+      for (const id of [order, ...lines, note]) {
+        expect(await isLive(id)).toBe(false);
+      }
+    });
+
+    test("restrict refuses while a live entity links to the target", async () => {
+      const order = await createEntity("rel-order");
+      const customer = await createEntity("rel-customer");
+      const relationId = (await relate(order, "rel_placed_by", customer)).json.data.id;
+
+      const refused = await call("DELETE", `/data/entities/${customer}`);
+      expect(refused.status).toBe(409);
+      expect(refused.json.error).toBe("Relation conflict");
+      expect(refused.json.message).toContain(`linked from ${order} by rel_placed_by`);
+      expect(await isLive(customer)).toBe(true);
+
+      await call("DELETE", `/data/entities/${order}/relations/${relationId}`);
+      expect((await call("DELETE", `/data/entities/${customer}`)).status).toBe(200);
+    });
+
+    test("deleted sources no longer restrict", async () => {
+      const order = await createEntity("rel-order");
+      const customer = await createEntity("rel-customer");
+      await relate(order, "rel_placed_by", customer);
+
+      expect((await call("DELETE", `/data/entities/${order}`)).status).toBe(200);
+      expect((await call("DELETE", `/data/entities/${customer}`)).status).toBe(200);
+    });
+
+    test("a restrict link into the cascade blocks the whole delete", async () => {
+      const order = await createEntity("rel-order");
+      const line = await createEntity("rel-line");
+      const tag = await createEntity("rel-tag");
+      await relate(line, "rel_line_of", order);
+      await relate(tag, "rel_flagged", line);
+
+      const refused = await call("DELETE", `/data/entities/${order}`);
+      expect(refused.status).toBe(409);
+      expect(refused.json.message).toContain(`Entity ${line} is linked from ${tag} by rel_flagged`);
+      expect(await isLive(order)).toBe(true);
+      expect(await isLive(line)).toBe(true);
+    });
+
+    test("restrict links from entities in the cascade don't block it", async () => {
+      const order = await createEntity("rel-order");
+      const line = await createEntity("rel-line");
+      const note = await createEntity("rel-note");
+      await relate(line, "rel_line_of", order);
+      await relate(note, "rel_note_on", line);
+      await relate(note, "rel_refers_to", order);
+
+      const deleted = await call("DELETE", `/data/entities/${order}`);
+      expect(deleted.status).toBe(200);
+      expect([...deleted.json.data.cascaded].sort()).toEqual([line, note].sort());
+    });
+  });
+
+  test("an entity cannot change type while its relations need the old one", async () => {
+    const order = await createEntity("rel-order");
+    const customer = await createEntity("rel-customer");
+    await relate(order, "rel_placed_by", customer);
+
+    const changed = await call("PUT", `/data/entities/${order}`, { type: "rel-invoice" });
+    expect(changed.status).toBe(409);
+    expect(changed.json.message).toContain("do not allow type rel-invoice");
+
+    expect((await call("PUT", `/data/entities/${order}`, { name: "Renamed" })).status).toBe(200);
+  });
+});
@@ -0,0 +1,107 @@
+import "./setup";
+import { expect, test, describe, beforeAll, afterAll } from "bun:test";
+import { createJwksVerifier, SessionCheckUnavailableError } from "shared-utils";
+
+import "../../services/auth/migrate";
+import { db, users, type User } from "../../services/auth/src/models/database";
+import { TokenService } from "../../services/auth/src/services/tokenService";
+import { AuthService } from "../../services/auth/src/services/authService";
+import { KeyService } from "../../services/auth/src/services/keyService";
+
+const AUTH_URL = "http://auth.test";
+const tokenService = new TokenService();
+const authService = new AuthService();
+const keyService = new KeyService();
+const device = { ipAddress: "203.0.113.8", userAgent: "bun-test" };
+
+let user: Pick<User, "id" | "email" | "role">;
+let sessionStatus: "up" | "down" = "up";
+let sessionChecks = 0;
+const originalFetch = globalThis.fetch;
+
+const login = () => db.transaction((tx) => tokenService.startSession(tx, user, device));
+const sessionOf = (accessToken: string): string => keyService.verifyAccessToken(accessToken).sid;
+
+// Verifiers in other services check sessions without caching the answer
+const verifier = () => createJwksVerifier({
+  jwksUrl: `${AUTH_URL}/.well-known/jwks.json`,
+  sessions: { authServiceUrl: AUTH_URL, cacheTtlMs: 0 },
+});
+
+describe("Session revocation in other services", () => {
+  beforeAll(() => {
+    const now = new Date().toISOString();
+    user = { id: crypto.randomUUID(), email: "sessions@example.com", role: "user" };
+    db.insert(users).values({ ...user, name: "Sessions", password: "x", createdAt: now, updatedAt: now }).run();
+
+    // Answer the verifier's requests the way auth-service's routes do
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      if (url.endsWith("/.well-known/jwks.json")) {
+        return Response.json(keyService.getJwks());
+      }
+      if (url.endsWith("/auth/sessions/status")) {
+        sessionChecks++;
+        if (sessionStatus === "down") return new Response("unavailable", { status: 503 });
+        const { sessionId } = JSON.parse(String(init?.body));
+        return Response.json({ success: true, data: { active: await authService.isSessionActive(sessionId) } });
+      }
+      return new Response("not found", { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("accepts tokens of active sessions", async () => {
+    const tokens = login();
+    const payload = await verifier()(tokens.accessToken);
+
+    expect(payload.userId).toBe(user.id);
+    expect(payload.sid).toBe(sessionOf(tokens.accessToken));
+  });
+
+  test("refuses tokens once their session is revoked", async () => {
+    const verify = verifier();
+    const tokens = login();
+    await verify(tokens.accessToken);
+
+    await authService.revokeUserSession(sessionOf(tokens.accessToken), user.id);
+    await expect(verify(tokens.accessToken)).rejects.toThrow("Session revoked");
+  });
+
+  test("refuses tokens once their family is revoked for reuse", async () => {
+    const verify = verifier();
+    const tokens = login();
+    await tokenService.rotateRefreshToken(tokens.refreshToken, device);
+    await tokenService.rotateRefreshToken(tokens.refreshToken, device);
+
+    await expect(verify(tokens.accessToken)).rejects.toThrow("Session revoked");
+  });
+
+  test("reports an unreachable auth-service apart from invalid tokens", async () => {
+    const verify = verifier();
+    const tokens = login();
+
+    sessionStatus = "down";
+    try {
+      await expect(verify(tokens.accessToken)).rejects.toBeInstanceOf(SessionCheckUnavailableError);
+    } finally {
+      sessionStatus = "up";
+    }
+  });
+
+  test("caches answers for the configured time", async () => {
+    const verify = createJwksVerifier({
+      jwksUrl: `${AUTH_URL}/.well-known/jwks.json`,
+      sessions: { authServiceUrl: AUTH_URL, cacheTtlMs: 60000 },
+    });
+    const tokens = login();
+
+    const before = sessionChecks;
+    await verify(tokens.accessToken);
+    await verify(tokens.accessToken);
+    expect(sessionChecks - before).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+// Shared setup for unit tests that use the services' SQLite databases.
+// Import it before any service module.
+
+import { mkdtempSync, mkdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sql } from "drizzle-orm";
+import { getTableConfig, type BaseSQLiteDatabase, type SQLiteTable } from "drizzle-orm/sqlite-core";
+
+// Services open their databases under ./data of the working directory, so the
+// tests run from a scratch directory that is removed when they finish
+const directory = mkdtempSync(join(tmpdir(), "platform-tests-"));
+mkdirSync(join(directory, "data"));
+process.chdir(directory);
+process.on("exit", () => rmSync(directory, { recursive: true, force: true }));
+
+// Create tables from their Drizzle schema, for services whose tables are
+// pushed with drizzle-kit rather than created by a migration script
+export const createTables = (db: BaseSQLiteDatabase<"sync", any, any>, ...tables: SQLiteTable[]) => {
+  for (const table of tables) {
+    const { name, columns, indexes } = getTableConfig(table);
+
+    const definitions = columns.map((column) => {
+      let definition = `"${column.name}" ${column.getSQLType()}`;
+      if (column.primary) definition += " PRIMARY KEY";
+      if (column.notNull) definition += " NOT NULL";
+      if (column.isUnique) definition += " UNIQUE";
+      if (column.default !== undefined) definition += ` DEFAULT ${JSON.stringify(column.default).replace(/"/g, "'")}`;
+      return definition;
+    });
+    db.run(sql.raw(`CREATE TABLE IF NOT EXISTS "${name}" (${definitions.join(", ")})`));
+
+    for (const index of indexes) {
+      const { name: indexName, columns: indexColumns, unique } = index.config;
+      const columnNames = indexColumns.map((column) => `"${(column as { name: string }).name}"`);
+      db.run(sql.raw(
+        `CREATE ${unique ? "UNIQUE " : ""}INDEX IF NOT EXISTS "${indexName}" ON "${name}" (${columnNames.join(", ")})`
+      ));
+    }
+  }
+};
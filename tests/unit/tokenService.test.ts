@@ -0,0 +1,106 @@
+import "./setup";
+import { expect, test, describe, beforeAll } from "bun:test";
+import { eq } from "drizzle-orm";
+
+import "../../services/auth/migrate";
+import { db, users, authTokens, userSessions, type User } from "../../services/auth/src/models/database";
+import { TokenService } from "../../services/auth/src/services/tokenService";
+import { AuthService } from "../../services/auth/src/services/authService";
+import { KeyService } from "../../services/auth/src/services/keyService";
+
+const tokenService = new TokenService();
+const authService = new AuthService();
+const keyService = new KeyService();
+const device = { ipAddress: "203.0.113.7", userAgent: "bun-test" };
+
+let user: Pick<User, "id" | "email" | "role">;
+
+const login = () => db.transaction((tx) => tokenService.startSession(tx, user, device));
+const sessionOf = (accessToken: string): string => keyService.verifyAccessToken(accessToken).sid;
+
+describe("Refresh token rotation", () => {
+  beforeAll(() => {
+    const now = new Date().toISOString();
+    user = { id: crypto.randomUUID(), email: "rotation@example.com", role: "user" };
+    db.insert(users).values({ ...user, name: "Rotation", password: "x", createdAt: now, updatedAt: now }).run();
+  });
+
+  test("a login starts an active session bound to the access token", async () => {
+    const tokens = login();
+
+    expect(tokens.tokenType).toBe("Bearer");
+    expect(await authService.isSessionActive(sessionOf(tokens.accessToken))).toBe(true);
+  });
+
+  test("rotating replaces the refresh token within the same session", async () => {
+    const first = login();
+    const rotated = await tokenService.rotateRefreshToken(first.refreshToken, device);
+
+    expect(rotated.success).toBe(true);
+    expect(rotated.tokens!.refreshToken).not.toBe(first.refreshToken);
+    expect(sessionOf(rotated.tokens!.accessToken)).toBe(sessionOf(first.accessToken));
+
+    const second = await tokenService.rotateRefreshToken(rotated.tokens!.refreshToken, device);
+    expect(second.success).toBe(true);
+  });
+
+  test("reusing a rotated refresh token revokes the whole family", async () => {
+    const first = login();
+    const rotated = await tokenService.rotateRefreshToken(first.refreshToken, device);
+    expect(rotated.success).toBe(true);
+
+    const reused = await tokenService.rotateRefreshToken(first.refreshToken, device);
+    expect(reused).toEqual({ success: false, error: "Refresh token reuse detected" });
+
+    // The token issued by the legitimate rotation stops working too
+    const latest = await tokenService.rotateRefreshToken(rotated.tokens!.refreshToken, device);
+    expect(latest).toEqual({ success: false, error: "Refresh token revoked" });
+
+    const sessionId = sessionOf(first.accessToken);
+    expect(await authService.isSessionActive(sessionId)).toBe(false);
+
+    const [session] = db.select().from(userSessions).where(eq(userSessions.id, sessionId)).all();
+    const family = db.select().from(authTokens).where(eq(authTokens.familyId, session.sessionToken)).all();
+    expect(family).toHaveLength(2);
+    expect(family.every((token) => token.revokedAt !== null)).toBe(true);
+  });
+
+  test("reuse leaves the user's other sessions alone", async () => {
+    const other = login();
+    const first = login();
+    await tokenService.rotateRefreshToken(first.refreshToken, device);
+    await tokenService.rotateRefreshToken(first.refreshToken, device);
+
+    expect(await authService.isSessionActive(sessionOf(other.accessToken))).toBe(true);
+    expect((await tokenService.rotateRefreshToken(other.refreshToken, device)).success).toBe(true);
+  });
+
+  test("logout ends the session and its refresh tokens", async () => {
+    const tokens = login();
+
+    expect(await tokenService.logout(tokens.refreshToken)).toEqual({ success: true });
+    expect(await authService.isSessionActive(sessionOf(tokens.accessToken))).toBe(false);
+    expect(await tokenService.rotateRefreshToken(tokens.refreshToken, device)).toEqual({
+      success: false,
+      error: "Refresh token revoked",
+    });
+  });
+
+  test("revoking a session stops its refresh token", async () => {
+    const tokens = login();
+    const sessionId = sessionOf(tokens.accessToken);
+
+    expect(await authService.revokeUserSession(sessionId, user.id)).toEqual({ success: true });
+    expect(await authService.isSessionActive(sessionId)).toBe(false);
+    expect((await tokenService.rotateRefreshToken(tokens.refreshToken, device)).success).toBe(false);
+  });
+
+  test("rejects tampered refresh tokens", async () => {
+    const tokens = login();
+
+    expect(await tokenService.rotateRefreshToken(`${tokens.refreshToken}x`, device)).toEqual({
+      success: false,
+      error: "Invalid refresh token",
+    });
+  });
+});